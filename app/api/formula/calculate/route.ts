@@ -12,16 +12,30 @@ import {
   type CustomerData,
   type FormulationResult,
   validateCustomerData,
+  validateMeasurementUnits,
   validateAllIntakeFields,
   convertAllIntakesToMg,
   detectIntakeFormats,
   applyCustomerDefaults,
+  resolveUnitSystem,
+  renderFormulationUnits,
+  isUnitSystem,
   buildErrorResponse,
   buildInvalidRequestResponse,
 } from '@/types';
 
 import { V1DatabaseMappingService } from '@/lib/services/v1-database-mapping';
-import { createCalculationEngine } from '@/lib/calculation-engine/factory';
+import { ShadowComparisonService } from '@/lib/services/shadow-comparison-service';
+import { FormulationKitService } from '@/lib/services/formulation-kit-service';
+import { buildFormulationKit } from '@/lib/calculation-engine/kit-builder';
+import { createCalculationEngine, getActiveEngineKind, getEngineLabel } from '@/lib/calculation-engine/factory';
+import { isSafetyLimitViolation } from '@/lib/calculation-engine/safety-enforcement';
+import { resolveFormulaVersion } from '@/lib/calculation-engine/versions';
+
+function withoutCalculationTrace(formulation: FormulationResult): FormulationResult {
+  const { calculationTrace, ...metadata } = formulation.metadata;
+  return { ...formulation, metadata };
+}
 
 export async function POST(request: NextRequest): Promise<NextResponse<FormulaCalculationResponse>> {
   try {
@@ -34,11 +48,37 @@ export async function POST(request: NextRequest): Promise<NextResponse<FormulaCa
       return NextResponse.json(response, { status });
     }
 
+    if (body.options?.units !== undefined && !isUnitSystem(body.options.units)) {
+      const { response, status } = buildInvalidRequestResponse('options.units must be "imperial" or "metric"');
+      return NextResponse.json(response, { status });
+    }
+
+    // Resolve requested formula version (defaults to current stable, rejects retired)
+    const formulaVersion = resolveFormulaVersion(body.options?.formulaVersion);
+    if (!formulaVersion.success) {
+      const { response, status } = buildErrorResponse(formulaVersion.error!.code, formulaVersion.error!.message);
+      return NextResponse.json(response, { status });
+    }
+
     // Extract session and user context from headers (set by middleware)
     const sessionId = request.headers.get('x-session-id') || `anon_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
     const userId = request.headers.get('x-user-id') || null;
 
-    // Apply defaults to customer data
+    // Unit fields are checked on the raw input; applyCustomerDefaults normalizes them away
+    const unitValidation = validateMeasurementUnits(body.customerData);
+    if (!unitValidation.isValid) {
+      return NextResponse.json({
+        success: false,
+        validation: unitValidation,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Customer data validation failed',
+          details: unitValidation.errors,
+        },
+      }, { status: 400 });
+    }
+
+    // Apply defaults to customer data (metric measurements normalized to lb, fl oz, °F and ft)
     const customerData: CustomerData = applyCustomerDefaults(body.customerData);
 
     // Validate customer data
@@ -97,8 +137,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<FormulaCa
     const detectedFormats = detectIntakeFormats(customerData);
 
     // Calculate formulation using appropriate engine (mock in dev, real in prod)
-    const engine = createCalculationEngine();
-    const formulation = await engine.calculate(customerData);
+    // Every engine clamps to SAFETY_LIMITS and refuses formulations that violate hard limits
+    // Kit mode returns one formulation per qualifying use case; the primary doubles as data.formulation
+    const engine = createCalculationEngine(formulaVersion.definition);
+    const kit = body.options?.kit ? await buildFormulationKit(engine, customerData, formulaVersion.definition!.constants) : null;
+    const formulation = kit ? kit.components[0].formulation : await engine.calculate(customerData);
 
     // Save customer survey data to database using service layer
     const surveyResult = await V1DatabaseMappingService.saveCustomerSurvey(
@@ -118,11 +161,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<FormulaCa
       }, { status: 500 });
     }
 
-    // Save formulation result to database using service layer
-    const formulationSaveResult = await V1DatabaseMappingService.saveFormulationResult(
-      surveyResult.surveyId!,
-      formulation
-    );
+    // Save formulation result (or linked kit rows) to database using service layer
+    const kitSaveResult = kit ? await FormulationKitService.saveFormulationKit(surveyResult.surveyId!, kit) : null;
+    const formulationSaveResult = kitSaveResult
+      ? { success: kitSaveResult.success, resultId: kitSaveResult.resultIds?.[0] }
+      : await V1DatabaseMappingService.saveFormulationResult(surveyResult.surveyId!, formulation);
 
     if (!formulationSaveResult.success) {
       // Log error but don't fail the request - we still have the calculation
@@ -133,11 +176,32 @@ export async function POST(request: NextRequest): Promise<NextResponse<FormulaCa
       });
     }
 
+    // Shadow mode: run the candidate engine alongside and store the diff (never returned)
+    // Not awaited so the customer response never waits on, or fails with, the shadow path
+    ShadowComparisonService.runShadowComparison(
+      customerData,
+      formulation,
+      getEngineLabel(getActiveEngineKind(), formulaVersion.definition!),
+      surveyResult.surveyId
+    ).catch(async error => {
+      const { logger } = await import('@/lib/logger');
+      logger.error('Shadow comparison failed', error instanceof Error ? error : new Error(String(error)), {
+        endpoint: '/api/formula/calculate',
+        surveyId: surveyResult.surveyId,
+      });
+    });
+
+    // Calculation trace is always stored, but only returned when metadata is requested
+    // Stored values stay canonical; the response is rendered in the caller's unit system
+    const unitSystem = resolveUnitSystem(body.options?.units, customerData);
+    const formatFormulation = (result: FormulationResult): FormulationResult =>
+      renderFormulationUnits(body.options?.includeMetadata ? result : withoutCalculationTrace(result), unitSystem);
+
     // Return successful response with database IDs
     const response: FormulaCalculationResponse = {
       success: true,
       data: {
-        formulation: formulation,
+        formulation: formatFormulation(formulation),
         intakeAnalysis: {
           formats: detectedFormats,
           converted: convertedIntakes,
@@ -145,6 +209,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<FormulaCa
         },
         surveyId: surveyResult.surveyId,
         formulationId: formulationSaveResult.resultId,
+        ...(kit && {
+          kit: {
+            ...kit,
+            components: kit.components.map(component => ({ ...component, formulation: formatFormulation(component.formulation) })),
+          },
+          kitId: kitSaveResult?.kitId,
+          formulationIds: kitSaveResult?.resultIds,
+        }),
       },
       validation: {
         isValid: true,
@@ -158,6 +230,16 @@ export async function POST(request: NextRequest): Promise<NextResponse<FormulaCa
   } catch (error) {
     // Import logger for production-ready error handling
     const { logger } = await import('@/lib/logger');
+
+    if (isSafetyLimitViolation(error)) {
+      logger.error('Formulation refused by safety limits', error, {
+        endpoint: '/api/formula/calculate',
+        violations: error.details,
+      });
+      const { response, status } = buildErrorResponse(error.code, error.message, error.details, 422);
+      return NextResponse.json(response, { status });
+    }
+
     logger.error('Formula calculation failed', error as Error, {
       endpoint: '/api/formula/calculate',
       userAgent: request.headers.get('user-agent'),
@@ -0,0 +1,106 @@
+/**
+ * Formulation Feedback API Route
+ *
+ * Records and lists post-consumption feedback (cramps, GI upset, sleep
+ * quality, taste, energy) on the signed-in customer's own formulations
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { FormulationFeedbackService } from '@/lib/services/formulation-feedback-service';
+import {
+  buildErrorResponse,
+  buildInvalidRequestResponse,
+  type FormulationFeedback,
+  type FormulationFeedbackRequest,
+} from '@/types';
+
+const SYMPTOM_SEVERITIES = ['none', 'mild', 'moderate', 'severe'];
+const FEEDBACK_RATINGS = [1, 2, 3, 4, 5];
+
+function isValidFeedback(feedback: FormulationFeedback | undefined): boolean {
+  return !!feedback &&
+    SYMPTOM_SEVERITIES.includes(feedback.cramps) &&
+    SYMPTOM_SEVERITIES.includes(feedback.giUpset) &&
+    FEEDBACK_RATINGS.includes(feedback.sleepQuality) &&
+    FEEDBACK_RATINGS.includes(feedback.taste) &&
+    FEEDBACK_RATINGS.includes(feedback.energy) &&
+    (feedback.comments === undefined || typeof feedback.comments === 'string');
+}
+
+function unauthorized(): NextResponse {
+  const { response, status } = buildErrorResponse('UNAUTHORIZED', 'Customer must be signed in to give formulation feedback', undefined, 401);
+  return NextResponse.json(response, { status });
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const formulationId = request.nextUrl.searchParams.get('formulationId');
+    const user = await getSessionUser(request);
+
+    if (!formulationId) {
+      const { response, status } = buildInvalidRequestResponse('formulationId is required');
+      return NextResponse.json(response, { status });
+    }
+    if (!user) return unauthorized();
+
+    const result = await FormulationFeedbackService.getFeedback(formulationId, user.userId);
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('NOT_FOUND', 'Formulation not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: { formulationId, feedback: result.feedback } });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Formulation feedback lookup failed', error as Error, {
+      endpoint: '/api/formula/feedback',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while loading formulation feedback',
+      },
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: FormulationFeedbackRequest = await request.json();
+    const user = await getSessionUser(request);
+
+    if (!body.formulationId || !isValidFeedback(body.feedback)) {
+      const { response, status } = buildInvalidRequestResponse(
+        'formulationId is required; cramps and giUpset must be none, mild, moderate or severe; sleepQuality, taste and energy must be 1-5'
+      );
+      return NextResponse.json(response, { status });
+    }
+    if (!user) return unauthorized();
+
+    const result = await FormulationFeedbackService.recordFeedback(body.formulationId, user.userId, body.feedback);
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('NOT_FOUND', 'Formulation not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: { feedback: result.feedback } }, { status: 201 });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Formulation feedback failed', error as Error, {
+      endpoint: '/api/formula/feedback',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while recording formulation feedback',
+      },
+    }, { status: 500 });
+  }
+}
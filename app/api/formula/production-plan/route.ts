@@ -0,0 +1,71 @@
+/**
+ * Production Plan API Route
+ *
+ * Groups the orderable formulations saved in a date range into daily
+ * production batches and machine-sized runs, with raw compound totals
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductionPlanService } from '@/lib/services/production-plan-service';
+import { buildErrorResponse } from '@/types';
+
+/**
+ * Positive integer query parameter; undefined when absent, NaN when invalid
+ */
+function parseCount(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const count = Number(value);
+  return Number.isInteger(count) && count > 0 ? count : NaN;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = request.nextUrl;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!from || !to || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+      const { response, status } = buildErrorResponse('INVALID_REQUEST', 'from and to must be ISO 8601 timestamps');
+      return NextResponse.json(response, { status });
+    }
+
+    const options = {
+      maxContainersPerRun: parseCount(searchParams.get('maxContainersPerRun')),
+      supplyDays: parseCount(searchParams.get('supplyDays')),
+    };
+
+    if (Number.isNaN(options.maxContainersPerRun) || Number.isNaN(options.supplyDays)) {
+      const { response, status } = buildErrorResponse('INVALID_REQUEST', 'maxContainersPerRun and supplyDays must be positive integers');
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await ProductionPlanService.getProductionPlan({ from, to }, options);
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('DATABASE_ERROR', 'Failed to load formulations for production', undefined, 500);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        plan: result.plan,
+      },
+    });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Production plan failed', error as Error, {
+      endpoint: '/api/formula/production-plan',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while building the production plan',
+      },
+    }, { status: 500 });
+  }
+}
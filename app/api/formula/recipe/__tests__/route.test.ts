@@ -0,0 +1,64 @@
+/**
+ * Compounding Recipe Route Tests
+ *
+ * Verifies that recipe sheets are only released for orderable formulations
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { ClinicianReviewService } from '@/lib/services/clinician-review-service';
+import { RecipeSheetService } from '@/lib/services/recipe-sheet-service';
+import type { RecipeSheet } from '@/types';
+
+jest.mock('@/lib/supabase/client', () => ({}));
+jest.mock('@/lib/services/clinician-review-service');
+jest.mock('@/lib/services/recipe-sheet-service');
+jest.mock('@/lib/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const reviews = jest.mocked(ClinicianReviewService);
+const recipes = jest.mocked(RecipeSheetService);
+
+const recipeRequest = () => new NextRequest('http://localhost/api/formula/recipe?formulationId=teen-formulation');
+
+describe('Compounding Recipe Route', () => {
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should refuse the recipe of a minor without guardian consent', async () => {
+    reviews.getOrderability.mockResolvedValue({
+      success: true,
+      reviewStatus: 'not-required',
+      guardianConsentRequired: true,
+      guardianConsentCaptured: false,
+      orderable: false,
+    });
+
+    const response = await GET(recipeRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error.code).toBe('NOT_ORDERABLE');
+    expect(body.error.details).toEqual(['Guardian consent from the named guardian\'s account is required']);
+    expect(recipes.getRecipeSheet).not.toHaveBeenCalled();
+  });
+
+  it('should return the recipe of an orderable formulation', async () => {
+    const recipe = { ingredients: [] } as unknown as RecipeSheet;
+    reviews.getOrderability.mockResolvedValue({
+      success: true,
+      reviewStatus: 'approved',
+      guardianConsentRequired: true,
+      guardianConsentCaptured: true,
+      orderable: true,
+    });
+    recipes.getRecipeSheet.mockResolvedValue({ success: true, recipe });
+
+    const response = await GET(recipeRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ formulationId: 'teen-formulation', recipe });
+  });
+});
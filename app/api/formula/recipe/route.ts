@@ -0,0 +1,76 @@
+/**
+ * Compounding Recipe API Route
+ *
+ * Returns the recipe sheet stored with a formulation result: grams of each
+ * raw compound per serving and per container, as JSON or CSV for the
+ * production floor. Only orderable formulations get a recipe: those held for
+ * clinician review, and minors' formulations without guardian consent from
+ * the guardian's own account, are refused.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { RecipeSheetService } from '@/lib/services/recipe-sheet-service';
+import { ClinicianReviewService } from '@/lib/services/clinician-review-service';
+import { formatRecipeCsv } from '@/lib/calculation-engine/recipe-sheet';
+import { isOrderable } from '@/lib/calculation-engine/contraindications';
+import { buildErrorResponse, buildInvalidRequestResponse, type RecipeSheetFormat } from '@/types';
+
+const RECIPE_FORMATS: RecipeSheetFormat[] = ['json', 'csv'];
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const formulationId = request.nextUrl.searchParams.get('formulationId');
+    const format = (request.nextUrl.searchParams.get('format') || 'json') as RecipeSheetFormat;
+
+    if (!formulationId || !RECIPE_FORMATS.includes(format)) {
+      const { response, status } = buildInvalidRequestResponse('formulationId is required and format must be json or csv');
+      return NextResponse.json(response, { status });
+    }
+
+    const orderability = await ClinicianReviewService.getOrderability(formulationId);
+    if (!orderability.success) {
+      const { response, status } = buildErrorResponse('NOT_FOUND', 'Formulation not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+    if (!orderability.orderable) {
+      const { response, status } = buildErrorResponse('NOT_ORDERABLE', 'Formulation cannot be ordered', [
+        ...(!isOrderable(orderability.reviewStatus!)
+          ? [`Clinician review status: ${orderability.reviewStatus}`] : []),
+        ...(orderability.guardianConsentRequired && !orderability.guardianConsentCaptured
+          ? ['Guardian consent from the named guardian\'s account is required'] : []),
+      ], 409);
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await RecipeSheetService.getRecipeSheet(formulationId);
+    if (!result.success || !result.recipe) {
+      const { response, status } = buildErrorResponse('NOT_FOUND', 'Formulation not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(formatRecipeCsv(result.recipe), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="recipe-${formulationId}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: { formulationId, recipe: result.recipe } });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Recipe sheet failed', error as Error, {
+      endpoint: '/api/formula/recipe',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while loading the recipe sheet',
+      },
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Reformulation Route Tests
+ *
+ * Verifies that reformulations are only proposed for the customer signed in
+ * to the Supabase session, never for an id sent in request headers
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { FormulationFeedbackService } from '@/lib/services/formulation-feedback-service';
+import { getRequestUser } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({ getRequestUser: jest.fn() }));
+jest.mock('@/lib/services/formulation-feedback-service');
+jest.mock('@/lib/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const service = jest.mocked(FormulationFeedbackService);
+const sessions = jest.mocked(getRequestUser);
+
+const reformulateRequest = (headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost/api/formula/reformulate', {
+    method: 'POST',
+    body: JSON.stringify({ formulationId: 'owner-formulation' }),
+    headers,
+  });
+
+describe('Reformulation Route', () => {
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should refuse a request without a session even when x-user-id is sent', async () => {
+    sessions.mockResolvedValue(null);
+
+    const response = await POST(reformulateRequest({ 'x-user-id': 'owner-id' }));
+
+    expect(response.status).toBe(401);
+    expect(service.createReformulation).not.toHaveBeenCalled();
+  });
+
+  it('should check ownership against the session user rather than the header', async () => {
+    sessions.mockResolvedValue({ id: 'other-customer-id', email: 'other@example.com' } as Awaited<ReturnType<typeof getRequestUser>>);
+    service.createReformulation.mockResolvedValue({ success: false, error: 'Formulation not found' });
+
+    const response = await POST(reformulateRequest({ 'x-user-id': 'owner-id' }));
+
+    expect(response.status).toBe(404);
+    expect(service.createReformulation).toHaveBeenCalledWith('owner-formulation', 'other-customer-id', undefined);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Reformulation API Route
+ *
+ * Proposes bounded per-serving adjustments to one of the signed-in customer's
+ * formulations from their recorded feedback. The proposal is stored linked to
+ * the original result; the original formulation is not changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { FormulationFeedbackService } from '@/lib/services/formulation-feedback-service';
+import { buildErrorResponse, buildInvalidRequestResponse, type ReformulationRequest } from '@/types';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: ReformulationRequest = await request.json();
+    const user = await getSessionUser(request);
+
+    if (!body.formulationId) {
+      const { response, status } = buildInvalidRequestResponse('formulationId is required');
+      return NextResponse.json(response, { status });
+    }
+    if (!user) {
+      const { response, status } = buildErrorResponse('UNAUTHORIZED', 'Customer must be signed in to request a reformulation', undefined, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await FormulationFeedbackService.createReformulation(body.formulationId, user.userId, body.feedbackId);
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('NOT_FOUND', 'Formulation or feedback not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { reformulationId: result.reformulationId, proposal: result.proposal },
+    }, { status: 201 });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Reformulation failed', error as Error, {
+      endpoint: '/api/formula/reformulate',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while proposing a reformulation',
+      },
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Clinician Review Route Tests
+ *
+ * Verifies that only users with the clinician role can list or decide held formulations,
+ * identified from the Supabase session rather than request headers
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import { ClinicianReviewService } from '@/lib/services/clinician-review-service';
+import { getRequestUser } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({ getRequestUser: jest.fn() }));
+jest.mock('@/lib/services/clinician-review-service');
+jest.mock('@/lib/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const service = jest.mocked(ClinicianReviewService);
+const sessions = jest.mocked(getRequestUser);
+
+const reviewRequest = (userId: string | null, init?: { method: string; body: string }) => {
+  sessions.mockResolvedValue(userId ? { id: userId, email: `${userId}@example.com` } as Awaited<ReturnType<typeof getRequestUser>> : null);
+  return new NextRequest('http://localhost/api/formula/review', init);
+};
+
+describe('Clinician Review Route', () => {
+
+  const approveOwnHold = { method: 'POST', body: JSON.stringify({ formulationId: 'held-formulation', decision: 'approved' }) };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should refuse a customer approving their own held formulation', async () => {
+    service.isClinician.mockResolvedValue(false);
+
+    const response = await POST(reviewRequest('customer-id', approveOwnHold));
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe('FORBIDDEN');
+    expect(service.isClinician).toHaveBeenCalledWith('customer-id');
+    expect(service.recordReviewDecision).not.toHaveBeenCalled();
+  });
+
+  it('should not list pending reviews or orderability for a non-clinician', async () => {
+    service.isClinician.mockResolvedValue(false);
+
+    const queue = await GET(reviewRequest('customer-id'));
+    const single = await GET(new NextRequest('http://localhost/api/formula/review?formulationId=held-formulation'));
+
+    expect(queue.status).toBe(403);
+    expect(single.status).toBe(403);
+    expect(service.getPendingReviews).not.toHaveBeenCalled();
+    expect(service.getOrderability).not.toHaveBeenCalled();
+  });
+
+  it('should ignore a clinician id sent in the x-user-id header', async () => {
+    sessions.mockResolvedValue({ id: 'customer-id', email: 'customer-id@example.com' } as Awaited<ReturnType<typeof getRequestUser>>);
+    service.isClinician.mockImplementation(async userId => userId === 'clinician-id');
+
+    const response = await POST(new NextRequest('http://localhost/api/formula/review', {
+      ...approveOwnHold,
+      headers: { 'x-user-id': 'clinician-id' },
+    }));
+
+    expect(response.status).toBe(403);
+    expect(service.isClinician).toHaveBeenCalledWith('customer-id');
+    expect(service.recordReviewDecision).not.toHaveBeenCalled();
+  });
+
+  it('should require a signed-in user', async () => {
+    const response = await POST(reviewRequest(null, approveOwnHold));
+
+    expect(response.status).toBe(401);
+    expect(service.isClinician).not.toHaveBeenCalled();
+  });
+
+  it('should record decisions made by a clinician', async () => {
+    service.isClinician.mockResolvedValue(true);
+    service.recordReviewDecision.mockResolvedValue({ success: true, reviewStatus: 'approved', orderable: true });
+
+    const response = await POST(reviewRequest('clinician-id', approveOwnHold));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ formulationId: 'held-formulation', reviewStatus: 'approved', orderable: true });
+    expect(service.recordReviewDecision).toHaveBeenCalledWith('held-formulation', {
+      decision: 'approved',
+      reviewerId: 'clinician-id',
+      notes: undefined,
+    });
+  });
+});
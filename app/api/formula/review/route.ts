@@ -0,0 +1,118 @@
+/**
+ * Clinician Review API Route
+ *
+ * Lists formulations held by contraindication block rules and records
+ * clinician approve/reject decisions. Held formulations stay unorderable
+ * until approved; minors' formulations also until guardian consent is granted.
+ * Both handlers are restricted to users with the clinician role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireClinician } from '@/lib/auth';
+import { ClinicianReviewService } from '@/lib/services/clinician-review-service';
+import { buildErrorResponse, buildInvalidRequestResponse, type ClinicianReviewRequest } from '@/types';
+
+const REVIEW_DECISIONS = ['approved', 'rejected'];
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { denied } = await requireClinician(request);
+    if (denied) {
+      return NextResponse.json(denied.response, { status: denied.status });
+    }
+
+    const formulationId = request.nextUrl.searchParams.get('formulationId');
+
+    // Single formulation: report whether it can be ordered
+    if (formulationId) {
+      const result = await ClinicianReviewService.getOrderability(formulationId);
+      if (!result.success) {
+        const { response, status } = buildErrorResponse('NOT_FOUND', 'Formulation not found', undefined, 404);
+        return NextResponse.json(response, { status });
+      }
+      return NextResponse.json({
+        success: true,
+        data: {
+          formulationId,
+          reviewStatus: result.reviewStatus,
+          guardianConsentRequired: result.guardianConsentRequired,
+          guardianConsentCaptured: result.guardianConsentCaptured,
+          orderable: result.orderable,
+        },
+      });
+    }
+
+    const result = await ClinicianReviewService.getPendingReviews();
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('DATABASE_ERROR', 'Failed to load pending reviews', undefined, 500);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: { formulations: result.formulations } });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Clinician review queue failed', error as Error, {
+      endpoint: '/api/formula/review',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while loading clinician reviews',
+      },
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clinician = await requireClinician(request);
+    if (clinician.denied) {
+      return NextResponse.json(clinician.denied.response, { status: clinician.denied.status });
+    }
+
+    const body: ClinicianReviewRequest = await request.json();
+    const reviewerId = clinician.userId;
+
+    if (!body.formulationId || !REVIEW_DECISIONS.includes(body.decision)) {
+      const { response, status } = buildInvalidRequestResponse('formulationId and a decision of approved or rejected are required');
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await ClinicianReviewService.recordReviewDecision(body.formulationId, {
+      decision: body.decision,
+      reviewerId,
+      notes: body.notes,
+    });
+
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('REVIEW_NOT_PENDING', result.error || 'Formulation is not awaiting clinician review', undefined, 409);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        formulationId: body.formulationId,
+        reviewStatus: result.reviewStatus,
+        orderable: result.orderable,
+      },
+    });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Clinician review failed', error as Error, {
+      endpoint: '/api/formula/review',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while recording the clinician review',
+      },
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Shadow Drift Report Route Tests
+ *
+ * Verifies that the drift report is restricted to users with the clinician role,
+ * identified from the Supabase session rather than request headers
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { ClinicianReviewService } from '@/lib/services/clinician-review-service';
+import { ShadowComparisonService } from '@/lib/services/shadow-comparison-service';
+import { getRequestUser } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({ getRequestUser: jest.fn() }));
+jest.mock('@/lib/services/clinician-review-service');
+jest.mock('@/lib/services/shadow-comparison-service');
+jest.mock('@/lib/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const reportRequest = (userId: string) => {
+  jest.mocked(getRequestUser).mockResolvedValue({ id: userId, email: `${userId}@example.com` } as Awaited<ReturnType<typeof getRequestUser>>);
+  return new NextRequest('http://localhost/api/formula/shadow-report');
+};
+
+describe('Shadow Drift Report Route', () => {
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should refuse signed-in customers', async () => {
+    jest.mocked(ClinicianReviewService.isClinician).mockResolvedValue(false);
+
+    const response = await GET(reportRequest('customer-id'));
+
+    expect(response.status).toBe(403);
+    expect(ShadowComparisonService.getDriftReport).not.toHaveBeenCalled();
+  });
+
+  it('should not trust a clinician id sent in the x-user-id header', async () => {
+    jest.mocked(getRequestUser).mockResolvedValue(null);
+
+    const response = await GET(new NextRequest('http://localhost/api/formula/shadow-report', {
+      headers: { 'x-user-id': 'clinician-id' },
+    }));
+
+    expect(response.status).toBe(401);
+    expect(ClinicianReviewService.isClinician).not.toHaveBeenCalled();
+    expect(ShadowComparisonService.getDriftReport).not.toHaveBeenCalled();
+  });
+
+  it('should return the report to clinicians', async () => {
+    jest.mocked(ClinicianReviewService.isClinician).mockResolvedValue(true);
+    jest.mocked(ShadowComparisonService.getDriftReport).mockResolvedValue({ success: true, report: undefined });
+
+    const response = await GET(reportRequest('clinician-id'));
+
+    expect(response.status).toBe(200);
+    expect(ShadowComparisonService.getDriftReport).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Shadow Mode Drift Report API Route
+ *
+ * Summarises drift between the active calculation engine and the shadow
+ * candidate engine across all shadowed /api/formula/calculate requests.
+ * Restricted to users with the clinician role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireClinician } from '@/lib/auth';
+import { ShadowComparisonService } from '@/lib/services/shadow-comparison-service';
+import { buildErrorResponse } from '@/types';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { denied } = await requireClinician(request);
+    if (denied) {
+      return NextResponse.json(denied.response, { status: denied.status });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const since = searchParams.get('since') || undefined;
+
+    if (since && Number.isNaN(Date.parse(since))) {
+      const { response, status } = buildErrorResponse('INVALID_REQUEST', 'since must be an ISO 8601 timestamp');
+      return NextResponse.json(response, { status });
+    }
+
+    const filters = {
+      activeEngine: searchParams.get('activeEngine') || undefined,
+      candidateEngine: searchParams.get('candidateEngine') || undefined,
+      since,
+    };
+
+    const result = await ShadowComparisonService.getDriftReport(filters);
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('DATABASE_ERROR', 'Failed to load shadow comparisons', undefined, 500);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        filters,
+        report: result.report,
+      },
+    });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Shadow drift report failed', error as Error, {
+      endpoint: '/api/formula/shadow-report',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while building the drift report',
+      },
+    }, { status: 500 });
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'METHOD_NOT_ALLOWED',
+      message: 'POST method not supported. Use GET to read the drift report.',
+    },
+  }, { status: 405 });
+}
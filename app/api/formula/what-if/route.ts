@@ -0,0 +1,95 @@
+/**
+ * What-If Sensitivity Analysis API Route
+ *
+ * Recalculates a base survey once per field perturbation and returns
+ * per-electrolyte deltas, use case changes and safety clamp changes against
+ * the baseline. Uses the calculate route's validation; nothing is persisted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  buildErrorResponse,
+  buildInvalidRequestResponse,
+  WHAT_IF_MAX_PERTURBATIONS,
+  type WhatIfRequest,
+} from '@/types';
+import { createCalculationEngine } from '@/lib/calculation-engine/factory';
+import { isSafetyLimitViolation } from '@/lib/calculation-engine/safety-enforcement';
+import { resolveFormulaVersion } from '@/lib/calculation-engine/versions';
+import { prepareCustomerData, runWhatIf } from '@/lib/calculation-engine/what-if';
+
+function isChangeSet(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length > 0;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: WhatIfRequest = await request.json();
+
+    if (!body.customerData) {
+      const { response, status } = buildInvalidRequestResponse('Missing customerData in request body');
+      return NextResponse.json(response, { status });
+    }
+    if (
+      !Array.isArray(body.perturbations) ||
+      body.perturbations.length === 0 ||
+      body.perturbations.length > WHAT_IF_MAX_PERTURBATIONS ||
+      !body.perturbations.every(perturbation => isChangeSet(perturbation?.changes))
+    ) {
+      const { response, status } = buildInvalidRequestResponse(
+        `perturbations must be 1-${WHAT_IF_MAX_PERTURBATIONS} entries, each with at least one field in changes`
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    const formulaVersion = resolveFormulaVersion(body.options?.formulaVersion);
+    if (!formulaVersion.success) {
+      const { response, status } = buildErrorResponse(formulaVersion.error!.code, formulaVersion.error!.message);
+      return NextResponse.json(response, { status });
+    }
+
+    // Base survey goes through the same defaults and validation as /api/formula/calculate
+    const base = prepareCustomerData(body.customerData);
+    if (!base.customerData) {
+      return NextResponse.json({
+        success: false,
+        validation: base.validation,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Customer data validation failed',
+          details: base.validation.errors,
+        },
+      }, { status: 400 });
+    }
+
+    const engine = createCalculationEngine(formulaVersion.definition);
+    const baseline = await engine.calculate(base.customerData);
+    const analysis = await runWhatIf(engine, body.customerData, baseline, body.perturbations);
+
+    return NextResponse.json({ success: true, data: analysis, validation: base.validation });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+
+    if (isSafetyLimitViolation(error)) {
+      logger.error('Baseline formulation refused by safety limits', error, {
+        endpoint: '/api/formula/what-if',
+        violations: error.details,
+      });
+      const { response, status } = buildErrorResponse(error.code, error.message, error.details, 422);
+      return NextResponse.json(response, { status });
+    }
+
+    logger.error('What-if analysis failed', error as Error, {
+      endpoint: '/api/formula/what-if',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred during the what-if analysis',
+      },
+    }, { status: 500 });
+  }
+}
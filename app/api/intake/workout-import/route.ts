@@ -0,0 +1,136 @@
+/**
+ * Workout File Import API Route
+ *
+ * POST parses uploaded FIT, TCX and GPX files locally and proposes
+ * workout-frequency, workout-duration and workout-intensity answers; nothing
+ * is saved. PUT applies the answers the customer confirmed to their survey draft.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SurveyService } from '@/lib/services/survey-service';
+import { parseWorkoutFile } from '@/lib/calculation-engine/workout-files';
+import { proposeWorkoutAnswers, validateWorkoutAnswers } from '@/lib/calculation-engine/workout-import';
+import {
+  buildErrorResponse,
+  buildInvalidRequestResponse,
+  WORKOUT_IMPORT_LIMITS,
+  type CustomerData,
+  type ParsedWorkout,
+  type WorkoutFileError,
+  type WorkoutImportConfirmRequest,
+} from '@/types';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const form = await request.formData();
+    const files = form.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+
+    if (files.length === 0 || files.length > WORKOUT_IMPORT_LIMITS.MAX_FILES) {
+      const { response, status } = buildInvalidRequestResponse(
+        `Upload 1-${WORKOUT_IMPORT_LIMITS.MAX_FILES} FIT, TCX or GPX files in the files field`
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // Current answers are optional: age sharpens heart rate intensity, the rest shows what would change
+    let current: Partial<CustomerData> = {};
+    const currentAnswers = form.get('currentAnswers');
+    if (typeof currentAnswers === 'string' && currentAnswers) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(currentAnswers);
+      } catch {
+        parsed = undefined;
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        const { response, status } = buildInvalidRequestResponse('currentAnswers must be a JSON object');
+        return NextResponse.json(response, { status });
+      }
+      current = parsed as Partial<CustomerData>;
+    }
+
+    const workouts: ParsedWorkout[] = [];
+    const errors: WorkoutFileError[] = [];
+    for (const file of files) {
+      if (file.size > WORKOUT_IMPORT_LIMITS.MAX_FILE_BYTES) {
+        errors.push({ fileName: file.name, message: `File is larger than ${WORKOUT_IMPORT_LIMITS.MAX_FILE_BYTES / (1024 * 1024)} MB` });
+        continue;
+      }
+      const parsed = parseWorkoutFile(file.name, new Uint8Array(await file.arrayBuffer()));
+      if (parsed.workout) workouts.push(parsed.workout);
+      if (parsed.error) errors.push(parsed.error);
+    }
+
+    const proposal = proposeWorkoutAnswers(workouts, current, errors);
+    if (proposal.summary.workoutCount === 0) {
+      const { response, status } = buildErrorResponse(
+        'NO_WORKOUTS_FOUND',
+        `No workouts of at least ${WORKOUT_IMPORT_LIMITS.MIN_SESSION_MINUTES} minutes were found in the uploaded files`,
+        errors.map(fileError => `${fileError.fileName}: ${fileError.message}`),
+        422
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: proposal });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Workout import failed', error as Error, {
+      endpoint: '/api/intake/workout-import',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while importing workout files',
+      },
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: WorkoutImportConfirmRequest = await request.json();
+    const sessionId = request.cookies.get('pp-session-id')?.value;
+    const userId = request.headers.get('x-user-id') || null;
+
+    const requestErrors = [
+      ...(body.surveyId ? [] : ['surveyId is required']),
+      ...(typeof body.answers === 'object' && body.answers !== null
+        ? validateWorkoutAnswers(body.answers)
+        : ['answers is required']),
+    ];
+    if (requestErrors.length > 0) {
+      const { response, status } = buildInvalidRequestResponse(requestErrors.join('; '));
+      return NextResponse.json(response, { status });
+    }
+    if (!sessionId) {
+      const { response, status } = buildErrorResponse('UNAUTHORIZED', 'A survey session is required to update survey answers', undefined, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await SurveyService.updateSurveyAnswers(body.surveyId, sessionId, userId, body.answers);
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('NOT_FOUND', 'Survey not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: { surveyId: body.surveyId, answers: body.answers } });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Workout import confirmation failed', error as Error, {
+      endpoint: '/api/intake/workout-import',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while updating survey answers',
+      },
+    }, { status: 500 });
+  }
+}
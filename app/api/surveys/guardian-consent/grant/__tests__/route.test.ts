@@ -0,0 +1,85 @@
+/**
+ * Guardian Consent Grant Route Tests
+ *
+ * Verifies that consent is only granted by a signed-in guardian account,
+ * identified from the Supabase session rather than request headers, and
+ * that refusals map to their error responses
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { GuardianConsentService } from '@/lib/services/guardian-consent-service';
+import { getRequestUser } from '@/lib/supabase/client';
+
+jest.mock('@/lib/supabase/client', () => ({ getRequestUser: jest.fn() }));
+jest.mock('@/lib/services/guardian-consent-service');
+jest.mock('@/lib/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const service = jest.mocked(GuardianConsentService);
+const sessions = jest.mocked(getRequestUser);
+
+const grantRequest = (account: { userId: string; email: string } | null, headers: Record<string, string> = {}) => {
+  sessions.mockResolvedValue(account ? { id: account.userId, email: account.email } as Awaited<ReturnType<typeof getRequestUser>> : null);
+  return new NextRequest('http://localhost/api/surveys/guardian-consent/grant', {
+    method: 'POST',
+    body: JSON.stringify({ surveyId: 'teen-survey', granted: true }),
+    headers,
+  });
+};
+
+describe('Guardian Consent Grant Route', () => {
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should refuse consent without a signed-in guardian account', async () => {
+    const response = await POST(grantRequest(null));
+    const body = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(body.error.code).toBe('UNAUTHORIZED');
+    expect(service.grantConsent).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an account that is not the named guardian', async () => {
+    service.grantConsent.mockResolvedValue({ success: false, denial: 'not-named-guardian', error: 'Guardian consent refused: not-named-guardian' });
+
+    const response = await POST(grantRequest({ userId: 'teen-second-account', email: 'teen@example.com' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe('FORBIDDEN');
+    expect(service.grantConsent).toHaveBeenCalledWith(
+      'teen-survey',
+      { userId: 'teen-second-account', email: 'teen@example.com' },
+      expect.objectContaining({ granted: true })
+    );
+  });
+
+  it('should identify the guardian from the session, not the x-user-id header', async () => {
+    service.grantConsent.mockResolvedValue({ success: false, denial: 'own-survey', error: 'Guardian consent refused: own-survey' });
+
+    const response = await POST(grantRequest(
+      { userId: 'teen-user-id', email: 'teen@example.com' },
+      { 'x-user-id': 'guardian-user-id', 'x-user-email': 'jordan@example.com' }
+    ));
+
+    expect(response.status).toBe(403);
+    expect(service.grantConsent).toHaveBeenCalledWith(
+      'teen-survey',
+      { userId: 'teen-user-id', email: 'teen@example.com' },
+      expect.objectContaining({ granted: true })
+    );
+  });
+
+  it('should require a guardian to be named before consent is granted', async () => {
+    service.grantConsent.mockResolvedValue({ success: false, denial: 'not-requested', error: 'Guardian consent refused: not-requested' });
+
+    const response = await POST(grantRequest({ userId: 'guardian-user-id', email: 'jordan@example.com' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error.code).toBe('GUARDIAN_CONSENT_NOT_REQUESTED');
+  });
+});
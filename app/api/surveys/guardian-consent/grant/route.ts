@@ -0,0 +1,75 @@
+/**
+ * Guardian Consent Grant API Route
+ *
+ * The parent or legal guardian named on a minor's survey grants or refuses
+ * consent while signed in to their own account. The account's email must
+ * match the guardian the minor named, and the minor's own account can never
+ * consent for itself.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { GuardianConsentService } from '@/lib/services/guardian-consent-service';
+import {
+  buildErrorResponse,
+  buildInvalidRequestResponse,
+  GUARDIAN_CONSENT_VERSION,
+  type GuardianConsentDenial,
+  type GuardianConsentGrantRequest,
+} from '@/types';
+
+const DENIAL_RESPONSES: Record<GuardianConsentDenial, [code: string, message: string, status: number]> = {
+  'not-required': ['GUARDIAN_CONSENT_NOT_REQUIRED', 'Guardian consent is only recorded for customers under 18', 409],
+  'not-requested': ['GUARDIAN_CONSENT_NOT_REQUESTED', 'No guardian has been named on this survey', 409],
+  'not-named-guardian': ['FORBIDDEN', 'Only the guardian named on this survey can grant consent', 403],
+  'own-survey': ['FORBIDDEN', 'Guardian consent must come from a different account than the survey', 403],
+};
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: GuardianConsentGrantRequest = await request.json();
+    const guardian = await getSessionUser(request);
+
+    if (!body.surveyId || typeof body.granted !== 'boolean') {
+      const { response, status } = buildInvalidRequestResponse('surveyId and granted are required');
+      return NextResponse.json(response, { status });
+    }
+    if (!guardian || !guardian.email) {
+      const { response, status } = buildErrorResponse('UNAUTHORIZED', 'The guardian must be signed in to grant consent', undefined, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await GuardianConsentService.grantConsent(body.surveyId, guardian, {
+      granted: body.granted,
+      timestamp: new Date(),
+      version: GUARDIAN_CONSENT_VERSION,
+      ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      ...(body.signature && { signature: body.signature }),
+    });
+
+    if (!result.success) {
+      const [code, message, statusCode] = result.denial
+        ? DENIAL_RESPONSES[result.denial]
+        : ['NOT_FOUND', 'Survey not found', 404];
+      const { response, status } = buildErrorResponse(code, message, undefined, statusCode);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: { surveyId: body.surveyId, ...result.status } });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Guardian consent grant failed', error as Error, {
+      endpoint: '/api/surveys/guardian-consent/grant',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while recording guardian consent',
+      },
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Guardian Consent API Route
+ *
+ * Reports guardian consent on the survey of a customer under 18 and lets the
+ * minor name the parent or legal guardian who must consent. The survey must
+ * belong to the caller's session; consent itself is granted by the guardian
+ * from their own account (see ./grant), and a minor's formulations cannot be
+ * ordered until it is.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GuardianConsentService } from '@/lib/services/guardian-consent-service';
+import {
+  buildErrorResponse,
+  buildInvalidRequestResponse,
+  validateEmail,
+  type GuardianContact,
+  type GuardianConsentRequest,
+} from '@/types';
+
+const GUARDIAN_RELATIONSHIPS = ['parent', 'legal-guardian'];
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const surveyId = request.nextUrl.searchParams.get('surveyId');
+    const sessionId = request.cookies.get('pp-session-id')?.value;
+
+    if (!surveyId || !sessionId) {
+      const { response, status } = buildInvalidRequestResponse('surveyId and a survey session are required');
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await GuardianConsentService.getConsentStatus(surveyId, sessionId);
+    if (!result.success) {
+      const { response, status } = buildErrorResponse('NOT_FOUND', 'Survey not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: { surveyId, ...result.status } });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Guardian consent lookup failed', error as Error, {
+      endpoint: '/api/surveys/guardian-consent',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while loading guardian consent',
+      },
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body: GuardianConsentRequest = await request.json();
+    const sessionId = request.cookies.get('pp-session-id')?.value;
+
+    if (
+      !body.surveyId ||
+      !body.guardianName?.trim() ||
+      typeof body.guardianEmail !== 'string' || !validateEmail(body.guardianEmail) ||
+      !GUARDIAN_RELATIONSHIPS.includes(body.relationship)
+    ) {
+      const { response, status } = buildInvalidRequestResponse(
+        'surveyId, guardianName, a valid guardianEmail and a relationship of parent or legal-guardian are required'
+      );
+      return NextResponse.json(response, { status });
+    }
+    if (!sessionId) {
+      const { response, status } = buildErrorResponse('UNAUTHORIZED', 'A survey session is required to request guardian consent', undefined, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const guardian: GuardianContact = {
+      guardianName: body.guardianName.trim(),
+      guardianEmail: body.guardianEmail.trim(),
+      relationship: body.relationship,
+      requestedAt: new Date(),
+    };
+
+    const result = await GuardianConsentService.requestConsent(body.surveyId, sessionId, guardian);
+
+    if (!result.success) {
+      const { response, status } = result.status
+        ? buildErrorResponse('GUARDIAN_CONSENT_NOT_REQUIRED', result.error!, undefined, 409)
+        : buildErrorResponse('NOT_FOUND', 'Survey not found', undefined, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    return NextResponse.json({ success: true, data: { surveyId: body.surveyId, ...result.status } });
+
+  } catch (error) {
+    const { logger } = await import('@/lib/logger');
+    logger.error('Guardian consent request failed', error as Error, {
+      endpoint: '/api/surveys/guardian-consent',
+    });
+
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An internal server error occurred while requesting guardian consent',
+      },
+    }, { status: 500 });
+  }
+}
@@ -8,8 +8,10 @@
  * TODO: Migrate validateSessionToken to use AuthService when session validation method is implemented
  */
 
-import { createSupabaseServerClient } from '@/lib/supabase/client';
+import { createSupabaseServerClient, getRequestUser } from '@/lib/supabase/client';
 import { logger } from '@/lib/logger';
+import { ClinicianReviewService } from '@/lib/services/clinician-review-service';
+import { buildErrorResponse } from '@/types';
 import type { User } from '@/types/auth-interfaces';
 
 /**
@@ -31,6 +33,36 @@ export function getSessionFromHeaders(headers: Headers): {
   };
 }
 
+/**
+ * Signed-in user of a request, verified against the Supabase session
+ * Use this for authorization instead of the x-user-* headers, which callers can set themselves
+ */
+export async function getSessionUser(request: Request): Promise<{ userId: string; email: string } | null> {
+  const user = await getRequestUser(request);
+  return user ? { userId: user.id, email: user.email || '' } : null;
+}
+
+/**
+ * Require the signed-in user to hold the clinician role
+ * Returns the error response to send, or the clinician's user id
+ */
+export async function requireClinician(request: Request): Promise<
+  | { denied: ReturnType<typeof buildErrorResponse>; userId?: undefined }
+  | { denied: null; userId: string }
+> {
+  const user = await getSessionUser(request);
+
+  if (!user) {
+    return { denied: buildErrorResponse('UNAUTHORIZED', 'Clinician must be signed in', undefined, 401) };
+  }
+  if (!(await ClinicianReviewService.isClinician(user.userId))) {
+    logger.warn('Non-clinician access attempt to clinician endpoint', { userId: user.userId });
+    return { denied: buildErrorResponse('FORBIDDEN', 'Clinician role required', undefined, 403) };
+  }
+
+  return { denied: null, userId: user.userId };
+}
+
 /**
  * Validate server-side session token
  * Used by API routes for authentication
@@ -0,0 +1,81 @@
+/**
+ * Calculation Trace Tests
+ *
+ * Verifies every engine step is recorded with the constant applied,
+ * the value before/after, and any safety clamp
+ */
+
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { CalculationTrace } from '../core/trace';
+import type { CustomerData } from '@/types';
+import { GOAL_MULTIPLIERS, SAFETY_LIMITS } from '@/types';
+
+describe('Calculation Trace', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 32,
+    'biological-sex': 'female',
+    weight: 145,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '4-6',
+    'magnesium-intake': '4-6',
+    'calcium-intake': '4-6',
+    'daily-goals': ['energy'],
+    usage: 'daily'
+  };
+
+  const engine = new PersonalPotionsEngine();
+
+  it('should record goal multipliers with values before and after', async () => {
+    const result = await engine.calculate(baseCustomerData);
+    const trace = result.metadata.calculationTrace || [];
+
+    const energyMagnesium = trace.find(entry => entry.source === 'GOAL_MULTIPLIERS.energy.magnesium');
+    expect(energyMagnesium).toBeDefined();
+    expect(energyMagnesium?.step).toBe('use-case-multiplier');
+    expect(energyMagnesium?.factor).toBe(GOAL_MULTIPLIERS.energy.magnesium);
+    expect(energyMagnesium?.after).toBeCloseTo(energyMagnesium!.before * GOAL_MULTIPLIERS.energy.magnesium!, 1);
+  });
+
+  it('should trace each electrolyte from base value to final serving', async () => {
+    const result = await engine.calculate(baseCustomerData);
+    const trace = result.metadata.calculationTrace || [];
+
+    (['sodium', 'potassium', 'magnesium', 'calcium'] as const).forEach(electrolyte => {
+      const steps = trace.filter(entry => entry.electrolyte === electrolyte).map(entry => entry.step);
+      expect(steps[0]).toBe('base-requirement');
+      expect(steps).toContain('deficit');
+      expect(steps).toContain('serving-split');
+    });
+  });
+
+  it('should record safety clamps with the limit that was hit', async () => {
+    const result = await engine.calculate({
+      ...baseCustomerData,
+      'activity-level': 'extremely-active',
+      'sweat-level': 'excessive',
+      'workout-frequency': 'daily',
+    });
+    const clamps = (result.metadata.calculationTrace || []).filter(entry => entry.step === 'safety-clamp');
+
+    expect(clamps.length).toBeGreaterThan(0);
+    clamps.forEach(entry => {
+      const limits = SAFETY_LIMITS.sweat[entry.electrolyte];
+      expect(entry.source).toBe(`SAFETY_LIMITS.sweat.${entry.electrolyte}`);
+      expect(entry.after).toBe(entry.clamp?.limit === 'max' ? limits.max : limits.min);
+    });
+  });
+
+  it('should only record caps and clamps that take effect', () => {
+    const trace = new CalculationTrace();
+
+    expect(trace.cap('health-condition', 'calcium', 'CAP', 800, 1000)).toBe(800);
+    expect(trace.clamp('safety-clamp', 'sodium', 'CLAMP', 500, { min: 150, max: 800 })).toBe(500);
+    expect(trace.getEntries()).toHaveLength(0);
+
+    expect(trace.cap('health-condition', 'calcium', 'CAP', 1200, 1000)).toBe(1000);
+    expect(trace.getAppliedMultipliers()).toEqual({ CAP: 1000 });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Shadow Mode Comparison Tests
+ *
+ * Verifies formulation diffs, drift summaries and shadow engine configuration
+ */
+
+import { compareFormulations, summarizeDrift } from '../comparison';
+import { createShadowEngine } from '../factory';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { MockPersonalPotionsEngine } from '../mock/PersonalPotionsEngine';
+import type { CustomerData } from '@/types';
+import { FORMULA_VERSION } from '@/types';
+
+describe('Formulation Comparison', () => {
+
+  const customerData: CustomerData = {
+    age: 32,
+    'biological-sex': 'female',
+    weight: 145,
+    'activity-level': 'extremely-active',
+    'sweat-level': 'excessive',
+    'workout-frequency': 'daily',
+    'sodium-intake': '7',
+    'potassium-intake': '4-6',
+    'magnesium-intake': '4-6',
+    'calcium-intake': '4-6',
+    usage: 'daily'
+  };
+
+  const labels = { activeEngine: 'mock@1.4', candidateEngine: 'core@1.4' };
+
+  it('should report per-electrolyte deltas between engines', async () => {
+    const active = await new MockPersonalPotionsEngine().calculate(customerData);
+    const candidate = await new PersonalPotionsEngine().calculate(customerData);
+    const comparison = compareFormulations(active, candidate, labels);
+
+    expect(comparison.electrolyteDeltas.sodium.delta).toBe(
+      candidate.formulationPerServing.sodium - active.formulationPerServing.sodium
+    );
+    expect(comparison.activeEngine).toBe('mock@1.4');
+    expect(comparison.useCaseMatch).toBe(active.useCase === candidate.useCase);
+  });
+
+  it('should flag safety clamps applied by only one engine', async () => {
+    const active = await new MockPersonalPotionsEngine().calculate(customerData);
+    const candidate = await new PersonalPotionsEngine().calculate(customerData);
+    const comparison = compareFormulations(active, candidate, labels);
+
+    expect(comparison.safetyLimitDifferences.length).toBeGreaterThan(0);
+    comparison.safetyLimitDifferences.forEach(difference => {
+      expect(difference.activeClamped).toBe(false);
+      expect(difference.candidateClamped).toBe(true);
+    });
+  });
+
+  it('should report no drift for identical formulations', async () => {
+    const formulation = await new PersonalPotionsEngine().calculate(customerData);
+    const comparison = compareFormulations(formulation, formulation, labels);
+    const report = summarizeDrift([comparison, comparison]);
+
+    expect(comparison.maxAbsolutePercentDelta).toBe(0);
+    expect(report.totalComparisons).toBe(2);
+    expect(report.useCaseDisagreements).toBe(0);
+    expect(report.electrolytes.sodium.maxAbsoluteDelta).toBe(0);
+    expect(report.useCasePairs[`${formulation.useCase}->${formulation.useCase}`]).toBe(2);
+  });
+
+  it('should only create a shadow engine when configured', () => {
+    delete process.env.FORMULA_SHADOW_ENGINE;
+    delete process.env.FORMULA_SHADOW_VERSION;
+    expect(createShadowEngine()).toBeNull();
+
+    process.env.FORMULA_SHADOW_ENGINE = 'core';
+    const shadow = createShadowEngine();
+    expect(shadow?.engine).toBeInstanceOf(PersonalPotionsEngine);
+    expect(shadow?.label).toBe(`core@${FORMULA_VERSION}`);
+
+    process.env.FORMULA_SHADOW_VERSION = '0.9';
+    expect(createShadowEngine()).toBeNull();
+
+    delete process.env.FORMULA_SHADOW_ENGINE;
+    delete process.env.FORMULA_SHADOW_VERSION;
+  });
+});
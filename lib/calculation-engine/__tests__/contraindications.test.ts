@@ -0,0 +1,134 @@
+/**
+ * Contraindication Screening Tests
+ *
+ * Verifies condition and medication rule findings, severity, the clinician review hold
+ * thresholds and refusal of absolute contraindications
+ */
+
+import { screenContraindications, isOrderable } from '../contraindications';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { isSafetyLimitViolation } from '../safety-enforcement';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData, Medication } from '@/types';
+import { SAFETY_LIMITS, validateCustomerData } from '@/types';
+
+describe('Contraindication Screening', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 58,
+    'biological-sex': 'male',
+    weight: 190,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+  };
+
+  const engine = new PersonalPotionsEngine();
+  const { constants } = getStableFormulaVersion();
+
+  it('should report multiplier findings without holding the formulation', async () => {
+    const result = await engine.calculate({ ...baseCustomerData, conditions: ['hypertension'] });
+    const report = result.metadata.contraindications!;
+
+    expect(report.findings.map(finding => finding.ruleId)).toEqual([
+      'hypertension.sodium.multiplier',
+      'hypertension.potassium.multiplier',
+    ]);
+    expect(report.highestSeverity).toBe('moderate');
+    expect(report.reviewStatus).toBe('not-required');
+    expect(report.orderable).toBe(true);
+  });
+
+  it('should hold kidney disease with high daily potassium for clinician review', async () => {
+    const result = await engine.calculate({
+      ...baseCustomerData,
+      conditions: ['kidney-disease'],
+      'hangover-symptoms': ['headache'],
+    });
+    const report = result.metadata.contraindications!;
+    const block = report.findings.find(finding => finding.ruleId === 'kidney-disease.potassium.block');
+
+    expect(result.useCase).toBe('hangover');
+    expect(block?.dailyAmount).toBe(result.formulationPerServing.potassium * 2);
+    expect(report.highestSeverity).toBe('high');
+    expect(report.reviewStatus).toBe('review-required');
+    expect(report.orderable).toBe(false);
+    expect(result.metadata.recommendations).toContain(`Clinician review required before ordering: ${block?.reason}`);
+  });
+
+  it('should hold potassium from the daily safety minimum upward, inclusive', async () => {
+    const formulation = await engine.calculate(baseCustomerData);
+    const withPotassium = (potassium: number) => ({
+      ...formulation,
+      formulationPerServing: { ...formulation.formulationPerServing, potassium },
+      metadata: { ...formulation.metadata, recommendedServingsPerDay: 1 },
+    });
+    const screen = (customer: Partial<CustomerData>, potassium: number) =>
+      screenContraindications({ ...baseCustomerData, ...customer }, withPotassium(potassium), constants);
+
+    expect(formulation.metadata.recommendedServingsPerDay).toBe(1);
+    [{ conditions: ['kidney-disease' as const] }, { medications: ['ace-inhibitor' as const] }, { medications: ['arb' as const] }]
+      .forEach(customer => {
+        expect(screen(customer, SAFETY_LIMITS.daily.potassium.min - 1).reviewStatus).toBe('not-required');
+        expect(screen(customer, SAFETY_LIMITS.daily.potassium.min).reviewStatus).toBe('review-required');
+      });
+    expect(screen({ conditions: ['kidney-disease'] }, SAFETY_LIMITS.daily.potassium.min).findings.find(finding => finding.kind === 'block'))
+      .toMatchObject({ ruleId: 'kidney-disease.potassium.block', dailyAmount: 400 });
+  });
+
+  it('should refuse potassium-sparing diuretics outright instead of holding them', async () => {
+    const error = await engine.calculate({ ...baseCustomerData, medications: ['potassium-sparing-diuretic'] }).catch(caught => caught);
+    const formulation = await engine.calculate(baseCustomerData);
+    const screened = screenContraindications({ ...baseCustomerData, medications: ['potassium-sparing-diuretic'] }, formulation, constants);
+
+    expect(isSafetyLimitViolation(error)).toBe(true);
+    expect(error.details).toEqual([
+      'Potassium-sparing diuretics with supplemental potassium risk hyperkalemia (potassium-sparing-diuretic.potassium.contraindicated)',
+    ]);
+    expect(screened.reviewStatus).toBe('rejected');
+    expect(screened.orderable).toBe(false);
+  });
+
+  it('should reduce potassium for ACE inhibitors and hold high doses', async () => {
+    const [plain, onAceInhibitor] = await Promise.all([
+      engine.calculate({ ...baseCustomerData, 'hangover-symptoms': ['headache'] }),
+      engine.calculate({ ...baseCustomerData, 'hangover-symptoms': ['headache'], medications: ['ace-inhibitor'] }),
+    ]);
+    const report = onAceInhibitor.metadata.contraindications!;
+
+    expect(onAceInhibitor.metadata.optimalIntake.potassium).toBe(Math.round(plain.metadata.optimalIntake.potassium * 0.7));
+    expect(report.findings.map(finding => [finding.ruleId, finding.medication])).toEqual([
+      ['ace-inhibitor.potassium.multiplier', 'ace-inhibitor'],
+      ['ace-inhibitor.potassium.block', 'ace-inhibitor'],
+    ]);
+    expect(report.reviewStatus).toBe('review-required');
+  });
+
+  it('should report medication warnings without changing the amounts', async () => {
+    const [plain, onLithium] = await Promise.all([
+      engine.calculate(baseCustomerData),
+      engine.calculate({ ...baseCustomerData, medications: ['lithium'] }),
+    ]);
+    const warning = onLithium.metadata.contraindications!.findings.find(finding => finding.kind === 'warning');
+
+    expect(onLithium.metadata.optimalIntake).toEqual(plain.metadata.optimalIntake);
+    expect(warning).toMatchObject({ ruleId: 'lithium.sodium.warning', medication: 'lithium', severity: 'high' });
+    expect(onLithium.metadata.recommendations).toContain(`Medication interaction: ${warning?.reason}`);
+  });
+
+  it('should reject unknown medications', () => {
+    const result = validateCustomerData({ ...baseCustomerData, medications: ['aspirin' as Medication] });
+
+    expect(result.errors).toEqual(['medications must only contain thiazide-diuretic, loop-diuretic, potassium-sparing-diuretic, ace-inhibitor, arb, lithium']);
+  });
+
+  it('should only allow ordering of unheld or approved formulations', () => {
+    expect(isOrderable('not-required')).toBe(true);
+    expect(isOrderable('approved')).toBe(true);
+    expect(isOrderable('review-required')).toBe(false);
+    expect(isOrderable('rejected')).toBe(false);
+  });
+});
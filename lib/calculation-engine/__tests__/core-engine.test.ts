@@ -0,0 +1,90 @@
+/**
+ * Core Calculation Engine Tests
+ *
+ * Verifies the production engine applies the V1 framework constants
+ * and fills in complete calculation metadata
+ */
+
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import type { CustomerData } from '@/types';
+import { FORMULA_VERSION, SAFETY_LIMITS, USE_CASE_RATIOS } from '@/types';
+
+describe('Core Calculation Engine', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 32,
+    'biological-sex': 'female',
+    weight: 145,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '4-6',
+    'magnesium-intake': '4-6',
+    'calcium-intake': '4-6',
+    usage: 'daily'
+  };
+
+  const engine = new PersonalPotionsEngine();
+
+  it('should return a complete formulation with real metadata', async () => {
+    const result = await engine.calculate(baseCustomerData);
+
+    expect(result.useCase).toBe('daily');
+    expect(result.metadata.formulaVersion).toBe(FORMULA_VERSION);
+    expect(result.metadata.detectedUseCase).toBe('daily');
+    expect(result.metadata.optimalIntake.sodium).toBeGreaterThan(result.metadata.currentIntake.sodium);
+    expect(result.metadata.deficits.sodium).toBe(
+      result.metadata.optimalIntake.sodium - result.metadata.currentIntake.sodium
+    );
+    expect(result.metadata.appliedMultipliers?.['ACTIVITY_MULTIPLIERS.moderately-active.sodium']).toBe(1.2);
+    expect(result.metadata.safetyLimitsApplied).toBeDefined();
+    expect(result.metadata.ratioOptimization?.targetRatio).toBe(USE_CASE_RATIOS.daily.target);
+  });
+
+  it('should keep every electrolyte within the use case safety limits', async () => {
+    const result = await engine.calculate({
+      ...baseCustomerData,
+      'activity-level': 'extremely-active',
+      'sweat-level': 'excessive',
+      'workout-frequency': 'daily',
+    });
+    const limits = SAFETY_LIMITS[result.useCase];
+
+    expect(result.useCase).toBe('sweat');
+    (['sodium', 'potassium', 'magnesium', 'calcium'] as const).forEach(electrolyte => {
+      expect(result.formulationPerServing[electrolyte]).toBeGreaterThanOrEqual(limits[electrolyte].min);
+      expect(result.formulationPerServing[electrolyte]).toBeLessThanOrEqual(limits[electrolyte].max);
+    });
+    expect(result.metadata.safetyLimitsApplied).toBe(true);
+  });
+
+  it('should apply use case specific multipliers', async () => {
+    const bedtime = await engine.calculate({
+      ...baseCustomerData,
+      'sleep-issues': ['trouble-falling-asleep'],
+      'sleep-goals': ['falling-asleep'],
+    });
+    const hangover = await engine.calculate({
+      ...baseCustomerData,
+      'hangover-timing': 'after',
+      'hangover-symptoms': ['headache'],
+    });
+
+    expect(bedtime.useCase).toBe('bedtime');
+    expect(bedtime.metadata.appliedMultipliers?.['SLEEP_GOAL_MULTIPLIERS.falling-asleep.magnesium']).toBe(1.3);
+    expect(hangover.useCase).toBe('hangover');
+    expect(hangover.metadata.appliedMultipliers?.['HANGOVER_TIMING_MULTIPLIERS.after.sodium']).toBe(1.8);
+    expect(hangover.formulationPerServing.sodium).toBeLessThanOrEqual(SAFETY_LIMITS.hangover.sodium.max);
+  });
+
+  it('should treat the kidney disease calcium entry as an absolute ceiling', async () => {
+    const result = await engine.calculate({
+      ...baseCustomerData,
+      age: 60,
+      conditions: ['kidney-disease'],
+    });
+
+    expect(result.metadata.optimalIntake.calcium).toBeLessThanOrEqual(1000);
+    expect(result.metadata.appliedMultipliers?.['CONTRAINDICATION_RULES.kidney-disease.potassium.multiplier']).toBe(0.7);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Dosing Schedule Tests
+ *
+ * Verifies workout, bedtime and hangover dose timing and that every day's
+ * doses add up to the recommended servings
+ */
+
+import { buildDosingSchedule } from '../dosing-schedule';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData, DoseEvent, FormulationResult, UseCase } from '@/types';
+import { validateCustomerData } from '@/types';
+
+describe('Dosing Schedule', () => {
+  const { constants } = getStableFormulaVersion();
+
+  const baseCustomerData: CustomerData = {
+    age: 34,
+    'biological-sex': 'male',
+    weight: 175,
+    'activity-level': 'very-active',
+    'sweat-level': 'heavy',
+    'sodium-intake': '7',
+    'potassium-intake': '7',
+    'magnesium-intake': '7',
+    'calcium-intake': '7',
+  };
+
+  const formulationFor = (useCase: UseCase, servingsPerDay: number, servingVolumeMl = 473) => ({
+    useCase,
+    formulationPerServing: { sodium: 400, potassium: 400, magnesium: 100, calcium: 200 },
+    productFormat: { id: 'bottle-16oz', label: '16 fl oz bottle', servingVolumeMl, servingsPerContainer: 1, maxSoluteLoadMg: 2400, servingsPerDay },
+    metadata: { recommendedServingsPerDay: servingsPerDay },
+  }) as unknown as FormulationResult;
+
+  const totalServings = (events: DoseEvent[]) => events.reduce((total, event) => total + event.servings, 0);
+  const summary = (events: DoseEvent[]) => events.map(event => `${event.timing} ${event.time ?? '-'} ${event.volumeMl}`);
+
+  it('should split a serving around the workout and keep the rest clear of it', () => {
+    const schedule = buildDosingSchedule(
+      { ...baseCustomerData, 'workout-frequency': '4-6-per-week', 'workout-duration': '30-60', 'workout-time': 'afternoon' },
+      formulationFor('sweat', 2),
+      constants
+    );
+
+    expect(summary(schedule.events)).toEqual(['morning 08:00 473', 'pre-workout 15:30 237', 'post-workout 17:00 237']);
+    expect(summary(schedule.restDayEvents!)).toEqual(['morning 08:00 473', 'afternoon 15:00 473']);
+    expect(totalServings(schedule.events)).toBe(2);
+    expect(schedule.workoutDaysPerWeek).toBe(5);
+  });
+
+  it('should add a during-workout serving for long daily sessions', () => {
+    const schedule = buildDosingSchedule(
+      { ...baseCustomerData, 'workout-frequency': 'daily', 'workout-duration': '90-120', 'workout-time': 'early-morning' },
+      formulationFor('sweat', 3, 500),
+      constants
+    );
+
+    expect(summary(schedule.events)).toEqual([
+      'pre-workout 05:30 250',
+      'during-workout 06:53 500',
+      'post-workout 08:00 250',
+      'afternoon 15:00 500',
+    ]);
+    expect(schedule.restDayEvents).toBeUndefined();
+    expect(totalServings(schedule.events)).toBe(3);
+  });
+
+  it('should time bedtime servings from sleep goals', () => {
+    const bedtime = buildDosingSchedule({ ...baseCustomerData, 'sleep-goals': ['falling-asleep'] }, formulationFor('bedtime', 1), constants);
+    const daily = buildDosingSchedule({ ...baseCustomerData, 'sleep-goals': ['staying-asleep'] }, formulationFor('daily', 2), constants);
+
+    expect(summary(bedtime.events)).toEqual(['bedtime 21:00 473']);
+    expect(summary(daily.events)).toEqual(['morning 08:00 473', 'bedtime 21:15 473']);
+  });
+
+  it('should follow hangover timing', () => {
+    const before = buildDosingSchedule({ ...baseCustomerData, 'hangover-timing': 'before' }, formulationFor('hangover', 2), constants);
+    const after = buildDosingSchedule({ ...baseCustomerData, 'hangover-timing': 'after' }, formulationFor('hangover', 2), constants);
+
+    expect(summary(before.events)).toEqual(['before-drinking - 473', 'on-waking 07:00 473']);
+    expect(summary(after.events)).toEqual(['on-waking 07:00 473', 'afternoon 15:00 473']);
+  });
+
+  it('should schedule every serving when servings per day outnumber the dose slots', () => {
+    const workoutCustomer: Partial<CustomerData> = { ...baseCustomerData, 'workout-frequency': 'daily', 'workout-duration': '90-120' };
+    const cases: Array<[Partial<CustomerData>, UseCase]> = [
+      [{ ...baseCustomerData, 'sleep-goals': ['staying-asleep'] }, 'bedtime'],
+      [{ ...baseCustomerData, 'hangover-timing': 'during' }, 'hangover'],
+      [workoutCustomer, 'sweat'],
+    ];
+
+    cases.forEach(([customer, useCase]) => {
+      [5, 6, 9].forEach(servingsPerDay => {
+        expect(totalServings(buildDosingSchedule(customer, formulationFor(useCase, servingsPerDay), constants).events)).toBe(servingsPerDay);
+      });
+    });
+    expect(summary(buildDosingSchedule(baseCustomerData, formulationFor('daily', 6), constants).events))
+      .toEqual(['morning 08:00 946', 'midday 12:00 473', 'afternoon 15:00 946', 'evening 18:00 473']);
+  });
+
+  it('should return the schedule with every formulation and validate workout time', async () => {
+    const result = await new PersonalPotionsEngine().calculate({ ...baseCustomerData, 'workout-frequency': '2-3-per-week', 'workout-duration': '60-90' });
+
+    expect(result.dosingSchedule?.servingsPerDay).toBe(result.metadata.recommendedServingsPerDay);
+    expect(totalServings(result.dosingSchedule!.events)).toBe(result.metadata.recommendedServingsPerDay);
+    expect(validateCustomerData({ ...baseCustomerData, 'workout-time': 'noon' as CustomerData['workout-time'] }).errors)
+      .toEqual(['workout-time must be one of early-morning, morning, midday, afternoon, evening']);
+  });
+});
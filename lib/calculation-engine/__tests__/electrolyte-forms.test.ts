@@ -0,0 +1,91 @@
+/**
+ * Electrolyte Form Selection Tests
+ *
+ * Verifies rule priority, customer preferences and elemental-mass conversion
+ */
+
+import { selectElectrolyteForms, toElectrolyteForms, toCompoundMg, toElementalMg } from '../electrolyte-forms';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { deriveFormulaConstants, getStableFormulaVersion } from '../versions';
+import type { CustomerData } from '@/types';
+import { ELECTROLYTE_FORM_CATALOG, validateCustomerData } from '@/types';
+
+describe('Electrolyte Form Selection', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 40,
+    'biological-sex': 'female',
+    weight: 140,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '7',
+    'magnesium-intake': '7',
+    'calcium-intake': '7',
+  };
+
+  const { constants } = getStableFormulaVersion();
+  const formsFor = (customer: Partial<CustomerData>, useCase: Parameters<typeof selectElectrolyteForms>[1] = 'daily') =>
+    toElectrolyteForms(selectElectrolyteForms(customer, useCase, constants));
+
+  it('should fall back to the default forms', () => {
+    const selections = selectElectrolyteForms(baseCustomerData, 'daily', constants);
+
+    expect(toElectrolyteForms(selections)).toEqual(constants.DEFAULT_ELECTROLYTE_FORMS);
+    expect(selections.every(selection => selection.source === 'default')).toBe(true);
+    expect(selections[0].elementalFraction).toBe(0.393);
+  });
+
+  it('should apply use case rules ahead of goal rules', () => {
+    const energy = { ...baseCustomerData, 'daily-goals': ['energy' as const] };
+
+    expect(formsFor(energy).magnesium).toBe('magnesium-malate');
+    expect(formsFor(energy, 'bedtime').magnesium).toBe('magnesium-glycinate');
+    expect(formsFor({ ...baseCustomerData, 'daily-goals': ['mental-clarity'] }).magnesium).toBe('magnesium-threonate');
+    expect(formsFor(baseCustomerData, 'sweat').potassium).toBe('potassium-chloride');
+  });
+
+  it('should honour preferences unless a condition rule applies', () => {
+    const customer: CustomerData = {
+      ...baseCustomerData,
+      'preferred-forms': { magnesium: 'magnesium-malate', calcium: 'calcium-carbonate' },
+    };
+    const withConditionRule = deriveFormulaConstants(constants, {
+      ELECTROLYTE_FORM_RULES: [
+        { id: 'osteoporosis.calcium.citrate', source: 'condition', electrolyte: 'calcium', form: 'calcium-citrate', when: { conditions: ['osteoporosis'] }, reason: 'Osteoporosis: citrate absorbs without food' },
+        ...constants.ELECTROLYTE_FORM_RULES,
+      ],
+    });
+    const selections = selectElectrolyteForms({ ...customer, conditions: ['osteoporosis'] }, 'daily', withConditionRule);
+    const calcium = selections.find(selection => selection.electrolyte === 'calcium')!;
+
+    expect(formsFor(customer, 'bedtime')).toMatchObject({ magnesium: 'magnesium-malate', calcium: 'calcium-carbonate' });
+    expect(toElectrolyteForms(selections)).toMatchObject({ magnesium: 'magnesium-malate', calcium: 'calcium-citrate' });
+    expect(calcium).toMatchObject({ source: 'condition', ruleId: 'osteoporosis.calcium.citrate' });
+    expect(calcium.reason).toContain('preferred calcium-carbonate not used');
+  });
+
+  it('should report the chosen forms on the formulation', async () => {
+    const result = await new PersonalPotionsEngine().calculate({ ...baseCustomerData, 'sleep-issues': ['trouble-falling-asleep'], 'sleep-goals': ['falling-asleep'] });
+
+    expect(result.useCase).toBe('bedtime');
+    expect(result.metadata.electrolyteForms.magnesium).toBe('magnesium-glycinate');
+    expect(result.metadata.formSelections?.find(selection => selection.electrolyte === 'magnesium')?.ruleId).toBe('bedtime.magnesium.glycinate');
+  });
+
+  it('should convert between elemental and compound mass', () => {
+    expect(toCompoundMg(500, 'sodium-chloride')).toBe(1272);
+    expect(toCompoundMg(100, 'magnesium-threonate')).toBe(1205);
+    expect(toElementalMg(1000, 'calcium-carbonate')).toBe(400);
+    Object.values(ELECTROLYTE_FORM_CATALOG).forEach(info => {
+      expect(info.elementalFraction).toBeGreaterThan(0);
+      expect(info.elementalFraction).toBeLessThan(1);
+    });
+  });
+
+  it('should reject preferred forms of the wrong electrolyte', () => {
+    const result = validateCustomerData({ ...baseCustomerData, 'preferred-forms': { sodium: 'potassium-chloride' } });
+
+    expect(result.errors).toEqual(['preferred-forms.sodium must be a sodium form from the electrolyte form catalog']);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Training Environment Tests
+ *
+ * Verifies temperature, humidity and altitude factors, their effect on sodium
+ * and sweat loss, and environment field validation
+ */
+
+import { calculateEnvironmentAdjustment } from '../environment';
+import { estimateSweatLoss } from '../sweat-loss';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData } from '@/types';
+import { validateCustomerData } from '@/types';
+
+describe('Training Environment', () => {
+  const { constants } = getStableFormulaVersion();
+
+  const baseCustomerData: CustomerData = {
+    age: 35,
+    'biological-sex': 'female',
+    weight: 150,
+    'activity-level': 'very-active',
+    'sweat-level': 'moderate',
+    'workout-frequency': '4-6-per-week',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+  };
+
+  const phoenix: CustomerData = {
+    ...baseCustomerData,
+    'training-temperature': 102,
+    'training-humidity': 15,
+    altitude: 1100,
+    'training-environment': 'outdoor',
+  };
+
+  const denver: CustomerData = {
+    ...baseCustomerData,
+    'training-temperature': 68,
+    'training-humidity': 30,
+    altitude: 5280,
+    'training-environment': 'outdoor',
+  };
+
+  const engine = new PersonalPotionsEngine();
+
+  it('should report each factor and the combined multipliers', () => {
+    const adjustment = calculateEnvironmentAdjustment(phoenix, constants)!;
+
+    expect(adjustment.factors).toEqual([
+      { factor: 'temperature', value: 102, fluidMultiplier: 1.5, sodiumMultiplier: 1.3 },
+      { factor: 'humidity', value: 15, fluidMultiplier: 1.0, sodiumMultiplier: 1.0 },
+      { factor: 'altitude', value: 1100, fluidMultiplier: 1.0, sodiumMultiplier: 1.0 },
+    ]);
+    expect(adjustment.fluidMultiplier).toBe(1.5);
+    expect(adjustment.sodiumMultiplier).toBe(1.3);
+    expect(calculateEnvironmentAdjustment(baseCustomerData, constants)).toBeNull();
+  });
+
+  it('should ignore temperature and humidity for indoor training but keep altitude', () => {
+    const adjustment = calculateEnvironmentAdjustment({ ...denver, 'training-temperature': 95, 'training-environment': 'indoor' }, constants)!;
+
+    expect(adjustment.factors[0]).toMatchObject({ factor: 'temperature', fluidMultiplier: 1, note: 'Indoor training - climate controlled' });
+    expect(adjustment.fluidMultiplier).toBe(1.1);
+  });
+
+  it('should raise sodium for hot climates and show the contribution in metadata', async () => {
+    const [seattleResult, phoenixResult] = await Promise.all([
+      engine.calculate(baseCustomerData),
+      engine.calculate(phoenix),
+    ]);
+
+    expect(phoenixResult.metadata.optimalIntake.sodium).toBeGreaterThan(seattleResult.metadata.optimalIntake.sodium);
+    expect(phoenixResult.metadata.appliedMultipliers?.['ENVIRONMENT_ADJUSTMENTS.temperature.sodium']).toBe(1.3);
+    expect(phoenixResult.metadata.environment?.sodiumMultiplier).toBe(1.3);
+    expect(seattleResult.metadata.environment).toBeUndefined();
+  });
+
+  it('should raise estimated fluid loss at altitude', () => {
+    const atAltitude = estimateSweatLoss(denver, constants);
+    const atSeaLevel = estimateSweatLoss(baseCustomerData, constants);
+
+    expect(atAltitude.factors.environment).toBe(1.1);
+    expect(atAltitude.fluidLitersPerWeek).toBeGreaterThan(atSeaLevel.fluidLitersPerWeek);
+  });
+
+  it('should validate environment ranges', () => {
+    const result = validateCustomerData({
+      ...baseCustomerData,
+      'training-temperature': 150,
+      'training-humidity': -5,
+      altitude: 30000,
+      'training-environment': 'space' as CustomerData['training-environment'],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'training-temperature must be between -40°F and 130°F',
+      'training-humidity must be between 0% and 100%',
+      'altitude must be between -1500 ft and 18000 ft',
+      'training-environment must be "indoor", "outdoor" or "both"',
+    ]);
+    expect(validateCustomerData(phoenix).isValid).toBe(true);
+  });
+});
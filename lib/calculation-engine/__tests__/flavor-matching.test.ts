@@ -0,0 +1,92 @@
+/**
+ * Flavor Matching Tests
+ *
+ * Verifies flavor profile defaults, bitterness masking at the calculated doses
+ * and flavor answer validation
+ */
+
+import { matchFlavor, resolveFlavorProfile } from '../flavor-matching';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import type { CustomerData, FlavorProfile } from '@/types';
+import { DEFAULT_FLAVOR_PROFILE, validateCustomerData } from '@/types';
+
+describe('Flavor Matching', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 35,
+    'biological-sex': 'female',
+    weight: 150,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '7',
+    'magnesium-intake': '7',
+    'calcium-intake': '7',
+  };
+
+  it('should fill in missing answers from the default profile', () => {
+    expect(resolveFlavorProfile()).toEqual(DEFAULT_FLAVOR_PROFILE);
+    expect(resolveFlavorProfile({ family: 'berry', sugarFree: true })).toEqual({ ...DEFAULT_FLAVOR_PROFILE, family: 'berry', sugarFree: true });
+    expect(resolveFlavorProfile({ sweetness: 'none' })).toMatchObject({ sweetener: 'none', sweetness: 'none' });
+  });
+
+  it('should mask doses within the flavor capacity scaled by sweetness', () => {
+    const amounts = { sodium: 500, potassium: 400, magnesium: 180, calcium: 200 };
+
+    expect(matchFlavor({ family: 'citrus' }, amounts).masked).toBe(true);
+    expect(matchFlavor({ family: 'citrus' }, amounts).note).toBeUndefined();
+    expect(matchFlavor({ family: 'citrus', sweetness: 'light' }, amounts).bitterness).toEqual([
+      { electrolyte: 'magnesium', mgPerServing: 180, maskableMg: 180, masked: true },
+      { electrolyte: 'potassium', mgPerServing: 400, maskableMg: 540, masked: true },
+    ]);
+    expect(matchFlavor({ family: 'citrus', sweetness: 'none' }, amounts).masked).toBe(false);
+  });
+
+  it('should suggest flavors that mask high magnesium', () => {
+    const match = matchFlavor({ family: 'cucumber' }, { sodium: 500, potassium: 250, magnesium: 210, calcium: 200 });
+
+    expect(match.masked).toBe(false);
+    expect(match.alternatives).toEqual(['mint']);
+    expect(match.note).toBe('Cucumber at moderate sweetness may not fully mask 210 mg magnesium per serving; Mint would');
+  });
+
+  it('should match the flavor to the final formulation', async () => {
+    const engine = new PersonalPotionsEngine();
+    const profile: Partial<FlavorProfile> = { family: 'unflavored', sweetener: 'monk-fruit', sweetness: 'light', sugarFree: true };
+    const [plain, flavored] = await Promise.all([
+      engine.calculate(baseCustomerData),
+      engine.calculate({ ...baseCustomerData, 'flavor-profile': profile }),
+    ]);
+
+    expect(plain.flavor).toBeUndefined();
+    expect(flavored.flavor?.profile).toEqual(profile);
+    expect(flavored.flavor?.bitterness.map(check => check.mgPerServing))
+      .toEqual([flavored.formulationPerServing.magnesium, flavored.formulationPerServing.potassium]);
+    if (flavored.flavor?.note) {
+      expect(flavored.metadata.recommendations).toContain(flavored.flavor.note);
+    }
+  });
+
+  it('should reject unknown flavors and cane sugar for sugar-free customers', () => {
+    const result = validateCustomerData({
+      ...baseCustomerData,
+      'flavor-profile': { family: 'bacon' as FlavorProfile['family'], sweetener: 'cane-sugar', sugarFree: true },
+    });
+
+    expect(result.errors).toEqual([
+      'flavor-profile.family must be one of citrus, berry, tropical, mint, cucumber, unflavored',
+      'flavor-profile.sweetener cane-sugar does not meet the sugar-free requirement',
+    ]);
+  });
+
+  it('should reject a flavor profile that is not an object', () => {
+    for (const profile of [null, 'citrus', 3]) {
+      const result = validateCustomerData({
+        ...baseCustomerData,
+        'flavor-profile': profile as unknown as FlavorProfile,
+      });
+
+      expect(result.errors).toEqual(['flavor-profile must be an object']);
+    }
+  });
+});
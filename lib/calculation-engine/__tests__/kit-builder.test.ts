@@ -0,0 +1,118 @@
+/**
+ * Formulation Kit Builder Tests
+ *
+ * Verifies one formulation per qualifying use case, dosing schedules and
+ * the combined daily safety check against the components' own daily limits
+ */
+
+import { buildFormulationKit, getKitDailyLimits, getKitUseCases } from '../kit-builder';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { isSafetyLimitViolation } from '../safety-enforcement';
+import { getSafetyLimits } from '../safety-limits';
+import { buildDosingSchedule } from '../dosing-schedule';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData } from '@/types';
+import { ELECTROLYTE_TYPES, SAFETY_LIMITS } from '@/types';
+
+describe('Formulation Kit Builder', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 32,
+    'biological-sex': 'female',
+    weight: 145,
+    'activity-level': 'very-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+  };
+
+  const sleepAndSweatData: CustomerData = {
+    ...baseCustomerData,
+    'sleep-issues': ['trouble-falling-asleep'],
+    'sweat-level': 'heavy',
+    'workout-frequency': 'daily',
+  };
+
+  const engine = new PersonalPotionsEngine();
+  const { constants } = getStableFormulaVersion();
+
+  // Extremely active heavy sweater with sleep issues and hangover symptoms: bedtime, sweat and hangover components
+  // whose potassium minimums alone exceed what the sweat component may deliver in a day
+  const overLimitData: CustomerData = {
+    ...sleepAndSweatData,
+    'activity-level': 'extremely-active',
+    'hangover-symptoms': ['headache'],
+  };
+
+  it('should include every qualifying use case once, detected use case first', () => {
+    const useCases = getKitUseCases({ ...sleepAndSweatData, usage: 'bedtime' }, constants).map(entry => entry.useCase);
+
+    expect(useCases).toEqual(['bedtime', 'sweat']);
+    expect(getKitUseCases(baseCustomerData, constants).map(entry => entry.useCase)).toEqual(['daily']);
+  });
+
+  it('should calculate each component for its own use case with its dosing schedule', async () => {
+    const kit = await buildFormulationKit(engine, sleepAndSweatData, constants);
+    const [bedtime, sweat] = kit.components;
+
+    expect(kit.primaryUseCase).toBe('bedtime');
+    expect(bedtime.role).toBe('primary');
+    expect(bedtime.formulation.useCase).toBe('bedtime');
+    expect(bedtime.schedule).toEqual(buildDosingSchedule(sleepAndSweatData, bedtime.formulation, constants));
+    expect(bedtime.schedule.events.map(event => event.timing)).toEqual(['bedtime']);
+    expect(sweat.role).toBe('component');
+    expect(sweat.formulation.useCase).toBe('sweat');
+    expect(sweat.formulation.metadata.detectedUseCase).toBe('bedtime');
+    expect(sweat.schedule).toEqual(buildDosingSchedule(sleepAndSweatData, sweat.formulation, constants));
+    expect(sweat.schedule.servingsPerDay).toBe(sweat.formulation.metadata.recommendedServingsPerDay);
+  });
+
+  it('should take the kit ceiling from the safety limits of its components at their servings per day', async () => {
+    const kit = await buildFormulationKit(engine, sleepAndSweatData, constants);
+    const [bedtime, sweat] = kit.components;
+
+    expect(bedtime.formulation.metadata.recommendedServingsPerDay).toBe(1);
+    expect(sweat.formulation.metadata.recommendedServingsPerDay).toBe(2);
+    expect(getKitDailyLimits(kit.components, sleepAndSweatData, constants)).toEqual({
+      sodium: SAFETY_LIMITS.sweat.sodium.max * 2,
+      potassium: SAFETY_LIMITS.sweat.potassium.max * 2,
+      magnesium: SAFETY_LIMITS.sweat.magnesium.max * 2,
+      calcium: SAFETY_LIMITS.sweat.calcium.max * 2,
+    });
+  });
+
+  it('should recalculate two components whose combined total exceeds the ceiling with daily caps', async () => {
+    const kit = await buildFormulationKit(engine, sleepAndSweatData, constants);
+
+    // Bedtime 800 + sweat 2 × 1000 mg sodium would exceed the 2000 mg/day the sweat component may deliver alone
+    expect(kit.components.map(component => component.useCase)).toEqual(['bedtime', 'sweat']);
+    expect(kit.safetyAdjustments.map(adjustment => adjustment.electrolyte)).toEqual(['sodium', 'potassium', 'calcium']);
+    kit.safetyAdjustments.forEach(adjustment => {
+      expect(adjustment.combinedTotal).toBeGreaterThan(adjustment.limit);
+      expect(adjustment.scaleFactor).toBeLessThan(1);
+    });
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      expect(kit.combinedDailyTotal[electrolyte]).toBeLessThanOrEqual(kit.combinedDailyLimits[electrolyte]);
+    });
+
+    kit.components.forEach(({ useCase, formulation, dailyTotal }) => {
+      const limits = getSafetyLimits(useCase, sleepAndSweatData, constants);
+      ELECTROLYTE_TYPES.forEach(electrolyte => {
+        expect(formulation.formulationPerServing[electrolyte]).toBeGreaterThanOrEqual(limits[electrolyte].min);
+      });
+      expect(dailyTotal.sodium).toBe(formulation.formulationPerServing.sodium * formulation.metadata.recommendedServingsPerDay);
+      expect(formulation.metadata.calculationTrace?.some(entry => entry.step === 'daily-cap')).toBe(true);
+      expect(formulation.metadata.safetyReport?.passed).toBe(true);
+      expect(formulation.dosingSchedule?.servingsPerDay).toBe(formulation.metadata.recommendedServingsPerDay);
+    });
+  });
+
+  it('should refuse kits that exceed the ceiling even at the per-serving safety minimums', async () => {
+    const error = await buildFormulationKit(engine, overLimitData, constants).catch(caught => caught);
+
+    expect(isSafetyLimitViolation(error)).toBe(true);
+    expect(error.details).toContainEqual(expect.stringMatching(/^potassium combined total of \d+ mg\/day exceeds 1400 mg\/day$/));
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Pregnancy & Lactation Tests
+ *
+ * Verifies maternal DRIs, tightened safety limits, menstrual suppression,
+ * the provider recommendation and female-only validation
+ */
+
+import { getMaternalStatus } from '../maternal';
+import { getSafetyLimits } from '../safety-limits';
+import { detectUseCase } from '../use-case-detector';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData } from '@/types';
+import { validateCustomerData } from '@/types';
+
+describe('Pregnancy & Lactation', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 29,
+    'biological-sex': 'female',
+    weight: 150,
+    'activity-level': 'very-active',
+    'sweat-level': 'heavy',
+    'workout-frequency': 'daily',
+    'workout-duration': '90-120',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+  };
+
+  const engine = new PersonalPotionsEngine();
+  const { constants } = getStableFormulaVersion();
+
+  it('should only apply to pregnant or breastfeeding female customers', () => {
+    expect(getMaternalStatus({ ...baseCustomerData, 'pregnancy-trimester': 'first', lactating: true })).toBe('pregnant');
+    expect(getMaternalStatus({ ...baseCustomerData, lactating: true })).toBe('lactating');
+    expect(getMaternalStatus({ ...baseCustomerData, 'biological-sex': 'male', lactating: true })).toBeNull();
+    expect(getMaternalStatus(baseCustomerData)).toBeNull();
+  });
+
+  it('should use the maternal DRIs and stricter limits', async () => {
+    const result = await engine.calculate({ ...baseCustomerData, 'pregnancy-trimester': 'second' });
+    const sources = result.metadata.calculationTrace!.map(entry => entry.source);
+    const limits = getSafetyLimits(result.useCase, { ...baseCustomerData, 'pregnancy-trimester': 'second' }, constants);
+
+    expect(sources).toContain('MATERNAL_MAGNESIUM_RDA.PREGNANT_19_TO_30');
+    expect(sources).toContain('MATERNAL_CALCIUM_RDA.AGE_19_AND_OVER');
+    expect(limits.sodium.max).toBe(600);
+    expect(limits.potassium.max).toBe(500);
+    expect(limits.magnesium.max).toBe(150);
+    expect(result.formulationPerServing.sodium).toBeLessThanOrEqual(600);
+    expect(result.formulationPerServing.potassium).toBeLessThanOrEqual(500);
+    expect(result.formulationPerServing.magnesium).toBeLessThanOrEqual(150);
+  });
+
+  it('should never use the menstrual use case while pregnant or breastfeeding', () => {
+    const menstrual: CustomerData = { ...baseCustomerData, 'workout-frequency': 'never', 'menstrual-symptoms': ['cramps'], usage: 'menstrual' };
+
+    expect(detectUseCase(menstrual).useCase).toBe('menstrual');
+    expect(detectUseCase({ ...menstrual, lactating: true }).useCase).toBe('daily');
+  });
+
+  it('should always recommend consulting a provider first', async () => {
+    const result = await engine.calculate({ ...baseCustomerData, lactating: true });
+
+    expect(result.metadata.recommendations[0]).toBe('Breastfeeding: consult your healthcare provider before using this formulation');
+  });
+
+  it('should reject pregnancy and lactation answers from male customers', () => {
+    const result = validateCustomerData({ ...baseCustomerData, 'biological-sex': 'male', 'pregnancy-trimester': 'third', lactating: true });
+
+    expect(result.errors).toEqual([
+      'pregnancy-trimester is only accepted when biological-sex is "female"',
+      'lactating is only accepted when biological-sex is "female"',
+    ]);
+  });
+});
@@ -10,6 +10,7 @@ process.env.NODE_ENV = 'test';
 import { MockPersonalPotionsEngine } from '../mock/PersonalPotionsEngine';
 import { createCalculationEngine } from '../factory';
 import type { CustomerData } from '@/types';
+import { FORMULA_VERSION } from '@/types';
 
 describe('Mock Calculation Engine', () => {
   
@@ -39,7 +40,7 @@ describe('Mock Calculation Engine', () => {
       expect(result.formulationPerServing.calcium).toBeGreaterThan(0);
       
       expect(result.useCase).toBe('daily');
-      expect(result.metadata.formulaVersion).toBe('1.4-mock');
+      expect(result.metadata.formulaVersion).toBe(`${FORMULA_VERSION}-mock`);
       expect(result.metadata.customerAge).toBe(32);
       expect(result.metadata.customerWeight).toBe(145);
     });
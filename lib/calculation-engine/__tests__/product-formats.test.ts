@@ -0,0 +1,104 @@
+/**
+ * Product Format Tests
+ *
+ * Verifies servings per day and per-serving amounts are sized for the chosen format
+ */
+
+import { calculateFormatServings, getProductFormat } from '../product-formats';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { MockPersonalPotionsEngine } from '../mock/PersonalPotionsEngine';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData, ElectrolyteAmounts } from '@/types';
+import { PRODUCT_FORMATS, SAFETY_LIMITS, validateCustomerData } from '@/types';
+
+describe('Product Formats', () => {
+  const { constants } = getStableFormulaVersion();
+
+  const sweatCustomer: CustomerData = {
+    age: 28,
+    'biological-sex': 'male',
+    weight: 185,
+    'activity-level': 'very-active',
+    'sweat-level': 'heavy',
+    'workout-frequency': 'daily',
+    'workout-duration': '90-120',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+  };
+
+  const soluteLoad = (amounts: ElectrolyteAmounts) =>
+    amounts.sodium + amounts.potassium + amounts.magnesium + amounts.calcium;
+
+  const engine = new PersonalPotionsEngine();
+
+  it('should default to the 16 oz bottle without changing servings', async () => {
+    const result = await engine.calculate(sweatCustomer);
+
+    expect(getProductFormat(sweatCustomer, constants)).toBe(constants.PRODUCT_FORMATS['bottle-16oz']);
+    expect(result.productFormat).toMatchObject({ id: 'bottle-16oz', servingVolumeMl: 473, servingsPerDay: 2 });
+    expect(result.productFormat?.note).toBeUndefined();
+    expect(result.metadata.servingSize).toBe('16 fl oz (473ml)');
+    expect(result.metadata.recommendedServingsPerDay).toBe(2);
+  });
+
+  it('should add servings for a smaller can while keeping the 16 oz bottle servings as the daily reference', async () => {
+    const result = await engine.calculate({ ...sweatCustomer, 'product-format': 'can-12oz' });
+
+    expect(result.productFormat?.id).toBe('can-12oz');
+    expect(result.metadata.servingSize).toBe('12 fl oz (355ml)');
+    expect(result.productFormat).toMatchObject({ baseServingsPerDay: 2, servingsPerDay: 3 });
+    expect(soluteLoad(result.formulationPerServing)).toBeLessThanOrEqual(PRODUCT_FORMATS['can-12oz'].maxSoluteLoadMg);
+  });
+
+  it('should split the reference daily limits across the format servings without raising the daily totals', async () => {
+    const result = await engine.calculate({ ...sweatCustomer, 'product-format': 'can-12oz' });
+    const { servingsPerDay, baseServingsPerDay } = result.productFormat!;
+
+    // Each can carries 2/3 of the sweat limits, so 3 cans stay within the 2 bottles' daily range
+    expect(result.formulationPerServing).toEqual({ sodium: 666, potassium: 466, magnesium: 78, calcium: 134 });
+    (Object.keys(SAFETY_LIMITS.sweat) as Array<keyof ElectrolyteAmounts>).forEach(electrolyte => {
+      const dailyTotal = result.formulationPerServing[electrolyte] * servingsPerDay;
+      expect(dailyTotal).toBeLessThanOrEqual(SAFETY_LIMITS.sweat[electrolyte].max * baseServingsPerDay!);
+      expect(dailyTotal).toBeGreaterThanOrEqual(Math.min(SAFETY_LIMITS.sweat[electrolyte].min * baseServingsPerDay!, result.metadata.deficits[electrolyte]));
+    });
+    expect(result.metadata.safetyReport?.clamps).toEqual([]);
+  });
+
+  it('should rescale reference servings by serving volume and solute load', () => {
+    const daily = { sodium: 1200, potassium: 900, magnesium: 250, calcium: 400 };
+    const limits = SAFETY_LIMITS.sweat;
+
+    expect(calculateFormatServings(PRODUCT_FORMATS['bottle-1l'], 2, daily, limits, constants)).toMatchObject({
+      servingVolumeMl: 500,
+      servingsPerContainer: 2,
+      servingsPerDay: 2,
+    });
+    expect(calculateFormatServings(PRODUCT_FORMATS['can-12oz'], 1, daily, limits, constants).servingsPerDay).toBe(2);
+
+    const heavy = calculateFormatServings(PRODUCT_FORMATS['can-12oz'], 1, { sodium: 4000, potassium: 2800, magnesium: 800, calcium: 1200 }, limits, constants);
+    // Daily amounts above one serving's limits are capped at them, so two servings carry the capped total
+    expect(heavy).toMatchObject({ baseServingsPerDay: 1, servingsPerDay: 2 });
+    expect(heavy.note).toBe('Split into 2 servings per day to stay within the 1800 mg solute load of a 12 fl oz can');
+  });
+
+  it('should keep the mock daily total when resizing for a format', async () => {
+    const mock = new MockPersonalPotionsEngine();
+    const hangover: CustomerData = { ...sweatCustomer, 'workout-frequency': 'never', 'hangover-symptoms': ['headache'], 'activity-level': 'moderately-active' };
+    const [bottle, stick] = await Promise.all([
+      mock.calculate(hangover),
+      mock.calculate({ ...hangover, 'product-format': 'stick-pack' }),
+    ]);
+
+    expect(stick.productFormat?.id).toBe('stick-pack');
+    expect(stick.metadata.recommendedServingsPerDay * stick.formulationPerServing.potassium)
+      .toBe(bottle.metadata.recommendedServingsPerDay * bottle.formulationPerServing.potassium);
+  });
+
+  it('should reject unknown formats', () => {
+    const result = validateCustomerData({ ...sweatCustomer, 'product-format': 'keg' as CustomerData['product-format'] });
+
+    expect(result.errors).toEqual(['product-format must be one of bottle-16oz, can-12oz, bottle-1l, stick-pack']);
+  });
+});
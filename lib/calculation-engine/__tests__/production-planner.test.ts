@@ -0,0 +1,92 @@
+/**
+ * Production Planner Tests
+ *
+ * Verifies daily batches, run splitting, assignments and compound totals
+ */
+
+import { buildProductionPlan, containersForOrder } from '../production-planner';
+import { buildRecipeSheet } from '../recipe-sheet';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import type { CustomerData, FormulationResult, ProductionOrder } from '@/types';
+
+describe('Production Planner', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 35,
+    'biological-sex': 'male',
+    weight: 170,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '7',
+    'magnesium-intake': '7',
+    'calcium-intake': '7',
+  };
+
+  const range = { from: '2024-03-08T00:00:00.000Z', to: '2024-03-09T23:59:59.999Z' };
+  let bottle: FormulationResult;
+  let can: FormulationResult;
+
+  const order = (formulationId: string, createdAt: string, formulation: FormulationResult = bottle): ProductionOrder => ({
+    formulationId,
+    createdAt,
+    servingsPerDay: 2,
+    recipe: buildRecipeSheet(formulation),
+  });
+
+  beforeAll(async () => {
+    const engine = new PersonalPotionsEngine();
+    [bottle, can] = await Promise.all([
+      engine.calculate(baseCustomerData),
+      engine.calculate({ ...baseCustomerData, 'product-format': 'can-12oz' }),
+    ]);
+  });
+
+  it('should make each formulation for the supply days', () => {
+    expect(containersForOrder(order('a', range.from), 30)).toBe(60);
+    expect(containersForOrder({ ...order('a', range.from), servingsPerDay: 0 }, 30)).toBe(1);
+  });
+
+  it('should group formulations into a batch per production day', () => {
+    const plan = buildProductionPlan([
+      order('late', '2024-03-09T09:00:00.000Z'),
+      order('early', '2024-03-08T15:00:00.000Z'),
+      order('second', '2024-03-08T16:00:00.000Z'),
+    ], range);
+
+    expect(plan.batches.map(batch => batch.batchId)).toEqual(['2024-03-08', '2024-03-09']);
+    expect(plan.batches[0].runs[0].assignments.map(assignment => [assignment.formulationId, assignment.position]))
+      .toEqual([['early', 1], ['second', 2]]);
+    expect(plan).toMatchObject({ totalFormulations: 3, totalContainers: 180, maxContainersPerRun: 240, supplyDays: 30 });
+  });
+
+  it('should split runs by machine capacity and product format', () => {
+    const plan = buildProductionPlan([
+      order('a', '2024-03-08T08:00:00.000Z'),
+      order('b', '2024-03-08T09:00:00.000Z'),
+      order('c', '2024-03-08T10:00:00.000Z', can),
+      { ...order('big', '2024-03-08T11:00:00.000Z'), servingsPerDay: 6 },
+      order('d', '2024-03-08T12:00:00.000Z'),
+    ], range, { maxContainersPerRun: 120 });
+
+    expect(plan.batches[0].runs.map(run => [run.runId, run.productFormat, run.containers])).toEqual([
+      ['2024-03-08-R1', 'bottle-16oz', 120],
+      ['2024-03-08-R2', 'bottle-16oz', 180], // Never split across runs
+      ['2024-03-08-R3', 'bottle-16oz', 60],
+      ['2024-03-08-R4', 'can-12oz', 60],
+    ]);
+    expect(plan.batches[0].runs[2].assignments[0]).toMatchObject({ formulationId: 'd', batchId: '2024-03-08', runId: '2024-03-08-R3', position: 1 });
+  });
+
+  it('should total compound grams across runs and batches', () => {
+    const plan = buildProductionPlan([
+      order('a', '2024-03-08T08:00:00.000Z'),
+      order('b', '2024-03-09T08:00:00.000Z'),
+    ], range);
+    const sodium = buildRecipeSheet(bottle).ingredients[0];
+
+    expect(plan.batches[0].runs[0].compounds[0]).toMatchObject({ form: sodium.form, grams: Number((sodium.gramsPerContainer * 60).toFixed(2)) });
+    expect(plan.compounds[0].grams).toBe(Number((sodium.gramsPerContainer * 120).toFixed(2)));
+    expect(plan.compounds).toHaveLength(4);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Calcium:Magnesium Ratio Optimizer Tests
+ *
+ * Verifies the use case ratio is reached by reducing the electrolyte in excess,
+ * never raising either one and never leaving SAFETY_LIMITS
+ */
+
+import { optimizeCalciumMagnesiumRatio } from '../core/ratio-optimizer';
+import { CalculationTrace } from '../core/trace';
+import { getStableFormulaVersion, deriveFormulaConstants } from '../versions';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import type { CustomerData } from '@/types';
+import { SAFETY_LIMITS, USE_CASE_RATIOS } from '@/types';
+
+describe('Calcium:Magnesium Ratio Optimizer', () => {
+
+  const { constants } = getStableFormulaVersion();
+
+  it('should leave amounts within range untouched', () => {
+    const amounts = { sodium: 500, potassium: 500, magnesium: 140, calcium: 280 };
+    const { amounts: optimized, report } = optimizeCalciumMagnesiumRatio('daily', amounts, constants, new CalculationTrace());
+
+    expect(optimized).toEqual(amounts);
+    expect(report.ratioAdjustment).toBe('within-range');
+    expect(report.feasible).toBe(true);
+  });
+
+  it('should bring the hangover ratio into range by reducing magnesium', () => {
+    const trace = new CalculationTrace();
+    const amounts = { sodium: 450, potassium: 500, magnesium: 400, calcium: 50 };
+    const { amounts: optimized, report } = optimizeCalciumMagnesiumRatio('hangover', amounts, constants, trace);
+
+    // 50 mg calcium / 0.3 = 166 mg magnesium at most
+    expect(optimized.calcium).toBe(50);
+    expect(optimized.magnesium).toBe(166);
+    expect(report.calciumMagnesiumRatio).toBeGreaterThanOrEqual(USE_CASE_RATIOS.hangover.min);
+    expect(report.ratioAdjustment).toBe('magnesium-adjusted');
+    expect(trace.getEntries()[0]).toMatchObject({ step: 'ratio-optimization', electrolyte: 'magnesium', before: 400, after: 166 });
+  });
+
+  it('should reduce calcium when it is in excess', () => {
+    const amounts = { sodium: 500, potassium: 500, magnesium: 100, calcium: 300 };
+    const { amounts: optimized, report } = optimizeCalciumMagnesiumRatio('daily', amounts, constants, new CalculationTrace());
+
+    expect(optimized).toEqual({ ...amounts, calcium: 220 });
+    expect(report.ratioAdjustment).toBe('calcium-adjusted');
+    expect(report.adjustments?.map(adjustment => adjustment.electrolyte)).toEqual(['calcium']);
+  });
+
+  it('should never raise calcium or magnesium above the calculated amounts', () => {
+    const amounts = { sodium: 500, potassium: 500, magnesium: 200, calcium: 200 };
+    const { amounts: optimized, report } = optimizeCalciumMagnesiumRatio('daily', amounts, constants, new CalculationTrace());
+
+    expect(optimized.calcium).toBe(200);
+    expect(optimized.magnesium).toBe(111);
+    expect(report.feasible).toBe(true);
+  });
+
+  it('should not add calcium for a customer whose calcium deficit is zero', async () => {
+    const customerData: CustomerData = {
+      age: 32,
+      'biological-sex': 'female',
+      weight: 145,
+      'activity-level': 'moderately-active',
+      'sweat-level': 'moderate',
+      'sodium-intake': '4-6',
+      'potassium-intake': '4-6',
+      'magnesium-intake': '4-6',
+      'calcium-intake': '14',
+    };
+    const result = await new PersonalPotionsEngine().calculate(customerData);
+
+    expect(result.metadata.deficits.calcium).toBeLessThanOrEqual(0);
+    expect(result.formulationPerServing.calcium).toBe(SAFETY_LIMITS.daily.calcium.min);
+  });
+
+  it('should leave amounts unoptimized for versions without the ratio optimizer stage', () => {
+    const withoutStage = deriveFormulaConstants(constants, { ENGINE_STAGES: { ...constants.ENGINE_STAGES, RATIO_OPTIMIZATION: false } });
+    const amounts = { sodium: 450, potassium: 500, magnesium: 400, calcium: 50 };
+    const { amounts: optimized, report } = optimizeCalciumMagnesiumRatio('hangover', amounts, withoutStage, new CalculationTrace());
+
+    expect(optimized).toEqual(amounts);
+    expect(report.ratioAdjustment).toBe('not-optimized');
+  });
+
+  it('should flag ratios that cannot be reached within the safety limits', () => {
+    const narrowLimits = deriveFormulaConstants(constants, {
+      SAFETY_LIMITS: {
+        ...constants.SAFETY_LIMITS,
+        daily: { ...constants.SAFETY_LIMITS.daily, calcium: { min: 200, max: 220 }, magnesium: { min: 180, max: 200 } },
+      },
+    });
+    const amounts = { sodium: 500, potassium: 500, magnesium: 200, calcium: 220 };
+    const { amounts: optimized, report } = optimizeCalciumMagnesiumRatio('daily', amounts, narrowLimits, new CalculationTrace());
+
+    expect(report.feasible).toBe(false);
+    expect(report.ratioAdjustment).toBe('infeasible');
+    expect(report.note).toContain('cannot be reached');
+    expect(optimized.magnesium).toBe(180);
+  });
+
+  it('should fill ratioOptimization for hangover formulations from the engine', async () => {
+    const customerData: CustomerData = {
+      age: 28,
+      'biological-sex': 'male',
+      weight: 180,
+      'activity-level': 'moderately-active',
+      'sweat-level': 'moderate',
+      'sodium-intake': '0',
+      'potassium-intake': '0',
+      'magnesium-intake': '0',
+      'calcium-intake': '0',
+      'hangover-symptoms': ['headache', 'dehydration'],
+      'hangover-timing': 'after',
+    };
+    const result = await new PersonalPotionsEngine().calculate(customerData);
+    const limits = SAFETY_LIMITS.hangover;
+
+    expect(result.useCase).toBe('hangover');
+    expect(result.metadata.ratioOptimization?.range).toEqual({ min: 0.3, max: 0.8 });
+    expect(result.formulationPerServing.calcium).toBeLessThanOrEqual(limits.calcium.max);
+    expect(result.formulationPerServing.magnesium).toBeLessThanOrEqual(limits.magnesium.max);
+    if (result.metadata.ratioOptimization?.feasible) {
+      expect(result.metadata.ratioOptimization.calciumMagnesiumRatio).toBeLessThanOrEqual(0.8);
+      expect(result.metadata.ratioOptimization.calciumMagnesiumRatio).toBeGreaterThanOrEqual(0.3);
+    }
+  });
+});
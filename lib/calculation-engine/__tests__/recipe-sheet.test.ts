@@ -0,0 +1,82 @@
+/**
+ * Recipe Sheet Tests
+ *
+ * Verifies compound grams, container scaling, tolerance bands and CSV export
+ */
+
+import { buildRecipeSheet, formatRecipeCsv } from '../recipe-sheet';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import type { CustomerData, FormulationResult } from '@/types';
+
+describe('Recipe Sheet', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 35,
+    'biological-sex': 'male',
+    weight: 170,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '7',
+    'magnesium-intake': '7',
+    'calcium-intake': '7',
+  };
+
+  let formulation: FormulationResult;
+
+  beforeAll(async () => {
+    const result = await new PersonalPotionsEngine().calculate(baseCustomerData);
+    formulation = {
+      ...result,
+      formulationPerServing: { sodium: 500, potassium: 400, magnesium: 100, calcium: 200 },
+      metadata: {
+        ...result.metadata,
+        electrolyteForms: {
+          sodium: 'sodium-chloride',
+          potassium: 'potassium-citrate',
+          magnesium: 'magnesium-glycinate',
+          calcium: 'calcium-citrate',
+        },
+      },
+    };
+  });
+
+  it('should convert elemental mg to compound grams per serving', () => {
+    const recipe = buildRecipeSheet(formulation);
+    const sodium = recipe.ingredients[0];
+
+    expect(recipe.ingredients.map(ingredient => ingredient.form))
+      .toEqual(['sodium-chloride', 'potassium-citrate', 'magnesium-glycinate', 'calcium-citrate']);
+    expect(sodium).toMatchObject({ elementalMgPerServing: 500, elementalFraction: 0.393, gramsPerServing: 1.27 });
+    expect(recipe.ingredients[2].gramsPerServing).toBe(0.71);
+    expect(recipe.servingsPerContainer).toBe(1);
+    expect(sodium.gramsPerContainer).toBe(1.27);
+  });
+
+  it('should scale to the container before rounding', () => {
+    const recipe = buildRecipeSheet({
+      ...formulation,
+      productFormat: { id: 'bottle-1l', label: '1 L bottle', servingVolumeMl: 500, servingsPerContainer: 2, maxSoluteLoadMg: 2500, servingsPerDay: 2 },
+    });
+
+    expect(recipe.productFormat).toBe('bottle-1l');
+    expect(recipe.ingredients[0].gramsPerContainer).toBe(2.54);
+    expect(recipe.totalGramsPerContainer).toBeGreaterThan(recipe.totalGramsPerServing);
+  });
+
+  it('should band each amount by the tolerance, never tighter than the scale', () => {
+    const recipe = buildRecipeSheet(formulation, { tolerancePercent: 5, scalePrecisionGrams: 0.1 });
+
+    expect(recipe.ingredients[0].gramsPerServing).toBe(1.3);
+    expect(recipe.ingredients[0].tolerancePerServing).toEqual({ minGrams: 1.2, maxGrams: 1.4 });
+    expect(buildRecipeSheet(formulation).ingredients[0].tolerancePerServing).toEqual({ minGrams: 1.25, maxGrams: 1.3 });
+  });
+
+  it('should export one CSV row per compound', () => {
+    const lines = formatRecipeCsv(buildRecipeSheet(formulation)).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toBe('electrolyte,form,compound,elemental_fraction,elemental_mg_per_serving,grams_per_serving,min_grams_per_serving,max_grams_per_serving,grams_per_container,min_grams_per_container,max_grams_per_container');
+    expect(lines[1]).toBe('sodium,sodium-chloride,Sodium chloride,0.393,500,1.27,1.25,1.3,1.27,1.25,1.3');
+  });
+});
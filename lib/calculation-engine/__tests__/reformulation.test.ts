@@ -0,0 +1,133 @@
+/**
+ * Reformulation Tests
+ *
+ * Verifies feedback rules adjust the previous formulation, adjustments are
+ * bounded by REFORMULATION_LIMITS, safety limits and caps, proposals are
+ * screened for contraindications on the stored servings per day, and link back
+ */
+
+import { proposeReformulation, matchReformulationRules } from '../reformulation';
+import { getStableFormulaVersion, deriveFormulaConstants } from '../versions';
+import type { CustomerData, FormulationFeedback, FormulationResult } from '@/types';
+
+describe('Reformulation', () => {
+
+  const { constants } = getStableFormulaVersion();
+
+  const customer: Partial<CustomerData> = { age: 34, 'biological-sex': 'female', weight: 140 };
+
+  const previous = {
+    useCase: 'daily',
+    formulationPerServing: { sodium: 300, potassium: 450, magnesium: 120, calcium: 250 },
+    metadata: { formulaVersion: '1.4', recommendedServingsPerDay: 1 },
+  } as unknown as FormulationResult;
+
+  const noComplaints: FormulationFeedback = { cramps: 'none', giUpset: 'none', sleepQuality: 4, taste: 4, energy: 4 };
+
+  const propose = (feedback: Partial<FormulationFeedback>, formulation = previous, options: { servingsPerDay?: number; customer?: Partial<CustomerData> } = {}) =>
+    proposeReformulation(formulation, { ...noComplaints, ...feedback }, {
+      sourceResultId: 'result-1',
+      feedbackId: 'feedback-1',
+      servingsPerDay: options.servingsPerDay ?? 1,
+      customer: options.customer ?? customer,
+      constants,
+    });
+
+  it('should lower magnesium after GI upset and link back to the original result', () => {
+    const proposal = propose({ giUpset: 'moderate' });
+
+    expect(proposal).toMatchObject({ sourceResultId: 'result-1', feedbackId: 'feedback-1', useCase: 'daily', changed: true });
+    expect(proposal.proposedPerServing).toEqual({ sodium: 300, potassium: 450, magnesium: 96, calcium: 250 });
+    expect(proposal.adjustments).toEqual([{
+      electrolyte: 'magnesium',
+      ruleIds: ['gi-upset.magnesium.lower'],
+      requestedPercent: -20,
+      appliedPercent: -20,
+      previousMg: 120,
+      proposedMg: 96,
+    }]);
+  });
+
+  it('should raise magnesium and potassium for persistent cramps', () => {
+    const proposal = propose({ cramps: 'severe' });
+
+    expect(proposal.proposedPerServing.magnesium).toBe(138);
+    expect(proposal.proposedPerServing.potassium).toBe(495);
+    expect(proposal.reasons).toHaveLength(2);
+  });
+
+  it('should bound summed adjustments by REFORMULATION_LIMITS', () => {
+    const feedback = { ...noComplaints, cramps: 'moderate' as const, sleepQuality: 1 as const };
+    const atBound = propose(feedback).adjustments.find(adjustment => adjustment.electrolyte === 'magnesium')!;
+    expect(atBound).toMatchObject({ requestedPercent: 25, appliedPercent: 25, proposedMg: 150 });
+    expect(atBound.limitedBy).toBeUndefined();
+
+    const tighter = deriveFormulaConstants(constants, {
+      REFORMULATION_LIMITS: { MAX_ADJUSTMENT_PERCENT: 20 } as unknown as typeof constants.REFORMULATION_LIMITS,
+    });
+    const bounded = proposeReformulation(previous, feedback, { sourceResultId: 'result-1', servingsPerDay: 1, customer, constants: tighter })
+      .adjustments.find(adjustment => adjustment.electrolyte === 'magnesium')!;
+    expect(bounded).toMatchObject({
+      requestedPercent: 25,
+      appliedPercent: 20,
+      proposedMg: 144,
+      limitedBy: 'REFORMULATION_LIMITS.MAX_ADJUSTMENT_PERCENT',
+    });
+  });
+
+  it('should keep proposals within the customer safety limits', () => {
+    const proposal = propose({ cramps: 'severe' }, {
+      ...previous,
+      formulationPerServing: { ...previous.formulationPerServing, potassium: 580 },
+    } as FormulationResult);
+    const potassium = proposal.adjustments.find(adjustment => adjustment.electrolyte === 'potassium')!;
+
+    expect(potassium).toMatchObject({ proposedMg: 600, limitedBy: 'SAFETY_LIMITS.daily.potassium' });
+  });
+
+  it('should hold proposals that raise potassium for a customer on an ACE inhibitor', () => {
+    const onAceInhibitor = { ...customer, medications: ['ace-inhibitor' as const] };
+    const { contraindications } = propose({ cramps: 'severe' }, previous, { customer: onAceInhibitor });
+
+    expect(propose({ cramps: 'severe' }).contraindications.reviewStatus).toBe('not-required');
+    expect(contraindications.findings.find(finding => finding.kind === 'block'))
+      .toMatchObject({ ruleId: 'ace-inhibitor.potassium.block', dailyAmount: 495 });
+    expect(contraindications.reviewStatus).toBe('review-required');
+    expect(contraindications.orderable).toBe(false);
+  });
+
+  it('should screen the stored servings per day rather than the recommendation', () => {
+    const withHeartDisease = { ...customer, conditions: ['heart-disease' as const] };
+    const asRecommended = propose({ energy: 1 }, previous, { customer: withHeartDisease });
+    const overridden = propose({ energy: 1 }, previous, { customer: withHeartDisease, servingsPerDay: 4 });
+
+    expect(asRecommended.contraindications.reviewStatus).toBe('not-required');
+    expect(overridden.servingsPerDay).toBe(4);
+    expect(overridden.contraindications.findings.find(finding => finding.kind === 'block'))
+      .toMatchObject({ ruleId: 'heart-disease.sodium.block', dailyAmount: 1320 });
+  });
+
+  it('should keep proposals within daily caps split across the servings', () => {
+    const raisesCalcium = deriveFormulaConstants(constants, {
+      REFORMULATION_RULES: [{ id: 'cramps.calcium.raise', signal: 'cramps', severities: ['severe'], electrolyte: 'calcium', percent: 20, reason: 'Cramps: calcium raised 20%' }],
+    });
+    const proposal = proposeReformulation(previous, { ...noComplaints, cramps: 'severe' }, {
+      sourceResultId: 'result-1',
+      servingsPerDay: 4,
+      customer: { ...customer, conditions: ['kidney-disease'] },
+      constants: raisesCalcium,
+    });
+
+    expect(proposal.adjustments).toEqual([expect.objectContaining({
+      electrolyte: 'calcium',
+      requestedPercent: 20,
+      proposedMg: 250,
+      limitedBy: 'kidney-disease.calcium.cap',
+    })]);
+  });
+
+  it('should match no rules and propose no change for good feedback', () => {
+    expect(matchReformulationRules(noComplaints, constants)).toEqual([]);
+    expect(propose({}).changed).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Safety Limit Enforcement Tests
+ *
+ * Verifies clamping to SAFETY_LIMITS, the clamp report, lowering restricted
+ * electrolytes below the minimum instead of refusing, and refusal of
+ * formulations that violate hard limits
+ */
+
+import { enforceSafetyLimits, isSafetyLimitViolation, SafetyEnforcedEngine } from '../safety-enforcement';
+import { MockPersonalPotionsEngine } from '../mock/PersonalPotionsEngine';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData, FormulationResult } from '@/types';
+import { SAFETY_LIMITS } from '@/types';
+
+class FixedEngine extends SafetyEnforcedEngine {
+  constructor(private readonly result: FormulationResult) {
+    super(getStableFormulaVersion());
+  }
+
+  protected async calculateFormulation(): Promise<FormulationResult> {
+    return this.result;
+  }
+}
+
+describe('Safety Limit Enforcement', () => {
+
+  const hangoverData: CustomerData = {
+    age: 30,
+    'biological-sex': 'male',
+    weight: 180,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+    'hangover-symptoms': ['headache'],
+  };
+
+  const { constants } = getStableFormulaVersion();
+
+  it('should clamp mock hangover sodium to the 450 mg cap and report it', async () => {
+    const formulation = await new MockPersonalPotionsEngine().calculate(hangoverData);
+    const report = formulation.metadata.safetyReport!;
+
+    expect(formulation.formulationPerServing.sodium).toBe(SAFETY_LIMITS.hangover.sodium.max);
+    expect(formulation.metadata.safetyLimitsApplied).toBe(true);
+    expect(report.passed).toBe(true);
+    expect(report.clamps).toContainEqual({
+      electrolyte: 'sodium',
+      useCase: 'hangover',
+      originalValue: 550, // mock hangover base 500 mg × moderately-active 1.1
+      clampedValue: 450,
+      limitHit: 'max',
+      limit: 450,
+    });
+  });
+
+  it('should raise amounts below the minimum and leave in-range amounts alone', async () => {
+    const raw = await new MockPersonalPotionsEngine().calculate(hangoverData);
+    const lowSodium = { ...raw, formulationPerServing: { ...raw.formulationPerServing, sodium: 100, potassium: 500 } };
+    const result = enforceSafetyLimits(lowSodium, constants);
+
+    expect(result.success).toBe(true);
+    expect(result.formulation!.formulationPerServing.sodium).toBe(SAFETY_LIMITS.hangover.sodium.min);
+    expect(result.formulation!.formulationPerServing.potassium).toBe(500);
+    expect(result.report.clamps.find(clamp => clamp.electrolyte === 'sodium')?.limitHit).toBe('min');
+    expect(result.report.clamps.some(clamp => clamp.electrolyte === 'potassium')).toBe(false);
+  });
+
+  it('should refuse formulations that violate hard limits', async () => {
+    const raw = await new MockPersonalPotionsEngine().calculate(hangoverData);
+    const broken = { ...raw, formulationPerServing: { ...raw.formulationPerServing, magnesium: NaN } };
+    const result = enforceSafetyLimits(broken, constants);
+
+    expect(result.success).toBe(false);
+    expect(result.formulation).toBeUndefined();
+    expect(result.report.passed).toBe(false);
+    expect(result.error?.code).toBe('SAFETY_LIMIT_VIOLATION');
+    expect(result.error?.details).toEqual(['magnesium amount is not a number']);
+
+    const error = await new FixedEngine(broken).calculate(hangoverData).catch(caught => caught);
+    expect(isSafetyLimitViolation(error)).toBe(true);
+  });
+
+  const restrictedCustomer: CustomerData = {
+    age: 62,
+    'biological-sex': 'female',
+    weight: 150,
+    'activity-level': 'sedentary',
+    'sweat-level': 'light',
+    'sodium-intake': '14',
+    'potassium-intake': '14',
+    'magnesium-intake': '7',
+    'calcium-intake': '7',
+  };
+
+  it('should lower a restricted electrolyte below the minimum instead of refusing', async () => {
+    const engine = new PersonalPotionsEngine();
+    const hypertensive: CustomerData = { ...restrictedCustomer, 'sodium-intake': '4-6', conditions: ['hypertension'] };
+
+    // Sodium reduced 30% leaves 20 mg/day to supplement, below the 150 mg per serving minimum
+    const formulation = await engine.calculate(hypertensive);
+    expect(formulation.formulationPerServing.sodium).toBe(20);
+    expect(formulation.metadata.safetyReport?.restrictions).toEqual([{
+      electrolyte: 'sodium',
+      useCase: 'daily',
+      originalValue: SAFETY_LIMITS.daily.sodium.min,
+      restrictedValue: 20,
+      ruleId: 'hypertension.sodium.multiplier',
+      note: 'sodium lowered to 20 mg per serving, below the 150 mg minimum, after hypertension.sodium.multiplier',
+    }]);
+    expect(formulation.metadata.notes.additional).toContain(formulation.metadata.safetyReport?.restrictions[0].note);
+
+    // A low sodium diet leaves room for a full serving
+    const lowSodium = await engine.calculate({ ...hypertensive, 'sodium-intake': '0' });
+    expect(lowSodium.formulationPerServing.sodium).toBeGreaterThanOrEqual(SAFETY_LIMITS.daily.sodium.min);
+    expect(lowSodium.metadata.safetyReport?.restrictions).toEqual([]);
+  });
+
+  it('should leave out sodium for hypertension and heart disease when the diet already covers it', async () => {
+    const engine = new PersonalPotionsEngine();
+
+    expect((await engine.calculate(restrictedCustomer)).formulationPerServing.sodium).toBeGreaterThan(0);
+    for (const condition of ['hypertension', 'heart-disease'] as const) {
+      const formulation = await engine.calculate({ ...restrictedCustomer, conditions: [condition] });
+
+      expect(formulation.formulationPerServing.sodium).toBe(0);
+      expect(formulation.metadata.safetyReport?.passed).toBe(true);
+      expect(formulation.metadata.notes.additional).toContain(
+        `sodium left out: current intake already covers the need after ${condition}.sodium.multiplier`
+      );
+    }
+  });
+
+  it('should lower potassium for kidney disease or an ACE inhibitor with a potassium-rich diet', async () => {
+    const engine = new PersonalPotionsEngine();
+
+    expect((await engine.calculate(restrictedCustomer)).formulationPerServing.potassium).toBe(SAFETY_LIMITS.daily.potassium.max);
+    for (const restriction of [{ conditions: ['kidney-disease' as const] }, { medications: ['ace-inhibitor' as const] }]) {
+      const formulation = await engine.calculate({ ...restrictedCustomer, ...restriction });
+
+      expect(formulation.formulationPerServing.potassium).toBe(161);
+      expect(formulation.metadata.safetyReport?.restrictions.map(entry => entry.electrolyte)).toEqual(['potassium']);
+      expect(formulation.metadata.contraindications?.reviewStatus).toBe('not-required');
+    }
+  });
+
+  it('should still hold restricted customers for clinician review', async () => {
+    const kidneyDisease: CustomerData = { ...restrictedCustomer, conditions: ['kidney-disease'] };
+    const formulation = await new PersonalPotionsEngine().calculate(kidneyDisease);
+
+    // Two 200 mg magnesium servings reach the kidney-disease.magnesium.block threshold: held, not refused
+    const held = await new FixedEngine({
+      ...formulation,
+      formulationPerServing: { ...formulation.formulationPerServing, magnesium: 200 },
+      metadata: { ...formulation.metadata, recommendedServingsPerDay: 2 },
+    }).calculate(kidneyDisease);
+
+    expect(held.formulationPerServing.potassium).toBe(81);
+    expect(held.metadata.contraindications?.reviewStatus).toBe('review-required');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Sweat Loss Estimator Tests
+ *
+ * Verifies per-session and weekly fluid/sodium estimates, the sweat use case they drive,
+ * and lab sweat test results replacing the sweat level heuristics
+ */
+
+import { estimateSweatLoss } from '../sweat-loss';
+import { detectUseCase } from '../use-case-detector';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData } from '@/types';
+import { SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD, validateCustomerData } from '@/types';
+
+describe('Sweat Loss Estimator', () => {
+  const { constants } = getStableFormulaVersion();
+
+  const baseCustomerData: CustomerData = {
+    age: 30,
+    'biological-sex': 'male',
+    weight: 154,
+    'activity-level': 'very-active',
+    'sweat-level': 'heavy',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+  };
+
+  it('should estimate per-session and weekly losses from the workout answers', () => {
+    const estimate = estimateSweatLoss({
+      ...baseCustomerData,
+      'workout-duration': '60-90',
+      'workout-intensity': 'high',
+      'workout-frequency': '4-6-per-week',
+      'exercise-type': ['strength-training', 'endurance'],
+    }, constants);
+
+    // 0.5 L/h × heavy 2.0 × high 1.3 × endurance 1.2 = 1.56 L/h, × 60-90 1.3 per session
+    expect(estimate.sweatRateLitersPerHour).toBe(1.56);
+    expect(estimate.fluidLitersPerSession).toBe(2.03);
+    expect(estimate.sodiumMgPerSession).toBe(1825);
+    expect(estimate.sessionsPerWeek).toBe(5);
+    expect(estimate.sodiumMgPerWeek).toBe(9126);
+    expect(estimate.factors.exerciseType).toBe(1.2);
+  });
+
+  it('should scale with body weight', () => {
+    const light = estimateSweatLoss({ ...baseCustomerData, weight: 120, 'workout-frequency': 'daily' }, constants);
+    const heavy = estimateSweatLoss({ ...baseCustomerData, weight: 220, 'workout-frequency': 'daily' }, constants);
+
+    expect(heavy.fluidLitersPerWeek).toBeGreaterThan(light.fluidLitersPerWeek);
+    expect(light.factors.weight).toBeCloseTo(120 / 154, 3);
+  });
+
+  it('should report no weekly loss without workouts', () => {
+    const estimate = estimateSweatLoss(baseCustomerData, constants);
+
+    expect(estimate.sessionsPerWeek).toBe(0);
+    expect(estimate.sodiumMgPerWeek).toBe(0);
+    expect(detectUseCase(baseCustomerData).useCase).toBe('daily');
+  });
+
+  it('should drive the sweat use case from the weekly sodium estimate', () => {
+    const moderateLongSessions: CustomerData = {
+      ...baseCustomerData,
+      'sweat-level': 'moderate',
+      'workout-frequency': 'daily',
+      'workout-duration': '90-120',
+    };
+    const heavyShortSessions: CustomerData = {
+      ...baseCustomerData,
+      'workout-frequency': '2-3-per-week',
+      'workout-intensity': 'low',
+    };
+
+    expect(estimateSweatLoss(moderateLongSessions, constants).sodiumMgPerWeek).toBeGreaterThanOrEqual(SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD);
+    expect(detectUseCase(moderateLongSessions).useCase).toBe('sweat');
+    expect(estimateSweatLoss(heavyShortSessions, constants).sodiumMgPerWeek).toBeLessThan(SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD);
+    expect(detectUseCase(heavyShortSessions).useCase).toBe('daily');
+  });
+
+  it('should use measured sweat rate and sodium concentration in place of the estimate', () => {
+    const estimate = estimateSweatLoss({
+      ...baseCustomerData,
+      'workout-duration': '60-90',
+      'workout-frequency': '4-6-per-week',
+      'sweat-rate': 1.2,
+      'sweat-sodium-concentration': 40,
+    }, constants);
+
+    // 40 mmol/L × 22.99 = 920 mg/L; 1.2 L/h × 60-90 1.3 per session
+    expect(estimate.sweatRateLitersPerHour).toBe(1.2);
+    expect(estimate.sodiumMgPerLiter).toBe(920);
+    expect(estimate.fluidLitersPerSession).toBe(1.56);
+    expect(estimate.sodiumMgPerSession).toBe(1435);
+    expect(estimate.measured).toEqual({ sodiumConcentration: true, sweatRate: true });
+  });
+
+  it('should replace the sweat level addition with measured sweat sodium and record it in metadata', async () => {
+    const engine = new PersonalPotionsEngine();
+    const athlete: CustomerData = { ...baseCustomerData, 'workout-frequency': 'daily', 'workout-duration': '60-90' };
+    const sweatEntry = (result: Awaited<ReturnType<typeof engine.calculate>>) =>
+      result.metadata.calculationTrace!.find(entry => entry.step === 'sweat' && entry.electrolyte === 'sodium')!;
+
+    const estimated = await engine.calculate(athlete);
+    expect(sweatEntry(estimated)).toMatchObject({ source: 'SWEAT_ADDITIONS.heavy', factor: 1200 });
+    expect(estimated.metadata.measuredSweat).toBeUndefined();
+
+    const measured = await engine.calculate({ ...athlete, 'sweat-rate': 1.5, 'sweat-sodium-concentration': 55 });
+    expect(sweatEntry(measured)).toMatchObject({
+      source: 'sweat-rate',
+      factor: Math.round(measured.metadata.sweatLoss!.sodiumMgPerWeek / 7),
+    });
+    expect(measured.metadata.measuredSweat).toEqual({ sodiumMmolPerL: 55, sodiumMgPerLiter: 1264, sweatRateLitersPerHour: 1.5 });
+    expect(measured.metadata.notes.additional).toContain('Measured sweat test used: 55 mmol/L sodium, 1.5 L/h sweat rate');
+
+    // Concentration alone scales the sweat level addition: 1200 × 1264 / 900
+    const concentrationOnly = await engine.calculate({ ...athlete, 'sweat-sodium-concentration': 55 });
+    expect(sweatEntry(concentrationOnly)).toMatchObject({ source: 'SWEAT_ADDITIONS.heavy', factor: 1685 });
+  });
+
+  it('should fall back to the sweat level addition when a measured sweat rate has no workouts to apply to', async () => {
+    const engine = new PersonalPotionsEngine();
+    const sweatEntry = (result: Awaited<ReturnType<typeof engine.calculate>>) =>
+      result.metadata.calculationTrace!.find(entry => entry.step === 'sweat' && entry.electrolyte === 'sodium')!;
+
+    const rateOnly = await engine.calculate({ ...baseCustomerData, 'workout-frequency': 'never', 'sweat-rate': 1.5 });
+    expect(sweatEntry(rateOnly)).toMatchObject({ source: 'SWEAT_ADDITIONS.heavy', factor: 1200 });
+
+    // No workout answers at all: 1200 × 1264 / 900
+    const withConcentration = await engine.calculate({ ...baseCustomerData, 'sweat-rate': 1.5, 'sweat-sodium-concentration': 55 });
+    expect(sweatEntry(withConcentration)).toMatchObject({ source: 'SWEAT_ADDITIONS.heavy', factor: 1685 });
+  });
+
+  it('should reject sweat test results outside physiological ranges', () => {
+    const validation = validateCustomerData({ ...baseCustomerData, 'sweat-rate': 6, 'sweat-sodium-concentration': 5 });
+
+    expect(validation.errors).toEqual([
+      'sweat-sodium-concentration must be between 10 mmol/L and 120 mmol/L',
+      'sweat-rate must be between 0.1 L/h and 4 L/h',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Use Case Detector Tests
+ *
+ * Verifies the ordered rule table, 'none' handling, candidate reasons and
+ * the sweat rule of formula 1.4
+ */
+
+import { detectUseCase, USE_CASE_RULES } from '../use-case-detector';
+import { FORMULA_VERSIONS } from '../versions';
+import type { CustomerData } from '@/types';
+import { USE_CASE_DETECTION_ORDER } from '@/types';
+
+describe('Use Case Detector', () => {
+
+  const baseCustomerData: CustomerData = {
+    age: 32,
+    'biological-sex': 'female',
+    weight: 145,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '4-6',
+    'magnesium-intake': '4-6',
+    'calcium-intake': '4-6',
+  };
+
+  it('should follow USE_CASE_DETECTION_ORDER', () => {
+    // A step may hold several rules for the same use case, e.g. sweat rules for different formula versions
+    const ruleOrder = USE_CASE_RULES
+      .map(rule => rule.useCase)
+      .filter((useCase, index, useCases) => useCase !== 'selected-usage' && useCase !== useCases[index - 1]);
+
+    expect(ruleOrder).toEqual([...USE_CASE_DETECTION_ORDER]);
+  });
+
+  it('should ignore explicit none answers', () => {
+    const result = detectUseCase({
+      ...baseCustomerData,
+      'sleep-issues': ['none'],
+      'menstrual-symptoms': ['none'],
+    });
+
+    expect(result.useCase).toBe('daily');
+    expect(result.candidates).toEqual([
+      { useCase: 'daily', rule: 'default', reason: 'Default daily formulation' },
+    ]);
+  });
+
+  it('should detect sweat for excessive sweat with 4-6 workouts per week', () => {
+    const result = detectUseCase({
+      ...baseCustomerData,
+      'sweat-level': 'excessive',
+      'workout-frequency': '4-6-per-week',
+    });
+
+    expect(result.useCase).toBe('sweat');
+    expect(result.candidates[0].reason).toBe('Estimated sweat loss of 5.89 L and 5299 mg sodium per week');
+  });
+
+  it('should keep the sweat level and workout frequency rule for formula 1.4', () => {
+    const { constants } = FORMULA_VERSIONS['1.4'];
+    const weeklyLongSessions: CustomerData = {
+      ...baseCustomerData,
+      'sweat-level': 'heavy',
+      'workout-frequency': '2-3-per-week',
+      'workout-duration': '120+',
+      'workout-intensity': 'very-high',
+    };
+
+    expect(detectUseCase(weeklyLongSessions).useCase).toBe('sweat');
+    expect(detectUseCase(weeklyLongSessions, constants).useCase).toBe('daily');
+    expect(detectUseCase({ ...weeklyLongSessions, 'workout-frequency': '4-6-per-week' }, constants).candidates[0]).toEqual({
+      useCase: 'sweat',
+      rule: 'heavy-sweat-frequent-workouts',
+      reason: 'heavy sweat level with 4-6-per-week workouts',
+    });
+  });
+
+  it('should return every matching candidate in priority order', () => {
+    const result = detectUseCase({
+      ...baseCustomerData,
+      'sleep-issues': ['frequent-waking'],
+      'hangover-symptoms': ['headache', 'nausea'],
+      usage: 'sweat',
+    });
+
+    expect(result.useCase).toBe('bedtime');
+    expect(result.candidates.map(candidate => candidate.useCase)).toEqual(['bedtime', 'hangover', 'sweat', 'daily']);
+    expect(result.candidates[1].reason).toBe('Hangover symptoms reported: headache, nausea');
+  });
+
+  it('should honour the usage selection when no rule matches', () => {
+    expect(detectUseCase({ ...baseCustomerData, usage: 'menstrual' }).useCase).toBe('menstrual');
+  });
+});
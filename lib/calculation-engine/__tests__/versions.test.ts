@@ -0,0 +1,170 @@
+/**
+ * Formula Version Registry Tests
+ *
+ * Verifies version resolution, that constants snapshots are frozen so
+ * existing versions keep producing identical results, and that 1.4 still
+ * calculates the amounts it was released with, without the tables and engine
+ * stages released in later versions
+ */
+
+import {
+  FORMULA_VERSIONS,
+  resolveFormulaVersion,
+  getStableFormulaVersion,
+  deriveFormulaConstants,
+} from '../versions';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { isSafetyLimitViolation } from '../safety-enforcement';
+import type { CustomerData, ElectrolyteAmounts, FormulaVersionDefinition, UseCase } from '@/types';
+import { FORMULA_VERSION } from '@/types';
+
+describe('Formula Version Registry', () => {
+
+  const customerData: CustomerData = {
+    age: 32,
+    'biological-sex': 'female',
+    weight: 145,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'moderate',
+    'sodium-intake': '7',
+    'potassium-intake': '4-6',
+    'magnesium-intake': '4-6',
+    'calcium-intake': '4-6',
+    usage: 'daily'
+  };
+
+  it('should default to the current stable version', () => {
+    const resolution = resolveFormulaVersion();
+
+    expect(resolution.success).toBe(true);
+    expect(resolution.definition?.version).toBe(FORMULA_VERSION);
+    expect(resolution.definition?.status).toBe('stable');
+  });
+
+  it('should reject unknown versions', () => {
+    const resolution = resolveFormulaVersion('0.9');
+
+    expect(resolution.success).toBe(false);
+    expect(resolution.error?.code).toBe('UNKNOWN_FORMULA_VERSION');
+  });
+
+  it('should keep constants snapshots frozen', () => {
+    Object.values(FORMULA_VERSIONS).forEach(({ constants }) => {
+      expect(Object.isFrozen(constants)).toBe(true);
+      expect(Object.isFrozen(constants.SAFETY_LIMITS.daily.sodium)).toBe(true);
+      expect(Object.isFrozen(constants.ENVIRONMENT_ADJUSTMENTS.temperature)).toBe(true);
+    });
+  });
+
+  it('should still resolve 1.4 after later versions are released', () => {
+    const resolution = resolveFormulaVersion('1.4');
+
+    expect(resolution.success).toBe(true);
+    expect(resolution.definition?.status).toBe('deprecated');
+    expect(getStableFormulaVersion().version).toBe(FORMULA_VERSION);
+  });
+
+  // Amounts the 1.4 engine calculated when it was released, before any later engine stage existed
+  const V1_4_REFERENCE: Array<[string, Partial<CustomerData>, UseCase, number, ElectrolyteAmounts]> = [
+    ['daily', {}, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['daily-low-intake', { 'biological-sex': 'male', weight: 190, 'sodium-intake': '0', 'potassium-intake': '0', 'magnesium-intake': '0', 'calcium-intake': '0' }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 200, calcium: 200 }],
+    ['daily-high-intake', { 'sodium-intake': '14', 'potassium-intake': '14', 'magnesium-intake': '14', 'calcium-intake': '14' }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 80, calcium: 200 }],
+    ['extremely-active', { 'biological-sex': 'male', weight: 200, 'activity-level': 'extremely-active', 'sweat-level': 'heavy' }, 'daily', 2, { sodium: 800, potassium: 600, magnesium: 178, calcium: 200 }],
+    ['bedtime', { 'sleep-issues': ['trouble-falling-asleep'], 'sleep-goals': ['falling-asleep'] }, 'bedtime', 1, { sodium: 800, potassium: 600, magnesium: 200, calcium: 200 }],
+    ['menstrual', { 'menstrual-symptoms': ['cramps'] }, 'menstrual', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['sweat', { 'sweat-level': 'heavy', 'workout-frequency': 'daily', 'workout-duration': '60-90', 'workout-intensity': 'high' }, 'sweat', 2, { sodium: 1000, potassium: 700, magnesium: 80, calcium: 200 }],
+    ['hangover', { 'hangover-symptoms': ['headache'], 'hangover-timing': 'after' }, 'hangover', 2, { sodium: 450, potassium: 600, magnesium: 201, calcium: 50 }],
+    ['teen', { age: 15, weight: 120 }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 80, calcium: 286 }],
+    ['hypertension', { age: 58, conditions: ['hypertension'], 'sodium-intake': '0' }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['kidney-disease', { age: 58, conditions: ['kidney-disease'], 'potassium-intake': '0' }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['supplements', { 'magnesium-supplement': 100, 'calcium-supplement': 200 }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 80, calcium: 200 }],
+    ['sweat-short-sessions', { 'sweat-level': 'heavy', 'workout-frequency': '4-6-per-week', 'workout-duration': '30-60', 'workout-intensity': 'low' }, 'sweat', 2, { sodium: 1000, potassium: 700, magnesium: 80, calcium: 200 }],
+    ['sweat-weekly-light', { 'sweat-level': 'heavy', 'workout-frequency': '2-3-per-week', 'workout-duration': '120+', 'workout-intensity': 'very-high' }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['excessive-sweat-daily', { 'biological-sex': 'male', weight: 190, 'sweat-level': 'excessive', 'workout-frequency': 'daily', 'workout-duration': '90-120', 'sodium-intake': '0', 'potassium-intake': '0', 'magnesium-intake': '0', 'calcium-intake': '0' }, 'sweat', 2, { sodium: 1000, potassium: 700, magnesium: 159, calcium: 200 }],
+    ['hypertension-high-intake', { age: 62, conditions: ['hypertension'], 'sodium-intake': '14' }, 'daily', 1, { sodium: 477, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['heart-and-hypertension', { age: 62, conditions: ['hypertension', 'heart-disease'], 'sodium-intake': '14' }, 'daily', 1, { sodium: 150, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['kidney-high-intake', { age: 62, conditions: ['kidney-disease'], 'potassium-intake': '14' }, 'daily', 1, { sodium: 800, potassium: 490, magnesium: 98, calcium: 200 }],
+    ['multiple-triggers', { 'sleep-issues': ['frequent-waking'], 'menstrual-symptoms': ['cramps'], 'hangover-symptoms': ['headache'] }, 'bedtime', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['usage-bedtime', { usage: 'bedtime' }, 'bedtime', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['hangover-low-intake', { 'hangover-symptoms': ['headache', 'fatigue'], 'hangover-timing': 'before', 'sodium-intake': '0', 'potassium-intake': '0', 'magnesium-intake': '0', 'calcium-intake': '0' }, 'hangover', 2, { sodium: 450, potassium: 600, magnesium: 217, calcium: 100 }],
+    ['sleep-goals-only', { 'sleep-goals': ['staying-asleep'], 'daily-goals': ['energy'] }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 172, calcium: 200 }],
+    ['older-male', { age: 72, 'biological-sex': 'male', weight: 210, 'activity-level': 'sedentary', 'sweat-level': 'light' }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 200, calcium: 200 }],
+    ['can-format', { 'sweat-level': 'heavy', 'workout-frequency': 'daily', 'workout-duration': '60-90', 'product-format': 'can-12oz' }, 'sweat', 2, { sodium: 1000, potassium: 700, magnesium: 80, calcium: 200 }],
+    ['measured-sweat', { 'activity-level': 'sedentary', 'sweat-level': 'excessive', 'sodium-intake': '14', 'sweat-sodium-concentration': 20 }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 80, calcium: 200 }],
+    ['pregnant-menstrual', { 'menstrual-symptoms': ['cramps'], 'pregnancy-trimester': 'second' }, 'menstrual', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+    ['hot-altitude', { 'sweat-level': 'heavy', 'workout-frequency': 'daily', 'training-temperature': 95, 'training-humidity': 80, altitude: 8000 }, 'sweat', 2, { sodium: 1000, potassium: 700, magnesium: 80, calcium: 200 }],
+    ['thiazide-hypertension', { age: 62, conditions: ['hypertension'], medications: ['thiazide-diuretic'], 'sodium-intake': '0', 'potassium-intake': '0' }, 'daily', 1, { sodium: 800, potassium: 600, magnesium: 98, calcium: 200 }],
+  ];
+
+  it('should reproduce the amounts 1.4 was released with', async () => {
+    const referenceCustomer: CustomerData = {
+      ...customerData,
+      'sodium-intake': '4-6',
+      usage: undefined,
+    };
+    const v14 = new PersonalPotionsEngine(FORMULA_VERSIONS['1.4']);
+
+    for (const [profile, answers, useCase, servingsPerDay, formulationPerServing] of V1_4_REFERENCE) {
+      const result = await v14.calculate({ ...referenceCustomer, ...answers });
+
+      expect({ profile, useCase: result.useCase, servingsPerDay: result.metadata.recommendedServingsPerDay, formulationPerServing: result.formulationPerServing })
+        .toEqual({ profile, useCase, servingsPerDay, formulationPerServing });
+    }
+  });
+
+  it('should calculate 1.4 without the environment and medication adjustments of later versions', async () => {
+    const hotTrainingOnThiazide: CustomerData = {
+      ...customerData,
+      'training-temperature': 102,
+      'training-environment': 'outdoor',
+      medications: ['thiazide-diuretic'],
+    };
+    const v14 = new PersonalPotionsEngine(FORMULA_VERSIONS['1.4']);
+    const stable = new PersonalPotionsEngine(getStableFormulaVersion());
+
+    const v14Plain = await v14.calculate(customerData);
+    const v14Adjusted = await v14.calculate(hotTrainingOnThiazide);
+    const stableAdjusted = await stable.calculate(hotTrainingOnThiazide);
+
+    expect(v14Adjusted.metadata.formulaVersion).toBe('1.4');
+    expect(v14Adjusted.metadata.optimalIntake).toEqual(v14Plain.metadata.optimalIntake);
+    expect(stableAdjusted.metadata.optimalIntake.sodium).toBeGreaterThan(v14Adjusted.metadata.optimalIntake.sodium);
+    expect(stableAdjusted.metadata.optimalIntake.magnesium).toBeGreaterThan(v14Adjusted.metadata.optimalIntake.magnesium);
+  });
+
+  it('should calculate 1.4 pregnancies on the regular RDAs and limits', async () => {
+    const pregnant: CustomerData = { ...customerData, 'pregnancy-trimester': 'second' };
+    const v14 = new PersonalPotionsEngine(FORMULA_VERSIONS['1.4']);
+
+    const plain = await v14.calculate(customerData);
+    const maternal = await v14.calculate(pregnant);
+
+    expect(maternal.metadata.optimalIntake).toEqual(plain.metadata.optimalIntake);
+    expect(FORMULA_VERSIONS['1.4'].constants.MATERNAL_MAGNESIUM_RDA).toBeUndefined();
+  });
+
+  it('should apply safety refusals to every version', async () => {
+    const onPotassiumSparing: CustomerData = { ...customerData, medications: ['potassium-sparing-diuretic'] };
+
+    const error = await new PersonalPotionsEngine(FORMULA_VERSIONS['1.4']).calculate(onPotassiumSparing).catch(caught => caught);
+
+    expect(isSafetyLimitViolation(error)).toBe(true);
+  });
+
+  it('should calculate with the constants of the selected version', async () => {
+    const stable = getStableFormulaVersion();
+    const higherSodium: FormulaVersionDefinition = {
+      ...stable,
+      version: '2.0',
+      status: 'preview',
+      constants: deriveFormulaConstants(stable.constants, { SODIUM_BASE: stable.constants.SODIUM_BASE + 500 }),
+    };
+
+    const stableResult = await new PersonalPotionsEngine(stable).calculate(customerData);
+    const previewResult = await new PersonalPotionsEngine(higherSodium).calculate(customerData);
+
+    expect(previewResult.metadata.formulaVersion).toBe('2.0');
+    expect(previewResult.metadata.optimalIntake.sodium).toBeGreaterThan(stableResult.metadata.optimalIntake.sodium);
+    expect(stable.constants.SODIUM_BASE).toBe(FORMULA_VERSIONS[FORMULA_VERSION].constants.SODIUM_BASE);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * What-If Analysis Tests
+ *
+ * Verifies scenarios are compared with the baseline, use case changes are
+ * reported, and invalid perturbations do not fail the analysis
+ */
+
+import { runWhatIf, prepareCustomerData, describePerturbation } from '../what-if';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import type { CustomerData } from '@/types';
+
+describe('What-If Analysis', () => {
+
+  const baseCustomerData: Partial<CustomerData> = {
+    age: 32,
+    'biological-sex': 'male',
+    weight: 170,
+    'activity-level': 'moderately-active',
+    'sweat-level': 'heavy',
+    'workout-frequency': '1-per-week',
+    'workout-duration': '60-90',
+    'sodium-intake': '4-6',
+    'potassium-intake': '4-6',
+    'magnesium-intake': '4-6',
+    'calcium-intake': '4-6',
+  };
+
+  const engine = new PersonalPotionsEngine();
+
+  const analyze = async (perturbations: Parameters<typeof runWhatIf>[3]) => {
+    const baseline = await engine.calculate(prepareCustomerData(baseCustomerData).customerData!);
+    return runWhatIf(engine, baseCustomerData, baseline, perturbations);
+  };
+
+  it('should report deltas and use case changes against the baseline', async () => {
+    const analysis = await analyze([{ changes: { 'workout-frequency': 'daily', 'workout-duration': '120+' } }]);
+    const [scenario] = analysis.scenarios;
+
+    expect(analysis.baseline.useCase).toBe('daily');
+    expect(scenario.label).toBe('workout-frequency=daily, workout-duration=120+');
+    expect(scenario.outcome?.useCase).toBe('sweat');
+    expect(scenario.comparison).toMatchObject({ activeUseCase: 'daily', candidateUseCase: 'sweat', useCaseMatch: false });
+    expect(scenario.comparison!.electrolyteDeltas.sodium.delta)
+      .toBe(scenario.outcome!.formulationPerServing.sodium - analysis.baseline.formulationPerServing.sodium);
+  });
+
+  it('should report no change for a perturbation that keeps the survey the same', async () => {
+    const analysis = await analyze([{ label: 'Same', changes: { weight: 170 } }]);
+
+    expect(analysis.scenarios[0].label).toBe('Same');
+    expect(analysis.scenarios[0].comparison).toMatchObject({ useCaseMatch: true, maxAbsolutePercentDelta: 0, safetyLimitDifferences: [] });
+  });
+
+  it('should return validation errors for invalid scenarios without failing the rest', async () => {
+    const analysis = await analyze([
+      { changes: { age: 9 } },
+      { changes: { 'training-environment': 'outdoor', 'training-temperature': 95 } },
+    ]);
+
+    expect(analysis.scenarios[0]).toEqual({
+      label: 'age=9',
+      changes: { age: 9 },
+      errors: ['Age must be between 13 and 120'],
+    });
+    expect(analysis.scenarios[1].outcome).toBeDefined();
+  });
+
+  it('should describe object changes as JSON', () => {
+    expect(describePerturbation({ 'preferred-forms': { magnesium: 'magnesium-malate' } }))
+      .toBe('preferred-forms={"magnesium":"magnesium-malate"}');
+  });
+});
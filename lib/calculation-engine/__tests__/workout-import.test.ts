@@ -0,0 +1,114 @@
+/**
+ * Workout Import Tests
+ *
+ * Verifies FIT, TCX and GPX parsing and the training answers proposed from
+ * the parsed workouts
+ */
+
+import { parseWorkoutFile } from '../workout-files';
+import { proposeWorkoutAnswers, validateWorkoutAnswers } from '../workout-import';
+import type { ParsedWorkout } from '@/types';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// FIT file with one session message: start_time (2), total_elapsed_time (7, ms) and avg_heart_rate (16)
+function buildFitSession(start: Date, elapsedSeconds: number, heartRate: number): Uint8Array {
+  const fitTime = Math.round(start.getTime() / 1000) - 631065600;
+  const definition = [0x40, 0, 0, 18, 0, 3, 2, 4, 0x86, 7, 4, 0x86, 16, 1, 0x02];
+  const data = new Uint8Array(10);
+  const view = new DataView(data.buffer);
+  view.setUint8(0, 0x00);
+  view.setUint32(1, fitTime, true);
+  view.setUint32(5, elapsedSeconds * 1000, true);
+  view.setUint8(9, heartRate);
+
+  const records = new Uint8Array([...definition, ...data]);
+  const header = new Uint8Array(12);
+  new DataView(header.buffer).setUint32(4, records.length, true);
+  header.set([12, 0x10], 0);
+  header.set(encode('.FIT'), 8);
+  return new Uint8Array([...header, ...records, 0, 0]);
+}
+
+describe('Workout Import', () => {
+
+  it('should parse FIT session messages', () => {
+    const { workout } = parseWorkoutFile('ride.fit', buildFitSession(new Date('2024-03-01T06:00:00Z'), 5400, 141));
+
+    expect(workout).toEqual({
+      fileName: 'ride.fit',
+      format: 'fit',
+      startTime: '2024-03-01T06:00:00.000Z',
+      durationMinutes: 90,
+      averageHeartRate: 141,
+    });
+  });
+
+  it('should parse TCX laps and GPX track points', () => {
+    const tcx = `<?xml version="1.0"?><TrainingCenterDatabase><Activities><Activity Sport="Running">
+      <Lap StartTime="2024-03-02T07:00:00Z"><TotalTimeSeconds>1800</TotalTimeSeconds><AverageHeartRateBpm><Value>150</Value></AverageHeartRateBpm></Lap>
+      <Lap StartTime="2024-03-02T07:30:00Z"><TotalTimeSeconds>600</TotalTimeSeconds><AverageHeartRateBpm><Value>170</Value></AverageHeartRateBpm></Lap>
+    </Activity></Activities></TrainingCenterDatabase>`;
+    const gpx = `<gpx><trk><trkseg>
+      <trkpt lat="1" lon="1"><time>2024-03-03T18:00:00Z</time><extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>120</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions></trkpt>
+      <trkpt lat="1" lon="2"><time>2024-03-03T18:45:00Z</time><extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>140</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions></trkpt>
+    </trkseg></trk></gpx>`;
+
+    expect(parseWorkoutFile('tempo.tcx', encode(tcx)).workout).toMatchObject({ durationMinutes: 40, averageHeartRate: 155 });
+    expect(parseWorkoutFile('commute.gpx', encode(gpx)).workout).toMatchObject({
+      startTime: '2024-03-03T18:00:00.000Z',
+      durationMinutes: 45,
+      averageHeartRate: 130,
+    });
+  });
+
+  it('should parse files with more track points than a call can take as arguments', () => {
+    const start = Date.parse('2024-03-04T05:00:00Z');
+    const points = Array.from({ length: 200000 }, (_, index) =>
+      `<trkpt><time>${new Date(start + index * 1000).toISOString()}</time></trkpt>`).join('');
+
+    expect(parseWorkoutFile('long.gpx', encode(`<gpx><trk><trkseg>${points}</trkseg></trk></gpx>`)).workout).toMatchObject({
+      startTime: '2024-03-04T05:00:00.000Z',
+      durationMinutes: 3333,
+    });
+  });
+
+  it('should report unsupported and empty files by name', () => {
+    expect(parseWorkoutFile('notes.txt', encode('hello')).error?.message).toMatch(/Unsupported file type/);
+    expect(parseWorkoutFile('empty.gpx', encode('<gpx></gpx>')).error).toEqual({
+      fileName: 'empty.gpx',
+      message: 'No workout start time and duration found in GPX file',
+    });
+  });
+
+  it('should propose frequency, duration and heart rate intensity with the changes from current answers', () => {
+    // 14 sessions of 70-80 minutes over 4 weeks, ignoring a 5 minute recording
+    const workouts: ParsedWorkout[] = Array.from({ length: 14 }, (_, index) => ({
+      fileName: `session-${index}.fit`,
+      format: 'fit' as const,
+      startTime: new Date(Date.UTC(2024, 2, 1 + Math.round(index * 27 / 13))).toISOString(),
+      durationMinutes: 70 + (index % 3) * 5,
+      averageHeartRate: 150,
+    }));
+    workouts.push({ fileName: 'paused.gpx', format: 'gpx', startTime: '2024-04-20T10:00:00.000Z', durationMinutes: 5 });
+
+    const proposal = proposeWorkoutAnswers(workouts, { age: 40, 'workout-frequency': '2-3-per-week', 'workout-duration': '60-90' });
+
+    expect(proposal.summary).toMatchObject({ workoutCount: 14, weeksCovered: 4, sessionsPerWeek: 3.5, typicalDurationMinutes: 75, heartRatePercentOfMax: 83 });
+    expect(proposal.proposed).toEqual({ 'workout-frequency': '4-6-per-week', 'workout-duration': '60-90', 'workout-intensity': 'high' });
+    expect(proposal.changes).toEqual([
+      { field: 'workout-frequency', current: '2-3-per-week', proposed: '4-6-per-week' },
+      { field: 'workout-intensity', proposed: 'high' },
+    ]);
+    expect(proposal.requiresConfirmation).toBe(true);
+  });
+
+  it('should only accept valid answers for importable fields on confirmation', () => {
+    expect(validateWorkoutAnswers({ 'workout-frequency': 'daily' })).toEqual([]);
+    expect(validateWorkoutAnswers({})).toEqual(['answers must include at least one confirmed field']);
+    expect(validateWorkoutAnswers({ weight: 150, 'workout-intensity': 'extreme' })).toEqual([
+      'weight cannot be set from a workout import',
+      'workout-intensity must be one of low, moderate, high, very-high',
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Youth Pathway Tests
+ *
+ * Verifies the under-19 calcium RDA, youth and maternal limit layering,
+ * the guardian recommendation, the guardian consent gate and who may grant consent
+ */
+
+import { isMinor, hasGuardianConsent, getGuardianConsentDenial } from '../youth';
+import { getSafetyLimits, getSafetyLimitSource } from '../safety-limits';
+import { PersonalPotionsEngine } from '../core/PersonalPotionsEngine';
+import { MockPersonalPotionsEngine } from '../mock/PersonalPotionsEngine';
+import { getStableFormulaVersion } from '../versions';
+import type { CustomerData, GuardianConsent, GuardianContact } from '@/types';
+
+describe('Youth Pathway', () => {
+
+  const teenCustomer: CustomerData = {
+    age: 15,
+    'biological-sex': 'female',
+    weight: 120,
+    'activity-level': 'very-active',
+    'sweat-level': 'heavy',
+    'workout-frequency': 'daily',
+    'workout-duration': '90-120',
+    'sodium-intake': '0',
+    'potassium-intake': '0',
+    'magnesium-intake': '0',
+    'calcium-intake': '0',
+  };
+
+  const guardian: GuardianContact = {
+    guardianName: 'Jordan Lee',
+    guardianEmail: 'jordan@example.com',
+    relationship: 'parent',
+    requestedAt: new Date('2024-03-01T18:00:00Z'),
+  };
+
+  const consent: GuardianConsent = {
+    consentType: 'guardian-consent',
+    guardianName: 'Jordan Lee',
+    guardianEmail: 'jordan@example.com',
+    relationship: 'parent',
+    guardianUserId: 'guardian-user-id',
+    verification: 'guardian-account',
+    verifiedAt: new Date('2024-03-02T10:00:00Z'),
+    granted: true,
+    timestamp: new Date('2024-03-02T10:00:00Z'),
+    version: '1.0',
+    ipAddress: '203.0.113.7',
+    userAgent: 'jest',
+  };
+
+  const { constants } = getStableFormulaVersion();
+
+  it('should treat customers under 18 as minors', () => {
+    expect(isMinor(13)).toBe(true);
+    expect(isMinor(17)).toBe(true);
+    expect(isMinor(18)).toBe(false);
+    expect(isMinor(null)).toBe(false);
+  });
+
+  it('should use the under-19 calcium RDA and youth sodium cap', async () => {
+    const result = await new PersonalPotionsEngine().calculate(teenCustomer);
+    const sources = result.metadata.calculationTrace!.map(entry => entry.source);
+
+    expect(sources).toContain('CALCIUM_RDA.UNDER_19');
+    expect(getSafetyLimits(result.useCase, teenCustomer, constants).sodium.max).toBe(400);
+    expect(result.formulationPerServing.sodium).toBeLessThanOrEqual(400);
+    expect(result.metadata.recommendations[0]).toBe('Under 18: a parent or legal guardian must give consent before this formulation can be ordered');
+  });
+
+  it('should apply the tightest of the youth and maternal limits', () => {
+    const pregnantTeen: CustomerData = { ...teenCustomer, 'pregnancy-trimester': 'first' };
+    const limits = getSafetyLimits('sweat', pregnantTeen, constants);
+
+    expect(limits.sodium.max).toBe(400);
+    expect(limits.potassium.max).toBe(500);
+    expect(limits.magnesium.max).toBe(150);
+    expect(getSafetyLimitSource('sweat', 'sodium', pregnantTeen, constants)).toBe('YOUTH_SAFETY_LIMITS.sodium');
+    expect(getSafetyLimitSource('sweat', 'magnesium', pregnantTeen, constants)).toBe('MATERNAL_SAFETY_LIMITS.magnesium');
+    expect(getSafetyLimitSource('sweat', 'sodium', { ...teenCustomer, age: 30 }, constants)).toBe('SAFETY_LIMITS.sweat.sodium');
+  });
+
+  it('should raise mock calcium for minors instead of discounting it', async () => {
+    const mock = new MockPersonalPotionsEngine();
+    const daily: CustomerData = { ...teenCustomer, 'workout-frequency': 'never', 'sweat-level': 'light', 'activity-level': 'sedentary' };
+    const [teen, adult] = await Promise.all([mock.calculate(daily), mock.calculate({ ...daily, age: 30 })]);
+
+    expect(teen.formulationPerServing.calcium).toBeGreaterThan(adult.formulationPerServing.calcium);
+  });
+
+  it('should only satisfy the consent gate once a guardian grants consent', () => {
+    expect(hasGuardianConsent(null)).toBe(false);
+    expect(hasGuardianConsent({ ...consent, granted: false })).toBe(false);
+    expect(hasGuardianConsent(consent)).toBe(true);
+    expect(hasGuardianConsent({ ...consent, consentType: 'marketing' } as unknown as GuardianConsent)).toBe(false);
+  });
+
+  it('should not accept self-attested consent without a verified guardian account', () => {
+    const selfAttested = { ...consent, guardianUserId: undefined, verification: undefined, verifiedAt: undefined };
+
+    expect(hasGuardianConsent(selfAttested as unknown as GuardianConsent)).toBe(false);
+    expect(hasGuardianConsent({ ...consent, guardianUserId: '' })).toBe(false);
+  });
+
+  it('should only let the named guardian grant consent from a different account', () => {
+    const survey = { age: 15, userId: 'teen-user-id', guardian };
+    const guardianAccount = { userId: 'guardian-user-id', email: 'Jordan@Example.com' };
+
+    expect(getGuardianConsentDenial(survey, guardianAccount)).toBeNull();
+    expect(getGuardianConsentDenial({ ...survey, userId: null }, guardianAccount)).toBeNull();
+    expect(getGuardianConsentDenial({ ...survey, age: 30 }, guardianAccount)).toBe('not-required');
+    expect(getGuardianConsentDenial({ ...survey, guardian: null }, guardianAccount)).toBe('not-requested');
+    expect(getGuardianConsentDenial(survey, { ...guardianAccount, email: 'someone@example.com' })).toBe('not-named-guardian');
+    expect(getGuardianConsentDenial({ ...survey, guardian: { ...guardian, guardianEmail: 'teen@example.com' } }, { userId: 'teen-user-id', email: 'teen@example.com' }))
+      .toBe('own-survey');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Formulation Comparison
+ *
+ * Diffs two formulations for the same customer (per-electrolyte deltas,
+ * use case disagreement, safety clamp differences) and summarises drift
+ * across many comparisons
+ */
+
+import type {
+  FormulationResult,
+  ElectrolyteAmounts,
+  ElectrolyteDelta,
+  FormulationComparison,
+  SafetyLimitDifference,
+  DriftReport,
+} from '@/types';
+import { ELECTROLYTE_TYPES } from '@/types';
+
+type Electrolyte = keyof ElectrolyteAmounts;
+
+/**
+ * Electrolytes clamped by safety limits, read from the calculation trace and the safety layer report
+ */
+function getClampedElectrolytes(formulation: FormulationResult): Set<Electrolyte> {
+  const trace = formulation.metadata.calculationTrace || [];
+  const enforced = formulation.metadata.safetyReport?.clamps || [];
+  return new Set([
+    ...trace.filter(entry => entry.step === 'safety-clamp').map(entry => entry.electrolyte),
+    ...enforced.map(clamp => clamp.electrolyte),
+  ]);
+}
+
+function calculateDelta(active: number, candidate: number): ElectrolyteDelta {
+  const delta = candidate - active;
+  return {
+    active,
+    candidate,
+    delta,
+    percentDelta: active === 0 ? null : Number(((delta / active) * 100).toFixed(2)),
+  };
+}
+
+/**
+ * Compare an active formulation with a candidate calculated from the same survey
+ */
+export function compareFormulations(
+  active: FormulationResult,
+  candidate: FormulationResult,
+  labels: { activeEngine: string; candidateEngine: string }
+): FormulationComparison {
+  const activeClamped = getClampedElectrolytes(active);
+  const candidateClamped = getClampedElectrolytes(candidate);
+
+  const electrolyteDeltas = {} as Record<Electrolyte, ElectrolyteDelta>;
+  const safetyLimitDifferences: SafetyLimitDifference[] = [];
+
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    electrolyteDeltas[electrolyte] = calculateDelta(
+      active.formulationPerServing[electrolyte],
+      candidate.formulationPerServing[electrolyte]
+    );
+
+    if (activeClamped.has(electrolyte) !== candidateClamped.has(electrolyte)) {
+      safetyLimitDifferences.push({
+        electrolyte,
+        activeClamped: activeClamped.has(electrolyte),
+        candidateClamped: candidateClamped.has(electrolyte),
+      });
+    }
+  });
+
+  const maxAbsolutePercentDelta = Math.max(
+    0,
+    ...ELECTROLYTE_TYPES.map(electrolyte => Math.abs(electrolyteDeltas[electrolyte].percentDelta ?? 0))
+  );
+
+  return {
+    activeEngine: labels.activeEngine,
+    candidateEngine: labels.candidateEngine,
+    activeUseCase: active.useCase,
+    candidateUseCase: candidate.useCase,
+    useCaseMatch: active.useCase === candidate.useCase,
+    electrolyteDeltas,
+    safetyLimitDifferences,
+    maxAbsolutePercentDelta,
+  };
+}
+
+/**
+ * Summarise drift across stored comparisons (oldest first or any order)
+ */
+export function summarizeDrift(
+  comparisons: (FormulationComparison & { createdAt?: string })[]
+): DriftReport {
+  const total = comparisons.length;
+  const useCaseDisagreements = comparisons.filter(comparison => !comparison.useCaseMatch).length;
+
+  const electrolytes = {} as DriftReport['electrolytes'];
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    const deltas = comparisons.map(comparison => comparison.electrolyteDeltas[electrolyte].delta);
+    const absolute = deltas.map(Math.abs);
+    electrolytes[electrolyte] = {
+      meanDelta: total ? Number((deltas.reduce((sum, d) => sum + d, 0) / total).toFixed(2)) : 0,
+      meanAbsoluteDelta: total ? Number((absolute.reduce((sum, d) => sum + d, 0) / total).toFixed(2)) : 0,
+      maxAbsoluteDelta: Math.max(0, ...absolute),
+    };
+  });
+
+  const useCasePairs = comparisons.reduce((pairs, comparison) => {
+    const key = `${comparison.activeUseCase}->${comparison.candidateUseCase}`;
+    pairs[key] = (pairs[key] || 0) + 1;
+    return pairs;
+  }, {} as Record<string, number>);
+
+  const timestamps = comparisons
+    .map(comparison => comparison.createdAt)
+    .filter((createdAt): createdAt is string => Boolean(createdAt))
+    .sort();
+
+  return {
+    totalComparisons: total,
+    useCaseDisagreements,
+    useCaseDisagreementRate: total ? Number((useCaseDisagreements / total).toFixed(4)) : 0,
+    safetyLimitDifferences: comparisons.filter(comparison => comparison.safetyLimitDifferences.length > 0).length,
+    electrolytes,
+    useCasePairs,
+    ...(timestamps.length && {
+      firstComparisonAt: timestamps[0],
+      lastComparisonAt: timestamps[timestamps.length - 1],
+    }),
+  };
+}
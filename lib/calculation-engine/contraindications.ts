@@ -0,0 +1,111 @@
+/**
+ * Contraindication Screening
+ *
+ * Matches the customer's health conditions against CONTRAINDICATION_RULES and
+ * their medications against MEDICATION_INTERACTION_RULES on a finished
+ * formulation. Multiplier and cap rules were already applied by the engine and
+ * are reported along with medication warnings; block rules whose daily amount
+ * is reached put the formulation on clinician review hold, making it
+ * unorderable until approved. Absolute contraindications are refused by the
+ * safety layer; screened directly, they reject the formulation.
+ */
+
+import type {
+  CustomerData,
+  FormulationResult,
+  FormulaConstants,
+  ClinicianReviewStatus,
+  ContraindicationFinding,
+  ContraindicationReport,
+  ContraindicationRule,
+  ContraindicationSeverity,
+  MedicationInteractionRule,
+} from '@/types';
+
+const SEVERITY_ORDER: ContraindicationSeverity[] = ['low', 'moderate', 'high'];
+
+/**
+ * Only formulations that never needed review, or were approved, can be ordered
+ */
+export function isOrderable(status: ClinicianReviewStatus): boolean {
+  return status === 'not-required' || status === 'approved';
+}
+
+/**
+ * Condition rules for the customer's conditions and interaction rules for their medications
+ */
+function getCustomerRules(
+  customer: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): Array<ContraindicationRule | MedicationInteractionRule> {
+  const conditions = customer.conditions || [];
+  const medications = customer.medications || [];
+
+  return [
+    ...constants.CONTRAINDICATION_RULES.filter(rule => conditions.includes(rule.condition)),
+    ...constants.MEDICATION_INTERACTION_RULES.filter(rule => medications.includes(rule.medication)),
+  ];
+}
+
+/**
+ * Condition and medication rules that lower or cap an electrolyte for the customer
+ */
+export function getRestrictionRules(
+  customer: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): Array<ContraindicationRule | MedicationInteractionRule> {
+  return getCustomerRules(customer, constants)
+    .filter(rule => (rule.kind === 'multiplier' && rule.factor < 1) || rule.kind === 'cap');
+}
+
+/**
+ * Absolute contraindications for the customer; every formulation carries some of each
+ * electrolyte, so any match refuses the formulation
+ */
+export function getAbsoluteContraindications(
+  customer: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): Array<ContraindicationRule | MedicationInteractionRule> {
+  return getCustomerRules(customer, constants).filter(rule => rule.kind === 'contraindicated');
+}
+
+/**
+ * Screen a formulation against the contraindication rules for the customer's
+ * conditions and the interaction rules for their medications
+ */
+export function screenContraindications(
+  customer: Partial<CustomerData>,
+  formulation: FormulationResult,
+  constants: Readonly<FormulaConstants>
+): ContraindicationReport {
+  const servingsPerDay = formulation.metadata.recommendedServingsPerDay;
+  const findings: ContraindicationFinding[] = [];
+
+  getCustomerRules(customer, constants).forEach(rule => {
+    const { id: ruleId, kind, electrolyte, severity, reason } = rule;
+    const trigger = 'condition' in rule ? { condition: rule.condition } : { medication: rule.medication };
+
+    if (rule.kind !== 'block') {
+      findings.push({ ruleId, kind, ...trigger, electrolyte, severity, reason });
+      return;
+    }
+
+    const dailyAmount = formulation.formulationPerServing[electrolyte] * servingsPerDay;
+    if (dailyAmount >= rule.holdAtDailyMg) {
+      findings.push({ ruleId, kind, ...trigger, electrolyte, severity, reason, dailyAmount });
+    }
+  });
+
+  const highestSeverity = findings.reduce<ContraindicationSeverity | null>(
+    (highest, finding) =>
+      highest && SEVERITY_ORDER.indexOf(highest) >= SEVERITY_ORDER.indexOf(finding.severity) ? highest : finding.severity,
+    null
+  );
+  const reviewStatus: ClinicianReviewStatus = findings.some(finding => finding.kind === 'contraindicated')
+    ? 'rejected'
+    : findings.some(finding => finding.kind === 'block')
+      ? 'review-required'
+      : 'not-required';
+
+  return { findings, highestSeverity, reviewStatus, orderable: isOrderable(reviewStatus) };
+}
@@ -0,0 +1,298 @@
+/**
+ * Personal Potions Calculation Engine
+ *
+ * Production implementation of the V1 calculation framework
+ * Derives optimal daily intake from research-backed constants, subtracts current
+ * intake, and splits the remaining deficit into safety-limited servings
+ */
+
+import type {
+  CustomerData,
+  FormulationResult,
+  ElectrolyteAmounts,
+  UseCase,
+  CalculationMetadata,
+  CalculationOptions,
+  FormulaVersionDefinition,
+  RatioOptimizationReport,
+  ProductFormat,
+  SafetyLimits,
+} from '@/types';
+import {
+  ELECTROLYTE_TYPES,
+  convertAllIntakesToMg,
+} from '@/types';
+import { getStableFormulaVersion } from '../versions';
+import { calculateOptimalIntake } from './requirements';
+import { applyUseCaseAdjustments, applyHealthConditions, applyMedicationInteractions } from './adjustments';
+import { CalculationTrace } from './trace';
+import { optimizeCalciumMagnesiumRatio } from './ratio-optimizer';
+import { detectUseCase } from '../use-case-detector';
+import { estimateSweatLoss, getMeasuredSweat } from '../sweat-loss';
+import { calculateEnvironmentAdjustment } from '../environment';
+import { SafetyEnforcedEngine } from '../safety-enforcement';
+import { getProductFormat, calculateFormatServings, fitSoluteLoad, getServingLimits } from '../product-formats';
+import { getSafetyLimits, getSafetyLimitSource } from '../safety-limits';
+import { selectElectrolyteForms, toElectrolyteForms } from '../electrolyte-forms';
+
+export class PersonalPotionsEngine extends SafetyEnforcedEngine {
+
+  constructor(formula: FormulaVersionDefinition = getStableFormulaVersion()) {
+    super(formula);
+  }
+
+  /**
+   * Calculate personalized formulation using the full V1 framework
+   * options.useCase overrides the detected use case and options.maxDailyAmounts caps
+   * the daily deficit before it is split (both used for kit components)
+   */
+  protected async calculateFormulation(surveyData: CustomerData, options: CalculationOptions): Promise<FormulationResult> {
+    const { constants } = this.formula;
+    const trace = new CalculationTrace();
+    const { useCase: detectedUseCase, candidates } = detectUseCase(surveyData, constants);
+    const useCase = options.useCase || detectedUseCase;
+
+    // 1. Optimal daily intake (base values, weight, age, sex, activity, sweat)
+    const baseIntake = calculateOptimalIntake(surveyData, constants, trace);
+
+    // 2. Use case multipliers followed by health condition and medication restrictions
+    const adjustedIntake = applyUseCaseAdjustments(useCase, surveyData, baseIntake, constants, trace);
+    const restrictedIntake = applyHealthConditions(surveyData, adjustedIntake, constants, trace);
+    const optimalIntake = this.roundAmounts(applyMedicationInteractions(surveyData, restrictedIntake, constants, trace));
+
+    // 3. Current intake from diet plus supplements, and the remaining deficit
+    const currentIntake = this.calculateCurrentIntake(surveyData, trace);
+    const deficits = this.calculateDeficits(optimalIntake, currentIntake, trace);
+    const dailyAmounts = this.applyDailyCaps(deficits, options.maxDailyAmounts, trace);
+
+    // 4. Split deficit across servings of the chosen format and clamp to use case (maternal and youth tightened) safety limits,
+    //    shared across any servings added for the format's solute load
+    const format = getProductFormat(surveyData, constants);
+    const useCaseLimits = getSafetyLimits(useCase, surveyData, constants);
+    const productFormat = calculateFormatServings(
+      format,
+      this.calculateServingsPerDay(useCase, surveyData),
+      dailyAmounts,
+      useCaseLimits,
+      constants
+    );
+    const servingsPerDay = productFormat.servingsPerDay;
+    const limits = getServingLimits(useCaseLimits, productFormat);
+    const safeServing = this.applySafetyLimits(
+      useCase,
+      surveyData,
+      this.splitIntoServings(dailyAmounts, servingsPerDay, trace),
+      limits,
+      trace
+    );
+    const clamped = trace.getClampedElectrolytes();
+
+    // 5. Move calcium/magnesium toward the use case ratio within the same limits
+    const { amounts: optimizedServing, report: ratioOptimization } =
+      optimizeCalciumMagnesiumRatio(useCase, safeServing, constants, trace, limits);
+
+    // 6. Fit one serving within the format's solute load
+    const formulationPerServing = this.applySoluteLoad(format, optimizedServing, limits, trace);
+    const formatNote = formulationPerServing === optimizedServing
+      ? productFormat.note
+      : `Per-serving amounts reduced to fit the ${format.maxSoluteLoadMg} mg solute load of a ${format.label}`;
+
+    const formSelections = selectElectrolyteForms(surveyData, useCase, constants);
+
+    const metadata: CalculationMetadata = {
+      formulaVersion: this.formula.version,
+      servingSize: format.servingSize,
+      recommendedServingsPerDay: servingsPerDay,
+      optimalIntake,
+      currentIntake,
+      deficits,
+      electrolyteForms: toElectrolyteForms(formSelections),
+      formSelections,
+      notes: {
+        primary: `Formulated for ${useCase} use case`,
+        additional: this.generateNotes(surveyData, clamped, ratioOptimization, formatNote),
+      },
+      recommendations: this.generateRecommendations(useCase, surveyData, servingsPerDay),
+      calculationTimestamp: new Date(),
+      customerAge: surveyData.age,
+      customerWeight: surveyData.weight,
+      detectedUseCase,
+      useCaseCandidates: candidates,
+      sweatLoss: estimateSweatLoss(surveyData, constants),
+      measuredSweat: getMeasuredSweat(surveyData, constants),
+      environment: calculateEnvironmentAdjustment(surveyData, constants) || undefined,
+      appliedMultipliers: trace.getAppliedMultipliers(),
+      safetyLimitsApplied: clamped.length > 0,
+      ratioOptimization,
+      calculationTrace: trace.getEntries(),
+    };
+
+    return { formulationPerServing, useCase, productFormat, metadata };
+  }
+
+  /**
+   * Current daily intake: diet estimate plus reported supplements
+   */
+  private calculateCurrentIntake(surveyData: CustomerData, trace: CalculationTrace): ElectrolyteAmounts {
+    const dietary = convertAllIntakesToMg(surveyData);
+    const current = { ...dietary };
+
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      const supplementField = `${electrolyte}-supplement` as const;
+      const value = trace.base('current-intake', electrolyte, `${electrolyte}-intake`, dietary[electrolyte]);
+      current[electrolyte] = trace.add('current-intake', electrolyte, supplementField, value, surveyData[supplementField] || 0);
+    });
+
+    return this.roundAmounts(current);
+  }
+
+  private calculateDeficits(
+    optimal: ElectrolyteAmounts,
+    current: ElectrolyteAmounts,
+    trace: CalculationTrace
+  ): ElectrolyteAmounts {
+    const deficits = { ...optimal };
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      deficits[electrolyte] = trace.subtract('deficit', electrolyte, 'currentIntake', optimal[electrolyte], current[electrolyte]);
+    });
+    return deficits;
+  }
+
+  /**
+   * Cap daily amounts at the caller's ceilings, e.g. a kit component's share of the combined limit
+   */
+  private applyDailyCaps(
+    deficits: ElectrolyteAmounts,
+    maxDailyAmounts: Partial<ElectrolyteAmounts> = {},
+    trace: CalculationTrace
+  ): ElectrolyteAmounts {
+    const capped = { ...deficits };
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      const ceiling = maxDailyAmounts[electrolyte];
+      if (ceiling !== undefined) {
+        capped[electrolyte] = trace.cap('daily-cap', electrolyte, `maxDailyAmounts.${electrolyte}`, deficits[electrolyte], ceiling);
+      }
+    });
+    return capped;
+  }
+
+  /**
+   * Recommended 16 oz reference servings per day based on use case and training load
+   */
+  private calculateServingsPerDay(useCase: UseCase, surveyData: CustomerData): number {
+    if (useCase === 'hangover') return 2;
+    if (useCase === 'sweat') return 2;
+    if (surveyData['activity-level'] === 'extremely-active') return 2;
+    return 1;
+  }
+
+  private splitIntoServings(
+    deficits: ElectrolyteAmounts,
+    servingsPerDay: number,
+    trace: CalculationTrace
+  ): ElectrolyteAmounts {
+    const perServing = { ...deficits };
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      perServing[electrolyte] = trace.divide('serving-split', electrolyte, 'recommendedServingsPerDay', deficits[electrolyte], servingsPerDay);
+    });
+    return perServing;
+  }
+
+  /**
+   * Clamp per-serving amounts to the serving limits (tightened while pregnant or breastfeeding)
+   */
+  private applySafetyLimits(
+    useCase: UseCase,
+    surveyData: CustomerData,
+    amounts: ElectrolyteAmounts,
+    limits: SafetyLimits,
+    trace: CalculationTrace
+  ): ElectrolyteAmounts {
+    const { constants } = this.formula;
+    const safe = { ...amounts };
+
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      const source = getSafetyLimitSource(useCase, electrolyte, surveyData, constants);
+      safe[electrolyte] = trace.clamp('safety-clamp', electrolyte, source, amounts[electrolyte], limits[electrolyte]);
+    });
+
+    return this.roundAmounts(safe);
+  }
+
+  private applySoluteLoad(
+    format: ProductFormat,
+    amounts: ElectrolyteAmounts,
+    limits: SafetyLimits,
+    trace: CalculationTrace
+  ): ElectrolyteAmounts {
+    const fitted = fitSoluteLoad(amounts, format.maxSoluteLoadMg, limits);
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      trace.adjust('solute-load', electrolyte, `PRODUCT_FORMATS.${format.id}.maxSoluteLoadMg`, amounts[electrolyte], fitted[electrolyte]);
+    });
+    return fitted;
+  }
+
+  private generateNotes(
+    surveyData: CustomerData,
+    clamped: (keyof ElectrolyteAmounts)[],
+    ratioOptimization: RatioOptimizationReport,
+    formatNote?: string
+  ): string[] {
+    const notes = [
+      `Based on age ${surveyData.age}, ${surveyData['biological-sex']}, ${surveyData.weight} lbs`,
+      `Activity level: ${surveyData['activity-level']}, sweat level: ${surveyData['sweat-level']}`,
+    ];
+    const measuredSweat = getMeasuredSweat(surveyData, this.formula.constants);
+    if (measuredSweat) {
+      notes.push(`Measured sweat test used: ${[
+        measuredSweat.sodiumMmolPerL !== undefined && `${measuredSweat.sodiumMmolPerL} mmol/L sodium`,
+        measuredSweat.sweatRateLitersPerHour !== undefined && `${measuredSweat.sweatRateLitersPerHour} L/h sweat rate`,
+      ].filter(Boolean).join(', ')}`);
+    }
+    if (formatNote) {
+      notes.push(formatNote);
+    }
+    if (clamped.length > 0) {
+      notes.push(`Safety limits applied to: ${clamped.join(', ')}`);
+    }
+    ratioOptimization.adjustments?.forEach(adjustment => notes.push(adjustment.reason));
+    if (ratioOptimization.note) {
+      notes.push(ratioOptimization.note);
+    }
+    return notes;
+  }
+
+  /**
+   * Generate contextual recommendations
+   */
+  private generateRecommendations(useCase: UseCase, surveyData: CustomerData, servingsPerDay: number): string[] {
+    const recommendations = [`Formulated for ${useCase} use case`];
+
+    if (servingsPerDay > 1 && useCase !== 'hangover') {
+      recommendations.push('Consider splitting dose pre/post workout');
+    }
+    if (useCase === 'bedtime') {
+      recommendations.push('Take 30-60 minutes before bed');
+    }
+    if (useCase === 'hangover') {
+      recommendations.push('Consume immediately upon waking');
+    }
+    if (surveyData.conditions?.includes('hypertension')) {
+      recommendations.push('Reduced sodium formulation for blood pressure');
+    }
+    if (surveyData.conditions?.includes('kidney-disease')) {
+      recommendations.push('Consult your physician before use due to kidney disease');
+    }
+
+    return recommendations;
+  }
+
+  private roundAmounts(amounts: ElectrolyteAmounts): ElectrolyteAmounts {
+    return {
+      sodium: Math.round(amounts.sodium),
+      potassium: Math.round(amounts.potassium),
+      magnesium: Math.round(amounts.magnesium),
+      calcium: Math.round(amounts.calcium),
+    };
+  }
+}
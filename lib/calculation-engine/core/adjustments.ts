@@ -0,0 +1,140 @@
+/**
+ * Use Case, Health Condition & Medication Adjustments
+ *
+ * Applies the V1 goal, sleep, hangover and health condition multiplier tables,
+ * then medication interaction rules, to optimal daily intake. Every applied
+ * multiplier is recorded in the trace.
+ */
+
+import type {
+  CustomerData,
+  ElectrolyteAmounts,
+  UseCase,
+  FormulaConstants,
+} from '@/types';
+import { ELECTROLYTE_TYPES } from '@/types';
+import type { CalculationTrace } from './trace';
+
+/**
+ * Multiply amounts by a partial multiplier entry, tracing each factor under the given label
+ */
+export function applyMultiplierEntry(
+  amounts: ElectrolyteAmounts,
+  entry: Partial<ElectrolyteAmounts> | undefined,
+  label: string,
+  trace: CalculationTrace
+): ElectrolyteAmounts {
+  if (!entry) return amounts;
+
+  const adjusted = { ...amounts };
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    const multiplier = entry[electrolyte];
+    if (multiplier !== undefined) {
+      adjusted[electrolyte] = trace.multiply('use-case-multiplier', electrolyte, `${label}.${electrolyte}`, adjusted[electrolyte], multiplier);
+    }
+  });
+  return adjusted;
+}
+
+/**
+ * Apply goal, sleep or hangover multipliers depending on the detected use case
+ */
+export function applyUseCaseAdjustments(
+  useCase: UseCase,
+  customer: CustomerData,
+  amounts: ElectrolyteAmounts,
+  constants: Readonly<FormulaConstants>,
+  trace: CalculationTrace
+): ElectrolyteAmounts {
+  const {
+    GOAL_MULTIPLIERS,
+    SLEEP_GOAL_MULTIPLIERS,
+    HANGOVER_TIMING_MULTIPLIERS,
+    HANGOVER_SYMPTOM_MULTIPLIERS,
+  } = constants;
+  let adjusted = amounts;
+
+  if (useCase === 'bedtime') {
+    customer['sleep-goals']?.forEach(goal => {
+      adjusted = applyMultiplierEntry(adjusted, SLEEP_GOAL_MULTIPLIERS[goal], `SLEEP_GOAL_MULTIPLIERS.${goal}`, trace);
+    });
+    return adjusted;
+  }
+
+  if (useCase === 'hangover') {
+    const timing = customer['hangover-timing'];
+    if (timing) {
+      adjusted = applyMultiplierEntry(adjusted, HANGOVER_TIMING_MULTIPLIERS[timing], `HANGOVER_TIMING_MULTIPLIERS.${timing}`, trace);
+    }
+    customer['hangover-symptoms']?.forEach(symptom => {
+      adjusted = applyMultiplierEntry(adjusted, HANGOVER_SYMPTOM_MULTIPLIERS[symptom], `HANGOVER_SYMPTOM_MULTIPLIERS.${symptom}`, trace);
+    });
+    return adjusted;
+  }
+
+  // Daily, sweat and menstrual formulations follow the customer's daily goals
+  customer['daily-goals']?.forEach(goal => {
+    adjusted = applyMultiplierEntry(adjusted, GOAL_MULTIPLIERS[goal], `GOAL_MULTIPLIERS.${goal}`, trace);
+  });
+  return adjusted;
+}
+
+/**
+ * Apply health condition restrictions from the contraindication rules
+ * Multiplier rules scale the amount; cap rules (e.g. kidney disease calcium) cap it.
+ * Block rules are screened on the finished formulation by the safety layer.
+ */
+export function applyHealthConditions(
+  customer: CustomerData,
+  amounts: ElectrolyteAmounts,
+  constants: Readonly<FormulaConstants>,
+  trace: CalculationTrace
+): ElectrolyteAmounts {
+  const adjusted = { ...amounts };
+
+  customer.conditions?.forEach(condition => {
+    constants.CONTRAINDICATION_RULES
+      .filter(rule => rule.condition === condition)
+      .forEach(rule => {
+        const { electrolyte } = rule;
+        const label = `CONTRAINDICATION_RULES.${rule.id}`;
+        if (rule.kind === 'multiplier') {
+          adjusted[electrolyte] = trace.multiply('health-condition', electrolyte, label, adjusted[electrolyte], rule.factor);
+        } else if (rule.kind === 'cap') {
+          adjusted[electrolyte] = trace.cap('health-condition', electrolyte, label, adjusted[electrolyte], rule.maxMg);
+        }
+      });
+  });
+
+  return adjusted;
+}
+
+/**
+ * Apply medication interaction rules after the health condition restrictions
+ * Multiplier and cap rules adjust the amount; warnings and block rules are
+ * reported on the finished formulation by the safety layer.
+ */
+export function applyMedicationInteractions(
+  customer: CustomerData,
+  amounts: ElectrolyteAmounts,
+  constants: Readonly<FormulaConstants>,
+  trace: CalculationTrace
+): ElectrolyteAmounts {
+  const adjusted = { ...amounts };
+
+  customer.medications?.forEach(medication => {
+    constants.MEDICATION_INTERACTION_RULES
+      .filter(rule => rule.medication === medication)
+      .forEach(rule => {
+        const { electrolyte } = rule;
+        const label = `MEDICATION_INTERACTION_RULES.${rule.id}`;
+        if (rule.kind === 'multiplier') {
+          adjusted[electrolyte] = trace.multiply('medication-interaction', electrolyte, label, adjusted[electrolyte], rule.factor);
+        } else if (rule.kind === 'cap') {
+          adjusted[electrolyte] = trace.cap('medication-interaction', electrolyte, label, adjusted[electrolyte], rule.maxMg);
+        }
+      });
+  });
+
+  return adjusted;
+}
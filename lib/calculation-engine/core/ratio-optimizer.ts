@@ -0,0 +1,93 @@
+/**
+ * Calcium:Magnesium Ratio Optimizer
+ *
+ * Brings per-serving calcium and magnesium into the USE_CASE_RATIOS range by
+ * reducing whichever electrolyte is in excess, just enough to reach the range
+ * and never below its SAFETY_LIMITS minimum. Neither electrolyte is ever raised,
+ * so no serving carries more than the engine calculated from the deficit.
+ * Only runs for formula versions with ENGINE_STAGES.RATIO_OPTIMIZATION.
+ */
+
+import type {
+  ElectrolyteAmounts,
+  UseCase,
+  FormulaConstants,
+  RatioAdjustment,
+  RatioOptimizationReport,
+  SafetyLimits,
+} from '@/types';
+import type { CalculationTrace } from './trace';
+
+type RangeLimit = { min: number; max: number };
+
+function toRatio(calcium: number, magnesium: number): number {
+  return magnesium > 0 ? calcium / magnesium : 0;
+}
+
+function isWithin(ratio: number, range: RangeLimit): boolean {
+  return ratio >= range.min && ratio <= range.max;
+}
+
+/**
+ * Optimize the Ca:Mg ratio of per-serving amounts that are already within safety limits
+ * limits defaults to the use case SAFETY_LIMITS; callers pass tightened limits when they apply
+ */
+export function optimizeCalciumMagnesiumRatio(
+  useCase: UseCase,
+  amounts: ElectrolyteAmounts,
+  constants: Readonly<FormulaConstants>,
+  trace: CalculationTrace,
+  limits: SafetyLimits = constants.SAFETY_LIMITS[useCase]
+): { amounts: ElectrolyteAmounts; report: RatioOptimizationReport } {
+  const { min, target, max } = constants.USE_CASE_RATIOS[useCase];
+  const range = { min, max };
+  const source = `USE_CASE_RATIOS.${useCase}`;
+  const originalRatio = toRatio(amounts.calcium, amounts.magnesium);
+
+  const report = (ratio: number, extra: Partial<RatioOptimizationReport>): RatioOptimizationReport => ({
+    calciumMagnesiumRatio: Number(ratio.toFixed(2)),
+    targetRatio: target,
+    ratioAdjustment: 'within-range',
+    originalRatio: Number(originalRatio.toFixed(2)),
+    range,
+    ...extra,
+  });
+
+  if (!constants.ENGINE_STAGES.RATIO_OPTIMIZATION) {
+    return { amounts, report: report(originalRatio, { ratioAdjustment: 'not-optimized', feasible: isWithin(originalRatio, range) }) };
+  }
+  if (isWithin(originalRatio, range)) {
+    return { amounts, report: report(originalRatio, { adjustments: [], feasible: true }) };
+  }
+
+  // Calcium in excess above the range, magnesium in excess below it
+  const excess: RatioAdjustment['electrolyte'] = originalRatio > max ? 'calcium' : 'magnesium';
+  const before = amounts[excess];
+  const inRange = excess === 'calcium'
+    ? Math.floor(max * amounts.magnesium)
+    : Math.floor(amounts.calcium / min);
+  const after = Math.min(before, Math.max(limits[excess].min, inRange));
+  const adjustments: RatioAdjustment[] = [];
+
+  if (after !== before) {
+    const reason = `Ratio ${originalRatio.toFixed(2)} ${excess === 'calcium' ? `above ${max}` : `below ${min}`}; ${excess} reduced to reach the ${min}-${max} range`;
+    trace.adjust('ratio-optimization', excess, `${source}.${excess === 'calcium' ? 'max' : 'min'}`, before, after, reason);
+    adjustments.push({ electrolyte: excess, before, after, reason });
+  }
+
+  const optimized = { ...amounts, [excess]: after };
+  const finalRatio = toRatio(optimized.calcium, optimized.magnesium);
+  const feasible = isWithin(finalRatio, range);
+
+  return {
+    amounts: optimized,
+    report: report(finalRatio, {
+      ratioAdjustment: feasible ? `${excess}-adjusted` : 'infeasible',
+      adjustments,
+      feasible,
+      ...(!feasible && {
+        note: `Ca:Mg ratio ${min}-${max} cannot be reached without reducing ${excess} below SAFETY_LIMITS.${useCase}.${excess}.min (${limits[excess].min} mg)`,
+      }),
+    }),
+  };
+}
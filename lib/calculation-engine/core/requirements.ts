@@ -0,0 +1,176 @@
+/**
+ * Daily Electrolyte Requirements
+ *
+ * Calculates optimal daily intake from the research-backed V1 base values
+ * Applies body weight, age, biological sex, activity level and training environment adjustments,
+ * using the pregnancy and lactation DRIs for magnesium and calcium when they apply and lab
+ * sweat test results in place of the sweat level heuristics when provided
+ */
+
+import type { CustomerData, ElectrolyteAmounts, FormulaConstants } from '@/types';
+import type { POTASSIUM_AGE_MULTIPLIERS, MAGNESIUM_RDA, CALCIUM_RDA } from '@/types';
+import { LBS_PER_KG } from '@/types';
+import type { CalculationTrace } from './trace';
+import { calculateEnvironmentAdjustment } from '../environment';
+import { getMaternalStatus, getMaternalMagnesiumRdaKey, getMaternalCalciumRdaKey } from '../maternal';
+import { estimateSweatLoss, getMeasuredSweat } from '../sweat-loss';
+
+// Keeps weight-scaled magnesium within a sensible band for very light or heavy customers
+const MAGNESIUM_WEIGHT_SCALE = { min: 0.75, max: 1.5 } as const;
+
+const AGE_BRACKETS = {
+  YOUTH: 18,
+  CALCIUM_ADULT: 19,
+  MAGNESIUM_OVER: 30,
+  CALCIUM_MIDDLE: 50,
+  CALCIUM_SENIOR: 70,
+} as const;
+
+/**
+ * Convert customer weight (lbs) to kilograms for the per-kg framework constants
+ */
+export function toKilograms(weightLbs: number): number {
+  return weightLbs / LBS_PER_KG;
+}
+
+/**
+ * Magnesium RDA key by biological sex and age
+ */
+export function getMagnesiumRdaKey(customer: CustomerData): keyof typeof MAGNESIUM_RDA {
+  const over30 = customer.age >= AGE_BRACKETS.MAGNESIUM_OVER;
+  if (customer['biological-sex'] === 'female') {
+    return over30 ? 'FEMALE_OVER_30' : 'FEMALE_UNDER_30';
+  }
+  return over30 ? 'MALE_OVER_30' : 'MALE_UNDER_30';
+}
+
+/**
+ * Calcium RDA key by age bracket and biological sex
+ */
+export function getCalciumRdaKey(customer: CustomerData): keyof typeof CALCIUM_RDA {
+  const { age } = customer;
+  if (age < AGE_BRACKETS.CALCIUM_ADULT) return 'UNDER_19';
+  if (age <= AGE_BRACKETS.CALCIUM_MIDDLE) return 'AGE_19_TO_50';
+  if (age <= AGE_BRACKETS.CALCIUM_SENIOR) {
+    return customer['biological-sex'] === 'female' ? 'FEMALE_AGE_51_TO_70' : 'MALE_AGE_51_TO_70';
+  }
+  return 'OVER_70';
+}
+
+/**
+ * Potassium age multiplier key (reduced for youth and seniors)
+ */
+export function getPotassiumAgeBracket(age: number): keyof typeof POTASSIUM_AGE_MULTIPLIERS {
+  if (age < AGE_BRACKETS.YOUTH) return 'UNDER_18';
+  if (age > AGE_BRACKETS.CALCIUM_SENIOR) return 'OVER_70';
+  return 'NORMAL';
+}
+
+/**
+ * Daily sweat sodium to add to the sodium requirement
+ * A measured sweat rate uses the daily share of the weekly sweat loss estimate; without
+ * logged workouts that estimate is 0, so the sweat level addition applies as it does for a
+ * measured concentration alone, scaled by measured vs typical sweat sodium
+ */
+function addSweatSodium(
+  customer: CustomerData,
+  sodium: number,
+  constants: Readonly<FormulaConstants>,
+  trace: CalculationTrace
+): number {
+  const { SWEAT_ADDITIONS, SWEAT_SODIUM_CONCENTRATION } = constants;
+  const sweatLevel = customer['sweat-level'];
+  const sweatAddition = SWEAT_ADDITIONS[sweatLevel] ?? SWEAT_ADDITIONS.moderate;
+  const measured = getMeasuredSweat(customer, constants);
+
+  if (measured?.sweatRateLitersPerHour !== undefined) {
+    const { sodiumMgPerWeek, sweatRateLitersPerHour, sodiumMgPerLiter } = estimateSweatLoss(customer, constants);
+    if (sodiumMgPerWeek > 0) {
+      return trace.add('sweat', 'sodium', 'sweat-rate', sodium, Math.round(sodiumMgPerWeek / 7),
+        `${sweatRateLitersPerHour} L/h × ${sodiumMgPerLiter} mg/L, weekly sweat sodium ÷ 7`);
+    }
+  }
+  if (measured?.sodiumMgPerLiter !== undefined) {
+    return trace.add('sweat', 'sodium', `SWEAT_ADDITIONS.${sweatLevel}`, sodium,
+      Math.round(sweatAddition * measured.sodiumMgPerLiter / SWEAT_SODIUM_CONCENTRATION),
+      `Scaled by sweat-sodium-concentration ${measured.sodiumMgPerLiter} mg/L vs ${SWEAT_SODIUM_CONCENTRATION} mg/L`);
+  }
+  return trace.add('sweat', 'sodium', `SWEAT_ADDITIONS.${sweatLevel}`, sodium, sweatAddition);
+}
+
+/**
+ * Calculate optimal daily electrolyte intake before use case adjustments
+ * Records every base value, constant and multiplier into the calculation trace
+ */
+export function calculateOptimalIntake(
+  customer: CustomerData,
+  constants: Readonly<FormulaConstants>,
+  trace: CalculationTrace
+): ElectrolyteAmounts {
+  const {
+    SODIUM_BASE,
+    SODIUM_WEIGHT_MULTIPLIER,
+    POTASSIUM_BASE,
+    POTASSIUM_AGE_MULTIPLIERS,
+    MAGNESIUM_RDA,
+    MAGNESIUM_REFERENCE_WEIGHTS,
+    CALCIUM_RDA,
+    MATERNAL_MAGNESIUM_RDA,
+    MATERNAL_CALCIUM_RDA,
+    ACTIVITY_MULTIPLIERS,
+  } = constants;
+  const weightKg = toKilograms(customer.weight);
+  const activityLevel = customer['activity-level'];
+  const activity = ACTIVITY_MULTIPLIERS[activityLevel] || ACTIVITY_MULTIPLIERS['moderately-active'];
+  const activityLabel = `ACTIVITY_MULTIPLIERS.${activityLevel}`;
+  const maternalStatus = getMaternalStatus(customer);
+
+  // Sodium: base + weight component, scaled by activity, plus sweat losses, scaled by environment
+  let sodium = trace.base('base-requirement', 'sodium', 'SODIUM_BASE', SODIUM_BASE);
+  sodium = trace.add('base-requirement', 'sodium', 'SODIUM_WEIGHT_MULTIPLIER', sodium,
+    SODIUM_WEIGHT_MULTIPLIER * weightKg, `${SODIUM_WEIGHT_MULTIPLIER} mg/kg × ${weightKg.toFixed(1)} kg`);
+  sodium = trace.multiply('activity', 'sodium', `${activityLabel}.sodium`, sodium, activity.sodium);
+  sodium = addSweatSodium(customer, sodium, constants, trace);
+  calculateEnvironmentAdjustment(customer, constants)?.factors.forEach(({ factor, sodiumMultiplier }) => {
+    sodium = trace.multiply('environment', 'sodium', `ENVIRONMENT_ADJUSTMENTS.${factor}.sodium`, sodium, sodiumMultiplier);
+  });
+
+  // Potassium: FDA base adjusted for age and activity
+  const potassiumBracket = getPotassiumAgeBracket(customer.age);
+  let potassium = trace.base('base-requirement', 'potassium', 'POTASSIUM_BASE', POTASSIUM_BASE);
+  potassium = trace.multiply('base-requirement', 'potassium', `POTASSIUM_AGE_MULTIPLIERS.${potassiumBracket}`,
+    potassium, POTASSIUM_AGE_MULTIPLIERS[potassiumBracket]);
+  potassium = trace.multiply('activity', 'potassium', `${activityLabel}.potassium`, potassium, activity.potassium);
+
+  // Magnesium: RDA scaled to body weight relative to the reference weight
+  const isFemale = customer['biological-sex'] === 'female';
+  const referenceWeight = isFemale ? MAGNESIUM_REFERENCE_WEIGHTS.FEMALE : MAGNESIUM_REFERENCE_WEIGHTS.MALE;
+  const weightScale = Math.min(
+    MAGNESIUM_WEIGHT_SCALE.max,
+    Math.max(MAGNESIUM_WEIGHT_SCALE.min, weightKg / referenceWeight)
+  );
+  let magnesium: number;
+  if (maternalStatus && MATERNAL_MAGNESIUM_RDA) {
+    const maternalKey = getMaternalMagnesiumRdaKey(maternalStatus, customer.age);
+    magnesium = trace.base('base-requirement', 'magnesium', `MATERNAL_MAGNESIUM_RDA.${maternalKey}`, MATERNAL_MAGNESIUM_RDA[maternalKey]);
+  } else {
+    const magnesiumKey = getMagnesiumRdaKey(customer);
+    magnesium = trace.base('base-requirement', 'magnesium', `MAGNESIUM_RDA.${magnesiumKey}`, MAGNESIUM_RDA[magnesiumKey]);
+  }
+  magnesium = trace.multiply('base-requirement', 'magnesium',
+    `MAGNESIUM_REFERENCE_WEIGHTS.${isFemale ? 'FEMALE' : 'MALE'}`, magnesium, Number(weightScale.toFixed(3)));
+  magnesium = trace.multiply('activity', 'magnesium', `${activityLabel}.magnesium`, magnesium, activity.magnesium);
+
+  // Calcium: age/sex (or maternal) RDA adjusted for activity
+  let calcium: number;
+  if (maternalStatus && MATERNAL_CALCIUM_RDA) {
+    const maternalKey = getMaternalCalciumRdaKey(customer.age);
+    calcium = trace.base('base-requirement', 'calcium', `MATERNAL_CALCIUM_RDA.${maternalKey}`, MATERNAL_CALCIUM_RDA[maternalKey]);
+  } else {
+    const calciumKey = getCalciumRdaKey(customer);
+    calcium = trace.base('base-requirement', 'calcium', `CALCIUM_RDA.${calciumKey}`, CALCIUM_RDA[calciumKey]);
+  }
+  calcium = trace.multiply('activity', 'calcium', `${activityLabel}.calcium`, calcium, activity.calcium);
+
+  return { sodium, potassium, magnesium, calcium };
+}
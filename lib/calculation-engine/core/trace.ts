@@ -0,0 +1,127 @@
+/**
+ * Calculation Trace Recorder
+ *
+ * Records every engine step (base value, constant applied, value before/after,
+ * safety clamps) so support staff can explain how each amount was derived
+ */
+
+import type {
+  ElectrolyteAmounts,
+  CalculationTraceEntry,
+  CalculationTraceStep,
+} from '@/types';
+
+type Electrolyte = keyof ElectrolyteAmounts;
+
+export class CalculationTrace {
+  private readonly entries: CalculationTraceEntry[] = [];
+
+  /**
+   * Record the starting value for an electrolyte
+   */
+  base(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, value: number, detail?: string): number {
+    this.entries.push({ step, electrolyte, operation: 'base', source, factor: value, before: 0, after: value, ...(detail && { detail }) });
+    return value;
+  }
+
+  /**
+   * Multiply the current value by a constant and record the step
+   */
+  multiply(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, before: number, factor: number): number {
+    const after = before * factor;
+    this.entries.push({ step, electrolyte, operation: 'multiply', source, factor, before, after });
+    return after;
+  }
+
+  /**
+   * Add an amount to the current value and record the step
+   */
+  add(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, before: number, amount: number, detail?: string): number {
+    const after = before + amount;
+    this.entries.push({ step, electrolyte, operation: 'add', source, factor: amount, before, after, ...(detail && { detail }) });
+    return after;
+  }
+
+  /**
+   * Subtract an amount (never below zero) and record the step
+   */
+  subtract(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, before: number, amount: number): number {
+    const after = Math.max(0, before - amount);
+    this.entries.push({ step, electrolyte, operation: 'subtract', source, factor: amount, before, after });
+    return after;
+  }
+
+  /**
+   * Divide the current value and record the step
+   */
+  divide(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, before: number, divisor: number): number {
+    const after = before / divisor;
+    this.entries.push({ step, electrolyte, operation: 'divide', source, factor: divisor, before, after });
+    return after;
+  }
+
+  /**
+   * Apply an absolute ceiling; only recorded when the ceiling takes effect
+   */
+  cap(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, before: number, ceiling: number): number {
+    if (before <= ceiling) return before;
+    this.entries.push({ step, electrolyte, operation: 'cap', source, factor: ceiling, before, after: ceiling });
+    return ceiling;
+  }
+
+  /**
+   * Clamp to a min/max range; only recorded when the clamp takes effect
+   */
+  clamp(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, before: number, range: { min: number; max: number }): number {
+    if (before < range.min) {
+      this.entries.push({ step, electrolyte, operation: 'clamp', source, factor: range.min, before, after: range.min, clamp: { limit: 'min', bound: range.min } });
+      return range.min;
+    }
+    if (before > range.max) {
+      this.entries.push({ step, electrolyte, operation: 'clamp', source, factor: range.max, before, after: range.max, clamp: { limit: 'max', bound: range.max } });
+      return range.max;
+    }
+    return before;
+  }
+
+  /**
+   * Set a new value chosen by an optimization stage and record the reason
+   */
+  adjust(step: CalculationTraceStep, electrolyte: Electrolyte, source: string, before: number, after: number, detail?: string): number {
+    if (after === before) return before;
+    this.entries.push({ step, electrolyte, operation: 'adjust', source, factor: after, before, after, ...(detail && { detail }) });
+    return after;
+  }
+
+  /**
+   * All recorded entries in calculation order
+   */
+  getEntries(): CalculationTraceEntry[] {
+    return this.entries.map(entry => ({
+      ...entry,
+      before: Number(entry.before.toFixed(2)),
+      after: Number(entry.after.toFixed(2)),
+    }));
+  }
+
+  /**
+   * Flat multiplier record for CalculationMetadata.appliedMultipliers
+   */
+  getAppliedMultipliers(): Record<string, number> {
+    return this.entries.reduce((applied, entry) => {
+      if ((entry.operation === 'multiply' || entry.operation === 'cap') && entry.factor !== undefined) {
+        applied[entry.source] = entry.factor;
+      }
+      return applied;
+    }, {} as Record<string, number>);
+  }
+
+  /**
+   * Electrolytes affected by a safety clamp
+   */
+  getClampedElectrolytes(): Electrolyte[] {
+    return Array.from(new Set(
+      this.entries.filter(entry => entry.step === 'safety-clamp').map(entry => entry.electrolyte)
+    ));
+  }
+}
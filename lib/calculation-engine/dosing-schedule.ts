@@ -0,0 +1,182 @@
+/**
+ * Daily Dosing Schedule
+ *
+ * Turns servings per day into timed dose events: split pre/post workout
+ * servings on training days for the sweat use case, a bedtime serving for the
+ * bedtime use case or sleep goals, drinking and morning-after doses from
+ * hangover timing, and DAILY_DOSE_SLOTS for everything else
+ */
+
+import type { CustomerData, DoseEvent, DoseTiming, DosingSchedule, FormulaConstants, FormulationResult, UseCase } from '@/types';
+import { DOSE_TIMING_LABELS } from '@/types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toClock(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+function dose(timing: DoseTiming, servings: number, servingVolumeMl: number, time?: string): DoseEvent {
+  const volumeMl = Math.round(servings * servingVolumeMl);
+  return {
+    timing,
+    ...(time && { time }),
+    servings,
+    volumeMl,
+    label: `${DOSE_TIMING_LABELS[timing]} ${volumeMl} ml`,
+  };
+}
+
+function byTime(a: DoseEvent, b: DoseEvent): number {
+  return toMinutes(a.time!) - toMinutes(b.time!);
+}
+
+/**
+ * Count servings over the slots in fill order, one per slot; once every slot has one
+ * the next round adds a second serving to each slot, so no serving is ever dropped
+ */
+function fillSlots(slots: ReadonlyArray<{ timing: DoseTiming; time: string }>, count: number, servingVolumeMl: number): DoseEvent[] {
+  return slots.flatMap((slot, index) => {
+    const servings = Math.floor(count / slots.length) + (index < count % slots.length ? 1 : 0);
+    return servings > 0 ? [dose(slot.timing, servings, servingVolumeMl, slot.time)] : [];
+  });
+}
+
+/**
+ * Daily slots in fill order; slots within the buffer of a workout move to the back
+ */
+function dailySlots(
+  count: number,
+  servingVolumeMl: number,
+  constants: Readonly<FormulaConstants>,
+  workout?: { start: number; end: number }
+): DoseEvent[] {
+  const { DAILY_DOSE_SLOTS, DOSING_DEFAULTS } = constants;
+  const buffer = DOSING_DEFAULTS.WORKOUT_SLOT_BUFFER_MINUTES;
+  const clashes = (time: string) => Boolean(workout) &&
+    toMinutes(time) > workout!.start - buffer && toMinutes(time) < workout!.end + buffer;
+  const slots = [
+    ...DAILY_DOSE_SLOTS.filter(slot => !clashes(slot.time)),
+    ...DAILY_DOSE_SLOTS.filter(slot => clashes(slot.time)),
+  ];
+
+  return fillSlots(slots, count, servingVolumeMl);
+}
+
+/**
+ * Whole servings for the day, the last one before bed for the bedtime use case
+ * or, when there is more than one, for customers with sleep goals
+ */
+function fillDay(
+  customer: Partial<CustomerData>,
+  useCase: UseCase,
+  count: number,
+  servingVolumeMl: number,
+  constants: Readonly<FormulaConstants>,
+  workout?: { start: number; end: number }
+): DoseEvent[] {
+  const { DOSING_DEFAULTS } = constants;
+  if (count <= 0) return [];
+
+  const sleepGoals = customer['sleep-goals'] || [];
+  const bedtime = useCase === 'bedtime' || (sleepGoals.length > 0 && count > 1);
+  if (!bedtime) return dailySlots(count, servingVolumeMl, constants, workout);
+
+  const lead = sleepGoals.includes('falling-asleep')
+    ? DOSING_DEFAULTS.FALLING_ASLEEP_LEAD_MINUTES
+    : DOSING_DEFAULTS.BEDTIME_LEAD_MINUTES;
+  return [
+    ...dailySlots(count - 1, servingVolumeMl, constants, workout),
+    dose('bedtime', 1, servingVolumeMl, toClock(toMinutes(DOSING_DEFAULTS.BED_TIME) - lead)),
+  ];
+}
+
+/**
+ * Training day: one serving split before and after the workout, one during
+ * long sessions, the rest in the daily slots clear of the workout
+ */
+function workoutDay(
+  customer: Partial<CustomerData>,
+  useCase: UseCase,
+  servingsPerDay: number,
+  servingVolumeMl: number,
+  constants: Readonly<FormulaConstants>
+): DoseEvent[] {
+  const { DOSING_DEFAULTS, WORKOUT_DURATION_MINUTES, WORKOUT_START_TIMES } = constants;
+  const start = toMinutes(WORKOUT_START_TIMES[customer['workout-time'] || DOSING_DEFAULTS.WORKOUT_TIME]);
+  const duration = WORKOUT_DURATION_MINUTES[customer['workout-duration'] || '30-60'];
+  const events = [
+    dose('pre-workout', 0.5, servingVolumeMl, toClock(start - DOSING_DEFAULTS.PRE_WORKOUT_LEAD_MINUTES)),
+    dose('post-workout', 0.5, servingVolumeMl, toClock(start + duration + DOSING_DEFAULTS.POST_WORKOUT_DELAY_MINUTES)),
+  ];
+  let remaining = servingsPerDay - 1;
+
+  if (duration >= DOSING_DEFAULTS.DURING_WORKOUT_MIN_MINUTES && remaining > 0) {
+    events.push(dose('during-workout', 1, servingVolumeMl, toClock(start + duration / 2)));
+    remaining -= 1;
+  }
+
+  return [...events, ...fillDay(customer, useCase, remaining, servingVolumeMl, constants, { start, end: start + duration })].sort(byTime);
+}
+
+/**
+ * Hangover: a dose before or between drinks when that is when it is used,
+ * then on waking and the afternoon slots the next day
+ */
+function hangoverDay(
+  customer: Partial<CustomerData>,
+  servingsPerDay: number,
+  servingVolumeMl: number,
+  constants: Readonly<FormulaConstants>
+): DoseEvent[] {
+  const { DAILY_DOSE_SLOTS, DOSING_DEFAULTS } = constants;
+  const timing = customer['hangover-timing'] || 'after';
+  const drinking = timing === 'before' ? 'before-drinking' : timing === 'during' ? 'during-drinking' : null;
+  const morningAfter = [
+    { timing: 'on-waking' as const, time: DOSING_DEFAULTS.WAKE_TIME },
+    ...DAILY_DOSE_SLOTS.filter(slot => slot.timing !== 'morning'),
+  ];
+
+  return [
+    ...(drinking ? [dose(drinking, 1, servingVolumeMl)] : []),
+    ...fillSlots(morningAfter, servingsPerDay - (drinking ? 1 : 0), servingVolumeMl).sort(byTime),
+  ];
+}
+
+/**
+ * Dosing schedule for a formulation's servings per day and serving volume
+ */
+export function buildDosingSchedule(
+  customer: Partial<CustomerData>,
+  formulation: FormulationResult,
+  constants: Readonly<FormulaConstants>
+): DosingSchedule {
+  const { PRODUCT_FORMATS, DEFAULT_PRODUCT_FORMAT, WORKOUT_SESSIONS_PER_WEEK } = constants;
+  const { useCase } = formulation;
+  const servingsPerDay = formulation.metadata.recommendedServingsPerDay;
+  const defaultFormat = PRODUCT_FORMATS[DEFAULT_PRODUCT_FORMAT];
+  const servingVolumeMl = formulation.productFormat?.servingVolumeMl ?? defaultFormat.volumeMl / defaultFormat.servingsPerContainer;
+  const workoutDaysPerWeek = WORKOUT_SESSIONS_PER_WEEK[customer['workout-frequency'] || 'never'] ?? 0;
+  const schedule = { servingsPerDay, servingVolumeMl, workoutDaysPerWeek };
+
+  if (useCase === 'hangover') {
+    return { ...schedule, events: hangoverDay(customer, servingsPerDay, servingVolumeMl, constants) };
+  }
+
+  const everyDay = fillDay(customer, useCase, servingsPerDay, servingVolumeMl, constants).sort(byTime);
+  if (useCase !== 'sweat' || workoutDaysPerWeek === 0) {
+    return { ...schedule, events: everyDay };
+  }
+
+  return {
+    ...schedule,
+    events: workoutDay(customer, useCase, servingsPerDay, servingVolumeMl, constants),
+    ...(workoutDaysPerWeek < WORKOUT_SESSIONS_PER_WEEK.daily && { restDayEvents: everyDay }),
+  };
+}
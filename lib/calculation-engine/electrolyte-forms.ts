@@ -0,0 +1,113 @@
+/**
+ * Electrolyte Form Selection
+ *
+ * Chooses the compound for each electrolyte: condition rules first, then the
+ * customer's preferred forms, then use case and goal rules, then the default
+ * form. Also converts elemental amounts to compound mass using the catalog.
+ */
+
+import type {
+  CustomerData,
+  ElectrolyteAmounts,
+  ElectrolyteForm,
+  ElectrolyteForms,
+  ElectrolyteFormRule,
+  ElectrolyteFormSelection,
+  ElectrolyteFormSource,
+  FormulaConstants,
+  UseCase,
+} from '@/types';
+import { ELECTROLYTE_TYPES, ELECTROLYTE_FORM_CATALOG } from '@/types';
+
+type Electrolyte = keyof ElectrolyteAmounts;
+
+function ruleMatches(rule: ElectrolyteFormRule, customer: Partial<CustomerData>, useCase: UseCase): boolean {
+  const { conditions, useCases, dailyGoals, sleepGoals } = rule.when;
+  return Boolean(
+    conditions?.some(condition => customer.conditions?.includes(condition)) ||
+    useCases?.includes(useCase) ||
+    dailyGoals?.some(goal => customer['daily-goals']?.includes(goal)) ||
+    sleepGoals?.some(goal => customer['sleep-goals']?.includes(goal))
+  );
+}
+
+function buildSelection(
+  electrolyte: Electrolyte,
+  form: ElectrolyteForm,
+  source: ElectrolyteFormSource,
+  reason: string,
+  ruleId?: string
+): ElectrolyteFormSelection {
+  return {
+    electrolyte,
+    form,
+    source,
+    ...(ruleId && { ruleId }),
+    reason,
+    elementalFraction: ELECTROLYTE_FORM_CATALOG[form].elementalFraction,
+  };
+}
+
+/**
+ * Whether a catalog form supplies the given electrolyte
+ */
+export function isFormFor(electrolyte: Electrolyte, form: unknown): form is ElectrolyteForm {
+  return typeof form === 'string' &&
+    Object.prototype.hasOwnProperty.call(ELECTROLYTE_FORM_CATALOG, form) &&
+    ELECTROLYTE_FORM_CATALOG[form as ElectrolyteForm].electrolyte === electrolyte;
+}
+
+/**
+ * Choose a form for every electrolyte, in ELECTROLYTE_TYPES order
+ */
+export function selectElectrolyteForms(
+  customer: Partial<CustomerData>,
+  useCase: UseCase,
+  constants: Readonly<FormulaConstants>
+): ElectrolyteFormSelection[] {
+  const matching = constants.ELECTROLYTE_FORM_RULES.filter(rule => ruleMatches(rule, customer, useCase));
+
+  return ELECTROLYTE_TYPES.map(electrolyte => {
+    const rules = matching.filter(rule => rule.electrolyte === electrolyte);
+    const preferred = customer['preferred-forms']?.[electrolyte];
+    const conditionRule = rules.find(rule => rule.source === 'condition');
+
+    if (conditionRule) {
+      const overridden = preferred && preferred !== conditionRule.form ? ` (preferred ${preferred} not used)` : '';
+      return buildSelection(electrolyte, conditionRule.form, 'condition', `${conditionRule.reason}${overridden}`, conditionRule.id);
+    }
+    if (isFormFor(electrolyte, preferred)) {
+      return buildSelection(electrolyte, preferred, 'preference', 'Customer preference');
+    }
+
+    const rule = rules.find(candidate => candidate.source === 'use-case') || rules.find(candidate => candidate.source === 'goal');
+    if (rule) {
+      return buildSelection(electrolyte, rule.form, rule.source, rule.reason, rule.id);
+    }
+    return buildSelection(electrolyte, constants.DEFAULT_ELECTROLYTE_FORMS[electrolyte], 'default', 'Default form');
+  });
+}
+
+/**
+ * electrolyteForms map for CalculationMetadata from a selection
+ */
+export function toElectrolyteForms(selections: ElectrolyteFormSelection[]): ElectrolyteForms {
+  return selections.reduce((forms, selection) => {
+    forms[selection.electrolyte] = selection.form;
+    return forms;
+  }, {} as ElectrolyteForms);
+}
+
+/**
+ * Compound mg that supplies the given elemental mg
+ */
+export function toCompoundMg(elementalMg: number, form: ElectrolyteForm): number {
+  return Math.round(elementalMg / ELECTROLYTE_FORM_CATALOG[form].elementalFraction);
+}
+
+/**
+ * Elemental mg supplied by the given compound mg
+ */
+export function toElementalMg(compoundMg: number, form: ElectrolyteForm): number {
+  return Math.round(compoundMg * ELECTROLYTE_FORM_CATALOG[form].elementalFraction);
+}
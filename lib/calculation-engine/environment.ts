@@ -0,0 +1,63 @@
+/**
+ * Training Environment Adjustments
+ *
+ * Turns the optional temperature, humidity, altitude and indoor/outdoor
+ * answers into fluid and sodium multipliers. Used by the sweat-loss estimate
+ * (fluid) and by the engine's sodium requirement.
+ */
+
+import type { CustomerData, EnvironmentAdjustment, EnvironmentFactor, FormulaConstants } from '@/types';
+
+type EnvironmentInput = EnvironmentFactor['factor'];
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+function buildFactor(
+  factor: EnvironmentInput,
+  value: number,
+  constants: Readonly<FormulaConstants>,
+  ignored?: string
+): EnvironmentFactor {
+  if (ignored) {
+    return { factor, value, fluidMultiplier: 1, sodiumMultiplier: 1, note: ignored };
+  }
+
+  const bands = constants.ENVIRONMENT_ADJUSTMENTS[factor];
+  const band = bands.find(entry => value >= entry.atOrAbove) || bands[bands.length - 1];
+  return { factor, value, fluidMultiplier: band.fluid, sodiumMultiplier: band.sodium };
+}
+
+/**
+ * Environment adjustment for the reported inputs, or null when none were answered
+ * Indoor training is climate controlled, so only altitude applies
+ */
+export function calculateEnvironmentAdjustment(
+  data: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): EnvironmentAdjustment | null {
+  const indoorOnly = data['training-environment'] === 'indoor';
+  const climateIgnored = indoorOnly ? 'Indoor training - climate controlled' : undefined;
+  const factors: EnvironmentFactor[] = [];
+
+  if (data['training-temperature'] !== undefined) {
+    factors.push(buildFactor('temperature', data['training-temperature'], constants, climateIgnored));
+  }
+  if (data['training-humidity'] !== undefined) {
+    factors.push(buildFactor('humidity', data['training-humidity'], constants, climateIgnored));
+  }
+  if (data.altitude !== undefined) {
+    factors.push(buildFactor('altitude', data.altitude, constants));
+  }
+
+  if (factors.length === 0) {
+    return null;
+  }
+
+  return {
+    factors,
+    fluidMultiplier: round(factors.reduce((product, factor) => product * factor.fluidMultiplier, 1)),
+    sodiumMultiplier: round(factors.reduce((product, factor) => product * factor.sodiumMultiplier, 1)),
+  };
+}
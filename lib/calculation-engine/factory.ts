@@ -1,38 +1,101 @@
 /**
  * Calculation Engine Factory
- * 
+ *
  * Simple factory to switch between real and mock implementations
  * based on environment configuration
  */
 
-import type { CustomerData, FormulationResult } from '@/types';
+import type {
+  CustomerData,
+  FormulationResult,
+  CalculationOptions,
+  FormulaVersionDefinition,
+  CalculationEngineKind,
+} from '@/types';
+import { getStableFormulaVersion, resolveFormulaVersion } from './versions';
 
 // Interface for calculation engine (matches Reference-Docs/reference spec)
 export interface CalculationEngine {
-  calculate(surveyData: CustomerData): Promise<FormulationResult>;
+  calculate(surveyData: CustomerData, options?: CalculationOptions): Promise<FormulationResult>;
 }
 
 /**
- * Create appropriate calculation engine based on environment
- * 
- * Uses mock engine in development/test environments
- * Will use real engine in production when implemented
+ * Candidate engine run next to the active one in shadow mode
+ */
+export interface ShadowEngine {
+  engine: CalculationEngine;
+  label: string; // e.g. "core@1.5"
+}
+
+const ENGINE_KINDS: CalculationEngineKind[] = ['core', 'mock'];
+
+/**
+ * Engine implementation for the current environment
+ * Mock in development/test, V1 framework engine in production
  */
-export function createCalculationEngine(): CalculationEngine {
+export function getActiveEngineKind(): CalculationEngineKind {
   const isDevelopment = process.env.NODE_ENV === 'development';
   const isTest = process.env.NODE_ENV === 'test';
-  
-  // Use mock engine for development and testing
-  if (isDevelopment || isTest) {
+  return isDevelopment || isTest ? 'mock' : 'core';
+}
+
+/**
+ * Label identifying an engine implementation and formula version, e.g. "mock@1.4"
+ */
+export function getEngineLabel(kind: CalculationEngineKind, formula: FormulaVersionDefinition): string {
+  return `${kind}@${formula.version}`;
+}
+
+/**
+ * Create a specific engine implementation bound to a formula version
+ */
+export function createEngineOfKind(
+  kind: CalculationEngineKind,
+  formula: FormulaVersionDefinition = getStableFormulaVersion()
+): CalculationEngine {
+  if (kind === 'mock') {
     const { MockPersonalPotionsEngine } = require('./mock/PersonalPotionsEngine');
-    return new MockPersonalPotionsEngine();
+    return new MockPersonalPotionsEngine(formula);
   }
-  
-  // TODO: Use real engine in production when implemented
-  // const { PersonalPotionsEngine } = require('./core/PersonalPotionsEngine');
-  // return new PersonalPotionsEngine();
-  
-  // Fallback to mock for now (remove when real engine is implemented)
-  const { MockPersonalPotionsEngine } = require('./mock/PersonalPotionsEngine');
-  return new MockPersonalPotionsEngine();
-} 
\ No newline at end of file
+
+  const { PersonalPotionsEngine } = require('./core/PersonalPotionsEngine');
+  return new PersonalPotionsEngine(formula);
+}
+
+/**
+ * Create appropriate calculation engine based on environment
+ *
+ * Uses mock engine in development/test environments
+ * Uses the V1 framework engine in production
+ * Both are bound to the given formula version (current stable by default)
+ */
+export function createCalculationEngine(
+  formula: FormulaVersionDefinition = getStableFormulaVersion()
+): CalculationEngine {
+  return createEngineOfKind(getActiveEngineKind(), formula);
+}
+
+/**
+ * Create the shadow-mode candidate engine, or null when shadow mode is off
+ *
+ * Enabled by FORMULA_SHADOW_ENGINE ('core' | 'mock', defaults to 'core')
+ * and/or FORMULA_SHADOW_VERSION (defaults to current stable)
+ */
+export function createShadowEngine(): ShadowEngine | null {
+  const requestedKind = process.env.FORMULA_SHADOW_ENGINE;
+  const requestedVersion = process.env.FORMULA_SHADOW_VERSION;
+  if (!requestedKind && !requestedVersion) {
+    return null;
+  }
+
+  const kind = (requestedKind || 'core') as CalculationEngineKind;
+  const formulaVersion = resolveFormulaVersion(requestedVersion);
+  if (!ENGINE_KINDS.includes(kind) || !formulaVersion.success) {
+    return null;
+  }
+
+  return {
+    engine: createEngineOfKind(kind, formulaVersion.definition),
+    label: getEngineLabel(kind, formulaVersion.definition!),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Flavor Matching
+ *
+ * Resolves the customer's flavor answers and checks whether the chosen flavor,
+ * at the chosen sweetness, masks the magnesium and potassium bitterness of the
+ * calculated per-serving doses. Suggests flavors that do when it cannot.
+ */
+
+import type {
+  BitterElectrolyte,
+  BitternessCheck,
+  ElectrolyteAmounts,
+  FlavorFamily,
+  FlavorMatch,
+  FlavorProfile,
+  SweetnessIntensity,
+} from '@/types';
+import { DEFAULT_FLAVOR_PROFILE, FLAVOR_CATALOG, SWEETNESS_MASKING_MULTIPLIERS } from '@/types';
+
+const BITTER_ELECTROLYTES: BitterElectrolyte[] = ['magnesium', 'potassium'];
+
+/**
+ * Flavor profile with defaults filled in; unsweetened means no sweetener and no sweetness
+ */
+export function resolveFlavorProfile(answers: Partial<FlavorProfile> = {}): FlavorProfile {
+  const profile = { ...DEFAULT_FLAVOR_PROFILE, ...answers };
+
+  if (profile.sweetener === 'none' || profile.sweetness === 'none') {
+    return { ...profile, sweetener: 'none', sweetness: 'none' };
+  }
+  return profile;
+}
+
+function checkBitterness(
+  family: FlavorFamily,
+  sweetness: SweetnessIntensity,
+  amounts: ElectrolyteAmounts
+): BitternessCheck[] {
+  return BITTER_ELECTROLYTES.map(electrolyte => {
+    const maskableMg = Math.round(FLAVOR_CATALOG[family].maskingCapacityMg[electrolyte] * SWEETNESS_MASKING_MULTIPLIERS[sweetness]);
+    return {
+      electrolyte,
+      mgPerServing: amounts[electrolyte],
+      maskableMg,
+      masked: amounts[electrolyte] <= maskableMg,
+    };
+  });
+}
+
+/**
+ * Match the customer's flavor to the calculated per-serving amounts
+ */
+export function matchFlavor(answers: Partial<FlavorProfile> | undefined, amounts: ElectrolyteAmounts): FlavorMatch {
+  const profile = resolveFlavorProfile(answers);
+  const bitterness = checkBitterness(profile.family, profile.sweetness, amounts);
+  const masked = bitterness.every(check => check.masked);
+
+  const alternatives = (Object.keys(FLAVOR_CATALOG) as FlavorFamily[]).filter(family =>
+    family !== profile.family && checkBitterness(family, profile.sweetness, amounts).every(check => check.masked)
+  );
+
+  if (masked) {
+    return { profile, masked, bitterness, alternatives };
+  }
+
+  const unmasked = bitterness
+    .filter(check => !check.masked)
+    .map(check => `${check.mgPerServing} mg ${check.electrolyte}`)
+    .join(' and ');
+  const suggestion = alternatives.length > 0
+    ? `; ${alternatives.map(family => FLAVOR_CATALOG[family].label).join(', ')} would`
+    : '';
+
+  return {
+    profile,
+    masked,
+    bitterness,
+    alternatives,
+    note: `${FLAVOR_CATALOG[profile.family].label} at ${profile.sweetness} sweetness may not fully mask ${unmasked} per serving${suggestion}`,
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Formulation Kit Builder
+ *
+ * Builds a multi-use-case kit for customers who qualify for several use cases
+ * (e.g. sleep issues plus heavy daily sweat). Each component is calculated by
+ * the engine for its own use case and gets its dosing schedule. When the
+ * combined daily total exceeds the kit ceiling, every component is calculated
+ * again with the amounts above its safety minimums reduced proportionally, so
+ * safety limits, contraindication screening, dosing schedules and flavor all
+ * reflect the scaled amounts.
+ */
+
+import type {
+  CustomerData,
+  ElectrolyteAmounts,
+  FormulaConstants,
+  UseCase,
+  FormulationKit,
+  KitComponent,
+  KitSafetyAdjustment,
+  SafetyLimits,
+} from '@/types';
+import { ELECTROLYTE_TYPES } from '@/types';
+import type { CalculationEngine } from './factory';
+import { detectUseCase } from './use-case-detector';
+import { getSafetyLimits } from './safety-limits';
+import { getServingLimits } from './product-formats';
+import { buildDosingSchedule } from './dosing-schedule';
+import { createSafetyLimitViolation } from './safety-enforcement';
+
+function calculateDailyTotal(perServing: ElectrolyteAmounts, servingsPerDay: number): ElectrolyteAmounts {
+  return {
+    sodium: perServing.sodium * servingsPerDay,
+    potassium: perServing.potassium * servingsPerDay,
+    magnesium: perServing.magnesium * servingsPerDay,
+    calcium: perServing.calcium * servingsPerDay,
+  };
+}
+
+function sumDailyTotals(components: KitComponent[]): ElectrolyteAmounts {
+  return components.reduce((total, component) => ({
+    sodium: total.sodium + component.dailyTotal.sodium,
+    potassium: total.potassium + component.dailyTotal.potassium,
+    magnesium: total.magnesium + component.dailyTotal.magnesium,
+    calcium: total.calcium + component.dailyTotal.calcium,
+  }), { sodium: 0, potassium: 0, magnesium: 0, calcium: 0 });
+}
+
+/**
+ * A component's daily minimum and maximum: its per-serving safety limits × the servings per day it was calculated with
+ */
+function getComponentDailyLimits(
+  component: KitComponent,
+  customerData: CustomerData,
+  constants: Readonly<FormulaConstants>
+): SafetyLimits {
+  const servingLimits = getServingLimits(getSafetyLimits(component.useCase, customerData, constants), component.formulation.productFormat);
+  const servingsPerDay = component.formulation.metadata.recommendedServingsPerDay;
+  const dailyLimits = { ...servingLimits };
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    const { min, max } = servingLimits[electrolyte];
+    dailyLimits[electrolyte] = { min: min * servingsPerDay, max: max * servingsPerDay };
+  });
+  return dailyLimits;
+}
+
+/**
+ * Combined daily ceiling for a kit: the most any one of its components may deliver in a day
+ */
+export function getKitDailyLimits(
+  components: KitComponent[],
+  customerData: CustomerData,
+  constants: Readonly<FormulaConstants>
+): ElectrolyteAmounts {
+  const limits: ElectrolyteAmounts = { sodium: 0, potassium: 0, magnesium: 0, calcium: 0 };
+
+  components.forEach(component => {
+    const dailyLimits = getComponentDailyLimits(component, customerData, constants);
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      limits[electrolyte] = Math.max(limits[electrolyte], dailyLimits[electrolyte].max);
+    });
+  });
+  return limits;
+}
+
+/**
+ * Amount each component keeps when its electrolytes are reduced: its daily safety minimum,
+ * or its whole daily total when that is already lower
+ */
+function getDailyFloors(
+  components: KitComponent[],
+  customerData: CustomerData,
+  constants: Readonly<FormulaConstants>
+): ElectrolyteAmounts[] {
+  return components.map(component => {
+    const dailyLimits = getComponentDailyLimits(component, customerData, constants);
+    const floor = { ...component.dailyTotal };
+    ELECTROLYTE_TYPES.forEach(electrolyte => {
+      floor[electrolyte] = Math.min(dailyLimits[electrolyte].min, component.dailyTotal[electrolyte]);
+    });
+    return floor;
+  });
+}
+
+/**
+ * Reduction of the amounts above the components' daily floors for every electrolyte whose
+ * combined daily total exceeds the ceiling
+ */
+function findCombinedAdjustments(
+  components: KitComponent[],
+  floors: ElectrolyteAmounts[],
+  limits: ElectrolyteAmounts
+): KitSafetyAdjustment[] {
+  const combined = sumDailyTotals(components);
+
+  return ELECTROLYTE_TYPES.flatMap(electrolyte => {
+    const limit = limits[electrolyte];
+    if (combined[electrolyte] <= limit) return [];
+    const floor = floors.reduce((sum, amounts) => sum + amounts[electrolyte], 0);
+    const scaleFactor = Math.max(0, (limit - floor) / (combined[electrolyte] - floor));
+    return [{ electrolyte, combinedTotal: combined[electrolyte], limit, scaleFactor: Math.floor(scaleFactor * 10000) / 10000 }];
+  });
+}
+
+/**
+ * A component's share of the combined ceiling, floored to whole mg per serving so the
+ * rounded shares never add up above it
+ */
+function getDailyCaps(component: KitComponent, floor: ElectrolyteAmounts, adjustments: KitSafetyAdjustment[]): Partial<ElectrolyteAmounts> {
+  const servingsPerDay = component.formulation.metadata.recommendedServingsPerDay;
+  return Object.fromEntries(adjustments.map(({ electrolyte, scaleFactor }) => {
+    const share = floor[electrolyte] + (component.dailyTotal[electrolyte] - floor[electrolyte]) * scaleFactor;
+    return [electrolyte, Math.floor(share / servingsPerDay) * servingsPerDay];
+  }));
+}
+
+/**
+ * Calculate one component per use case, each through the full engine pipeline
+ */
+async function calculateComponents(
+  engine: CalculationEngine,
+  customerData: CustomerData,
+  kitUseCases: { useCase: UseCase; reason: string }[],
+  constants: Readonly<FormulaConstants>,
+  dailyCaps: Partial<ElectrolyteAmounts>[] = []
+): Promise<KitComponent[]> {
+  return Promise.all(
+    kitUseCases.map(async ({ useCase, reason }, index) => {
+      const maxDailyAmounts = dailyCaps[index];
+      const calculated = await engine.calculate(customerData, { useCase, maxDailyAmounts });
+      const servingsPerDay = calculated.metadata.recommendedServingsPerDay;
+      const formulation = maxDailyAmounts
+        ? {
+          ...calculated,
+          metadata: {
+            ...calculated.metadata,
+            notes: {
+              ...calculated.metadata.notes,
+              additional: [
+                ...calculated.metadata.notes.additional,
+                ...Object.keys(maxDailyAmounts).map(electrolyte => `${electrolyte} reduced to keep the kit's combined daily total within its limit`),
+              ],
+            },
+          },
+        }
+        : calculated;
+
+      return {
+        role: index === 0 ? 'primary' as const : 'component' as const,
+        useCase,
+        reason,
+        formulation,
+        schedule: buildDosingSchedule(customerData, formulation, constants),
+        dailyTotal: calculateDailyTotal(formulation.formulationPerServing, servingsPerDay),
+      };
+    })
+  );
+}
+
+/**
+ * Use cases included in a kit: every matched use case, or the default alone
+ */
+export function getKitUseCases(
+  customerData: CustomerData,
+  constants: Readonly<FormulaConstants>
+): { useCase: UseCase; reason: string }[] {
+  const { candidates } = detectUseCase(customerData, constants);
+  const matched = candidates.filter(candidate => candidate.rule !== 'default');
+  const included = matched.length > 0 ? matched : candidates;
+
+  return included.filter((candidate, index) =>
+    included.findIndex(other => other.useCase === candidate.useCase) === index
+  );
+}
+
+/**
+ * Build a kit with one formulation per qualifying use case
+ * Kits whose combined total still exceeds the ceiling at the per-serving safety minimums are refused
+ */
+export async function buildFormulationKit(
+  engine: CalculationEngine,
+  customerData: CustomerData,
+  constants: Readonly<FormulaConstants>
+): Promise<FormulationKit> {
+  const kitUseCases = getKitUseCases(customerData, constants);
+
+  const calculated = await calculateComponents(engine, customerData, kitUseCases, constants);
+  const combinedDailyLimits = getKitDailyLimits(calculated, customerData, constants);
+  const floors = getDailyFloors(calculated, customerData, constants);
+  const safetyAdjustments = findCombinedAdjustments(calculated, floors, combinedDailyLimits);
+  const components = safetyAdjustments.length === 0
+    ? calculated
+    : await calculateComponents(
+      engine,
+      customerData,
+      kitUseCases,
+      constants,
+      calculated.map((component, index) => getDailyCaps(component, floors[index], safetyAdjustments))
+    );
+
+  const combinedDailyTotal = sumDailyTotals(components);
+  const exceeded = ELECTROLYTE_TYPES.filter(electrolyte => combinedDailyTotal[electrolyte] > combinedDailyLimits[electrolyte]);
+  if (exceeded.length > 0) {
+    throw createSafetyLimitViolation(
+      'Kit refused: combined daily total exceeds the kit limit at the per-serving safety minimums',
+      exceeded.map(electrolyte => `${electrolyte} combined total of ${combinedDailyTotal[electrolyte]} mg/day exceeds ${combinedDailyLimits[electrolyte]} mg/day`)
+    );
+  }
+
+  return {
+    primaryUseCase: components[0].useCase,
+    components,
+    combinedDailyTotal,
+    combinedDailyLimits,
+    safetyAdjustments,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Pregnancy & Lactation
+ *
+ * Maternal status from the survey, the pregnancy/lactation DRI keys used for
+ * magnesium and calcium; the stricter MATERNAL_SAFETY_LIMITS are applied in
+ * safety-limits.ts
+ */
+
+import type { CustomerData, MaternalStatus } from '@/types';
+import type { MATERNAL_MAGNESIUM_RDA, MATERNAL_CALCIUM_RDA } from '@/types';
+
+/**
+ * Pregnant or breastfeeding female customer, pregnancy first; null otherwise
+ */
+export function getMaternalStatus(customer: Partial<CustomerData>): MaternalStatus | null {
+  if (customer['biological-sex'] !== 'female') return null;
+  if (customer['pregnancy-trimester']) return 'pregnant';
+  if (customer.lactating === true) return 'lactating';
+  return null;
+}
+
+/**
+ * Recommendation attached to every pregnancy or lactation formulation
+ */
+export function getProviderRecommendation(customer: Partial<CustomerData>): string | null {
+  const status = getMaternalStatus(customer);
+  if (!status) return null;
+
+  const situation = status === 'pregnant'
+    ? `Pregnant (${customer['pregnancy-trimester']} trimester)`
+    : 'Breastfeeding';
+  return `${situation}: consult your healthcare provider before using this formulation`;
+}
+
+/**
+ * Maternal magnesium RDA key by status and age
+ */
+export function getMaternalMagnesiumRdaKey(status: MaternalStatus, age: number): keyof typeof MATERNAL_MAGNESIUM_RDA {
+  const prefix = status === 'pregnant' ? 'PREGNANT' : 'LACTATING';
+  if (age < 19) return `${prefix}_UNDER_19`;
+  return age <= 30 ? `${prefix}_19_TO_30` : `${prefix}_OVER_30`;
+}
+
+/**
+ * Maternal calcium RDA key by age
+ */
+export function getMaternalCalciumRdaKey(age: number): keyof typeof MATERNAL_CALCIUM_RDA {
+  return age < 19 ? 'UNDER_19' : 'AGE_19_AND_OVER';
+}
@@ -6,12 +6,27 @@
  * Used only in development/test environments - never in production
  */
 
-import type { CustomerData, FormulationResult, ElectrolyteAmounts, UseCase } from '@/types';
+import type {
+  CustomerData,
+  FormulationResult,
+  ElectrolyteAmounts,
+  UseCase,
+  CalculationOptions,
+  FormulaVersionDefinition,
+} from '@/types';
 import { convertAllIntakesToMg } from '@/types';
+import { getStableFormulaVersion } from '../versions';
+import { detectUseCase } from '../use-case-detector';
+import { estimateSweatLoss, getMeasuredSweat } from '../sweat-loss';
+import { calculateEnvironmentAdjustment } from '../environment';
+import { SafetyEnforcedEngine } from '../safety-enforcement';
+import { getProductFormat, calculateFormatServings, fitSoluteLoad, getServingLimits } from '../product-formats';
+import { getSafetyLimits } from '../safety-limits';
+import { isMinor } from '../youth';
+import { selectElectrolyteForms, toElectrolyteForms } from '../electrolyte-forms';
 
 // Constants to avoid magic numbers
 const AGE_THRESHOLDS = {
-  YOUTH: 18,
   SENIOR: 65,
 } as const;
 
@@ -39,73 +54,69 @@ const BASE_FORMULATIONS = {
   bedtime: { sodium: 50, potassium: 300, magnesium: 200, calcium: 400 },
 } as const;
 
-export class MockPersonalPotionsEngine {
+export class MockPersonalPotionsEngine extends SafetyEnforcedEngine {
+  
+  constructor(formula: FormulaVersionDefinition = getStableFormulaVersion()) {
+    super(formula);
+  }
   
   /**
    * Calculate personalized formulation with intelligent mock logic
    * Responds to actual survey inputs for realistic development experience
    */
-  async calculate(surveyData: CustomerData): Promise<FormulationResult> {
+  protected async calculateFormulation(surveyData: CustomerData, options: CalculationOptions): Promise<FormulationResult> {
     const convertedIntakes = convertAllIntakesToMg(surveyData);
-    const useCase = this.determineUseCase(surveyData);
+    const { useCase: detectedUseCase, candidates } = detectUseCase(surveyData, this.formula.constants);
+    const useCase = options.useCase || detectedUseCase;
     const baseFormulation = this.generateBaseFormulation(useCase, surveyData);
     
+    // Base formulations are per 16 oz serving; keep the daily total when resizing for the format
+    const format = getProductFormat(surveyData, this.formula.constants);
+    const referenceServings = this.calculateServingsPerDay(useCase, surveyData);
+    const dailyAmounts = this.capAmounts(this.scaleAmounts(baseFormulation, referenceServings), options.maxDailyAmounts);
+    const limits = getSafetyLimits(useCase, surveyData, this.formula.constants);
+    const productFormat = calculateFormatServings(format, referenceServings, dailyAmounts, limits, this.formula.constants);
+    const formSelections = selectElectrolyteForms(surveyData, useCase, this.formula.constants);
+    
     return {
-      formulationPerServing: baseFormulation,
+      formulationPerServing: fitSoluteLoad(
+        this.scaleAmounts(dailyAmounts, 1 / productFormat.servingsPerDay),
+        format.maxSoluteLoadMg,
+        getServingLimits(limits, productFormat)
+      ),
       useCase,
+      productFormat,
       metadata: {
-        formulaVersion: '1.4-mock',
-        servingSize: '16 fl oz (473ml)',
-        recommendedServingsPerDay: this.calculateServingsPerDay(useCase, surveyData),
+        formulaVersion: `${this.formula.version}-mock`,
+        servingSize: format.servingSize,
+        recommendedServingsPerDay: productFormat.servingsPerDay,
         optimalIntake: convertedIntakes,
         currentIntake: convertedIntakes,
         deficits: this.calculateMockDeficits(convertedIntakes),
-        electrolyteForms: {
-          sodium: 'sodium-chloride',
-          potassium: 'potassium-citrate',
-          magnesium: 'magnesium-glycinate',
-          calcium: 'calcium-citrate',
-        },
+        electrolyteForms: toElectrolyteForms(formSelections),
+        formSelections,
         notes: {
           primary: `Mock calculation for ${useCase} use case`,
           additional: [
             `Based on age: ${surveyData.age}`,
             `Activity level: ${surveyData['activity-level']}`,
-            `Mock engine - replace with real calculation in production`
+            `Mock engine - replace with real calculation in production`,
+            ...(productFormat.note ? [productFormat.note] : []),
           ],
         },
         recommendations: this.generateRecommendations(useCase, surveyData),
         calculationTimestamp: new Date(),
         customerAge: surveyData.age,
         customerWeight: surveyData.weight,
-        detectedUseCase: useCase,
+        detectedUseCase,
+        useCaseCandidates: candidates,
+        sweatLoss: estimateSweatLoss(surveyData, this.formula.constants),
+        measuredSweat: getMeasuredSweat(surveyData, this.formula.constants),
+        environment: calculateEnvironmentAdjustment(surveyData, this.formula.constants) || undefined,
       },
     };
   }
 
-  /**
-   * Determine primary use case based on survey data
-   * Uses optional chaining for null safety
-   */
-  private determineUseCase(surveyData: CustomerData): UseCase {
-    // Follow the priority from Reference-Docs/reference
-    if (surveyData['sleep-issues']?.length > 0) {
-      return 'bedtime';
-    }
-    if (surveyData['menstrual-symptoms']?.length > 0) {
-      return 'menstrual';
-    }
-    if (surveyData['sweat-level'] === 'heavy' && surveyData['workout-frequency'] === 'daily') {
-      return 'sweat';
-    }
-    if (surveyData['hangover-symptoms']?.length > 0) {
-      return 'hangover';
-    }
-    // Ensure we return a valid UseCase type
-    const validUseCases: UseCase[] = ['daily', 'sweat', 'bedtime', 'menstrual', 'hangover'];
-    return validUseCases.includes(surveyData.usage as UseCase) ? (surveyData.usage as UseCase) : 'daily';
-  }
-
   /**
    * Generate base formulation based on use case and customer data
    * Uses constants to avoid magic numbers
@@ -114,7 +125,7 @@ export class MockPersonalPotionsEngine {
     const base = BASE_FORMULATIONS[useCase] || BASE_FORMULATIONS.daily;
     
     // Apply age-based adjustments using constants
-    const ageMultiplier = surveyData.age < AGE_THRESHOLDS.YOUTH 
+    const ageMultiplier = isMinor(surveyData.age) 
       ? MULTIPLIERS.YOUTH_AGE 
       : surveyData.age > AGE_THRESHOLDS.SENIOR 
         ? MULTIPLIERS.SENIOR_AGE 
@@ -124,11 +135,38 @@ export class MockPersonalPotionsEngine {
     const activityLevel = surveyData['activity-level'];
     const activityMultiplier = this.getActivityMultiplier(activityLevel);
 
+    // Growing minors need more calcium, not less: scale by the under-19 RDA instead
+    const { CALCIUM_RDA } = this.formula.constants;
+    const calciumMultiplier = isMinor(surveyData.age)
+      ? CALCIUM_RDA.UNDER_19 / CALCIUM_RDA.AGE_19_TO_50
+      : ageMultiplier;
+
     return {
       sodium: Math.round(base.sodium * ageMultiplier * activityMultiplier),
       potassium: Math.round(base.potassium * ageMultiplier * activityMultiplier),
       magnesium: Math.round(base.magnesium * ageMultiplier * activityMultiplier),
-      calcium: Math.round(base.calcium * ageMultiplier * activityMultiplier),
+      calcium: Math.round(base.calcium * calciumMultiplier * activityMultiplier),
+    };
+  }
+
+  private scaleAmounts(amounts: ElectrolyteAmounts, factor: number): ElectrolyteAmounts {
+    return {
+      sodium: Math.round(amounts.sodium * factor),
+      potassium: Math.round(amounts.potassium * factor),
+      magnesium: Math.round(amounts.magnesium * factor),
+      calcium: Math.round(amounts.calcium * factor),
+    };
+  }
+
+  /**
+   * Cap daily amounts at the caller's ceilings (kit components)
+   */
+  private capAmounts(amounts: ElectrolyteAmounts, maxDailyAmounts: Partial<ElectrolyteAmounts> = {}): ElectrolyteAmounts {
+    return {
+      sodium: Math.min(amounts.sodium, maxDailyAmounts.sodium ?? Infinity),
+      potassium: Math.min(amounts.potassium, maxDailyAmounts.potassium ?? Infinity),
+      magnesium: Math.min(amounts.magnesium, maxDailyAmounts.magnesium ?? Infinity),
+      calcium: Math.min(amounts.calcium, maxDailyAmounts.calcium ?? Infinity),
     };
   }
 
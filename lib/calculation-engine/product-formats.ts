@@ -0,0 +1,127 @@
+/**
+ * Product Formats
+ *
+ * Sizes a formulation for the container it is produced in: servings per day
+ * are rescaled from the 16 oz reference serving by serving volume, then more
+ * servings are added until one serving fits the format's solute load, and
+ * amounts are reduced toward the safety minimums if it still does not fit.
+ * Every format's servings split the daily range the limits allow for the
+ * reference bottle's servings, so the daily total never grows with the count.
+ */
+
+import type {
+  CustomerData,
+  ElectrolyteAmounts,
+  FormulaConstants,
+  ProductFormat,
+  ProductFormatSelection,
+  SafetyLimits,
+} from '@/types';
+import { ELECTROLYTE_TYPES } from '@/types';
+
+/**
+ * Format chosen in the survey, falling back to the 16 oz bottle
+ * Versions without ENGINE_STAGES.PRODUCT_FORMATS always use the bottle, whose servings match the reference
+ */
+export function getProductFormat(data: Partial<CustomerData>, constants: Readonly<FormulaConstants>): ProductFormat {
+  const { PRODUCT_FORMATS, DEFAULT_PRODUCT_FORMAT, ENGINE_STAGES } = constants;
+  const requested = ENGINE_STAGES.PRODUCT_FORMATS ? data['product-format'] : undefined;
+  return PRODUCT_FORMATS[requested || DEFAULT_PRODUCT_FORMAT] || PRODUCT_FORMATS[DEFAULT_PRODUCT_FORMAT];
+}
+
+/**
+ * Per-serving limits for a format's serving count
+ * Each serving carries baseServingsPerDay / servingsPerDay of the limits, so the daily minimum
+ * and maximum stay those of the reference bottle's serving count
+ */
+export function getServingLimits(
+  limits: SafetyLimits,
+  productFormat?: Pick<ProductFormatSelection, 'servingsPerDay' | 'baseServingsPerDay'>
+): SafetyLimits {
+  const split = productFormat?.baseServingsPerDay
+    ? productFormat.baseServingsPerDay / productFormat.servingsPerDay
+    : 1;
+  if (split >= 1) return limits;
+
+  const scaled = { ...limits };
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    const { min, max } = limits[electrolyte];
+    scaled[electrolyte] = { min: Math.ceil(min * split), max: Math.floor(max * split) };
+  });
+  return scaled;
+}
+
+/**
+ * Total mg in one serving once the daily amounts are split and clamped to the serving limits
+ */
+function servingSoluteLoad(
+  dailyAmounts: ElectrolyteAmounts,
+  servingsPerDay: number,
+  baseServingsPerDay: number,
+  limits: SafetyLimits
+): number {
+  const servingLimits = getServingLimits(limits, { servingsPerDay, baseServingsPerDay });
+  return ELECTROLYTE_TYPES.reduce((total, electrolyte) => {
+    const { min, max } = servingLimits[electrolyte];
+    return total + Math.min(Math.max(dailyAmounts[electrolyte] / servingsPerDay, min), max);
+  }, 0);
+}
+
+/**
+ * Servings per day of a format for the amounts needed each day
+ * referenceServingsPerDay is the use case serving count for the 16 oz reference bottle
+ */
+export function calculateFormatServings(
+  format: ProductFormat,
+  referenceServingsPerDay: number,
+  dailyAmounts: ElectrolyteAmounts,
+  limits: SafetyLimits,
+  constants: Readonly<FormulaConstants>
+): ProductFormatSelection {
+  const { REFERENCE_SERVING_VOLUME_ML, MAX_SERVINGS_PER_DAY } = constants;
+  const servingVolumeMl = format.volumeMl / format.servingsPerContainer;
+  const volumeServings = Math.max(1, Math.round(referenceServingsPerDay * REFERENCE_SERVING_VOLUME_ML / servingVolumeMl));
+
+  let servingsPerDay = volumeServings;
+  while (
+    servingsPerDay < MAX_SERVINGS_PER_DAY &&
+    servingSoluteLoad(dailyAmounts, servingsPerDay, referenceServingsPerDay, limits) > format.maxSoluteLoadMg
+  ) {
+    servingsPerDay++;
+  }
+
+  return {
+    id: format.id,
+    label: format.label,
+    servingVolumeMl: Math.round(servingVolumeMl),
+    servingsPerContainer: format.servingsPerContainer,
+    maxSoluteLoadMg: format.maxSoluteLoadMg,
+    servingsPerDay,
+    baseServingsPerDay: referenceServingsPerDay,
+    ...(servingsPerDay > volumeServings && {
+      note: `Split into ${servingsPerDay} servings per day to stay within the ${format.maxSoluteLoadMg} mg solute load of a ${format.label}`,
+    }),
+  };
+}
+
+/**
+ * Reduce the amounts above each serving minimum proportionally so one serving fits the solute load
+ * Only takes effect once MAX_SERVINGS_PER_DAY servings still cannot carry the daily amounts
+ */
+export function fitSoluteLoad(amounts: ElectrolyteAmounts, maxSoluteLoadMg: number, limits: SafetyLimits): ElectrolyteAmounts {
+  const total = ELECTROLYTE_TYPES.reduce((sum, electrolyte) => sum + amounts[electrolyte], 0);
+  if (total <= maxSoluteLoadMg) {
+    return amounts;
+  }
+
+  const minimums = ELECTROLYTE_TYPES.reduce((sum, electrolyte) => sum + Math.min(limits[electrolyte].min, amounts[electrolyte]), 0);
+  const scale = Math.max(0, (maxSoluteLoadMg - minimums) / (total - minimums));
+  const fitted = { ...amounts };
+
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    const floor = Math.min(limits[electrolyte].min, amounts[electrolyte]);
+    fitted[electrolyte] = Math.floor(floor + (amounts[electrolyte] - floor) * scale);
+  });
+
+  return fitted;
+}
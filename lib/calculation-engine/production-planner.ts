@@ -0,0 +1,157 @@
+/**
+ * Production Planner
+ *
+ * Groups saved formulations into daily production batches (by the day they
+ * were saved), splits each batch into machine-sized runs per product format
+ * and sums the raw compound grams for every run, batch and the whole plan
+ */
+
+import type {
+  CompoundRequirement,
+  ElectrolyteForm,
+  ProductionAssignment,
+  ProductionBatch,
+  ProductionOrder,
+  ProductionPlan,
+  ProductionPlanOptions,
+  ProductionRun,
+  ProductFormatId,
+} from '@/types';
+import { ELECTROLYTE_FORM_CATALOG, PRODUCT_FORMATS, PRODUCTION_DEFAULTS } from '@/types';
+
+const roundGrams = (grams: number) => Number(grams.toFixed(2));
+
+/**
+ * Containers needed to supply a formulation for the given number of days
+ */
+export function containersForOrder(order: ProductionOrder, supplyDays: number): number {
+  return Math.max(1, Math.ceil(order.servingsPerDay * supplyDays / order.recipe.servingsPerContainer));
+}
+
+/**
+ * Compound grams across orders, in form catalog order
+ */
+function sumCompounds(orders: ProductionOrder[], containers: Map<string, number>): CompoundRequirement[] {
+  const grams = new Map<ElectrolyteForm, number>();
+
+  orders.forEach(order => {
+    order.recipe.ingredients.forEach(ingredient => {
+      const total = ingredient.gramsPerContainer * containers.get(order.formulationId)!;
+      grams.set(ingredient.form, (grams.get(ingredient.form) || 0) + total);
+    });
+  });
+
+  return (Object.keys(ELECTROLYTE_FORM_CATALOG) as ElectrolyteForm[])
+    .filter(form => grams.has(form))
+    .map(form => ({
+      electrolyte: ELECTROLYTE_FORM_CATALOG[form].electrolyte,
+      form,
+      compound: ELECTROLYTE_FORM_CATALOG[form].compound,
+      grams: roundGrams(grams.get(form)!),
+    }));
+}
+
+/**
+ * Split one product format's orders into runs, in the order they were saved
+ */
+function splitIntoRuns(orders: ProductionOrder[], containers: Map<string, number>, maxContainersPerRun: number): ProductionOrder[][] {
+  const runs: ProductionOrder[][] = [];
+  let current: ProductionOrder[] = [];
+  let filled = 0;
+
+  orders.forEach(order => {
+    const count = containers.get(order.formulationId)!;
+    if (current.length > 0 && filled + count > maxContainersPerRun) {
+      runs.push(current);
+      current = [];
+      filled = 0;
+    }
+    current.push(order);
+    filled += count;
+  });
+
+  if (current.length > 0) {
+    runs.push(current);
+  }
+  return runs;
+}
+
+function buildBatch(
+  productionDate: string,
+  orders: ProductionOrder[],
+  containers: Map<string, number>,
+  maxContainersPerRun: number
+): ProductionBatch {
+  const runs: ProductionRun[] = [];
+
+  (Object.keys(PRODUCT_FORMATS) as ProductFormatId[]).forEach(productFormat => {
+    const formatOrders = orders.filter(order => order.recipe.productFormat === productFormat);
+
+    splitIntoRuns(formatOrders, containers, maxContainersPerRun).forEach(runOrders => {
+      const runNumber = runs.length + 1;
+      const runId = `${productionDate}-R${runNumber}`;
+      const assignments: ProductionAssignment[] = runOrders.map((order, index) => ({
+        formulationId: order.formulationId,
+        batchId: productionDate,
+        runId,
+        position: index + 1,
+        productFormat,
+        containers: containers.get(order.formulationId)!,
+      }));
+
+      runs.push({
+        runId,
+        runNumber,
+        productFormat,
+        containers: assignments.reduce((total, assignment) => total + assignment.containers, 0),
+        assignments,
+        compounds: sumCompounds(runOrders, containers),
+      });
+    });
+  });
+
+  return {
+    batchId: productionDate,
+    productionDate,
+    containers: runs.reduce((total, run) => total + run.containers, 0),
+    runs,
+    compounds: sumCompounds(orders, containers),
+  };
+}
+
+/**
+ * Production plan for the orders saved between from and to
+ */
+export function buildProductionPlan(
+  orders: ProductionOrder[],
+  range: { from: string; to: string },
+  options: ProductionPlanOptions = {}
+): ProductionPlan {
+  const maxContainersPerRun = options.maxContainersPerRun ?? PRODUCTION_DEFAULTS.MAX_CONTAINERS_PER_RUN;
+  const supplyDays = options.supplyDays ?? PRODUCTION_DEFAULTS.SUPPLY_DAYS;
+
+  const sorted = [...orders].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  const containers = new Map(sorted.map(order => [order.formulationId, containersForOrder(order, supplyDays)]));
+
+  const byDate = new Map<string, ProductionOrder[]>();
+  sorted.forEach(order => {
+    const productionDate = new Date(order.createdAt).toISOString().slice(0, 10);
+    byDate.set(productionDate, [...(byDate.get(productionDate) || []), order]);
+  });
+
+  const batches = [...byDate.entries()].map(([productionDate, batchOrders]) =>
+    buildBatch(productionDate, batchOrders, containers, maxContainersPerRun)
+  );
+
+  return {
+    from: range.from,
+    to: range.to,
+    maxContainersPerRun,
+    supplyDays,
+    totalFormulations: sorted.length,
+    totalContainers: batches.reduce((total, batch) => total + batch.containers, 0),
+    batches,
+    compounds: sumCompounds(sorted, containers),
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Compounding Recipe Sheet
+ *
+ * Converts a formulation's elemental mg per serving into grams of each raw
+ * compound (from metadata.electrolyteForms) per serving and per container,
+ * rounded to the production scale with a tolerance band, as JSON or CSV
+ */
+
+import type {
+  FormulationResult,
+  RecipeIngredient,
+  RecipeSheet,
+  RecipeSheetOptions,
+  RecipeToleranceBand,
+} from '@/types';
+import {
+  ELECTROLYTE_TYPES,
+  ELECTROLYTE_FORM_CATALOG,
+  PRODUCT_FORMATS,
+  DEFAULT_PRODUCT_FORMAT,
+  RECIPE_DEFAULTS,
+} from '@/types';
+
+const CSV_COLUMNS = [
+  'electrolyte',
+  'form',
+  'compound',
+  'elemental_fraction',
+  'elemental_mg_per_serving',
+  'grams_per_serving',
+  'min_grams_per_serving',
+  'max_grams_per_serving',
+  'grams_per_container',
+  'min_grams_per_container',
+  'max_grams_per_container',
+] as const;
+
+/**
+ * Round to the nearest scale increment without floating point tails
+ */
+function roundToScale(grams: number, precision: number): number {
+  const decimals = Math.max(0, -Math.floor(Math.log10(precision)));
+  return Number((Math.round(grams / precision) * precision).toFixed(decimals));
+}
+
+function toleranceBand(grams: number, precision: number, tolerancePercent: number): RecipeToleranceBand {
+  const band = Math.max(grams * tolerancePercent / 100, precision);
+  return {
+    minGrams: roundToScale(Math.max(0, grams - band), precision),
+    maxGrams: roundToScale(grams + band, precision),
+  };
+}
+
+/**
+ * Recipe sheet for a formulation; per-container grams are scaled before rounding
+ */
+export function buildRecipeSheet(formulation: FormulationResult, options: RecipeSheetOptions = {}): RecipeSheet {
+  const precision = options.scalePrecisionGrams ?? RECIPE_DEFAULTS.SCALE_PRECISION_GRAMS;
+  const tolerancePercent = options.tolerancePercent ?? RECIPE_DEFAULTS.TOLERANCE_PERCENT;
+  const productFormat = formulation.productFormat?.id || DEFAULT_PRODUCT_FORMAT;
+  const servingsPerContainer = formulation.productFormat?.servingsPerContainer ?? PRODUCT_FORMATS[productFormat].servingsPerContainer;
+
+  const ingredients: RecipeIngredient[] = ELECTROLYTE_TYPES.map(electrolyte => {
+    const form = formulation.metadata.electrolyteForms[electrolyte];
+    const { compound, elementalFraction } = ELECTROLYTE_FORM_CATALOG[form];
+    const elementalMgPerServing = formulation.formulationPerServing[electrolyte];
+    const grams = elementalMgPerServing / elementalFraction / 1000;
+    const containerGrams = grams * servingsPerContainer;
+
+    return {
+      electrolyte,
+      form,
+      compound,
+      elementalFraction,
+      elementalMgPerServing,
+      gramsPerServing: roundToScale(grams, precision),
+      gramsPerContainer: roundToScale(containerGrams, precision),
+      tolerancePerServing: toleranceBand(grams, precision, tolerancePercent),
+      tolerancePerContainer: toleranceBand(containerGrams, precision, tolerancePercent),
+    };
+  });
+
+  return {
+    useCase: formulation.useCase,
+    formulaVersion: formulation.metadata.formulaVersion,
+    productFormat,
+    servingSize: formulation.metadata.servingSize,
+    servingsPerContainer,
+    scalePrecisionGrams: precision,
+    tolerancePercent,
+    ingredients,
+    totalGramsPerServing: roundToScale(ingredients.reduce((total, ingredient) => total + ingredient.gramsPerServing, 0), precision),
+    totalGramsPerContainer: roundToScale(ingredients.reduce((total, ingredient) => total + ingredient.gramsPerContainer, 0), precision),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV export of a recipe sheet, one row per compound
+ */
+export function formatRecipeCsv(recipe: RecipeSheet): string {
+  const rows = recipe.ingredients.map(ingredient => [
+    ingredient.electrolyte,
+    ingredient.form,
+    ingredient.compound,
+    ingredient.elementalFraction,
+    ingredient.elementalMgPerServing,
+    ingredient.gramsPerServing,
+    ingredient.tolerancePerServing.minGrams,
+    ingredient.tolerancePerServing.maxGrams,
+    ingredient.gramsPerContainer,
+    ingredient.tolerancePerContainer.minGrams,
+    ingredient.tolerancePerContainer.maxGrams,
+  ].map(csvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,150 @@
+/**
+ * Feedback-Driven Reformulation
+ *
+ * Matches post-consumption feedback against REFORMULATION_RULES and proposes
+ * new per-serving amounts for the previous formulation: matching percentages
+ * are summed per electrolyte, bounded by REFORMULATION_LIMITS, then kept
+ * within the customer's per-serving safety limits and condition/medication caps.
+ * The proposal is screened for contraindications like a new calculation, so a
+ * change that reaches a block rule is held for clinician review
+ */
+
+import type {
+  CustomerData,
+  ElectrolyteAmounts,
+  FormulaConstants,
+  FormulationFeedback,
+  FormulationResult,
+  ReformulationAdjustment,
+  ReformulationProposal,
+  ReformulationRule,
+} from '@/types';
+import { ELECTROLYTE_TYPES } from '@/types';
+import { getSafetyLimits, getSafetyLimitSource } from './safety-limits';
+import { getServingLimits } from './product-formats';
+import { getRestrictionRules, screenContraindications } from './contraindications';
+
+interface ProposalLimit {
+  min: number;
+  max: number;
+  source: string; // Constant or rule id reported when the proposal is clamped
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Rules triggered by the feedback, in REFORMULATION_RULES order
+ */
+export function matchReformulationRules(
+  feedback: FormulationFeedback,
+  constants: Readonly<FormulaConstants>
+): ReformulationRule[] {
+  return constants.REFORMULATION_RULES.filter(rule =>
+    'severities' in rule
+      ? rule.severities.includes(feedback[rule.signal])
+      : rule.ratings.includes(feedback[rule.signal])
+  );
+}
+
+/**
+ * Per-serving bounds for the proposal and the constant or rule behind each maximum
+ * Daily cap rules are split across the servings taken each day
+ */
+function getProposalLimits(
+  previous: FormulationResult,
+  servingsPerDay: number,
+  customer: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): Record<keyof ElectrolyteAmounts, ProposalLimit> {
+  const { useCase, productFormat } = previous;
+  const servingLimits = getServingLimits(getSafetyLimits(useCase, customer, constants), productFormat);
+  const restrictions = getRestrictionRules(customer, constants);
+
+  return Object.fromEntries(ELECTROLYTE_TYPES.map(electrolyte => {
+    const { min, max } = servingLimits[electrolyte];
+    let limit: ProposalLimit = { min, max, source: getSafetyLimitSource(useCase, electrolyte, customer, constants) };
+
+    restrictions.forEach(rule => {
+      if (rule.kind !== 'cap' || rule.electrolyte !== electrolyte) return;
+      const capPerServing = Math.max(Math.floor(rule.maxMg / servingsPerDay), min);
+      if (capPerServing < limit.max) {
+        limit = { min, max: capPerServing, source: rule.id };
+      }
+    });
+    return [electrolyte, limit];
+  })) as Record<keyof ElectrolyteAmounts, ProposalLimit>;
+}
+
+/**
+ * Bounded reformulation of a previous formulation, linked back to its stored result
+ * servingsPerDay is the stored serving count, which may override the formulation's recommendation
+ */
+export function proposeReformulation(
+  previous: FormulationResult,
+  feedback: FormulationFeedback,
+  context: {
+    sourceResultId: string;
+    feedbackId?: string;
+    servingsPerDay: number;
+    customer: Partial<CustomerData>;
+    constants: Readonly<FormulaConstants>;
+  }
+): ReformulationProposal {
+  const { servingsPerDay, customer, constants } = context;
+  const { useCase } = previous;
+  const rules = matchReformulationRules(feedback, constants);
+  const limits = getProposalLimits(previous, servingsPerDay, customer, constants);
+  const maxPercent = constants.REFORMULATION_LIMITS.MAX_ADJUSTMENT_PERCENT;
+  const proposedPerServing = { ...previous.formulationPerServing };
+
+  const adjustments: ReformulationAdjustment[] = ELECTROLYTE_TYPES.flatMap(electrolyte => {
+    const matching = rules.filter(rule => rule.electrolyte === electrolyte);
+    if (matching.length === 0) return [];
+
+    const requestedPercent = matching.reduce((total, rule) => total + rule.percent, 0);
+    const boundedPercent = clamp(requestedPercent, -maxPercent, maxPercent);
+    const previousMg = previous.formulationPerServing[electrolyte];
+    const targetMg = Math.round(previousMg * (1 + boundedPercent / 100));
+    const proposedMg = clamp(targetMg, limits[electrolyte].min, limits[electrolyte].max);
+
+    const limitedBy = proposedMg !== targetMg
+      ? limits[electrolyte].source
+      : boundedPercent !== requestedPercent
+        ? 'REFORMULATION_LIMITS.MAX_ADJUSTMENT_PERCENT'
+        : undefined;
+
+    proposedPerServing[electrolyte] = proposedMg;
+    return [{
+      electrolyte,
+      ruleIds: matching.map(rule => rule.id),
+      requestedPercent,
+      appliedPercent: previousMg === 0 ? 0 : Number((((proposedMg - previousMg) / previousMg) * 100).toFixed(2)),
+      previousMg,
+      proposedMg,
+      ...(limitedBy && { limitedBy }),
+    }];
+  });
+
+  const contraindications = screenContraindications(customer, {
+    ...previous,
+    formulationPerServing: proposedPerServing,
+    metadata: { ...previous.metadata, recommendedServingsPerDay: servingsPerDay },
+  }, constants);
+
+  return {
+    sourceResultId: context.sourceResultId,
+    ...(context.feedbackId && { feedbackId: context.feedbackId }),
+    useCase,
+    formulaVersion: previous.metadata.formulaVersion,
+    servingsPerDay,
+    previousPerServing: previous.formulationPerServing,
+    proposedPerServing,
+    adjustments,
+    contraindications,
+    reasons: rules.map(rule => rule.reason),
+    changed: adjustments.some(adjustment => adjustment.proposedMg !== adjustment.previousMg),
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Safety Limit Enforcement
+ *
+ * Final layer that runs after every CalculationEngine.calculate: clamps each
+ * per-serving amount to the SAFETY_LIMITS range of the formulation's use case,
+ * lowers electrolytes a health condition or medication restricts below that
+ * range when the minimum would give more than the restriction allows, records
+ * a structured report, and refuses formulations that still violate a hard
+ * limit: non-numeric amounts, an unusable limit range, or an absolute
+ * contraindication for one of the electrolytes
+ */
+
+import type {
+  CustomerData,
+  ElectrolyteAmounts,
+  FormulationResult,
+  CalculationOptions,
+  FormulaConstants,
+  FormulaVersionDefinition,
+  SafetyClamp,
+  SafetyLimits,
+  SafetyRestriction,
+  SafetyViolation,
+  SafetyEnforcementResult,
+} from '@/types';
+import { ELECTROLYTE_TYPES } from '@/types';
+import type { CalculationEngine } from './factory';
+import { getAbsoluteContraindications, getRestrictionRules, screenContraindications } from './contraindications';
+import { matchFlavor } from './flavor-matching';
+import { buildDosingSchedule } from './dosing-schedule';
+import { getSafetyLimits, getSafetyLimitSource } from './safety-limits';
+import { getServingLimits } from './product-formats';
+import { getProviderRecommendation } from './maternal';
+import { getGuardianRecommendation } from './youth';
+
+type SafetyLimitViolationError = Error & { code: 'SAFETY_LIMIT_VIOLATION'; details: string[] };
+
+type RestrictionCeiling = { maxPerServing: number; ruleId: string; note: string };
+
+/**
+ * Highest per-serving amount each restricted electrolyte may carry
+ * A lowered requirement below the per-serving minimum is honoured rather than raised to the
+ * minimum (down to zero when the customer's diet already covers it), and a cap is never exceeded
+ * Versions without ENGINE_STAGES.RESTRICTION_CEILINGS clamp restricted electrolytes to the limits like any other
+ */
+function getRestrictionCeilings(
+  formulation: FormulationResult,
+  limits: SafetyLimits,
+  constants: Readonly<FormulaConstants>,
+  customer: Partial<CustomerData>
+): Partial<Record<keyof ElectrolyteAmounts, RestrictionCeiling>> {
+  const { metadata } = formulation;
+  const servingsPerDay = metadata.recommendedServingsPerDay;
+  const ceilings: Partial<Record<keyof ElectrolyteAmounts, RestrictionCeiling>> = {};
+  if (!constants.ENGINE_STAGES.RESTRICTION_CEILINGS) {
+    return ceilings;
+  }
+
+  getRestrictionRules(customer, constants).forEach(rule => {
+    const { electrolyte } = rule;
+    const { min } = limits[electrolyte];
+    let ceiling: RestrictionCeiling | null = null;
+
+    if (rule.kind === 'cap') {
+      const maxPerServing = Math.floor(rule.maxMg / servingsPerDay);
+      ceiling = { maxPerServing, ruleId: rule.id, note: `${electrolyte} limited to ${maxPerServing} mg per serving by ${rule.id} (${rule.maxMg} mg/day)` };
+    } else {
+      const requiredPerServing = Math.max(0, Math.round(metadata.deficits[electrolyte] / servingsPerDay));
+      if (requiredPerServing < min) {
+        ceiling = {
+          maxPerServing: requiredPerServing,
+          ruleId: rule.id,
+          note: requiredPerServing === 0
+            ? `${electrolyte} left out: current intake already covers the need after ${rule.id}`
+            : `${electrolyte} lowered to ${requiredPerServing} mg per serving, below the ${min} mg minimum, after ${rule.id}`,
+        };
+      }
+    }
+
+    const current = ceilings[electrolyte];
+    if (ceiling && (!current || ceiling.maxPerServing < current.maxPerServing)) {
+      ceilings[electrolyte] = ceiling;
+    }
+  });
+
+  return ceilings;
+}
+
+/**
+ * Clamp a formulation to its use case safety limits and report every change
+ * Limits are tightened by MATERNAL_SAFETY_LIMITS when pregnant or breastfeeding and by YOUTH_SAFETY_LIMITS for minors,
+ * and shared across any servings the product format added for its solute load
+ */
+export function enforceSafetyLimits(
+  formulation: FormulationResult,
+  constants: Readonly<FormulaConstants>,
+  customer: Partial<CustomerData> = {}
+): SafetyEnforcementResult {
+  const { useCase } = formulation;
+  const limits = getServingLimits(getSafetyLimits(useCase, customer, constants), formulation.productFormat);
+  const perServing = { ...formulation.formulationPerServing };
+  const ceilings = getRestrictionCeilings(formulation, limits, constants, customer);
+  const clamps: SafetyClamp[] = [];
+  const restrictions: SafetyRestriction[] = [];
+  const violations: SafetyViolation[] = [];
+
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    const { min, max } = limits[electrolyte];
+    const value = perServing[electrolyte];
+
+    if (!Number.isFinite(value)) {
+      violations.push({ electrolyte, useCase, value, limits: { min, max }, reason: `${electrolyte} amount is not a number` });
+      return;
+    }
+    if (min > max) {
+      violations.push({ electrolyte, useCase, value, limits: { min, max }, reason: `${getSafetyLimitSource(useCase, electrolyte, customer, constants)} has min above max` });
+      return;
+    }
+
+    const limitHit = value > max ? 'max' : value < min ? 'min' : null;
+    const ceiling = ceilings[electrolyte];
+    if (ceiling && (limitHit ? limits[electrolyte][limitHit] : value) > ceiling.maxPerServing) {
+      restrictions.push({ electrolyte, useCase, originalValue: value, restrictedValue: ceiling.maxPerServing, ruleId: ceiling.ruleId, note: ceiling.note });
+      perServing[electrolyte] = ceiling.maxPerServing;
+      return;
+    }
+    if (limitHit) {
+      const limit = limits[electrolyte][limitHit];
+      clamps.push({ electrolyte, useCase, originalValue: value, clampedValue: limit, limitHit, limit });
+      perServing[electrolyte] = limit;
+    }
+  });
+
+  violations.push(...getAbsoluteContraindications(customer, constants).map(rule => ({
+    electrolyte: rule.electrolyte,
+    useCase,
+    value: perServing[rule.electrolyte],
+    limits: limits[rule.electrolyte],
+    reason: `${rule.reason} (${rule.id})`,
+  })));
+
+  const passed = violations.length === 0;
+  const report = { useCase, passed, clamps, restrictions, violations };
+
+  if (!passed) {
+    return {
+      success: false,
+      report,
+      error: {
+        code: 'SAFETY_LIMIT_VIOLATION',
+        message: `Formulation refused: hard safety limits violated for ${useCase} use case`,
+        details: violations.map(violation => violation.reason),
+      },
+    };
+  }
+
+  const { metadata } = formulation;
+  return {
+    success: true,
+    report,
+    formulation: {
+      ...formulation,
+      formulationPerServing: perServing,
+      metadata: {
+        ...metadata,
+        notes: {
+          ...metadata.notes,
+          additional: [
+            ...metadata.notes.additional,
+            ...clamps.map(clamp => `${clamp.electrolyte} limited to ${clamp.limit} mg (${getSafetyLimitSource(useCase, clamp.electrolyte, customer, constants)}.${clamp.limitHit})`),
+            ...restrictions.map(restriction => restriction.note),
+          ],
+        },
+        safetyLimitsApplied: Boolean(metadata.safetyLimitsApplied) || clamps.length > 0 || restrictions.length > 0,
+        safetyReport: report,
+      },
+    },
+  };
+}
+
+/**
+ * Error thrown when a formulation (or kit) is refused by the safety layer
+ */
+export function createSafetyLimitViolation(message: string, details: string[]): SafetyLimitViolationError {
+  return Object.assign(new Error(message), { code: 'SAFETY_LIMIT_VIOLATION' as const, details });
+}
+
+/**
+ * True when an error was thrown because a formulation was refused by the safety layer
+ */
+export function isSafetyLimitViolation(error: unknown): error is SafetyLimitViolationError {
+  return error instanceof Error && (error as Partial<SafetyLimitViolationError>).code === 'SAFETY_LIMIT_VIOLATION';
+}
+
+/**
+ * Base class for calculation engines: calculate() runs the engine's own
+ * calculation and always passes the result through the safety layer, then
+ * screens it for health condition and medication contraindications and
+ * matches the customer's flavor to the final doses and schedules them
+ */
+export abstract class SafetyEnforcedEngine implements CalculationEngine {
+
+  constructor(protected readonly formula: FormulaVersionDefinition) {}
+
+  /**
+   * Engine-specific calculation, before safety limits are enforced
+   */
+  protected abstract calculateFormulation(surveyData: CustomerData, options: CalculationOptions): Promise<FormulationResult>;
+
+  async calculate(surveyData: CustomerData, options: CalculationOptions = {}): Promise<FormulationResult> {
+    const result = enforceSafetyLimits(await this.calculateFormulation(surveyData, options), this.formula.constants, surveyData);
+
+    if (!result.success) {
+      throw createSafetyLimitViolation(result.error!.message, result.error!.details);
+    }
+
+    const formulation = result.formulation!;
+    const contraindications = screenContraindications(surveyData, formulation, this.formula.constants);
+    const held = contraindications.findings.filter(finding => finding.kind === 'block');
+    const warnings = contraindications.findings.filter(finding => finding.kind === 'warning');
+    const flavor = surveyData['flavor-profile'] && matchFlavor(surveyData['flavor-profile'], formulation.formulationPerServing);
+    const providerRecommendation = getProviderRecommendation(surveyData);
+    const guardianRecommendation = getGuardianRecommendation(surveyData);
+
+    return {
+      ...formulation,
+      ...(flavor && { flavor }),
+      dosingSchedule: buildDosingSchedule(surveyData, formulation, this.formula.constants),
+      metadata: {
+        ...formulation.metadata,
+        recommendations: [
+          ...(providerRecommendation ? [providerRecommendation] : []),
+          ...(guardianRecommendation ? [guardianRecommendation] : []),
+          ...formulation.metadata.recommendations,
+          ...held.map(finding => `Clinician review required before ordering: ${finding.reason}`),
+          ...warnings.map(finding => `Medication interaction: ${finding.reason}`),
+          ...(flavor?.note ? [flavor.note] : []),
+        ],
+        contraindications,
+      },
+    };
+  }
+}
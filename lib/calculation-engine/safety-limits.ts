@@ -0,0 +1,73 @@
+/**
+ * Customer Safety Limits
+ *
+ * A use case's SAFETY_LIMITS tightened by the population limits that apply to
+ * the customer: MATERNAL_SAFETY_LIMITS while pregnant or breastfeeding and
+ * YOUTH_SAFETY_LIMITS for minors. The lowest maximum wins.
+ */
+
+import type {
+  CustomerData,
+  ElectrolyteAmounts,
+  FormulaConstants,
+  SafetyLimits,
+  UseCase,
+} from '@/types';
+import { ELECTROLYTE_TYPES } from '@/types';
+import { getMaternalStatus } from './maternal';
+import { isMinor } from './youth';
+
+type Electrolyte = keyof ElectrolyteAmounts;
+
+/**
+ * Tightest population maximum for an electrolyte, with the constant it came from
+ */
+function getPopulationMax(
+  useCase: UseCase,
+  electrolyte: Electrolyte,
+  customer: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): { max: number; source: string } | null {
+  const candidates = [
+    { applies: getMaternalStatus(customer) !== null, max: constants.MATERNAL_SAFETY_LIMITS[electrolyte], source: 'MATERNAL_SAFETY_LIMITS' },
+    { applies: isMinor(customer.age), max: constants.YOUTH_SAFETY_LIMITS[electrolyte], source: 'YOUTH_SAFETY_LIMITS' },
+  ];
+
+  return candidates.reduce<{ max: number; source: string } | null>((tightest, candidate) => {
+    if (!candidate.applies || candidate.max === undefined) return tightest;
+    const current = tightest?.max ?? constants.SAFETY_LIMITS[useCase][electrolyte].max;
+    return candidate.max < current ? { max: candidate.max, source: `${candidate.source}.${electrolyte}` } : tightest;
+  }, null);
+}
+
+/**
+ * Use case safety limits, tightened for pregnancy, lactation and minors
+ */
+export function getSafetyLimits(
+  useCase: UseCase,
+  customer: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): SafetyLimits {
+  const limits = constants.SAFETY_LIMITS[useCase];
+  const tightened = { ...limits };
+
+  ELECTROLYTE_TYPES.forEach(electrolyte => {
+    const population = getPopulationMax(useCase, electrolyte, customer, constants);
+    if (population) {
+      tightened[electrolyte] = { min: Math.min(limits[electrolyte].min, population.max), max: population.max };
+    }
+  });
+  return tightened;
+}
+
+/**
+ * Constant name behind an electrolyte's limit, for trace sources and notes
+ */
+export function getSafetyLimitSource(
+  useCase: UseCase,
+  electrolyte: Electrolyte,
+  customer: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants>
+): string {
+  return getPopulationMax(useCase, electrolyte, customer, constants)?.source ?? `SAFETY_LIMITS.${useCase}.${electrolyte}`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Sweat Loss Estimator
+ *
+ * Turns weight and the workout answers (sweat level, duration, intensity,
+ * exercise type, frequency) and the training environment into estimated
+ * fluid and sodium loss per session and per week. Drives sweat use case detection.
+ * Lab sweat test results replace the modeled sweat rate and the typical sweat
+ * sodium concentration when the customer provides them.
+ */
+
+import type { CustomerData, FormulaConstants, MeasuredSweatData, SweatLossEstimate } from '@/types';
+import { SODIUM_MG_PER_MMOL } from '@/types';
+import { calculateEnvironmentAdjustment } from './environment';
+
+function round(value: number, decimals: number): number {
+  return Number(value.toFixed(decimals));
+}
+
+/**
+ * Lab sweat test results the customer provided, or undefined without any
+ * Versions without ENGINE_STAGES.MEASURED_SWEAT ignore them
+ */
+export function getMeasuredSweat(data: Partial<CustomerData>, constants: Readonly<FormulaConstants>): MeasuredSweatData | undefined {
+  if (!constants.ENGINE_STAGES.MEASURED_SWEAT) return undefined;
+  const sodiumMmolPerL = data['sweat-sodium-concentration'];
+  const sweatRateLitersPerHour = data['sweat-rate'];
+  if (sodiumMmolPerL === undefined && sweatRateLitersPerHour === undefined) return undefined;
+
+  return {
+    ...(sodiumMmolPerL !== undefined && {
+      sodiumMmolPerL,
+      sodiumMgPerLiter: Math.round(sodiumMmolPerL * SODIUM_MG_PER_MMOL),
+    }),
+    ...(sweatRateLitersPerHour !== undefined && { sweatRateLitersPerHour }),
+  };
+}
+
+/**
+ * Estimate sweat losses; unanswered workout fields fall back to a moderate 30-60 minute session
+ * A measured sweat rate replaces the weight, sweat level, intensity, exercise type and environment factors
+ */
+export function estimateSweatLoss(data: Partial<CustomerData>, constants: Readonly<FormulaConstants>): SweatLossEstimate {
+  const {
+    SWEAT_MULTIPLIERS,
+    DURATION_MULTIPLIERS,
+    INTENSITY_MULTIPLIERS,
+    EXERCISE_TYPE_MULTIPLIERS,
+    WORKOUT_SESSIONS_PER_WEEK,
+    SWEAT_RATE_BASELINE,
+    SWEAT_SODIUM_CONCENTRATION,
+  } = constants;
+  const exerciseTypes = data['exercise-type'] || [];
+  const factors = {
+    weight: round((data.weight || SWEAT_RATE_BASELINE.referenceWeight) / SWEAT_RATE_BASELINE.referenceWeight, 3),
+    sweatLevel: SWEAT_MULTIPLIERS[data['sweat-level'] || 'moderate'],
+    duration: DURATION_MULTIPLIERS[data['workout-duration'] || '30-60'],
+    intensity: INTENSITY_MULTIPLIERS[data['workout-intensity'] || 'moderate'],
+    exerciseType: exerciseTypes.length > 0
+      ? Math.max(...exerciseTypes.map(type => EXERCISE_TYPE_MULTIPLIERS[type]))
+      : 1,
+    environment: calculateEnvironmentAdjustment(data, constants)?.fluidMultiplier ?? 1,
+  };
+
+  const measured = getMeasuredSweat(data, constants);
+  const sweatRate = measured?.sweatRateLitersPerHour ?? SWEAT_RATE_BASELINE.litersPerHour * factors.weight *
+    factors.sweatLevel * factors.intensity * factors.exerciseType * factors.environment;
+  const sodiumMgPerLiter = measured?.sodiumMgPerLiter ?? SWEAT_SODIUM_CONCENTRATION;
+  const fluidPerSession = sweatRate * factors.duration;
+  const sodiumPerSession = fluidPerSession * sodiumMgPerLiter;
+  const sessionsPerWeek = WORKOUT_SESSIONS_PER_WEEK[data['workout-frequency'] || 'never'] ?? 0;
+
+  return {
+    sweatRateLitersPerHour: round(sweatRate, 2),
+    fluidLitersPerSession: round(fluidPerSession, 2),
+    sodiumMgPerSession: Math.round(sodiumPerSession),
+    sessionsPerWeek,
+    fluidLitersPerWeek: round(fluidPerSession * sessionsPerWeek, 2),
+    sodiumMgPerWeek: Math.round(sodiumPerSession * sessionsPerWeek),
+    sodiumMgPerLiter,
+    measured: {
+      sodiumConcentration: measured?.sodiumMgPerLiter !== undefined,
+      sweatRate: measured?.sweatRateLitersPerHour !== undefined,
+    },
+    factors,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Use Case Detector
+ *
+ * Single source of truth for use case detection, driven by rule tables
+ * iterated in USE_CASE_DETECTION_ORDER. Used by every engine, the
+ * database mapping service and the detected_use_case column.
+ */
+
+import type {
+  CustomerData,
+  FormulaConstants,
+  UseCase,
+  UseCaseCandidate,
+  UseCaseDetectionResult,
+} from '@/types';
+import { USE_CASE_DETECTION_ORDER } from '@/types';
+import { estimateSweatLoss } from './sweat-loss';
+import { getStableFormulaVersion } from './versions';
+import { getMaternalStatus } from './maternal';
+
+interface UseCaseRule {
+  id: string;
+  useCase: UseCase | 'selected-usage'; // 'selected-usage' resolves to the customer's usage answer
+  // Returns the reason the rule matched, or null when it does not apply
+  match: (data: Partial<CustomerData>, constants: Readonly<FormulaConstants>) => string | null;
+}
+
+const VALID_USE_CASES: UseCase[] = ['daily', 'sweat', 'bedtime', 'menstrual', 'hangover'];
+const HEAVY_SWEAT_LEVELS = ['heavy', 'excessive'];
+const FREQUENT_WORKOUTS = ['daily', '4-6-per-week'];
+
+/**
+ * Reported answers ignoring the explicit 'none' option
+ */
+function reported(values: readonly string[] | undefined): string[] {
+  return (values || []).filter(value => value !== 'none');
+}
+
+function listReason(label: string, values: string[]): string | null {
+  return values.length > 0 ? `${label}: ${values.join(', ')}` : null;
+}
+
+/**
+ * Pregnant or breastfeeding customer on a version that excludes the menstrual use case for them
+ */
+function isMaternal(data: Partial<CustomerData>, constants: Readonly<FormulaConstants>): boolean {
+  return constants.ENGINE_STAGES.MATERNAL_USE_CASES && getMaternalStatus(data) !== null;
+}
+
+type DetectionStep = (typeof USE_CASE_DETECTION_ORDER)[number];
+
+/**
+ * Detection rules for each step of USE_CASE_DETECTION_ORDER
+ * An explicit usage selection is honoured only when no symptom or sweat rule matches,
+ * so it sits in the daily step ahead of the default
+ * The menstrual use case is never detected or selected while pregnant or breastfeeding
+ * Versions without ENGINE_STAGES.SWEAT_LOSS_DETECTION keep the V1 sweat level and workout frequency rule
+ */
+const RULES_BY_STEP: Record<DetectionStep, readonly UseCaseRule[]> = {
+  bedtime: [{
+    id: 'sleep-issues',
+    useCase: 'bedtime',
+    match: data => listReason('Sleep issues reported', reported(data['sleep-issues'])),
+  }],
+  menstrual: [{
+    id: 'menstrual-symptoms',
+    useCase: 'menstrual',
+    match: (data, constants) => isMaternal(data, constants)
+      ? null
+      : listReason('Menstrual symptoms reported', reported(data['menstrual-symptoms'])),
+  }],
+  sweat: [
+    {
+      id: 'sweat-loss-estimate',
+      useCase: 'sweat',
+      match: (data, constants) => {
+        if (!constants.ENGINE_STAGES.SWEAT_LOSS_DETECTION) return null;
+        const { sodiumMgPerWeek, fluidLitersPerWeek } = estimateSweatLoss(data, constants);
+        return sodiumMgPerWeek >= constants.SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD
+          ? `Estimated sweat loss of ${fluidLitersPerWeek} L and ${sodiumMgPerWeek} mg sodium per week`
+          : null;
+      },
+    },
+    {
+      id: 'heavy-sweat-frequent-workouts',
+      useCase: 'sweat',
+      match: (data, constants) => {
+        if (constants.ENGINE_STAGES.SWEAT_LOSS_DETECTION) return null;
+        const sweatLevel = data['sweat-level'];
+        const frequency = data['workout-frequency'];
+        return sweatLevel && frequency &&
+          HEAVY_SWEAT_LEVELS.includes(sweatLevel) && FREQUENT_WORKOUTS.includes(frequency)
+          ? `${sweatLevel} sweat level with ${frequency} workouts`
+          : null;
+      },
+    },
+  ],
+  hangover: [{
+    id: 'hangover-symptoms',
+    useCase: 'hangover',
+    match: data => listReason('Hangover symptoms reported', reported(data['hangover-symptoms'])),
+  }],
+  daily: [
+    {
+      id: 'usage-selection',
+      useCase: 'selected-usage',
+      match: (data, constants) => data.usage && VALID_USE_CASES.includes(data.usage) && !(data.usage === 'menstrual' && isMaternal(data, constants))
+        ? `Customer selected ${data.usage} usage`
+        : null,
+    },
+    {
+      id: 'default',
+      useCase: 'daily',
+      match: () => 'Default daily formulation',
+    },
+  ],
+};
+
+/**
+ * Ordered detection rules - first match wins, in USE_CASE_DETECTION_ORDER
+ */
+export const USE_CASE_RULES: readonly UseCaseRule[] = USE_CASE_DETECTION_ORDER.flatMap(step => RULES_BY_STEP[step]);
+
+/**
+ * Detect the primary use case and every candidate that matched
+ * The default rule always matches, so there is at least one candidate
+ * Engines pass their version's constants; the survey columns use the stable version
+ */
+export function detectUseCase(
+  data: Partial<CustomerData>,
+  constants: Readonly<FormulaConstants> = getStableFormulaVersion().constants
+): UseCaseDetectionResult {
+  const candidates: UseCaseCandidate[] = [];
+
+  USE_CASE_RULES.forEach(rule => {
+    const reason = rule.match(data, constants);
+    if (reason) {
+      const useCase = rule.useCase === 'selected-usage' ? data.usage as UseCase : rule.useCase;
+      candidates.push({ useCase, rule: rule.id, reason });
+    }
+  });
+
+  return { useCase: candidates[0].useCase, candidates };
+}
@@ -0,0 +1,300 @@
+/**
+ * Formula Version Registry
+ *
+ * Named engine versions, each with its own frozen constants snapshot.
+ * Customers who calculated on an older version keep getting identical results
+ * while new versions ship alongside it.
+ *
+ * To release a new version, add an entry built with deriveFormulaConstants()
+ * from the previous snapshot, mark the previous stable version deprecated and
+ * move the 'stable' status to the new one. Never edit an existing snapshot in
+ * place: any change to calculated amounts needs a new version. A code change
+ * to the calculation goes behind a new ENGINE_STAGES flag that older snapshots
+ * keep switched off.
+ */
+
+import type {
+  ContraindicationRule,
+  FormulaConstants,
+  FormulaVersionDefinition,
+  FormulaVersionResolution,
+  MedicationInteractionRule,
+} from '@/types';
+import {
+  FORMULA_VERSION,
+  ENGINE_STAGES,
+  SERVING_SIZE,
+  SODIUM_BASE,
+  SODIUM_WEIGHT_MULTIPLIER,
+  POTASSIUM_BASE,
+  POTASSIUM_AGE_MULTIPLIERS,
+  MAGNESIUM_RDA,
+  MAGNESIUM_REFERENCE_WEIGHTS,
+  CALCIUM_RDA,
+  MATERNAL_MAGNESIUM_RDA,
+  MATERNAL_CALCIUM_RDA,
+  ACTIVITY_MULTIPLIERS,
+  SWEAT_ADDITIONS,
+  USE_CASE_RATIOS,
+  GOAL_MULTIPLIERS,
+  SLEEP_GOAL_MULTIPLIERS,
+  HANGOVER_TIMING_MULTIPLIERS,
+  HANGOVER_SYMPTOM_MULTIPLIERS,
+  SAFETY_LIMITS,
+  MATERNAL_SAFETY_LIMITS,
+  YOUTH_SAFETY_LIMITS,
+  CONTRAINDICATION_RULES,
+  MEDICATION_INTERACTION_RULES,
+  REFORMULATION_RULES,
+  REFORMULATION_LIMITS,
+  DEFAULT_ELECTROLYTE_FORMS,
+  ELECTROLYTE_FORM_RULES,
+  SWEAT_MULTIPLIERS,
+  DURATION_MULTIPLIERS,
+  INTENSITY_MULTIPLIERS,
+  EXERCISE_TYPE_MULTIPLIERS,
+  WORKOUT_SESSIONS_PER_WEEK,
+  SWEAT_RATE_BASELINE,
+  SWEAT_SODIUM_CONCENTRATION,
+  SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD,
+  ENVIRONMENT_ADJUSTMENTS,
+  PRODUCT_FORMATS,
+  DEFAULT_PRODUCT_FORMAT,
+  REFERENCE_SERVING_VOLUME_ML,
+  MAX_SERVINGS_PER_DAY,
+  WORKOUT_START_TIMES,
+  WORKOUT_DURATION_MINUTES,
+  DAILY_DOSE_SLOTS,
+  DOSING_DEFAULTS,
+} from '@/types';
+
+/**
+ * Recursively freeze a constants snapshot so no caller can mutate it
+ */
+function deepFreeze<T>(value: T): Readonly<T> {
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach(child => deepFreeze(child));
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Deep copy of a snapshot, detached from the source objects
+ */
+function cloneConstants(constants: FormulaConstants): FormulaConstants {
+  return JSON.parse(JSON.stringify(constants));
+}
+
+/**
+ * Build a new snapshot from a previous one, replacing whole constant tables
+ */
+export function deriveFormulaConstants(
+  previous: Readonly<FormulaConstants>,
+  overrides: Partial<FormulaConstants>
+): Readonly<FormulaConstants> {
+  return deepFreeze({ ...cloneConstants(previous), ...cloneConstants(overrides as FormulaConstants) });
+}
+
+/**
+ * Rules that only screen a finished formulation (clinician holds, refusals and
+ * warnings) without changing any amount; they apply to every version so pinning
+ * an older version never skips a safety check
+ */
+function isScreeningRule(rule: ContraindicationRule | MedicationInteractionRule): boolean {
+  return rule.kind !== 'multiplier' && rule.kind !== 'cap';
+}
+
+// Formula 1.4 - the V1 framework constants as preserved in types/constants.ts. The contraindication
+// multiplier and cap rules carry the original HEALTH_CONDITION_MULTIPLIERS values; tables added
+// after 1.4 hold values that leave its amounts unchanged (no environment, maternal, youth or
+// medication adjustments, default forms only, no reformulation) and every later engine stage is off
+const FORMULA_1_4_CONSTANTS: Readonly<FormulaConstants> = deepFreeze(cloneConstants({
+  ENGINE_STAGES: {
+    SWEAT_LOSS_DETECTION: false,
+    MATERNAL_USE_CASES: false,
+    MEASURED_SWEAT: false,
+    PRODUCT_FORMATS: false,
+    RATIO_OPTIMIZATION: false,
+    RESTRICTION_CEILINGS: false,
+  },
+  SERVING_SIZE,
+  SODIUM_BASE,
+  SODIUM_WEIGHT_MULTIPLIER,
+  POTASSIUM_BASE,
+  POTASSIUM_AGE_MULTIPLIERS,
+  MAGNESIUM_RDA,
+  MAGNESIUM_REFERENCE_WEIGHTS,
+  CALCIUM_RDA,
+  ACTIVITY_MULTIPLIERS,
+  SWEAT_ADDITIONS,
+  USE_CASE_RATIOS,
+  GOAL_MULTIPLIERS,
+  SLEEP_GOAL_MULTIPLIERS,
+  HANGOVER_TIMING_MULTIPLIERS,
+  HANGOVER_SYMPTOM_MULTIPLIERS,
+  SAFETY_LIMITS,
+  MATERNAL_SAFETY_LIMITS: {},
+  YOUTH_SAFETY_LIMITS: {},
+  CONTRAINDICATION_RULES,
+  MEDICATION_INTERACTION_RULES: MEDICATION_INTERACTION_RULES.filter(isScreeningRule),
+  REFORMULATION_RULES: [],
+  REFORMULATION_LIMITS,
+  DEFAULT_ELECTROLYTE_FORMS,
+  ELECTROLYTE_FORM_RULES: [],
+  SWEAT_MULTIPLIERS,
+  DURATION_MULTIPLIERS,
+  INTENSITY_MULTIPLIERS,
+  EXERCISE_TYPE_MULTIPLIERS,
+  WORKOUT_SESSIONS_PER_WEEK,
+  SWEAT_RATE_BASELINE,
+  SWEAT_SODIUM_CONCENTRATION,
+  SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD,
+  ENVIRONMENT_ADJUSTMENTS: {
+    temperature: [{ atOrAbove: -40, fluid: 1, sodium: 1 }],
+    humidity: [{ atOrAbove: 0, fluid: 1, sodium: 1 }],
+    altitude: [{ atOrAbove: -1500, fluid: 1, sodium: 1 }],
+  },
+  PRODUCT_FORMATS,
+  DEFAULT_PRODUCT_FORMAT,
+  REFERENCE_SERVING_VOLUME_ML,
+  MAX_SERVINGS_PER_DAY,
+  WORKOUT_START_TIMES,
+  WORKOUT_DURATION_MINUTES,
+  DAILY_DOSE_SLOTS,
+  DOSING_DEFAULTS,
+}));
+
+// Formula 1.5 - engine stages added after 1.4 (sweat-loss detection, maternal use cases, lab sweat
+// results, product formats, Ca:Mg ratio optimizer, restriction ceilings) and training temperature,
+// humidity and altitude adjustments
+const FORMULA_1_5_CONSTANTS = deriveFormulaConstants(FORMULA_1_4_CONSTANTS, { ENGINE_STAGES, ENVIRONMENT_ADJUSTMENTS });
+
+// Formula 1.6 - rule-based electrolyte form selection
+const FORMULA_1_6_CONSTANTS = deriveFormulaConstants(FORMULA_1_5_CONSTANTS, { ELECTROLYTE_FORM_RULES });
+
+// Formula 1.7 - medication multiplier and cap rules
+const FORMULA_1_7_CONSTANTS = deriveFormulaConstants(FORMULA_1_6_CONSTANTS, { MEDICATION_INTERACTION_RULES });
+
+// Formula 1.8 - pregnancy and lactation DRIs and limits
+const FORMULA_1_8_CONSTANTS = deriveFormulaConstants(FORMULA_1_7_CONSTANTS, {
+  MATERNAL_MAGNESIUM_RDA,
+  MATERNAL_CALCIUM_RDA,
+  MATERNAL_SAFETY_LIMITS,
+});
+
+// Formula 1.9 - youth safety limits
+const FORMULA_1_9_CONSTANTS = deriveFormulaConstants(FORMULA_1_8_CONSTANTS, { YOUTH_SAFETY_LIMITS });
+
+// Formula 1.10 - feedback reformulation rules
+const FORMULA_1_10_CONSTANTS = deriveFormulaConstants(FORMULA_1_9_CONSTANTS, { REFORMULATION_RULES });
+
+export const FORMULA_VERSIONS: Readonly<Record<string, FormulaVersionDefinition>> = deepFreeze({
+  '1.4': {
+    version: '1.4',
+    status: 'deprecated',
+    releasedAt: '2024-01-01',
+    description: 'V1 calculation framework',
+    constants: FORMULA_1_4_CONSTANTS,
+  },
+  '1.5': {
+    version: '1.5',
+    status: 'deprecated',
+    releasedAt: '2026-10-19',
+    description: 'Sweat-loss detection, product formats, Ca:Mg ratio optimizer, restriction ceilings and training environment adjustments',
+    constants: FORMULA_1_5_CONSTANTS,
+  },
+  '1.6': {
+    version: '1.6',
+    status: 'deprecated',
+    releasedAt: '2026-10-19',
+    description: 'Rule-based electrolyte forms',
+    constants: FORMULA_1_6_CONSTANTS,
+  },
+  '1.7': {
+    version: '1.7',
+    status: 'deprecated',
+    releasedAt: '2026-10-19',
+    description: 'Medication interaction adjustments',
+    constants: FORMULA_1_7_CONSTANTS,
+  },
+  '1.8': {
+    version: '1.8',
+    status: 'deprecated',
+    releasedAt: '2026-10-19',
+    description: 'Pregnancy and lactation mode',
+    constants: FORMULA_1_8_CONSTANTS,
+  },
+  '1.9': {
+    version: '1.9',
+    status: 'deprecated',
+    releasedAt: '2026-10-19',
+    description: 'Youth safety limits',
+    constants: FORMULA_1_9_CONSTANTS,
+  },
+  [FORMULA_VERSION]: {
+    version: FORMULA_VERSION,
+    status: 'stable',
+    releasedAt: '2026-10-19',
+    description: 'Feedback reformulation rules',
+    constants: FORMULA_1_10_CONSTANTS,
+  },
+});
+
+/**
+ * Look up a registered version regardless of status
+ */
+export function getFormulaVersion(version: string): FormulaVersionDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(FORMULA_VERSIONS, version)
+    ? FORMULA_VERSIONS[version]
+    : undefined;
+}
+
+/**
+ * Current stable version used when a request does not ask for one
+ */
+export function getStableFormulaVersion(): FormulaVersionDefinition {
+  const stable = Object.values(FORMULA_VERSIONS).find(definition => definition.status === 'stable');
+  return stable || FORMULA_VERSIONS[FORMULA_VERSION];
+}
+
+/**
+ * Resolve a requested version, defaulting to stable and rejecting unknown or retired versions
+ */
+export function resolveFormulaVersion(requested?: string): FormulaVersionResolution {
+  if (!requested) {
+    return { success: true, definition: getStableFormulaVersion() };
+  }
+
+  const definition = getFormulaVersion(requested);
+  if (!definition) {
+    return {
+      success: false,
+      error: {
+        code: 'UNKNOWN_FORMULA_VERSION',
+        message: `Formula version ${requested} does not exist. Available versions: ${listAvailableFormulaVersions().join(', ')}`,
+      },
+    };
+  }
+
+  if (definition.status === 'retired') {
+    return {
+      success: false,
+      error: {
+        code: 'FORMULA_VERSION_RETIRED',
+        message: `Formula version ${requested} has been retired. Available versions: ${listAvailableFormulaVersions().join(', ')}`,
+      },
+    };
+  }
+
+  return { success: true, definition };
+}
+
+/**
+ * Versions that can still be calculated
+ */
+export function listAvailableFormulaVersions(): string[] {
+  return Object.values(FORMULA_VERSIONS)
+    .filter(definition => definition.status !== 'retired')
+    .map(definition => definition.version);
+}
@@ -0,0 +1,106 @@
+/**
+ * What-If Sensitivity Analysis
+ *
+ * Recalculates a base survey once per field perturbation and compares every
+ * scenario with the baseline using compareFormulations. Surveys are prepared
+ * with the same unit, customer and intake validation as the calculate route.
+ */
+
+import type {
+  CustomerData,
+  FormulationResult,
+  ValidationResult,
+  WhatIfAnalysis,
+  WhatIfOutcome,
+  WhatIfPerturbation,
+  WhatIfScenario,
+} from '@/types';
+import {
+  applyCustomerDefaults,
+  validateAllIntakeFields,
+  validateCustomerData,
+  validateMeasurementUnits,
+} from '@/types';
+import type { CalculationEngine } from './factory';
+import { compareFormulations } from './comparison';
+import { isSafetyLimitViolation } from './safety-enforcement';
+
+/**
+ * Defaults and validation exactly as the calculate route applies them
+ * customerData is only set when the survey is valid
+ */
+export function prepareCustomerData(input: Partial<CustomerData>): { customerData?: CustomerData; validation: ValidationResult } {
+  const unitValidation = validateMeasurementUnits(input);
+  if (!unitValidation.isValid) return { validation: unitValidation };
+
+  const customerData = applyCustomerDefaults(input);
+  const basicValidation = validateCustomerData(customerData);
+  if (!basicValidation.isValid) return { validation: basicValidation };
+
+  const intakeValidation = validateAllIntakeFields(customerData);
+  if (!intakeValidation.isValid) return { validation: intakeValidation };
+
+  return {
+    customerData,
+    validation: {
+      isValid: true,
+      errors: [],
+      warnings: [...basicValidation.warnings, ...intakeValidation.warnings],
+    },
+  };
+}
+
+/**
+ * Label from the changed fields, e.g. "workout-frequency=4-6-per-week"
+ */
+export function describePerturbation(changes: Partial<CustomerData>): string {
+  return Object.entries(changes)
+    .map(([field, value]) => `${field}=${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join(', ');
+}
+
+export function toWhatIfOutcome(formulation: FormulationResult): WhatIfOutcome {
+  return {
+    useCase: formulation.useCase,
+    formulationPerServing: formulation.formulationPerServing,
+    servingsPerDay: formulation.metadata.recommendedServingsPerDay,
+  };
+}
+
+/**
+ * Run every perturbation over the raw base survey; invalid or refused
+ * scenarios report their errors instead of failing the analysis
+ */
+export async function runWhatIf(
+  engine: CalculationEngine,
+  base: Partial<CustomerData>,
+  baseline: FormulationResult,
+  perturbations: WhatIfPerturbation[]
+): Promise<WhatIfAnalysis> {
+  const scenarios: WhatIfScenario[] = [];
+
+  for (const perturbation of perturbations) {
+    const label = perturbation.label || describePerturbation(perturbation.changes);
+    const scenario = { label, changes: perturbation.changes };
+    const prepared = prepareCustomerData({ ...base, ...perturbation.changes });
+
+    if (!prepared.customerData) {
+      scenarios.push({ ...scenario, errors: prepared.validation.errors });
+      continue;
+    }
+
+    try {
+      const formulation = await engine.calculate(prepared.customerData);
+      scenarios.push({
+        ...scenario,
+        outcome: toWhatIfOutcome(formulation),
+        comparison: compareFormulations(baseline, formulation, { activeEngine: 'baseline', candidateEngine: label }),
+      });
+    } catch (error) {
+      if (!isSafetyLimitViolation(error)) throw error;
+      scenarios.push({ ...scenario, errors: error.details });
+    }
+  }
+
+  return { baseline: toWhatIfOutcome(baseline), scenarios };
+}
@@ -0,0 +1,239 @@
+/**
+ * Workout File Parsers
+ *
+ * Reads start time, duration and average heart rate from uploaded FIT, TCX
+ * and GPX files. Everything is parsed locally; files are never stored or sent
+ * to a third party. TCX and GPX are read with targeted patterns rather than a
+ * full XML parser, FIT with a minimal decoder of session and record messages.
+ */
+
+import type { ParsedWorkout, WorkoutFileError, WorkoutFileFormat } from '@/types';
+
+type WorkoutData = Omit<ParsedWorkout, 'fileName' | 'format'>;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+const FIT_SESSION_MESSAGE = 18;
+const FIT_RECORD_MESSAGE = 20;
+const FIT_TIMESTAMP_FIELD = 253;
+
+function average(values: number[]): number | undefined {
+  return values.length === 0 ? undefined : Math.round(values.reduce((total, value) => total + value, 0) / values.length);
+}
+
+// Loops rather than Math.min(...values): a large file holds more points than a call can take as arguments
+export function minimum(values: number[]): number {
+  return values.reduce((lowest, value) => (value < lowest ? value : lowest), Infinity);
+}
+
+export function maximum(values: number[]): number {
+  return values.reduce((highest, value) => (value > highest ? value : highest), -Infinity);
+}
+
+function workoutFromTimes(times: number[], heartRates: number[]): WorkoutData | null {
+  const valid = times.filter(time => !Number.isNaN(time));
+  if (valid.length < 2) return null;
+
+  const start = minimum(valid);
+  const averageHeartRate = average(heartRates);
+  return {
+    startTime: new Date(start).toISOString(),
+    durationMinutes: Math.round((maximum(valid) - start) / 60000),
+    ...(averageHeartRate && { averageHeartRate }),
+  };
+}
+
+function tagValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1].trim());
+}
+
+/**
+ * TCX: lap totals when present, otherwise the trackpoint times
+ */
+export function parseTcx(xml: string): WorkoutData | null {
+  const laps = Array.from(xml.matchAll(/<Lap\b[^>]*StartTime="([^"]+)"[^>]*>([\s\S]*?)<\/Lap>/g));
+  const heartRates = Array.from(xml.matchAll(/<HeartRateBpm\b[^>]*>\s*<Value>(\d+)<\/Value>/g), match => Number(match[1]))
+    .filter(rate => rate > 0);
+
+  if (laps.length > 0) {
+    const lapSeconds = laps.map(([, , body]) => Number(tagValues(body, 'TotalTimeSeconds')[0]) || 0);
+    const totalSeconds = lapSeconds.reduce((total, seconds) => total + seconds, 0);
+    if (totalSeconds > 0) {
+      const start = minimum(laps.map(([, startTime]) => Date.parse(startTime)));
+      const lapHeartRates = laps.flatMap(([, , body], index) => {
+        const rate = Number(body.match(/<AverageHeartRateBpm\b[^>]*>\s*<Value>(\d+)<\/Value>/)?.[1]);
+        return rate > 0 ? [{ rate, seconds: lapSeconds[index] }] : [];
+      });
+      const weightedSeconds = lapHeartRates.reduce((total, lap) => total + lap.seconds, 0);
+      const averageHeartRate = weightedSeconds > 0
+        ? Math.round(lapHeartRates.reduce((total, lap) => total + lap.rate * lap.seconds, 0) / weightedSeconds)
+        : average(heartRates);
+
+      if (Number.isFinite(start)) {
+        return {
+          startTime: new Date(start).toISOString(),
+          durationMinutes: Math.round(totalSeconds / 60),
+          ...(averageHeartRate && { averageHeartRate }),
+        };
+      }
+    }
+  }
+
+  const trackpoints = Array.from(xml.matchAll(/<Trackpoint\b[^>]*>([\s\S]*?)<\/Trackpoint>/g), match => match[1]);
+  return workoutFromTimes(trackpoints.map(point => Date.parse(tagValues(point, 'Time')[0])), heartRates);
+}
+
+/**
+ * GPX: first to last track point time, heart rate from track point extensions
+ */
+export function parseGpx(xml: string): WorkoutData | null {
+  const points = Array.from(xml.matchAll(/<trkpt\b[^>]*>([\s\S]*?)<\/trkpt>/g), match => match[1]);
+  const heartRates = points
+    .map(point => Number(tagValues(point, 'hr')[0] ?? tagValues(point, 'heartrate')[0]))
+    .filter(rate => rate > 0);
+  return workoutFromTimes(points.map(point => Date.parse(tagValues(point, 'time')[0])), heartRates);
+}
+
+function readUint(bytes: Uint8Array, offset: number, size: number, littleEndian: boolean): number | undefined {
+  if (offset + size > bytes.length) return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, size);
+  if (size === 1) return view.getUint8(0);
+  if (size === 2) return view.getUint16(0, littleEndian);
+  if (size === 4) return view.getUint32(0, littleEndian);
+  return undefined;
+}
+
+interface FitDefinition {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: Array<{ number: number; size: number }>;
+  size: number;
+}
+
+/**
+ * FIT: session messages when present, otherwise the record message timestamps
+ * Invalid values (all bits set) are skipped
+ */
+export function parseFit(bytes: Uint8Array): WorkoutData | null {
+  const headerSize = bytes[0];
+  const dataSize = readUint(bytes, 4, 4, true);
+  if (!dataSize || (headerSize !== 12 && headerSize !== 14) || String.fromCharCode(...bytes.slice(8, 12)) !== '.FIT') {
+    return null;
+  }
+
+  const definitions = new Map<number, FitDefinition>();
+  const sessions: Array<{ start: number; seconds: number; heartRate?: number }> = [];
+  const recordTimes: number[] = [];
+  const recordHeartRates: number[] = [];
+  const end = Math.min(headerSize + dataSize, bytes.length);
+  let offset = headerSize;
+  let lastTimestamp = 0;
+
+  while (offset < end) {
+    const header = bytes[offset++];
+
+    if ((header & 0x80) === 0 && (header & 0x40) !== 0) {
+      const littleEndian = bytes[offset + 1] === 0;
+      const globalMessage = readUint(bytes, offset + 2, 2, littleEndian) ?? 0;
+      const fieldCount = bytes[offset + 4];
+      const fields = Array.from({ length: fieldCount }, (_, index) => ({
+        number: bytes[offset + 5 + index * 3],
+        size: bytes[offset + 6 + index * 3],
+      }));
+      offset += 5 + fieldCount * 3;
+
+      let size = fields.reduce((total, field) => total + field.size, 0);
+      if (header & 0x20) {
+        const developerCount = bytes[offset++];
+        for (let index = 0; index < developerCount; index++) size += bytes[offset + index * 3 + 1];
+        offset += developerCount * 3;
+      }
+      definitions.set(header & 0x0f, { globalMessage, littleEndian, fields, size });
+      continue;
+    }
+
+    // Compressed timestamp headers carry a 5-bit offset from the last full timestamp
+    const compressed = (header & 0x80) !== 0;
+    const definition = definitions.get(compressed ? (header >> 5) & 0x03 : header & 0x0f);
+    if (!definition) return null;
+
+    const values = new Map<number, number>();
+    let fieldOffset = offset;
+    for (const field of definition.fields) {
+      const value = readUint(bytes, fieldOffset, field.size, definition.littleEndian);
+      if (value !== undefined && value !== 2 ** (field.size * 8) - 1) values.set(field.number, value);
+      fieldOffset += field.size;
+    }
+    offset += definition.size;
+
+    if (values.has(FIT_TIMESTAMP_FIELD)) {
+      lastTimestamp = values.get(FIT_TIMESTAMP_FIELD)!;
+    } else if (compressed) {
+      const timeOffset = header & 0x1f;
+      lastTimestamp = (lastTimestamp & ~0x1f) + timeOffset + (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+    }
+    const toMillis = (timestamp: number) => (timestamp + FIT_EPOCH_OFFSET_SECONDS) * 1000;
+
+    if (definition.globalMessage === FIT_SESSION_MESSAGE && values.has(2) && values.has(7)) {
+      sessions.push({ start: toMillis(values.get(2)!), seconds: values.get(7)! / 1000, heartRate: values.get(16) });
+    } else if (definition.globalMessage === FIT_RECORD_MESSAGE && lastTimestamp > 0) {
+      recordTimes.push(toMillis(lastTimestamp));
+      if (values.has(3)) recordHeartRates.push(values.get(3)!);
+    }
+  }
+
+  if (sessions.length > 0) {
+    const seconds = sessions.reduce((total, session) => total + session.seconds, 0);
+    const withHeartRate = sessions.filter(session => session.heartRate);
+    const heartRateSeconds = withHeartRate.reduce((total, session) => total + session.seconds, 0);
+    const averageHeartRate = heartRateSeconds > 0
+      ? Math.round(withHeartRate.reduce((total, session) => total + session.heartRate! * session.seconds, 0) / heartRateSeconds)
+      : average(recordHeartRates);
+    return {
+      startTime: new Date(minimum(sessions.map(session => session.start))).toISOString(),
+      durationMinutes: Math.round(seconds / 60),
+      ...(averageHeartRate && { averageHeartRate }),
+    };
+  }
+
+  return workoutFromTimes(recordTimes, recordHeartRates);
+}
+
+/**
+ * Format from the file extension, falling back to the file contents
+ */
+export function detectWorkoutFileFormat(fileName: string, bytes: Uint8Array): WorkoutFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'fit' || extension === 'tcx' || extension === 'gpx') return extension;
+
+  if (bytes.length >= 12 && String.fromCharCode(...bytes.slice(8, 12)) === '.FIT') return 'fit';
+  const head = new TextDecoder().decode(bytes.slice(0, 1024));
+  if (head.includes('<TrainingCenterDatabase')) return 'tcx';
+  if (head.includes('<gpx')) return 'gpx';
+  return null;
+}
+
+/**
+ * Parse one uploaded file into a workout, or an error naming the file
+ */
+export function parseWorkoutFile(
+  fileName: string,
+  bytes: Uint8Array
+): { workout?: ParsedWorkout; error?: WorkoutFileError } {
+  const format = detectWorkoutFileFormat(fileName, bytes);
+  if (!format) {
+    return { error: { fileName, message: 'Unsupported file type: upload FIT, TCX or GPX files' } };
+  }
+
+  const data = format === 'fit'
+    ? parseFit(bytes)
+    : format === 'tcx'
+      ? parseTcx(new TextDecoder().decode(bytes))
+      : parseGpx(new TextDecoder().decode(bytes));
+
+  if (!data) {
+    return { error: { fileName, message: `No workout start time and duration found in ${format.toUpperCase()} file` } };
+  }
+  return { workout: { fileName, format, ...data } };
+}
@@ -0,0 +1,131 @@
+/**
+ * Workout Import
+ *
+ * Derives workout-frequency, workout-duration and workout-intensity answers
+ * from parsed workout files: sessions per week over the weeks the files cover,
+ * the median session length, and average heart rate against the age-predicted
+ * maximum. The result is a proposal; survey answers change only once the
+ * customer confirms it.
+ */
+
+import type {
+  CustomerData,
+  ParsedWorkout,
+  WorkoutAnswerChange,
+  WorkoutFileError,
+  WorkoutImportAnswers,
+  WorkoutImportField,
+  WorkoutImportProposal,
+  WorkoutImportSummary,
+} from '@/types';
+import {
+  DURATION_MULTIPLIERS,
+  HEART_RATE_INTENSITY_ZONES,
+  INTENSITY_MULTIPLIERS,
+  MAX_HEART_RATE_ESTIMATE,
+  WORKOUT_DURATION_THRESHOLDS,
+  WORKOUT_FREQUENCY_THRESHOLDS,
+  WORKOUT_IMPORT_LIMITS,
+  WORKOUT_SESSIONS_PER_WEEK,
+} from '@/types';
+import { maximum, minimum } from './workout-files';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WORKOUT_IMPORT_FIELDS: WorkoutImportField[] = ['workout-frequency', 'workout-duration', 'workout-intensity'];
+
+const VALID_WORKOUT_ANSWERS: Record<WorkoutImportField, string[]> = {
+  'workout-frequency': Object.keys(WORKOUT_SESSIONS_PER_WEEK),
+  'workout-duration': Object.keys(DURATION_MULTIPLIERS),
+  'workout-intensity': Object.keys(INTENSITY_MULTIPLIERS),
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Sessions per week, median duration and heart rate across the workouts
+ * The covered span runs from the first to the last workout day, at least one week
+ */
+export function summarizeWorkouts(workouts: ParsedWorkout[], age?: number): WorkoutImportSummary {
+  const starts = workouts.map(workout => Date.parse(workout.startTime));
+  const spanDays = workouts.length > 0 ? (maximum(starts) - minimum(starts)) / DAY_MS + 1 : 7;
+  const weeksCovered = Number(Math.max(1, spanDays / 7).toFixed(1));
+
+  const heartRates = workouts.flatMap(workout => workout.averageHeartRate ? [workout.averageHeartRate] : []);
+  const averageHeartRate = heartRates.length > 0
+    ? Math.round(heartRates.reduce((total, rate) => total + rate, 0) / heartRates.length)
+    : undefined;
+  const maxHeartRate = MAX_HEART_RATE_ESTIMATE.BASE - (age ?? MAX_HEART_RATE_ESTIMATE.DEFAULT_AGE);
+
+  return {
+    workoutCount: workouts.length,
+    weeksCovered,
+    sessionsPerWeek: Number((workouts.length / weeksCovered).toFixed(1)),
+    typicalDurationMinutes: workouts.length > 0 ? Math.round(median(workouts.map(workout => workout.durationMinutes))) : 0,
+    ...(averageHeartRate && {
+      averageHeartRate,
+      heartRatePercentOfMax: Math.round((averageHeartRate / maxHeartRate) * 100),
+    }),
+  };
+}
+
+/**
+ * Answers for the summary; nothing is proposed without at least one workout
+ */
+export function deriveWorkoutAnswers(summary: WorkoutImportSummary): WorkoutImportAnswers {
+  if (summary.workoutCount === 0) return {};
+
+  const frequency = WORKOUT_FREQUENCY_THRESHOLDS.find(threshold => summary.sessionsPerWeek >= threshold.minSessionsPerWeek)!;
+  const duration = WORKOUT_DURATION_THRESHOLDS.find(threshold => summary.typicalDurationMinutes >= threshold.minMinutes)!;
+  const intensity = summary.heartRatePercentOfMax !== undefined
+    ? HEART_RATE_INTENSITY_ZONES.find(zone => summary.heartRatePercentOfMax! >= zone.minPercentOfMax)
+    : undefined;
+
+  return {
+    'workout-frequency': frequency.frequency,
+    'workout-duration': duration.duration,
+    ...(intensity && { 'workout-intensity': intensity.intensity }),
+  };
+}
+
+/**
+ * Proposal from parsed workouts and the customer's current answers
+ * Workouts shorter than WORKOUT_IMPORT_LIMITS.MIN_SESSION_MINUTES are ignored
+ */
+export function proposeWorkoutAnswers(
+  parsed: ParsedWorkout[],
+  current: Partial<CustomerData>,
+  errors: WorkoutFileError[] = []
+): WorkoutImportProposal {
+  const workouts = parsed
+    .filter(workout => workout.durationMinutes >= WORKOUT_IMPORT_LIMITS.MIN_SESSION_MINUTES)
+    .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+  const summary = summarizeWorkouts(workouts, current.age);
+  const proposed = deriveWorkoutAnswers(summary);
+
+  const changes: WorkoutAnswerChange[] = WORKOUT_IMPORT_FIELDS.flatMap(field =>
+    proposed[field] && proposed[field] !== current[field]
+      ? [{ field, ...(current[field] && { current: current[field] }), proposed: proposed[field]! }]
+      : []
+  );
+
+  return { summary, proposed, changes, workouts, errors, requiresConfirmation: true };
+}
+
+/**
+ * Errors for confirmed answers that are empty, not importable fields or not valid survey values
+ */
+export function validateWorkoutAnswers(answers: Record<string, unknown>): string[] {
+  const fields = Object.keys(answers);
+  if (fields.length === 0) return ['answers must include at least one confirmed field'];
+
+  return fields.flatMap(field => {
+    const valid = VALID_WORKOUT_ANSWERS[field as WorkoutImportField];
+    if (!valid) return [`${field} cannot be set from a workout import`];
+    return valid.includes(answers[field] as string) ? [] : [`${field} must be one of ${valid.join(', ')}`];
+  });
+}
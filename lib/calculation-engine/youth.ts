@@ -0,0 +1,52 @@
+/**
+ * Youth Pathway
+ *
+ * Customers from VALIDATION_LIMITS.AGE.min up to AGE_OF_MAJORITY get the
+ * stricter YOUTH_SAFETY_LIMITS and need guardian consent attached to their
+ * survey before any formulation can be ordered. The minor only names their
+ * guardian; consent counts once that guardian grants it from their own account.
+ */
+
+import type { CustomerData, GuardianConsent, GuardianConsentDenial, GuardianContact } from '@/types';
+import { AGE_OF_MAJORITY } from '@/types';
+
+/**
+ * Customer younger than AGE_OF_MAJORITY
+ */
+export function isMinor(age: number | null | undefined): boolean {
+  return typeof age === 'number' && age < AGE_OF_MAJORITY;
+}
+
+/**
+ * Guardian consent was granted from a verified guardian account
+ * Self-attested records without a verified guardian never satisfy the gate
+ */
+export function hasGuardianConsent(consent: GuardianConsent | null | undefined): boolean {
+  return consent?.consentType === 'guardian-consent' &&
+    consent.granted === true &&
+    consent.verification === 'guardian-account' &&
+    Boolean(consent.guardianUserId);
+}
+
+/**
+ * Why a signed-in user may not grant consent on a survey, or null when they are its named guardian
+ * The account's email must match the guardian the minor named, and the survey's own account cannot consent for itself
+ */
+export function getGuardianConsentDenial(
+  survey: { age: number | null; userId: string | null; guardian: GuardianContact | null },
+  guardian: { userId: string; email: string }
+): GuardianConsentDenial | null {
+  if (!isMinor(survey.age)) return 'not-required';
+  if (!survey.guardian) return 'not-requested';
+  if (survey.userId === guardian.userId) return 'own-survey';
+  if (survey.guardian.guardianEmail.trim().toLowerCase() !== guardian.email.trim().toLowerCase()) return 'not-named-guardian';
+  return null;
+}
+
+/**
+ * Recommendation attached to every formulation for a minor
+ */
+export function getGuardianRecommendation(customer: Partial<CustomerData>): string | null {
+  if (!isMinor(customer.age)) return null;
+  return `Under ${AGE_OF_MAJORITY}: a parent or legal guardian must give consent before this formulation can be ordered`;
+}
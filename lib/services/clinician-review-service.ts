@@ -0,0 +1,174 @@
+/**
+ * Clinician Review Service
+ *
+ * Loads formulations held by contraindication block rules and records
+ * clinician approve/reject decisions. Held formulations are unorderable
+ * until approved. Only users in the clinicians table may review.
+ */
+
+import { BaseService } from './base-service';
+import { GuardianConsentService } from './guardian-consent-service';
+import { isOrderable } from '@/lib/calculation-engine/contraindications';
+import type { ClinicianReviewDecision, ClinicianReviewStatus, ContraindicationReport } from '@/types';
+
+export interface HeldFormulation {
+  resultId: string;
+  surveyId: string;
+  useCase: string;
+  contraindications: ContraindicationReport | null;
+  createdAt: string;
+}
+
+export class ClinicianReviewService extends BaseService {
+
+  /**
+   * Whether the user holds the clinician role
+   * Lookup failures are treated as not a clinician
+   */
+  static async isClinician(userId: string): Promise<boolean> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: row, error } = await supabase
+        .from('clinicians')
+        .select('user_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        this.handleDatabaseError('check clinician role', error, { userId });
+        return false;
+      }
+
+      return !!row;
+
+    } catch (error) {
+      this.handleDatabaseError('check clinician role', error, { userId });
+      return false;
+    }
+  }
+
+  /**
+   * Formulations waiting for clinician review, oldest first
+   */
+  static async getPendingReviews(): Promise<{ success: boolean; formulations?: HeldFormulation[]; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: rows, error } = await supabase
+        .from('formulation_results')
+        .select('id, customer_survey_id, use_case, contraindications, created_at')
+        .eq('review_status', 'review-required')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return this.handleDatabaseError('load pending clinician reviews', error);
+      }
+
+      const formulations = (rows || []).map(row => ({
+        resultId: row.id,
+        surveyId: row.customer_survey_id,
+        useCase: row.use_case,
+        contraindications: row.contraindications as unknown as ContraindicationReport | null,
+        createdAt: row.created_at,
+      }));
+
+      return { success: true, formulations };
+
+    } catch (error) {
+      return this.handleDatabaseError('load pending clinician reviews', error);
+    }
+  }
+
+  /**
+   * Record a clinician decision on a held formulation
+   * Only formulations currently in review-required can be decided
+   */
+  static async recordReviewDecision(
+    resultId: string,
+    review: ClinicianReviewDecision
+  ): Promise<{ success: boolean; reviewStatus?: ClinicianReviewStatus; orderable?: boolean; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: updated, error } = await supabase
+        .from('formulation_results')
+        .update({
+          review_status: review.decision,
+          reviewed_by: review.reviewerId,
+          reviewed_at: new Date().toISOString(),
+          review_notes: review.notes || null,
+        })
+        .eq('id', resultId)
+        .eq('review_status', 'review-required')
+        .select('id, review_status')
+        .maybeSingle();
+
+      if (error) {
+        return this.handleDatabaseError('record clinician review', error, { resultId });
+      }
+      if (!updated) {
+        return { success: false, error: 'Formulation is not awaiting clinician review' };
+      }
+
+      this.handleDatabaseSuccess('record clinician review', { resultId, decision: review.decision });
+
+      // Approval alone does not make a minor's formulation orderable
+      const orderability = isOrderable(review.decision) ? await this.getOrderability(resultId) : null;
+      return { success: true, reviewStatus: review.decision, orderable: orderability?.orderable ?? false };
+
+    } catch (error) {
+      return this.handleDatabaseError('record clinician review', error, { resultId });
+    }
+  }
+
+  /**
+   * Whether a stored formulation can be ordered
+   * Minors' formulations also need granted guardian consent on their survey
+   */
+  static async getOrderability(
+    resultId: string
+  ): Promise<{
+    success: boolean;
+    reviewStatus?: ClinicianReviewStatus;
+    guardianConsentRequired?: boolean;
+    guardianConsentCaptured?: boolean;
+    orderable?: boolean;
+    error?: string;
+  }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: row, error } = await supabase
+        .from('formulation_results')
+        .select('review_status, guardian_consent_required, customer_survey_id')
+        .eq('id', resultId)
+        .single();
+
+      if (error || !row) {
+        return this.handleDatabaseError('load formulation review status', error, { resultId });
+      }
+
+      const reviewStatus = row.review_status as ClinicianReviewStatus;
+      const guardianConsentRequired = row.guardian_consent_required;
+      let guardianConsentCaptured = false;
+
+      if (guardianConsentRequired) {
+        const consented = await GuardianConsentService.getConsentedSurveyIds([row.customer_survey_id]);
+        if (!consented.success) return { success: false, error: consented.error };
+        guardianConsentCaptured = consented.surveyIds!.includes(row.customer_survey_id);
+      }
+
+      return {
+        success: true,
+        reviewStatus,
+        guardianConsentRequired,
+        guardianConsentCaptured,
+        orderable: isOrderable(reviewStatus) && (!guardianConsentRequired || guardianConsentCaptured),
+      };
+
+    } catch (error) {
+      return this.handleDatabaseError('load formulation review status', error, { resultId });
+    }
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Formulation Feedback Service
+ *
+ * Stores post-consumption feedback for a customer's own formulations and turns
+ * it into reformulation proposals linked back to the original result. The
+ * proposal is stored for review; the original formulation is never changed.
+ */
+
+import { BaseService } from './base-service';
+import { proposeReformulation } from '@/lib/calculation-engine/reformulation';
+import { getFormulaVersion, getStableFormulaVersion } from '@/lib/calculation-engine/versions';
+import type {
+  CustomerData,
+  FeedbackRating,
+  FormulationFeedback,
+  FormulationResult,
+  ReformulationProposal,
+  SymptomSeverity,
+} from '@/types';
+import type { FormulationFeedbackRecord } from '@/types/database';
+
+export interface StoredFeedback extends FormulationFeedback {
+  id: string;
+  formulationId: string;
+  createdAt: string;
+}
+
+function toStoredFeedback(row: FormulationFeedbackRecord): StoredFeedback {
+  return {
+    id: row.id,
+    formulationId: row.formulation_result_id,
+    cramps: row.cramps as SymptomSeverity,
+    giUpset: row.gi_upset as SymptomSeverity,
+    sleepQuality: row.sleep_quality as FeedbackRating,
+    taste: row.taste as FeedbackRating,
+    energy: row.energy as FeedbackRating,
+    ...(row.comments && { comments: row.comments }),
+    createdAt: row.created_at,
+  };
+}
+
+export class FormulationFeedbackService extends BaseService {
+
+  /**
+   * Stored formulation, servings per day and survey answers, when the formulation belongs to the user
+   */
+  private static async loadOwnedFormulation(
+    resultId: string,
+    userId: string
+  ): Promise<{ formulation: FormulationResult; servingsPerDay: number; customer: Partial<CustomerData> } | null> {
+    const supabase = this.getSupabaseClient();
+
+    const { data: row, error } = await supabase
+      .from('formulation_results')
+      .select('formulation_result, customer_survey_id, servings_per_day')
+      .eq('id', resultId)
+      .single();
+
+    if (error || !row) return null;
+
+    const { data: survey } = await supabase
+      .from('customer_surveys')
+      .select('customer_data')
+      .eq('id', row.customer_survey_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!survey) return null;
+
+    const formulation = row.formulation_result as unknown as FormulationResult;
+    return {
+      formulation,
+      servingsPerDay: row.servings_per_day ?? formulation.metadata.recommendedServingsPerDay,
+      customer: survey.customer_data as unknown as Partial<CustomerData>,
+    };
+  }
+
+  /**
+   * Record feedback for one of the user's formulations
+   */
+  static async recordFeedback(
+    resultId: string,
+    userId: string,
+    feedback: FormulationFeedback
+  ): Promise<{ success: boolean; feedback?: StoredFeedback; error?: string }> {
+    try {
+      const owned = await this.loadOwnedFormulation(resultId, userId);
+      if (!owned) {
+        return { success: false, error: 'Formulation not found or access denied' };
+      }
+
+      const supabase = this.getSupabaseClient();
+      const { data: row, error } = await supabase
+        .from('formulation_feedback')
+        .insert({
+          formulation_result_id: resultId,
+          user_id: userId,
+          cramps: feedback.cramps,
+          gi_upset: feedback.giUpset,
+          sleep_quality: feedback.sleepQuality,
+          taste: feedback.taste,
+          energy: feedback.energy,
+          comments: feedback.comments || null,
+        })
+        .select()
+        .single();
+
+      if (error || !row) {
+        return this.handleDatabaseError('record formulation feedback', error, { resultId });
+      }
+
+      this.handleDatabaseSuccess('record formulation feedback', { resultId, feedbackId: row.id });
+      return { success: true, feedback: toStoredFeedback(row) };
+
+    } catch (error) {
+      return this.handleDatabaseError('record formulation feedback', error, { resultId });
+    }
+  }
+
+  /**
+   * Feedback for one of the user's formulations, newest first
+   */
+  static async getFeedback(
+    resultId: string,
+    userId: string
+  ): Promise<{ success: boolean; feedback?: StoredFeedback[]; error?: string }> {
+    try {
+      const owned = await this.loadOwnedFormulation(resultId, userId);
+      if (!owned) {
+        return { success: false, error: 'Formulation not found or access denied' };
+      }
+
+      const supabase = this.getSupabaseClient();
+      const { data: rows, error } = await supabase
+        .from('formulation_feedback')
+        .select('*')
+        .eq('formulation_result_id', resultId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return this.handleDatabaseError('load formulation feedback', error, { resultId });
+      }
+
+      return { success: true, feedback: (rows || []).map(toStoredFeedback) };
+
+    } catch (error) {
+      return this.handleDatabaseError('load formulation feedback', error, { resultId });
+    }
+  }
+
+  /**
+   * Propose and store a reformulation from the given feedback, or the latest when omitted
+   * Uses the formula version the original formulation was calculated with and its stored
+   * servings per day; proposals reaching a contraindication block rule are stored held
+   */
+  static async createReformulation(
+    resultId: string,
+    userId: string,
+    feedbackId?: string
+  ): Promise<{ success: boolean; reformulationId?: string; proposal?: ReformulationProposal; error?: string }> {
+    try {
+      const owned = await this.loadOwnedFormulation(resultId, userId);
+      if (!owned) {
+        return { success: false, error: 'Formulation not found or access denied' };
+      }
+
+      const supabase = this.getSupabaseClient();
+      let query = supabase
+        .from('formulation_feedback')
+        .select('*')
+        .eq('formulation_result_id', resultId);
+      if (feedbackId) {
+        query = query.eq('id', feedbackId);
+      }
+
+      const { data: feedbackRow, error: feedbackError } = await query
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (feedbackError) {
+        return this.handleDatabaseError('load formulation feedback', feedbackError, { resultId });
+      }
+      if (!feedbackRow) {
+        return { success: false, error: 'No feedback recorded for this formulation' };
+      }
+
+      const { formulation, servingsPerDay, customer } = owned;
+      const formula = getFormulaVersion(formulation.metadata.formulaVersion) || getStableFormulaVersion();
+      const proposal = proposeReformulation(formulation, toStoredFeedback(feedbackRow), {
+        sourceResultId: resultId,
+        feedbackId: feedbackRow.id,
+        servingsPerDay,
+        customer,
+        constants: formula.constants,
+      });
+
+      const { data: row, error } = await supabase
+        .from('formulation_reformulations')
+        .insert({
+          source_result_id: resultId,
+          feedback_id: feedbackRow.id,
+          use_case: proposal.useCase,
+          changed: proposal.changed,
+          review_status: proposal.contraindications.reviewStatus,
+          proposal: proposal as any,
+        })
+        .select('id')
+        .single();
+
+      if (error || !row) {
+        return this.handleDatabaseError('save reformulation proposal', error, { resultId });
+      }
+
+      this.handleDatabaseSuccess('save reformulation proposal', {
+        resultId,
+        reformulationId: row.id,
+        changed: proposal.changed,
+        reviewStatus: proposal.contraindications.reviewStatus,
+      });
+      return { success: true, reformulationId: row.id, proposal };
+
+    } catch (error) {
+      return this.handleDatabaseError('save reformulation proposal', error, { resultId });
+    }
+  }
+}
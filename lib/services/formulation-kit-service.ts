@@ -0,0 +1,88 @@
+/**
+ * Formulation Kit Service
+ *
+ * Stores multi-use-case kits as linked formulation_results rows under one
+ * survey (shared kit_id, one primary row) in a single insert, and loads them back
+ */
+
+import { BaseService } from './base-service';
+import { V1DatabaseMappingService } from './v1-database-mapping';
+import type { FormulationKit, FormulationResult, KitRole } from '@/types';
+
+export class FormulationKitService extends BaseService {
+
+  /**
+   * Save every kit component as a formulation_results row linked by kit_id
+   * All rows go in one insert statement, so a failure leaves no partial kit behind
+   */
+  static async saveFormulationKit(
+    surveyId: string,
+    kit: FormulationKit
+  ): Promise<{ success: boolean; kitId?: string; resultIds?: string[]; error?: string }> {
+    const kitId = crypto.randomUUID();
+
+    try {
+      const supabase = this.getSupabaseClient();
+      const rows = kit.components.map(component =>
+        V1DatabaseMappingService.toFormulationResultInsert(surveyId, component.formulation, {
+          kitId,
+          kitRole: component.role,
+        })
+      );
+
+      const { data: saved, error } = await supabase
+        .from('formulation_results')
+        .insert(rows)
+        .select('id');
+
+      if (error || !saved || saved.length !== rows.length) {
+        return this.handleDatabaseError('save formulation kit', error || new Error('Kit components were not all saved'), {
+          surveyId,
+          kitId,
+        });
+      }
+
+      // Rows come back in insert order, so the primary component stays first
+      const resultIds = saved.map(row => row.id);
+      this.handleDatabaseSuccess('save formulation kit', { surveyId, kitId, components: resultIds.length });
+      return { success: true, kitId, resultIds };
+
+    } catch (error) {
+      return this.handleDatabaseError('save formulation kit', error, { surveyId, kitId });
+    }
+  }
+
+  /**
+   * Load the formulations of a kit, primary first
+   */
+  static async getKitFormulations(
+    kitId: string
+  ): Promise<{ success: boolean; formulations?: { role: KitRole; resultId: string; formulation: FormulationResult }[]; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: rows, error } = await supabase
+        .from('formulation_results')
+        .select('id, kit_role, formulation_result')
+        .eq('kit_id', kitId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return this.handleDatabaseError('load formulation kit', error, { kitId });
+      }
+
+      const formulations = (rows || [])
+        .map(row => ({
+          role: row.kit_role as KitRole,
+          resultId: row.id,
+          formulation: row.formulation_result as unknown as FormulationResult,
+        }))
+        .sort((a, b) => (a.role === 'primary' ? -1 : b.role === 'primary' ? 1 : 0));
+
+      return { success: true, formulations };
+
+    } catch (error) {
+      return this.handleDatabaseError('load formulation kit', error, { kitId });
+    }
+  }
+}
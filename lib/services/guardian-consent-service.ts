@@ -0,0 +1,186 @@
+/**
+ * Guardian Consent Service
+ *
+ * Records parent or legal guardian consent on the survey of a customer under
+ * AGE_OF_MAJORITY. The minor's session only names the guardian; consent is
+ * recorded when the named guardian grants it from their own account.
+ * Formulations saved for a minor stay unorderable until it is granted.
+ */
+
+import { BaseService } from './base-service';
+import { isMinor, hasGuardianConsent, getGuardianConsentDenial } from '@/lib/calculation-engine/youth';
+import type { GuardianConsent, GuardianConsentDenial, GuardianConsentStatus, GuardianContact } from '@/types';
+import { AGE_OF_MAJORITY } from '@/types';
+
+export class GuardianConsentService extends BaseService {
+
+  /**
+   * Guardian consent status of a survey, validated against its session
+   */
+  static async getConsentStatus(
+    surveyId: string,
+    sessionId: string
+  ): Promise<{ success: boolean; status?: GuardianConsentStatus; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: survey, error } = await supabase
+        .from('customer_surveys')
+        .select('age, guardian_contact, guardian_consent')
+        .eq('id', surveyId)
+        .eq('session_id', sessionId)
+        .single();
+
+      if (error || !survey) {
+        if (error?.code === 'PGRST116') {
+          return { success: false, error: 'Survey not found or access denied' };
+        }
+        return this.handleDatabaseError('load guardian consent', error, { surveyId });
+      }
+
+      return { success: true, status: this.toStatus(survey.age, survey.guardian_contact, survey.guardian_consent) };
+
+    } catch (error) {
+      return this.handleDatabaseError('load guardian consent', error, { surveyId });
+    }
+  }
+
+  /**
+   * Name the guardian who must consent on a minor's survey, clearing any earlier consent
+   * Adult surveys are left unchanged and reported with their status
+   */
+  static async requestConsent(
+    surveyId: string,
+    sessionId: string,
+    guardian: GuardianContact
+  ): Promise<{ success: boolean; status?: GuardianConsentStatus; error?: string }> {
+    try {
+      const current = await this.getConsentStatus(surveyId, sessionId);
+      if (!current.success) return current;
+      if (!current.status!.required) {
+        return { success: false, status: current.status, error: `Guardian consent is only recorded for customers under ${AGE_OF_MAJORITY}` };
+      }
+
+      const supabase = this.getSupabaseClient();
+      const { error } = await supabase
+        .from('customer_surveys')
+        .update({ guardian_contact: guardian as any, guardian_consent: null })
+        .eq('id', surveyId)
+        .eq('session_id', sessionId);
+
+      if (error) {
+        return this.handleDatabaseError('request guardian consent', error, { surveyId });
+      }
+
+      this.handleDatabaseSuccess('request guardian consent', { surveyId });
+
+      return { success: true, status: { required: true, captured: false, guardian } };
+
+    } catch (error) {
+      return this.handleDatabaseError('request guardian consent', error, { surveyId });
+    }
+  }
+
+  /**
+   * Record the signed-in guardian's decision on a minor's survey, replacing any earlier one
+   * Only the account whose email matches the named guardian can decide, and never the survey's own account
+   */
+  static async grantConsent(
+    surveyId: string,
+    guardianAccount: { userId: string; email: string },
+    decision: Pick<GuardianConsent, 'granted' | 'timestamp' | 'version' | 'ipAddress' | 'userAgent' | 'signature'>
+  ): Promise<{ success: boolean; status?: GuardianConsentStatus; denial?: GuardianConsentDenial; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: survey, error: loadError } = await supabase
+        .from('customer_surveys')
+        .select('age, user_id, guardian_contact')
+        .eq('id', surveyId)
+        .single();
+
+      if (loadError || !survey) {
+        if (loadError?.code === 'PGRST116') {
+          return { success: false, error: 'Survey not found' };
+        }
+        return this.handleDatabaseError('load guardian contact', loadError, { surveyId });
+      }
+
+      const guardian = survey.guardian_contact as unknown as GuardianContact | null;
+      const denial = getGuardianConsentDenial({ age: survey.age, userId: survey.user_id, guardian }, guardianAccount);
+      if (denial) {
+        return { success: false, denial, error: `Guardian consent refused: ${denial}` };
+      }
+
+      const consent: GuardianConsent = {
+        ...decision,
+        consentType: 'guardian-consent',
+        guardianName: guardian!.guardianName,
+        guardianEmail: guardian!.guardianEmail,
+        relationship: guardian!.relationship,
+        guardianUserId: guardianAccount.userId,
+        verification: 'guardian-account',
+        verifiedAt: new Date(),
+      };
+
+      const { error } = await supabase
+        .from('customer_surveys')
+        .update({ guardian_consent: consent as any })
+        .eq('id', surveyId);
+
+      if (error) {
+        return this.handleDatabaseError('record guardian consent', error, { surveyId });
+      }
+
+      this.handleDatabaseSuccess('record guardian consent', { surveyId, granted: consent.granted });
+
+      return { success: true, status: { required: true, captured: hasGuardianConsent(consent), guardian: guardian!, consent } };
+
+    } catch (error) {
+      return this.handleDatabaseError('record guardian consent', error, { surveyId });
+    }
+  }
+
+  /**
+   * The surveys, of those given, with granted guardian consent
+   */
+  static async getConsentedSurveyIds(
+    surveyIds: string[]
+  ): Promise<{ success: boolean; surveyIds?: string[]; error?: string }> {
+    if (surveyIds.length === 0) return { success: true, surveyIds: [] };
+
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: surveys, error } = await supabase
+        .from('customer_surveys')
+        .select('id, guardian_consent')
+        .in('id', surveyIds);
+
+      if (error) {
+        return this.handleDatabaseError('load guardian consents', error, { surveys: surveyIds.length });
+      }
+
+      return {
+        success: true,
+        surveyIds: (surveys || [])
+          .filter(survey => hasGuardianConsent(survey.guardian_consent as unknown as GuardianConsent | null))
+          .map(survey => survey.id),
+      };
+
+    } catch (error) {
+      return this.handleDatabaseError('load guardian consents', error, { surveys: surveyIds.length });
+    }
+  }
+
+  private static toStatus(age: number | null, storedContact: unknown, storedConsent: unknown): GuardianConsentStatus {
+    const guardian = storedContact as GuardianContact | null;
+    const consent = storedConsent as GuardianConsent | null;
+    return {
+      required: isMinor(age),
+      captured: hasGuardianConsent(consent),
+      ...(guardian && { guardian }),
+      ...(consent && { consent }),
+    };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Production Plan Service
+ *
+ * Loads the orderable formulations saved in a date range and plans their
+ * production batches and runs. Formulations held for clinician review are
+ * left out until approved, and minors' formulations until guardian consent
+ * is granted.
+ */
+
+import { BaseService } from './base-service';
+import { GuardianConsentService } from './guardian-consent-service';
+import { isOrderable } from '@/lib/calculation-engine/contraindications';
+import { buildRecipeSheet } from '@/lib/calculation-engine/recipe-sheet';
+import { buildProductionPlan } from '@/lib/calculation-engine/production-planner';
+import type {
+  ClinicianReviewStatus,
+  FormulationResult,
+  ProductionOrder,
+  ProductionPlan,
+  ProductionPlanOptions,
+  RecipeSheet,
+} from '@/types';
+
+export class ProductionPlanService extends BaseService {
+
+  /**
+   * Production plan for formulations saved between from and to (inclusive)
+   */
+  static async getProductionPlan(
+    range: { from: string; to: string },
+    options: ProductionPlanOptions = {}
+  ): Promise<{ success: boolean; plan?: ProductionPlan; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: rows, error } = await supabase
+        .from('formulation_results')
+        .select('id, customer_survey_id, created_at, formulation_result, recipe, servings_per_day, review_status, guardian_consent_required')
+        .gte('created_at', range.from)
+        .lte('created_at', range.to)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return this.handleDatabaseError('load formulations for production', error, { ...range });
+      }
+
+      const reviewed = (rows || []).filter(row => isOrderable(row.review_status as ClinicianReviewStatus));
+      const consented = await GuardianConsentService.getConsentedSurveyIds(
+        Array.from(new Set(reviewed.filter(row => row.guardian_consent_required).map(row => row.customer_survey_id)))
+      );
+      if (!consented.success) {
+        return { success: false, error: consented.error };
+      }
+
+      const orders: ProductionOrder[] = reviewed
+        .filter(row => !row.guardian_consent_required || consented.surveyIds!.includes(row.customer_survey_id))
+        .map(row => {
+          const formulation = row.formulation_result as unknown as FormulationResult;
+          return {
+            formulationId: row.id,
+            createdAt: row.created_at,
+            servingsPerDay: row.servings_per_day ?? formulation.metadata.recommendedServingsPerDay,
+            recipe: row.recipe ? row.recipe as unknown as RecipeSheet : buildRecipeSheet(formulation),
+          };
+        });
+
+      this.handleDatabaseSuccess('load formulations for production', { ...range, formulations: orders.length });
+
+      return { success: true, plan: buildProductionPlan(orders, range, options) };
+
+    } catch (error) {
+      return this.handleDatabaseError('load formulations for production', error, { ...range });
+    }
+  }
+}
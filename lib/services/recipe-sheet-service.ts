@@ -0,0 +1,41 @@
+/**
+ * Recipe Sheet Service
+ *
+ * Loads the compounding recipe stored with a formulation result. Rows saved
+ * before recipes were stored get one generated from their formulation.
+ */
+
+import { BaseService } from './base-service';
+import { buildRecipeSheet } from '@/lib/calculation-engine/recipe-sheet';
+import type { FormulationResult, RecipeSheet } from '@/types';
+
+export class RecipeSheetService extends BaseService {
+
+  /**
+   * Recipe sheet for a stored formulation result
+   */
+  static async getRecipeSheet(resultId: string): Promise<{ success: boolean; recipe?: RecipeSheet; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      const { data: row, error } = await supabase
+        .from('formulation_results')
+        .select('recipe, formulation_result')
+        .eq('id', resultId)
+        .single();
+
+      if (error || !row) {
+        return this.handleDatabaseError('load recipe sheet', error, { resultId });
+      }
+
+      const recipe = row.recipe
+        ? row.recipe as unknown as RecipeSheet
+        : buildRecipeSheet(row.formulation_result as unknown as FormulationResult);
+
+      return { success: true, recipe };
+
+    } catch (error) {
+      return this.handleDatabaseError('load recipe sheet', error, { resultId });
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Shadow Comparison Service
+ *
+ * Stores shadow mode comparisons between the active calculation engine and a
+ * candidate engine, and builds drift reports across stored comparisons
+ */
+
+import { BaseService } from './base-service';
+import { logger } from '@/lib/logger';
+import type { CustomerData, FormulationResult, FormulationComparison, DriftReport } from '@/types';
+import type { FormulationComparisonInsert, FormulationComparisonRecord } from '@/types/database';
+import { compareFormulations, summarizeDrift } from '@/lib/calculation-engine/comparison';
+import { createShadowEngine } from '@/lib/calculation-engine/factory';
+
+export interface DriftReportFilters {
+  activeEngine?: string;
+  candidateEngine?: string;
+  since?: string; // ISO timestamp
+}
+
+export class ShadowComparisonService extends BaseService {
+
+  /**
+   * Run the shadow candidate engine (if configured) and store its comparison
+   * Never throws - shadow failures must not affect the active response
+   */
+  static async runShadowComparison(
+    customerData: CustomerData,
+    activeFormulation: FormulationResult,
+    activeEngine: string,
+    surveyId?: string
+  ): Promise<{ success: boolean; comparison?: FormulationComparison }> {
+    const shadow = createShadowEngine();
+    if (!shadow) {
+      return { success: true };
+    }
+
+    try {
+      const candidateFormulation = await shadow.engine.calculate(customerData);
+      const comparison = compareFormulations(activeFormulation, candidateFormulation, {
+        activeEngine,
+        candidateEngine: shadow.label,
+      });
+
+      const saveResult = await this.saveComparison(comparison, surveyId);
+      return { success: saveResult.success, comparison };
+
+    } catch (error) {
+      logger.error('Shadow engine calculation failed', error instanceof Error ? error : new Error(String(error)), {
+        activeEngine,
+        candidateEngine: shadow.label,
+      });
+      return { success: false };
+    }
+  }
+
+  /**
+   * Save a comparison for a calculated survey
+   */
+  static async saveComparison(
+    comparison: FormulationComparison,
+    surveyId?: string
+  ): Promise<{ success: boolean; comparisonId?: string; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+      const { electrolyteDeltas } = comparison;
+
+      const comparisonInsert: FormulationComparisonInsert = {
+        customer_survey_id: surveyId || null,
+        active_engine: comparison.activeEngine,
+        candidate_engine: comparison.candidateEngine,
+        active_use_case: comparison.activeUseCase,
+        candidate_use_case: comparison.candidateUseCase,
+        use_case_match: comparison.useCaseMatch,
+        sodium_delta_mg: electrolyteDeltas.sodium.delta,
+        potassium_delta_mg: electrolyteDeltas.potassium.delta,
+        magnesium_delta_mg: electrolyteDeltas.magnesium.delta,
+        calcium_delta_mg: electrolyteDeltas.calcium.delta,
+        max_abs_percent_delta: comparison.maxAbsolutePercentDelta,
+        electrolyte_deltas: electrolyteDeltas as any,
+        safety_limit_differences: comparison.safetyLimitDifferences as any,
+      };
+
+      const { data: record, error } = await supabase
+        .from('formulation_comparisons')
+        .insert(comparisonInsert)
+        .select()
+        .single();
+
+      if (error) {
+        return this.handleDatabaseError('save formulation comparison', error, { surveyId });
+      }
+
+      this.handleDatabaseSuccess('save formulation comparison', {
+        comparisonId: record.id,
+        candidateEngine: comparison.candidateEngine,
+        useCaseMatch: comparison.useCaseMatch,
+      });
+
+      return { success: true, comparisonId: record.id };
+
+    } catch (error) {
+      return this.handleDatabaseError('save formulation comparison', error, { surveyId });
+    }
+  }
+
+  /**
+   * Summarise drift across all stored comparisons matching the filters
+   */
+  static async getDriftReport(
+    filters: DriftReportFilters = {}
+  ): Promise<{ success: boolean; report?: DriftReport; error?: string }> {
+    try {
+      const supabase = this.getSupabaseClient();
+
+      let query = supabase
+        .from('formulation_comparisons')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (filters.activeEngine) {
+        query = query.eq('active_engine', filters.activeEngine);
+      }
+      if (filters.candidateEngine) {
+        query = query.eq('candidate_engine', filters.candidateEngine);
+      }
+      if (filters.since) {
+        query = query.gte('created_at', filters.since);
+      }
+
+      const { data: records, error } = await query;
+
+      if (error) {
+        return this.handleDatabaseError('load formulation comparisons', error, { ...filters });
+      }
+
+      const report = summarizeDrift((records || []).map(record => this.mapRecordToComparison(record)));
+      return { success: true, report };
+
+    } catch (error) {
+      return this.handleDatabaseError('load formulation comparisons', error, { ...filters });
+    }
+  }
+
+  // ================== PRIVATE HELPER METHODS ==================
+
+  private static mapRecordToComparison(
+    record: FormulationComparisonRecord
+  ): FormulationComparison & { createdAt: string } {
+    return {
+      activeEngine: record.active_engine,
+      candidateEngine: record.candidate_engine,
+      activeUseCase: record.active_use_case,
+      candidateUseCase: record.candidate_use_case,
+      useCaseMatch: record.use_case_match,
+      electrolyteDeltas: record.electrolyte_deltas as unknown as FormulationComparison['electrolyteDeltas'],
+      safetyLimitDifferences: record.safety_limit_differences as unknown as FormulationComparison['safetyLimitDifferences'],
+      maxAbsolutePercentDelta: Number(record.max_abs_percent_delta),
+      createdAt: record.created_at,
+    };
+  }
+}
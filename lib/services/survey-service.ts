@@ -6,6 +6,7 @@
  */
 
 import { BaseService } from './base-service';
+import { detectUseCase } from '@/lib/calculation-engine/use-case-detector';
 import type { CustomerData } from '@/types/interfaces';
 import type { 
   CustomerSurveyInsert,
@@ -17,6 +18,7 @@ export class SurveyService extends BaseService {
   /**
    * Create or update survey draft with proper user ownership
    * Handles both anonymous and authenticated users
+   * detected_use_case always comes from the detector; a use case passed by the caller is stored as requested_use_case
    */
   static async createSurveyDraft(
     sessionId: string,
@@ -34,14 +36,17 @@ export class SurveyService extends BaseService {
         customer_data: surveyData as any,
         status: 'draft',
         completion_percentage: this.calculateCompletionPercentage(surveyData),
-        detected_use_case: useCase,
+        detected_use_case: detectUseCase(surveyData).useCase,
+        requested_use_case: useCase ?? null,
         source: 'web',
         expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
         age: surveyData.age,
         biological_sex: surveyData['biological-sex'],
         weight: surveyData.weight ? parseFloat(surveyData.weight.toString()) : null,
         activity_level: surveyData['activity-level'],
-        sweat_level: surveyData['sweat-level']
+        sweat_level: surveyData['sweat-level'],
+        flavor_family: surveyData['flavor-profile']?.family ?? null,
+        sugar_free: surveyData['flavor-profile']?.sugarFree ?? null
       };
 
       const { data: survey, error } = await supabase
@@ -119,6 +124,51 @@ export class SurveyService extends BaseService {
     }
   }
 
+  /**
+   * Merge confirmed answers into a survey draft the caller owns
+   * Completion and detected use case are recalculated from the merged answers
+   */
+  static async updateSurveyAnswers(
+    draftId: string,
+    sessionId: string,
+    userId: string | null,
+    answers: Partial<CustomerData>
+  ): Promise<{ success: boolean; surveyData?: Partial<CustomerData>; error?: string }> {
+    try {
+      const loaded = await this.loadSurveyDraft(draftId, sessionId, userId);
+      if (!loaded.success) {
+        return { success: false, error: loaded.error };
+      }
+
+      const surveyData: Partial<CustomerData> = { ...loaded.draft.customer_data, ...answers };
+      const updateData: CustomerSurveyUpdate = {
+        customer_data: surveyData as any,
+        completion_percentage: this.calculateCompletionPercentage(surveyData),
+        detected_use_case: detectUseCase(surveyData).useCase
+      };
+
+      const supabase = this.getSupabaseClient();
+      const { error } = await supabase
+        .from('customer_surveys')
+        .update(updateData)
+        .eq('id', draftId);
+
+      if (error) {
+        return this.handleDatabaseError('update survey answers', error, { draftId });
+      }
+
+      this.handleDatabaseSuccess('update survey answers', {
+        draftId,
+        fields: Object.keys(answers)
+      });
+
+      return { success: true, surveyData };
+
+    } catch (error) {
+      return this.handleDatabaseError('update survey answers', error, { draftId });
+    }
+  }
+
   /**
    * Link anonymous survey data to authenticated user
    */
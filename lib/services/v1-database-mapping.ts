@@ -11,6 +11,8 @@ import type {
   CustomerData,
   FormulationResult,
   ValidationResult,
+  CalculationTraceEntry,
+  KitRole,
 } from '@/types';
 
 import type {
@@ -22,7 +24,7 @@ import type {
 import {
   LEGACY_INTAKE_ESTIMATES,
   VALIDATION_LIMITS,
-  USE_CASE_DETECTION_ORDER,
+  DEFAULT_PRODUCT_FORMAT,
 } from '@/types/constants';
 
 import {
@@ -38,6 +40,9 @@ import {
 } from '@/types/utils';
 
 import { BaseService } from './base-service';
+import { detectUseCase } from '@/lib/calculation-engine/use-case-detector';
+import { buildRecipeSheet } from '@/lib/calculation-engine/recipe-sheet';
+import { isMinor } from '@/lib/calculation-engine/youth';
 
 // ================== INTERFACES ==================
 
@@ -81,7 +86,7 @@ export class V1DatabaseMappingService extends BaseService {
       const intakeFormats = this.detectIntakeFormats(normalizedData);
       const intakeConversions = this.convertIntakeValues(normalizedData, intakeFormats);
       const derivedFields = this.extractDerivedFields(normalizedData);
-      const detectedUseCase = this.detectUseCase(normalizedData);
+      const { useCase: detectedUseCase } = detectUseCase(normalizedData);
       
       const supabase = this.getSupabaseClient();
       
@@ -138,31 +143,53 @@ export class V1DatabaseMappingService extends BaseService {
     }
   }
   
+  /**
+   * Maps a V1 FormulationResult to a formulation_results row with metadata preservation
+   */
+  static toFormulationResultInsert(
+    surveyId: string,
+    formulationResult: FormulationResult,
+    options?: { priceCents?: number; formulaName?: string; kitId?: string; kitRole?: KitRole; }
+  ): FormulationResultInsert {
+    // Trace is stored in its own column rather than duplicated inside the result JSONB
+    const { calculationTrace, ...metadata } = formulationResult.metadata;
+
+    return {
+      customer_survey_id: surveyId,
+      formulation_result: { ...formulationResult, metadata } as any,
+      calculation_trace: (calculationTrace as any) || null,
+      use_case: formulationResult.useCase,
+      formula_version: formulationResult.metadata.formulaVersion,
+      serving_size: formulationResult.metadata.servingSize,
+      product_format: formulationResult.productFormat?.id || DEFAULT_PRODUCT_FORMAT,
+      servings_per_day: formulationResult.metadata.recommendedServingsPerDay,
+      sodium_mg: formulationResult.formulationPerServing.sodium,
+      potassium_mg: formulationResult.formulationPerServing.potassium,
+      magnesium_mg: formulationResult.formulationPerServing.magnesium,
+      calcium_mg: formulationResult.formulationPerServing.calcium,
+      price_cents: options?.priceCents || null,
+      formula_name: options?.formulaName || null,
+      kit_id: options?.kitId || null,
+      kit_role: options?.kitRole || null,
+      review_status: formulationResult.metadata.contraindications?.reviewStatus || 'not-required',
+      contraindications: (formulationResult.metadata.contraindications as any) || null,
+      recipe: formulationResult.metadata.electrolyteForms ? buildRecipeSheet(formulationResult) as any : null,
+      guardian_consent_required: isMinor(formulationResult.metadata.customerAge),
+    };
+  }
+
   /**
    * Saves V1 FormulationResult to database with metadata preservation
    */
   static async saveFormulationResult(
     surveyId: string,
     formulationResult: FormulationResult,
-    options?: { priceCents?: number; formulaName?: string; }
+    options?: { priceCents?: number; formulaName?: string; kitId?: string; kitRole?: KitRole; }
   ): Promise<{ success: boolean; resultId?: string }> {
     
     try {
       const supabase = this.getSupabaseClient();
-      
-      const resultData: FormulationResultInsert = {
-        customer_survey_id: surveyId,
-        formulation_result: formulationResult as any,
-        use_case: formulationResult.useCase,
-        formula_version: formulationResult.metadata.formulaVersion,
-        serving_size: formulationResult.metadata.servingSize,
-        sodium_mg: formulationResult.formulationPerServing.sodium,
-        potassium_mg: formulationResult.formulationPerServing.potassium,
-        magnesium_mg: formulationResult.formulationPerServing.magnesium,
-        calcium_mg: formulationResult.formulationPerServing.calcium,
-        price_cents: options?.priceCents || null,
-        formula_name: options?.formulaName || null,
-      };
+      const resultData = this.toFormulationResultInsert(surveyId, formulationResult, options);
       
       const { data: result, error } = await supabase
         .from('formulation_results')
@@ -226,7 +253,11 @@ export class V1DatabaseMappingService extends BaseService {
         return null;
       }
       
-      return result.formulation_result as unknown as FormulationResult;
+      const formulation = result.formulation_result as unknown as FormulationResult;
+      if (result.calculation_trace) {
+        formulation.metadata.calculationTrace = result.calculation_trace as unknown as CalculationTraceEntry[];
+      }
+      return formulation;
       
     } catch (error) {
       console.error('Formulation Result Retrieval Error:', error);
@@ -285,23 +316,10 @@ export class V1DatabaseMappingService extends BaseService {
       weight: customerData.weight,
       activity_level: customerData['activity-level'],
       sweat_level: customerData['sweat-level'],
+      flavor_family: customerData['flavor-profile']?.family ?? null,
+      sugar_free: customerData['flavor-profile']?.sugarFree ?? null,
     };
   }
-  
-  private static detectUseCase(customerData: CustomerData): string {
-    // V1 Use Case Detection Logic (PRESERVE EXACT ORDER)
-    if (customerData['sleep-issues']?.length && customerData['sleep-issues'][0] !== 'none') {
-      return 'bedtime';
-    }
-    if (customerData['menstrual-symptoms']?.length && customerData['menstrual-symptoms'][0] !== 'none') {
-      return 'menstrual';
-    }
-    if ((customerData['sweat-level'] === 'heavy' || customerData['sweat-level'] === 'excessive') &&
-        (customerData['workout-frequency'] === 'daily' || customerData['workout-frequency'] === '4-6-per-week')) {
-      return 'sweat';
-    }
-    return 'daily';
-  }
 }
 
 // Export utilities separately to avoid circular dependencies
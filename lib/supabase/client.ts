@@ -142,6 +142,18 @@ export async function signOut() {
   }
 }
 
+/**
+ * Resolve the signed-in user from the request's Supabase auth cookie (server-side)
+ * The access token is verified with Supabase, so request headers are never trusted for identity
+ */
+export async function getRequestUser(request: Request) {
+  const token = extractTokenFromRequest(request);
+  if (!token) return null;
+
+  const { isValid, user } = await validateServerSession(token);
+  return isValid ? user : null;
+}
+
 /**
  * Validate session server-side
  */
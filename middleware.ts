@@ -33,14 +33,23 @@ const AUTH_ROUTES = [
 // API routes that require authentication
 const PROTECTED_API_ROUTES = [
   '/api/user',
-  '/api/surveys/user'
+  '/api/surveys/user',
+  '/api/formula/shadow-report',
+  '/api/formula/review',
+  '/api/formula/recipe',
+  '/api/formula/production-plan',
+  '/api/formula/feedback',
+  '/api/formula/reformulate',
+  '/api/surveys/guardian-consent/grant'
 ];
 
 // Anonymous survey routes (no auth required)
 const ANONYMOUS_SURVEY_ROUTES = [
   '/survey',
   '/api/formula/calculate',
-  '/api/intake'
+  '/api/formula/what-if',
+  '/api/intake',
+  '/api/surveys/guardian-consent'
 ];
 
 export async function middleware(request: NextRequest) {
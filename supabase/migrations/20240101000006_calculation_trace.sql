@@ -0,0 +1,15 @@
+-- Personal Potions V2 - Calculation Trace Storage
+-- Stores the step-by-step engine trace alongside each formulation result
+-- so support staff can explain how every electrolyte amount was derived
+
+-- ================== FORMULATION RESULT TRACE ==================
+
+ALTER TABLE public.formulation_results
+  ADD COLUMN calculation_trace JSONB;
+
+-- Trace must be an array of entries when present
+ALTER TABLE public.formulation_results
+  ADD CONSTRAINT valid_calculation_trace
+  CHECK (calculation_trace IS NULL OR jsonb_typeof(calculation_trace) = 'array');
+
+COMMENT ON COLUMN public.formulation_results.calculation_trace IS 'Ordered CalculationTraceEntry array: step, electrolyte, constant applied, value before/after and safety clamps';
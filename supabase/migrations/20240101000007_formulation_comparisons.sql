@@ -0,0 +1,51 @@
+-- Personal Potions V2 - Shadow Mode Formulation Comparisons
+-- Stores the diff between the active engine result and a shadow candidate engine
+-- for the same survey, so drift can be reviewed before switching engines or versions
+
+-- ================== FORMULATION COMPARISONS ==================
+
+CREATE TABLE public.formulation_comparisons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_survey_id UUID REFERENCES public.customer_surveys(id) ON DELETE CASCADE,
+
+  -- Engines compared, e.g. "mock@1.4" vs "core@1.5"
+  active_engine TEXT NOT NULL,
+  candidate_engine TEXT NOT NULL,
+
+  -- Use case agreement
+  active_use_case TEXT NOT NULL,
+  candidate_use_case TEXT NOT NULL,
+  use_case_match BOOLEAN NOT NULL,
+
+  -- Per-serving deltas (candidate - active)
+  sodium_delta_mg DECIMAL(8,3) NOT NULL,
+  potassium_delta_mg DECIMAL(8,3) NOT NULL,
+  magnesium_delta_mg DECIMAL(8,3) NOT NULL,
+  calcium_delta_mg DECIMAL(8,3) NOT NULL,
+  max_abs_percent_delta DECIMAL(8,2) NOT NULL DEFAULT 0,
+
+  -- Full comparison detail
+  electrolyte_deltas JSONB NOT NULL,
+  safety_limit_differences JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Audit
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_formulation_comparisons_engines ON public.formulation_comparisons(active_engine, candidate_engine);
+CREATE INDEX idx_formulation_comparisons_use_case_match ON public.formulation_comparisons(use_case_match);
+CREATE INDEX idx_formulation_comparisons_created_at ON public.formulation_comparisons(created_at);
+
+-- ================== RLS ==================
+
+-- Internal analysis data: only the service role may read or write
+ALTER TABLE public.formulation_comparisons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role bypass" ON public.formulation_comparisons
+  FOR ALL
+  USING (current_setting('role') = 'service_role')
+  WITH CHECK (current_setting('role') = 'service_role');
+
+COMMENT ON TABLE public.formulation_comparisons IS 'Shadow mode comparisons between the active calculation engine and a candidate engine or formula version';
+COMMENT ON COLUMN public.formulation_comparisons.electrolyte_deltas IS 'Per-electrolyte {active, candidate, delta, percentDelta} in mg per serving';
+COMMENT ON COLUMN public.formulation_comparisons.safety_limit_differences IS 'Electrolytes clamped by only one of the two engines: [{electrolyte, activeClamped, candidateClamped}]';
@@ -0,0 +1,27 @@
+-- Personal Potions V2 - Multi-Use-Case Formulation Kits
+-- Links several formulation_results rows for one survey into a kit
+-- (e.g. sweat + bedtime), each row holding one use case formulation
+
+-- ================== KIT LINKING ==================
+
+ALTER TABLE public.formulation_results
+  ADD COLUMN kit_id UUID,
+  ADD COLUMN kit_role TEXT;
+
+-- Kit rows always carry both fields; standalone formulations carry neither
+ALTER TABLE public.formulation_results
+  ADD CONSTRAINT valid_kit_role
+  CHECK (
+    (kit_id IS NULL AND kit_role IS NULL) OR
+    (kit_id IS NOT NULL AND kit_role IN ('primary', 'component'))
+  );
+
+-- One primary formulation per kit
+CREATE UNIQUE INDEX idx_formulation_results_kit_primary
+  ON public.formulation_results(kit_id)
+  WHERE kit_role = 'primary';
+
+CREATE INDEX idx_formulation_results_kit_id ON public.formulation_results(kit_id);
+
+COMMENT ON COLUMN public.formulation_results.kit_id IS 'Shared by every formulation in a multi-use-case kit for the same survey';
+COMMENT ON COLUMN public.formulation_results.kit_role IS 'primary (detected use case) or component (additional qualifying use case)';
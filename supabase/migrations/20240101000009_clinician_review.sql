@@ -0,0 +1,34 @@
+-- Personal Potions V2 - Clinician Review Hold
+-- Formulations that hit a contraindication block rule (e.g. kidney disease
+-- with high potassium) are held for clinician review and cannot be ordered
+-- until a clinician approves them
+
+-- ================== REVIEW STATUS ==================
+
+ALTER TABLE public.formulation_results
+  ADD COLUMN review_status TEXT NOT NULL DEFAULT 'not-required',
+  ADD COLUMN contraindications JSONB,
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMPTZ,
+  ADD COLUMN review_notes TEXT;
+
+ALTER TABLE public.formulation_results
+  ADD CONSTRAINT valid_review_status
+  CHECK (review_status IN ('not-required', 'review-required', 'approved', 'rejected'));
+
+-- Decided reviews always record who decided and when
+ALTER TABLE public.formulation_results
+  ADD CONSTRAINT review_decision_recorded
+  CHECK (
+    review_status NOT IN ('approved', 'rejected') OR
+    (reviewed_by IS NOT NULL AND reviewed_at IS NOT NULL)
+  );
+
+-- Clinician queue of held formulations
+CREATE INDEX idx_formulation_results_review_required
+  ON public.formulation_results(created_at)
+  WHERE review_status = 'review-required';
+
+COMMENT ON COLUMN public.formulation_results.review_status IS 'not-required | review-required | approved | rejected - only not-required and approved formulations are orderable';
+COMMENT ON COLUMN public.formulation_results.contraindications IS 'ContraindicationReport: matched rules, highest severity and review status at calculation time';
+COMMENT ON COLUMN public.formulation_results.reviewed_by IS 'Clinician who approved or rejected a held formulation';
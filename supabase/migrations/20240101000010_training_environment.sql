@@ -0,0 +1,37 @@
+-- Personal Potions V2 - Training Environment Constraints
+-- Optional training temperature, humidity, altitude and indoor/outdoor answers
+-- stored in customer_data JSONB (ranges match VALIDATION_LIMITS)
+
+-- ================== CUSTOMER SURVEYS CONSTRAINTS ==================
+
+-- Typical training temperature in °F
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_training_temperature 
+CHECK (
+  customer_data->>'training-temperature' IS NULL OR 
+  (customer_data->>'training-temperature')::NUMERIC BETWEEN -40 AND 130
+);
+
+-- Relative humidity in %
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_training_humidity 
+CHECK (
+  customer_data->>'training-humidity' IS NULL OR 
+  (customer_data->>'training-humidity')::NUMERIC BETWEEN 0 AND 100
+);
+
+-- Altitude in feet above sea level
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_altitude 
+CHECK (
+  customer_data->>'altitude' IS NULL OR 
+  (customer_data->>'altitude')::NUMERIC BETWEEN -1500 AND 18000
+);
+
+-- Indoor / outdoor training
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_training_environment 
+CHECK (
+  customer_data->>'training-environment' IS NULL OR 
+  customer_data->>'training-environment' IN ('indoor', 'outdoor', 'both')
+);
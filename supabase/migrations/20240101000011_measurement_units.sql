@@ -0,0 +1,31 @@
+-- Personal Potions V2 - Measurement Unit Constraints
+-- Measured fields are stored normalized to lb, fl oz, °F and ft; answers entered
+-- in metric keep their original value and unit in customer_data 'entered-units'
+
+-- ================== CUSTOMER SURVEYS CONSTRAINTS ==================
+
+-- Original entries must use a unit accepted for the field
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_entered_units 
+CHECK (
+  customer_data->'entered-units' IS NULL OR (
+    (customer_data#>>'{entered-units,weight,unit}' IS NULL OR 
+     customer_data#>>'{entered-units,weight,unit}' IN ('lb', 'kg')) AND
+    (customer_data#>>'{entered-units,daily-water-intake,unit}' IS NULL OR 
+     customer_data#>>'{entered-units,daily-water-intake,unit}' IN ('fl-oz', 'ml')) AND
+    (customer_data#>>'{entered-units,training-temperature,unit}' IS NULL OR 
+     customer_data#>>'{entered-units,training-temperature,unit}' IN ('F', 'C')) AND
+    (customer_data#>>'{entered-units,altitude,unit}' IS NULL OR 
+     customer_data#>>'{entered-units,altitude,unit}' IN ('ft', 'm'))
+  )
+);
+
+-- Unit fields are removed during normalization and never stored
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT customer_data_units_normalized 
+CHECK (
+  NOT (customer_data ?| ARRAY['weight-unit', 'water-unit', 'temperature-unit', 'altitude-unit'])
+);
+
+COMMENT ON CONSTRAINT valid_weight ON public.customer_surveys IS 'Weight must be between 80-400 lbs (V1 validation limits, kg entries normalized to lbs)';
+COMMENT ON CONSTRAINT valid_customer_data_entered_units ON public.customer_surveys IS 'Original measurement entries use an accepted unit';
@@ -0,0 +1,34 @@
+-- Personal Potions V2 - Product Formats
+-- Formulations are sized for the container they are produced in (16 oz bottle,
+-- 12 oz can, 1 L bottle or powder stick pack); per-serving amounts and servings
+-- per day depend on the format's serving volume and solute load
+
+-- ================== CUSTOMER SURVEYS CONSTRAINTS ==================
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_product_format 
+CHECK (
+  customer_data->>'product-format' IS NULL OR 
+  customer_data->>'product-format' IN ('bottle-16oz', 'can-12oz', 'bottle-1l', 'stick-pack')
+);
+
+-- ================== FORMULATION RESULTS ==================
+
+ALTER TABLE public.formulation_results
+  ADD COLUMN product_format TEXT NOT NULL DEFAULT 'bottle-16oz',
+  ADD COLUMN servings_per_day INTEGER;
+
+ALTER TABLE public.formulation_results
+  ADD CONSTRAINT valid_product_format
+  CHECK (product_format IN ('bottle-16oz', 'can-12oz', 'bottle-1l', 'stick-pack'));
+
+ALTER TABLE public.formulation_results
+  ADD CONSTRAINT valid_servings_per_day
+  CHECK (servings_per_day IS NULL OR servings_per_day BETWEEN 1 AND 4);
+
+-- Production batches are grouped by format
+CREATE INDEX idx_formulation_results_product_format
+  ON public.formulation_results(product_format);
+
+COMMENT ON COLUMN public.formulation_results.product_format IS 'PRODUCT_FORMATS id the per-serving amounts are sized for';
+COMMENT ON COLUMN public.formulation_results.servings_per_day IS 'Servings of the product format per day after volume and solute load scaling';
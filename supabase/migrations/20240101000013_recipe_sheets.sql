@@ -0,0 +1,18 @@
+-- Personal Potions V2 - Compounding Recipe Sheets
+-- Grams of each raw compound per serving and per container, generated from
+-- the formulation's elemental amounts and electrolyte forms when it is saved
+
+-- ================== FORMULATION RESULTS ==================
+
+ALTER TABLE public.formulation_results
+  ADD COLUMN recipe JSONB;
+
+-- Stored recipes always list their compounds
+ALTER TABLE public.formulation_results
+  ADD CONSTRAINT valid_recipe
+  CHECK (
+    recipe IS NULL OR 
+    jsonb_typeof(recipe->'ingredients') = 'array'
+  );
+
+COMMENT ON COLUMN public.formulation_results.recipe IS 'RecipeSheet: compound grams per serving and per container with scale precision and tolerance bands';
@@ -0,0 +1,39 @@
+-- Personal Potions V2 - Flavor Preferences
+-- Flavor family, sweetener, sweetness and sugar-free answers stored in
+-- customer_data 'flavor-profile', with the family and sugar-free requirement
+-- copied to columns for production and reporting queries
+
+-- ================== CUSTOMER SURVEYS CONSTRAINTS ==================
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_flavor_profile 
+CHECK (
+  customer_data->'flavor-profile' IS NULL OR (
+    (customer_data#>>'{flavor-profile,family}' IS NULL OR 
+     customer_data#>>'{flavor-profile,family}' IN ('citrus', 'berry', 'tropical', 'mint', 'cucumber', 'unflavored')) AND
+    (customer_data#>>'{flavor-profile,sweetener}' IS NULL OR 
+     customer_data#>>'{flavor-profile,sweetener}' IN ('cane-sugar', 'stevia', 'monk-fruit', 'allulose', 'none')) AND
+    (customer_data#>>'{flavor-profile,sweetness}' IS NULL OR 
+     customer_data#>>'{flavor-profile,sweetness}' IN ('none', 'light', 'moderate', 'bold'))
+  )
+);
+
+-- Sugar-free customers never get cane sugar
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT customer_data_flavor_sugar_free 
+CHECK (
+  customer_data#>>'{flavor-profile,sugarFree}' IS DISTINCT FROM 'true' OR 
+  customer_data#>>'{flavor-profile,sweetener}' IS DISTINCT FROM 'cane-sugar'
+);
+
+-- ================== DERIVED COLUMNS ==================
+
+ALTER TABLE public.customer_surveys
+  ADD COLUMN flavor_family TEXT,
+  ADD COLUMN sugar_free BOOLEAN;
+
+CREATE INDEX idx_customer_surveys_flavor_family
+  ON public.customer_surveys(flavor_family);
+
+COMMENT ON COLUMN public.customer_surveys.flavor_family IS 'flavor-profile family answer (NULL when the flavor step was skipped)';
+COMMENT ON COLUMN public.customer_surveys.sugar_free IS 'flavor-profile sugar-free requirement (NULL when the flavor step was skipped)';
@@ -0,0 +1,18 @@
+-- Personal Potions V2 - Medication Interaction Screening
+-- Current medications stored in customer_data 'medications'; interaction
+-- findings are stored with the formulation in formulation_results.contraindications
+
+-- ================== CUSTOMER SURVEYS CONSTRAINTS ==================
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_medications 
+CHECK (
+  customer_data->'medications' IS NULL OR (
+    jsonb_typeof(customer_data->'medications') = 'array' AND
+    customer_data->'medications' <@ '["thiazide-diuretic", "loop-diuretic", "potassium-sparing-diuretic", "ace-inhibitor", "arb", "lithium"]'::jsonb
+  )
+);
+
+-- Clinicians look up held formulations by interacting medication
+CREATE INDEX idx_customer_surveys_medications
+  ON public.customer_surveys USING GIN ((customer_data->'medications'));
@@ -0,0 +1,28 @@
+-- Personal Potions V2 - Pregnancy and Lactation
+-- Optional pregnancy trimester and breastfeeding answers stored in customer_data;
+-- only accepted from female customers (matches validateCustomerData)
+
+-- ================== CUSTOMER SURVEYS CONSTRAINTS ==================
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_pregnancy_trimester 
+CHECK (
+  customer_data->>'pregnancy-trimester' IS NULL OR 
+  customer_data->>'pregnancy-trimester' IN ('first', 'second', 'third')
+);
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_lactating 
+CHECK (
+  customer_data->'lactating' IS NULL OR 
+  jsonb_typeof(customer_data->'lactating') = 'boolean'
+);
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT customer_data_maternal_female_only 
+CHECK (
+  customer_data->>'biological-sex' = 'female' OR (
+    customer_data->>'pregnancy-trimester' IS NULL AND 
+    customer_data->>'lactating' IS DISTINCT FROM 'true'
+  )
+);
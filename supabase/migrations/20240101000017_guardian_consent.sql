@@ -0,0 +1,29 @@
+-- Personal Potions V2 - Guardian Consent
+-- Parent or legal guardian consent attached to the survey of a customer under 18;
+-- a minor's formulations stay unorderable until that consent is granted
+
+-- ================== CUSTOMER SURVEYS ==================
+
+ALTER TABLE public.customer_surveys
+  ADD COLUMN guardian_consent JSONB;
+
+-- Stored consent is always a guardian consent grant on a minor's survey
+ALTER TABLE public.customer_surveys
+  ADD CONSTRAINT valid_guardian_consent
+  CHECK (
+    guardian_consent IS NULL OR (
+      guardian_consent->>'consentType' = 'guardian-consent' AND
+      jsonb_typeof(guardian_consent->'granted') = 'boolean' AND
+      guardian_consent->>'relationship' IN ('parent', 'legal-guardian') AND
+      age < 18
+    )
+  );
+
+COMMENT ON COLUMN public.customer_surveys.guardian_consent IS 'GuardianConsent: guardian name, email, relationship and consent grant for customers under 18';
+
+-- ================== FORMULATION RESULTS ==================
+
+ALTER TABLE public.formulation_results
+  ADD COLUMN guardian_consent_required BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.formulation_results.guardian_consent_required IS 'Customer was under 18 when calculated; orderable only once customer_surveys.guardian_consent is granted';
@@ -0,0 +1,12 @@
+-- Personal Potions V2 - Workout Time
+-- Optional usual workout start stored in customer_data; times the pre-, during-
+-- and post-workout doses of the daily dosing schedule
+
+-- ================== CUSTOMER SURVEYS CONSTRAINTS ==================
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_customer_data_workout_time 
+CHECK (
+  customer_data->>'workout-time' IS NULL OR 
+  customer_data->>'workout-time' IN ('early-morning', 'morning', 'midday', 'afternoon', 'evening')
+);
@@ -0,0 +1,80 @@
+-- Personal Potions V2 - Formulation Feedback & Reformulation
+-- Post-consumption feedback collected per formulation, and the bounded
+-- reformulation proposals built from it, each linked to the original result
+
+-- ================== FORMULATION FEEDBACK ==================
+
+CREATE TABLE public.formulation_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  formulation_result_id UUID NOT NULL REFERENCES public.formulation_results(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Symptoms while using the formulation
+  cramps TEXT NOT NULL CHECK (cramps IN ('none', 'mild', 'moderate', 'severe')),
+  gi_upset TEXT NOT NULL CHECK (gi_upset IN ('none', 'mild', 'moderate', 'severe')),
+
+  -- 1 (poor) - 5 (great)
+  sleep_quality SMALLINT NOT NULL CHECK (sleep_quality BETWEEN 1 AND 5),
+  taste SMALLINT NOT NULL CHECK (taste BETWEEN 1 AND 5),
+  energy SMALLINT NOT NULL CHECK (energy BETWEEN 1 AND 5),
+
+  comments TEXT,
+
+  -- Audit
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_formulation_feedback_result_id ON public.formulation_feedback(formulation_result_id);
+CREATE INDEX idx_formulation_feedback_created_at ON public.formulation_feedback(created_at);
+
+-- ================== FORMULATION REFORMULATIONS ==================
+
+CREATE TABLE public.formulation_reformulations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_result_id UUID NOT NULL REFERENCES public.formulation_results(id) ON DELETE CASCADE,
+  feedback_id UUID REFERENCES public.formulation_feedback(id) ON DELETE SET NULL,
+
+  use_case TEXT NOT NULL,
+  changed BOOLEAN NOT NULL,
+
+  -- Full ReformulationProposal (previous and proposed amounts, adjustments, reasons)
+  proposal JSONB NOT NULL,
+
+  -- Audit
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_formulation_reformulations_source_result_id ON public.formulation_reformulations(source_result_id);
+
+-- ================== RLS ==================
+
+ALTER TABLE public.formulation_feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.formulation_reformulations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own feedback" ON public.formulation_feedback
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own reformulations" ON public.formulation_reformulations
+  FOR SELECT
+  USING (
+    source_result_id IN (
+      SELECT fr.id FROM public.formulation_results fr
+      JOIN public.customer_surveys cs ON cs.id = fr.customer_survey_id
+      WHERE cs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role bypass" ON public.formulation_feedback
+  FOR ALL
+  USING (current_setting('role') = 'service_role')
+  WITH CHECK (current_setting('role') = 'service_role');
+
+CREATE POLICY "Service role bypass" ON public.formulation_reformulations
+  FOR ALL
+  USING (current_setting('role') = 'service_role')
+  WITH CHECK (current_setting('role') = 'service_role');
+
+COMMENT ON TABLE public.formulation_feedback IS 'Post-consumption feedback: cramps, GI upset, sleep quality, taste and energy for one formulation';
+COMMENT ON TABLE public.formulation_reformulations IS 'Reformulation proposals from feedback, linked to the formulation result they adjust';
+COMMENT ON COLUMN public.formulation_reformulations.proposal IS 'ReformulationProposal: previous and proposed per-serving mg with bounded per-electrolyte adjustments';
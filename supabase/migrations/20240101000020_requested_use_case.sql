@@ -0,0 +1,15 @@
+-- Personal Potions V2 - Requested Use Case
+-- detected_use_case always holds the use case detector result; a use case
+-- requested by the caller when the draft is created is kept separately
+
+-- ================== CUSTOMER SURVEYS COLUMNS ==================
+
+ALTER TABLE public.customer_surveys 
+ADD COLUMN requested_use_case TEXT;
+
+ALTER TABLE public.customer_surveys 
+ADD CONSTRAINT valid_requested_use_case 
+CHECK (
+  requested_use_case IS NULL OR 
+  requested_use_case IN ('daily', 'sweat', 'bedtime', 'menstrual', 'hangover')
+);
@@ -0,0 +1,23 @@
+-- Personal Potions V2 - Clinicians
+-- Users allowed to list and decide clinician review holds. Granted by an
+-- administrator; customers never appear here, so they cannot approve their
+-- own held formulations
+
+CREATE TABLE public.clinicians (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Audit
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ================== RLS ==================
+
+ALTER TABLE public.clinicians ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role bypass" ON public.clinicians
+  FOR ALL
+  USING (current_setting('role') = 'service_role')
+  WITH CHECK (current_setting('role') = 'service_role');
+
+COMMENT ON TABLE public.clinicians IS 'Users with the clinician role: may list pending reviews and approve or reject held formulations';
@@ -0,0 +1,11 @@
+-- Personal Potions V2 - Reformulation Review Status
+-- Reformulation proposals are screened for contraindications like a new
+-- calculation; proposals reaching a block rule are stored held for clinician review
+
+ALTER TABLE public.formulation_reformulations
+  ADD COLUMN review_status TEXT NOT NULL DEFAULT 'not-required'
+    CHECK (review_status IN ('not-required', 'review-required', 'approved', 'rejected'));
+
+CREATE INDEX idx_formulation_reformulations_review_status ON public.formulation_reformulations(review_status);
+
+COMMENT ON COLUMN public.formulation_reformulations.review_status IS 'Contraindication screening of the proposed amounts; review-required until a clinician decides';
@@ -0,0 +1,54 @@
+-- Personal Potions V2 - Guardian Verification
+-- A minor only names their guardian (guardian_contact); consent is granted by the
+-- named guardian from their own signed-in account, never by the minor's session
+
+-- ================== CUSTOMER SURVEYS ==================
+
+ALTER TABLE public.customer_surveys
+  ADD COLUMN guardian_contact JSONB;
+
+-- The named guardian is always a parent or legal guardian with an email on a minor's survey
+ALTER TABLE public.customer_surveys
+  ADD CONSTRAINT valid_guardian_contact
+  CHECK (
+    guardian_contact IS NULL OR (
+      guardian_contact->>'guardianEmail' IS NOT NULL AND
+      guardian_contact->>'relationship' IN ('parent', 'legal-guardian') AND
+      age < 18
+    )
+  );
+
+-- Earlier self-attested consents become guardian requests; the guardian must now consent themselves
+UPDATE public.customer_surveys
+SET
+  guardian_contact = jsonb_build_object(
+    'guardianName', guardian_consent->>'guardianName',
+    'guardianEmail', guardian_consent->>'guardianEmail',
+    'relationship', guardian_consent->>'relationship',
+    'requestedAt', guardian_consent->>'timestamp'
+  ),
+  guardian_consent = NULL
+WHERE guardian_consent IS NOT NULL;
+
+-- Stored consent must come from a verified guardian account other than the survey's own
+ALTER TABLE public.customer_surveys
+  DROP CONSTRAINT valid_guardian_consent;
+
+ALTER TABLE public.customer_surveys
+  ADD CONSTRAINT valid_guardian_consent
+  CHECK (
+    guardian_consent IS NULL OR (
+      guardian_consent->>'consentType' = 'guardian-consent' AND
+      jsonb_typeof(guardian_consent->'granted') = 'boolean' AND
+      guardian_consent->>'relationship' IN ('parent', 'legal-guardian') AND
+      guardian_consent->>'verification' = 'guardian-account' AND
+      guardian_consent->>'verifiedAt' IS NOT NULL AND
+      guardian_consent->>'guardianUserId' IS NOT NULL AND
+      guardian_consent->>'guardianUserId' IS DISTINCT FROM user_id::text AND
+      guardian_contact IS NOT NULL AND
+      age < 18
+    )
+  );
+
+COMMENT ON COLUMN public.customer_surveys.guardian_contact IS 'GuardianContact: guardian named by a customer under 18; only that guardian''s account can grant consent';
+COMMENT ON COLUMN public.customer_surveys.guardian_consent IS 'GuardianConsent: consent granted or refused by the named guardian from their own account, with guardianUserId and verifiedAt';
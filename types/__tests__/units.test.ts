@@ -0,0 +1,110 @@
+/**
+ * Personal Potions V2 - Measurement Unit Tests
+ *
+ * Verifies metric normalization at the boundary, unit-aware validation
+ * and rendering formulation metadata in a unit system
+ */
+
+import {
+  applyCustomerDefaults,
+  normalizeCustomerUnits,
+  renderFormulationUnits,
+  resolveUnitSystem,
+  validateCustomerData,
+  validateMeasurementUnits,
+  type CustomerData,
+} from '@/types';
+import { PersonalPotionsEngine } from '@/lib/calculation-engine/core/PersonalPotionsEngine';
+
+describe('Measurement Units', () => {
+
+  const metricCustomer: Partial<CustomerData> = {
+    age: 32,
+    'biological-sex': 'female',
+    weight: 70,
+    'weight-unit': 'kg',
+    'daily-water-intake': 2000,
+    'water-unit': 'ml',
+    'training-temperature': 30,
+    'temperature-unit': 'C',
+    altitude: 1600,
+    'altitude-unit': 'm',
+    'training-environment': 'outdoor',
+  };
+
+  it('should normalize metric entries and keep the originals', () => {
+    const normalized = normalizeCustomerUnits(metricCustomer);
+
+    expect(normalized.weight).toBe(154.32);
+    expect(normalized['daily-water-intake']).toBe(67.6);
+    expect(normalized['training-temperature']).toBe(86);
+    expect(normalized.altitude).toBe(5249);
+    expect(normalized['weight-unit']).toBeUndefined();
+    expect(normalized['entered-units']).toEqual({
+      weight: { value: 70, unit: 'kg' },
+      'daily-water-intake': { value: 2000, unit: 'ml' },
+      'training-temperature': { value: 30, unit: 'C' },
+      altitude: { value: 1600, unit: 'm' },
+    });
+    expect(normalizeCustomerUnits(normalized)).toEqual(normalized);
+  });
+
+  it('should leave imperial entries without units unchanged', () => {
+    const customer = applyCustomerDefaults({ weight: 180, 'daily-water-intake': 80 });
+
+    expect(customer.weight).toBe(180);
+    expect(customer['daily-water-intake']).toBe(80);
+    expect(customer['entered-units']).toBeUndefined();
+    expect(resolveUnitSystem(undefined, customer)).toBe('imperial');
+  });
+
+  it('should reject unknown units and report limits in the entered unit', () => {
+    expect(validateMeasurementUnits({ weight: 70, 'weight-unit': 'stone' as CustomerData['weight-unit'] }).errors)
+      .toEqual(['weight-unit must be "lb" or "kg"']);
+
+    const result = validateCustomerData(applyCustomerDefaults({
+      ...metricCustomer,
+      weight: 200,
+      'training-temperature': 60,
+    }));
+
+    expect(result.errors).toEqual([
+      'Weight must be between 36.3 and 181.4 kg',
+      'training-temperature must be between -40°C and 54.4°C',
+    ]);
+  });
+
+  it('should calculate the same formulation for equivalent metric and imperial answers', async () => {
+    const engine = new PersonalPotionsEngine();
+    const [metric, imperial] = await Promise.all([
+      engine.calculate(applyCustomerDefaults(metricCustomer)),
+      engine.calculate(applyCustomerDefaults({
+        ...metricCustomer,
+        weight: 154.32,
+        'weight-unit': 'lb',
+        'daily-water-intake': 67.6,
+        'water-unit': 'fl-oz',
+        'training-temperature': 86,
+        'temperature-unit': 'F',
+        altitude: 5249,
+        'altitude-unit': 'ft',
+      })),
+    ]);
+
+    expect(metric.formulationPerServing).toEqual(imperial.formulationPerServing);
+  });
+
+  it('should render metadata in the entered or requested unit system', async () => {
+    const customer = applyCustomerDefaults(metricCustomer);
+    const formulation = await new PersonalPotionsEngine().calculate(customer);
+    const metric = renderFormulationUnits(formulation, resolveUnitSystem(undefined, customer));
+    const imperial = renderFormulationUnits(formulation, resolveUnitSystem('imperial', customer));
+
+    expect(metric.metadata.units?.system).toBe('metric');
+    expect(metric.metadata.customerWeight).toBe(70);
+    expect(metric.metadata.environment?.factors.find(factor => factor.factor === 'temperature')?.value).toBe(30);
+    expect(metric.metadata.environment?.factors.find(factor => factor.factor === 'altitude')?.value).toBe(1600);
+    expect(imperial.metadata.customerWeight).toBe(154.32);
+    expect(formulation.metadata.units).toBeUndefined();
+  });
+});
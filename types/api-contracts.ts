@@ -12,6 +12,12 @@ import type {
   ElectrolyteAmounts,
   IntakeLevel,
 } from './interfaces';
+import type { FormulationKit } from './kit-interfaces';
+import type { UnitSystem, GuardianRelationship } from './enums';
+import type { ClinicianReviewDecision } from './contraindication-interfaces';
+import type { WhatIfPerturbation } from './what-if-interfaces';
+import type { FormulationFeedback } from './feedback-interfaces';
+import type { WorkoutImportAnswers } from './workout-import-interfaces';
 
 // ================== API CONTRACT INTERFACES ==================
 
@@ -24,6 +30,9 @@ export interface FormulaCalculationRequest {
     validateOnly?: boolean; // If true, only validate without calculating
     includeMetadata?: boolean; // Include detailed calculation metadata
     format?: 'v1' | 'v2'; // API version for response format
+    formulaVersion?: string; // Registered formula version, defaults to current stable
+    kit?: boolean; // Return one formulation per qualifying use case
+    units?: UnitSystem; // Render measured metadata values, defaults to the units the customer entered
   };
 }
 
@@ -40,7 +49,10 @@ export interface FormulaCalculationResponse {
       warnings: string[];
     };
     surveyId?: string; // Database ID of saved customer survey
-    formulationId?: string; // Database ID of saved formulation result
+    formulationId?: string; // Database ID of saved formulation result (primary in kit mode)
+    kit?: FormulationKit; // Present when options.kit is true
+    kitId?: string; // Shared kit_id of the linked formulation rows
+    formulationIds?: string[]; // Database IDs of every kit formulation, primary first
   };
   validation?: ValidationResult;
   error?: {
@@ -135,4 +147,68 @@ export interface BatchIntakeConversionResponse {
     success: boolean;
     error?: string;
   }>;
-} 
\ No newline at end of file
+}
+
+/**
+ * API request for a clinician decision on a held formulation
+ */
+export interface ClinicianReviewRequest {
+  formulationId: string;
+  decision: ClinicianReviewDecision['decision'];
+  notes?: string;
+}
+
+/**
+ * API request naming the guardian who must consent on a minor's survey
+ */
+export interface GuardianConsentRequest {
+  surveyId: string;
+  guardianName: string;
+  guardianEmail: string;
+  relationship: GuardianRelationship;
+}
+
+/**
+ * API request from the signed-in guardian granting or refusing consent
+ */
+export interface GuardianConsentGrantRequest {
+  surveyId: string;
+  granted: boolean;
+  signature?: string;
+}
+
+/**
+ * API request for a what-if sensitivity analysis
+ */
+export interface WhatIfRequest {
+  customerData: Partial<CustomerData>;
+  perturbations: WhatIfPerturbation[];
+  options?: {
+    formulaVersion?: string; // Defaults to the current stable formula version
+  };
+}
+
+/**
+ * API request recording post-consumption feedback on a formulation
+ */
+export interface FormulationFeedbackRequest {
+  formulationId: string;
+  feedback: FormulationFeedback;
+}
+
+/**
+ * API request for a reformulation proposal from recorded feedback
+ */
+export interface ReformulationRequest {
+  formulationId: string;
+  feedbackId?: string; // Defaults to the latest feedback on the formulation
+}
+
+/**
+ * API request confirming proposed workout import answers for a survey draft
+ * Only the answers included here replace the survey's current answers
+ */
+export interface WorkoutImportConfirmRequest {
+  surveyId: string;
+  answers: WorkoutImportAnswers;
+}
@@ -34,7 +34,8 @@ export type ConsentType =
   | 'phi-processing'
   | 'marketing'
   | 'analytics'
-  | 'cookies';
+  | 'cookies'
+  | 'guardian-consent';
 
 export type AuditAction = 
   | 'login'
@@ -0,0 +1,238 @@
+/**
+ * Personal Potions V2 - Calculation Pipeline Interfaces
+ *
+ * Structures produced by the calculation engine alongside FormulationResult
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts } from './interfaces';
+import type { UseCase } from './enums';
+
+// ================== SWEAT LOSS ==================
+
+/**
+ * Estimated fluid and sodium lost through sweat, from workout answers plus weight
+ */
+export interface SweatLossEstimate {
+  sweatRateLitersPerHour: number;
+  fluidLitersPerSession: number;
+  sodiumMgPerSession: number;
+  sessionsPerWeek: number;
+  fluidLitersPerWeek: number;
+  sodiumMgPerWeek: number;
+  sodiumMgPerLiter: number; // Measured sweat sodium, or SWEAT_SODIUM_CONCENTRATION
+  measured: {
+    sodiumConcentration: boolean;
+    sweatRate: boolean; // When true the factors below are not used for the sweat rate
+  };
+  factors: {
+    weight: number; // weight / SWEAT_RATE_BASELINE.referenceWeight
+    sweatLevel: number;
+    duration: number;
+    intensity: number;
+    exerciseType: number;
+    environment: number; // EnvironmentAdjustment.fluidMultiplier
+  };
+}
+
+/**
+ * Lab sweat test results used in place of the sweat-level heuristics
+ */
+export interface MeasuredSweatData {
+  sodiumMmolPerL?: number;
+  sodiumMgPerLiter?: number; // sodiumMmolPerL × SODIUM_MG_PER_MMOL
+  sweatRateLitersPerHour?: number;
+}
+
+/**
+ * Contribution of one environment input to fluid and sodium needs
+ */
+export interface EnvironmentFactor {
+  factor: 'temperature' | 'humidity' | 'altitude';
+  value: number; // °F, % or feet as reported
+  fluidMultiplier: number;
+  sodiumMultiplier: number;
+  note?: string; // e.g. why an input was ignored
+}
+
+/**
+ * One ENVIRONMENT_ADJUSTMENTS band; the first band a value reaches applies
+ */
+export interface EnvironmentBand {
+  atOrAbove: number;
+  fluid: number;
+  sodium: number;
+}
+
+/**
+ * Combined environment adjustment; multipliers are the product of every factor
+ */
+export interface EnvironmentAdjustment {
+  factors: EnvironmentFactor[];
+  fluidMultiplier: number;
+  sodiumMultiplier: number;
+}
+
+// ================== CALCULATION TRACE ==================
+
+/**
+ * Engine step that produced a trace entry
+ */
+export type CalculationTraceStep =
+  | 'base-requirement'
+  | 'activity'
+  | 'sweat'
+  | 'environment'
+  | 'use-case-multiplier'
+  | 'health-condition'
+  | 'medication-interaction'
+  | 'current-intake'
+  | 'deficit'
+  | 'daily-cap'
+  | 'serving-split'
+  | 'safety-clamp'
+  | 'ratio-optimization'
+  | 'solute-load';
+
+/**
+ * Arithmetic operation recorded by a trace entry
+ */
+export type CalculationTraceOperation =
+  | 'base'
+  | 'add'
+  | 'subtract'
+  | 'multiply'
+  | 'divide'
+  | 'cap'
+  | 'clamp'
+  | 'adjust';
+
+/**
+ * Single step-by-step record of how an electrolyte amount was derived
+ * e.g. { source: 'GOAL_MULTIPLIERS.energy.magnesium', factor: 1.2, before: 310, after: 372 }
+ */
+export interface CalculationTraceEntry {
+  step: CalculationTraceStep;
+  electrolyte: keyof ElectrolyteAmounts;
+  operation: CalculationTraceOperation;
+  source: string; // Constant or multiplier applied
+  factor?: number; // Multiplier, addend, divisor or limit value
+  before: number;
+  after: number;
+  clamp?: {
+    limit: 'min' | 'max';
+    bound: number;
+  };
+  detail?: string;
+}
+
+// ================== RATIO OPTIMIZATION ==================
+
+/**
+ * Single calcium or magnesium move made by the ratio optimizer
+ */
+export interface RatioAdjustment {
+  electrolyte: 'calcium' | 'magnesium';
+  before: number; // mg per serving
+  after: number; // mg per serving
+  reason: string;
+}
+
+/**
+ * Calcium:magnesium ratio optimization outcome (CalculationMetadata.ratioOptimization)
+ */
+export interface RatioOptimizationReport {
+  calciumMagnesiumRatio: number; // Final ratio
+  targetRatio: number;
+  ratioAdjustment: 'within-range' | 'calcium-adjusted' | 'magnesium-adjusted' | 'infeasible' | 'not-optimized';
+  originalRatio?: number;
+  range?: { min: number; max: number };
+  adjustments?: RatioAdjustment[];
+  feasible?: boolean; // false when the ratio range and SAFETY_LIMITS cannot both be satisfied
+  note?: string;
+}
+
+// ================== USE CASE DETECTION ==================
+
+/**
+ * Use case matched by a detection rule, with the reason it matched
+ */
+export interface UseCaseCandidate {
+  useCase: UseCase;
+  rule: string; // Rule id from the detection table, e.g. "sleep-issues"
+  reason: string; // e.g. "Sleep issues reported: trouble-falling-asleep"
+}
+
+/**
+ * Winning use case plus every candidate that matched, in priority order
+ */
+export interface UseCaseDetectionResult {
+  useCase: UseCase;
+  candidates: UseCaseCandidate[];
+}
+
+/**
+ * Per-call engine options
+ */
+export interface CalculationOptions {
+  useCase?: UseCase; // Calculate for this use case instead of the detected one (kit mode)
+  maxDailyAmounts?: Partial<ElectrolyteAmounts>; // Daily ceilings applied before servings are split (kit combined limits)
+}
+
+// ================== ENGINE COMPARISON ==================
+
+/**
+ * Calculation engine implementation selected by the factory
+ */
+export type CalculationEngineKind = 'core' | 'mock';
+
+/**
+ * Per-serving difference for one electrolyte between two formulations
+ */
+export interface ElectrolyteDelta {
+  active: number; // mg
+  candidate: number; // mg
+  delta: number; // candidate - active, mg
+  percentDelta: number | null; // null when the active amount is 0
+}
+
+/**
+ * Electrolyte whose safety clamp outcome differs between two formulations
+ */
+export interface SafetyLimitDifference {
+  electrolyte: keyof ElectrolyteAmounts;
+  activeClamped: boolean;
+  candidateClamped: boolean;
+}
+
+/**
+ * Side-by-side comparison of an active formulation and a candidate formulation
+ */
+export interface FormulationComparison {
+  activeEngine: string; // e.g. "mock@1.4"
+  candidateEngine: string; // e.g. "core@1.5"
+  activeUseCase: string;
+  candidateUseCase: string;
+  useCaseMatch: boolean;
+  electrolyteDeltas: Record<keyof ElectrolyteAmounts, ElectrolyteDelta>;
+  safetyLimitDifferences: SafetyLimitDifference[];
+  maxAbsolutePercentDelta: number;
+}
+
+/**
+ * Aggregate drift across stored shadow comparisons
+ */
+export interface DriftReport {
+  totalComparisons: number;
+  useCaseDisagreements: number;
+  useCaseDisagreementRate: number; // 0-1
+  safetyLimitDifferences: number; // Comparisons with at least one clamp difference
+  electrolytes: Record<keyof ElectrolyteAmounts, {
+    meanDelta: number; // mg
+    meanAbsoluteDelta: number; // mg
+    maxAbsoluteDelta: number; // mg
+  }>;
+  useCasePairs: Record<string, number>; // "daily->sweat": count
+  firstComparisonAt?: string;
+  lastComparisonAt?: string;
+}
@@ -15,18 +15,38 @@ import type {
   HangoverTimingMultipliers,
   HangoverSymptomMultipliers,
   SafetyLimitMap,
-  HealthConditionMultipliers,
   LegacyIntakeEstimates,
+  ElectrolyteAmounts,
 } from './interfaces';
+import type { ContraindicationRule, MedicationInteractionRule } from './contraindication-interfaces';
+import type { ProductFormat } from './product-format-interfaces';
+import type { ElectrolyteFormInfo, ElectrolyteFormRule } from './electrolyte-form-interfaces';
+import type { FlavorInfo, FlavorProfile, SweetenerInfo } from './flavor-interfaces';
+import type { ReformulationRule } from './feedback-interfaces';
 
-import type { IntakeLevel } from './enums';
+import type { IntakeLevel, ProductFormatId, ElectrolyteForm, FlavorFamily, SweetenerType, SweetnessIntensity, Medication, WorkoutTime, WorkoutDuration, WorkoutFrequency, WorkoutIntensity, DoseTiming } from './enums';
 
 // ================== CORE FRAMEWORK CONSTANTS ==================
 
-export const FORMULA_VERSION = '1.4';
+export const FORMULA_VERSION = '1.10'; // Current stable formula version
 export const SERVING_SIZE = '16 fl oz (473ml)';
 export const DEFAULT_WATER_INTAKE = 64; // fl oz
 
+// ================== ENGINE STAGES ==================
+
+/**
+ * Code-level calculation stages switched per formula version, so a pinned
+ * version keeps reproducing the amounts it was released with
+ */
+export const ENGINE_STAGES = {
+  SWEAT_LOSS_DETECTION: true, // Detect the sweat use case from estimated weekly sweat sodium instead of sweat level and workout frequency
+  MATERNAL_USE_CASES: true, // No menstrual use case while pregnant or breastfeeding
+  MEASURED_SWEAT: true, // Lab sweat test results replace the sweat level heuristics
+  PRODUCT_FORMATS: true, // Size servings to the chosen format instead of the 16 oz reference bottle
+  RATIO_OPTIMIZATION: true, // Reduce the excess of calcium or magnesium to reach USE_CASE_RATIOS
+  RESTRICTION_CEILINGS: true, // Lower restricted electrolytes below the use case minimum, or to a rule's daily cap
+};
+
 // ================== RESEARCH-BACKED BASE VALUES ==================
 
 /**
@@ -64,6 +84,21 @@ export const CALCIUM_RDA = {
   OVER_70: 1200, // mg
 };
 
+// Pregnancy and lactation - Institute of Medicine DRIs (unchanged across trimesters)
+export const MATERNAL_MAGNESIUM_RDA = {
+  PREGNANT_UNDER_19: 400, // mg
+  PREGNANT_19_TO_30: 350, // mg
+  PREGNANT_OVER_30: 360, // mg
+  LACTATING_UNDER_19: 360, // mg
+  LACTATING_19_TO_30: 310, // mg
+  LACTATING_OVER_30: 320, // mg
+};
+
+export const MATERNAL_CALCIUM_RDA = {
+  UNDER_19: 1300, // mg
+  AGE_19_AND_OVER: 1000, // mg
+};
+
 // ================== SERVING AMOUNTS ==================
 
 export const SERVING_AMOUNTS = {
@@ -73,6 +108,51 @@ export const SERVING_AMOUNTS = {
   CALCIUM: 300, // mg per serving
 } as const;
 
+// ================== PRODUCT FORMATS ==================
+
+/**
+ * Sellable formats - the 16 oz bottle is the reference serving the framework was built on
+ * Default bottle solute load sits above every SAFETY_LIMITS total so it never adds servings
+ */
+export const PRODUCT_FORMATS: Readonly<Record<ProductFormatId, ProductFormat>> = {
+  'bottle-16oz': {
+    id: 'bottle-16oz',
+    label: '16 fl oz bottle',
+    servingSize: SERVING_SIZE,
+    volumeMl: 473,
+    servingsPerContainer: 1,
+    maxSoluteLoadMg: 2400,
+  },
+  'can-12oz': {
+    id: 'can-12oz',
+    label: '12 fl oz can',
+    servingSize: '12 fl oz (355ml)',
+    volumeMl: 355,
+    servingsPerContainer: 1,
+    maxSoluteLoadMg: 1800,
+  },
+  'bottle-1l': {
+    id: 'bottle-1l',
+    label: '1 L bottle',
+    servingSize: '16.9 fl oz (500ml)',
+    volumeMl: 1000,
+    servingsPerContainer: 2,
+    maxSoluteLoadMg: 2500,
+  },
+  'stick-pack': {
+    id: 'stick-pack',
+    label: 'Powder stick pack',
+    servingSize: '1 stick pack in 16.9 fl oz (500ml) water',
+    volumeMl: 500, // recommended mixing volume
+    servingsPerContainer: 1,
+    maxSoluteLoadMg: 2000, // stick fill capacity
+  },
+};
+
+export const DEFAULT_PRODUCT_FORMAT: ProductFormatId = 'bottle-16oz';
+export const REFERENCE_SERVING_VOLUME_ML = 473;
+export const MAX_SERVINGS_PER_DAY = 4;
+
 // ================== AGE MULTIPLIERS ==================
 
 export const POTASSIUM_AGE_MULTIPLIERS = {
@@ -131,6 +211,68 @@ export const INTENSITY_MULTIPLIERS = {
   'very-high': 1.6,
 } as const;
 
+// ================== SWEAT LOSS ESTIMATION ==================
+
+/**
+ * Sweat rate of a minimal sweater at the reference weight (lbs) during a
+ * moderate 30-60 minute session; scaled by the multipliers above
+ */
+export const SWEAT_RATE_BASELINE = {
+  litersPerHour: 0.5,
+  referenceWeight: 154,
+} as const;
+
+export const SWEAT_SODIUM_CONCENTRATION = 900; // mg sodium per liter of sweat
+
+// Converts lab sweat sodium results (mmol/L) to mg per liter
+export const SODIUM_MG_PER_MMOL = 22.99;
+
+// Highest multiplier across the customer's exercise types is applied
+export const EXERCISE_TYPE_MULTIPLIERS = {
+  cardio: 1.1,
+  'strength-training': 0.9,
+  endurance: 1.2,
+  'high-intensity': 1.2,
+  yoga: 0.7,
+  sports: 1.1,
+} as const;
+
+export const WORKOUT_SESSIONS_PER_WEEK = {
+  never: 0,
+  '1-per-week': 1,
+  '2-3-per-week': 2.5,
+  '4-6-per-week': 5,
+  daily: 7,
+} as const;
+
+// Estimated weekly sweat sodium loss (mg) at which the sweat use case applies
+export const SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD = 4000;
+
+// ================== ENVIRONMENT ADJUSTMENTS ==================
+
+/**
+ * Fluid and sodium multipliers by training environment - first band the value reaches applies
+ * Temperature and humidity only apply to outdoor training; altitude always applies
+ */
+export const ENVIRONMENT_ADJUSTMENTS = {
+  temperature: [ // °F
+    { atOrAbove: 95, fluid: 1.5, sodium: 1.3 },
+    { atOrAbove: 85, fluid: 1.3, sodium: 1.2 },
+    { atOrAbove: 75, fluid: 1.15, sodium: 1.1 },
+    { atOrAbove: 50, fluid: 1.0, sodium: 1.0 },
+    { atOrAbove: -40, fluid: 0.9, sodium: 0.9 },
+  ],
+  humidity: [ // % relative humidity
+    { atOrAbove: 70, fluid: 1.1, sodium: 1.1 },
+    { atOrAbove: 0, fluid: 1.0, sodium: 1.0 },
+  ],
+  altitude: [ // feet - respiratory fluid loss rises with altitude
+    { atOrAbove: 8000, fluid: 1.2, sodium: 1.0 },
+    { atOrAbove: 5000, fluid: 1.1, sodium: 1.0 },
+    { atOrAbove: -1500, fluid: 1.0, sodium: 1.0 },
+  ],
+} as const;
+
 // ================== USE CASE RATIOS ==================
 
 /**
@@ -255,30 +397,101 @@ export const SAFETY_LIMITS: SafetyLimitMap = {
   },
 } as const;
 
-// ================== HEALTH CONDITION MULTIPLIERS ==================
+/**
+ * Stricter per-serving maximums while pregnant or breastfeeding
+ * Applied on top of every use case's SAFETY_LIMITS, never loosening them
+ */
+export const MATERNAL_SAFETY_LIMITS: Partial<Record<keyof ElectrolyteAmounts, number>> = {
+  sodium: 600,
+  potassium: 500,
+  magnesium: 150,
+};
 
 /**
- * Health condition restrictions - PRESERVE EXACT VALUES
+ * Stricter per-serving maximums for customers under AGE_OF_MAJORITY
+ * Applied on top of every use case's SAFETY_LIMITS, never loosening them
  */
-export const HEALTH_CONDITION_MULTIPLIERS: HealthConditionMultipliers = {
-  hypertension: { 
-    sodium: 0.7,      // -30%
-    potassium: 1.1    // +10%
-  },
-  'kidney-disease': { 
-    potassium: 0.7,   // -30%
-    calcium: 1000     // max limit
-  },
-  'heart-disease': { 
-    sodium: 0.8       // -20%
-  },
-  diabetes: { 
-    magnesium: 1.1    // +10%
-  },
-  osteoporosis: { 
-    calcium: 1.2,     // +20%
-    magnesium: 1.1    // +10%
-  },
+export const YOUTH_SAFETY_LIMITS: Partial<Record<keyof ElectrolyteAmounts, number>> = {
+  sodium: 400,
+  magnesium: 175,
+};
+
+// ================== CONTRAINDICATION RULES ==================
+
+/**
+ * Daily supplemental potassium at which kidney disease, ACE inhibitors and ARBs are held:
+ * one serving at the daily use case minimum, so no daily formulation sits below it
+ */
+const POTASSIUM_REVIEW_DAILY_MG = SAFETY_LIMITS.daily.potassium.min;
+
+/**
+ * Health condition rules - multiplier and cap values PRESERVE the V1 health condition table
+ * Multipliers and caps adjust optimal daily intake; block rules hold the formulation
+ * for clinician review when its daily amount reaches the threshold
+ */
+export const CONTRAINDICATION_RULES: readonly ContraindicationRule[] = [
+  { id: 'hypertension.sodium.multiplier', kind: 'multiplier', condition: 'hypertension', electrolyte: 'sodium', factor: 0.7, severity: 'moderate', reason: 'Hypertension: sodium reduced 30%' },
+  { id: 'hypertension.potassium.multiplier', kind: 'multiplier', condition: 'hypertension', electrolyte: 'potassium', factor: 1.1, severity: 'low', reason: 'Hypertension: potassium increased 10%' },
+  { id: 'kidney-disease.potassium.multiplier', kind: 'multiplier', condition: 'kidney-disease', electrolyte: 'potassium', factor: 0.7, severity: 'high', reason: 'Kidney disease: potassium reduced 30%' },
+  { id: 'kidney-disease.calcium.cap', kind: 'cap', condition: 'kidney-disease', electrolyte: 'calcium', maxMg: 1000, severity: 'high', reason: 'Kidney disease: calcium capped at 1000 mg/day' },
+  { id: 'kidney-disease.potassium.block', kind: 'block', condition: 'kidney-disease', electrolyte: 'potassium', holdAtDailyMg: POTASSIUM_REVIEW_DAILY_MG, severity: 'high', reason: `Kidney disease with ${POTASSIUM_REVIEW_DAILY_MG} mg/day or more supplemental potassium` },
+  { id: 'kidney-disease.magnesium.block', kind: 'block', condition: 'kidney-disease', electrolyte: 'magnesium', holdAtDailyMg: 350, severity: 'high', reason: 'Kidney disease with 350 mg/day or more supplemental magnesium' },
+  { id: 'heart-disease.sodium.multiplier', kind: 'multiplier', condition: 'heart-disease', electrolyte: 'sodium', factor: 0.8, severity: 'moderate', reason: 'Heart disease: sodium reduced 20%' },
+  { id: 'heart-disease.sodium.block', kind: 'block', condition: 'heart-disease', electrolyte: 'sodium', holdAtDailyMg: 1000, severity: 'moderate', reason: 'Heart disease with 1000 mg/day or more supplemental sodium' },
+  { id: 'diabetes.magnesium.multiplier', kind: 'multiplier', condition: 'diabetes', electrolyte: 'magnesium', factor: 1.1, severity: 'low', reason: 'Diabetes: magnesium increased 10%' },
+  { id: 'osteoporosis.calcium.multiplier', kind: 'multiplier', condition: 'osteoporosis', electrolyte: 'calcium', factor: 1.2, severity: 'low', reason: 'Osteoporosis: calcium increased 20%' },
+  { id: 'osteoporosis.magnesium.multiplier', kind: 'multiplier', condition: 'osteoporosis', electrolyte: 'magnesium', factor: 1.1, severity: 'low', reason: 'Osteoporosis: magnesium increased 10%' },
+] as const;
+
+// ================== MEDICATION INTERACTIONS ==================
+
+export const MEDICATIONS: readonly Medication[] = [
+  'thiazide-diuretic',
+  'loop-diuretic',
+  'potassium-sparing-diuretic',
+  'ace-inhibitor',
+  'arb',
+  'lithium',
+] as const;
+
+/**
+ * Medication interaction rules, applied after the health condition rules
+ * Warnings are reported with the formulation and leave the amounts unchanged;
+ * contraindicated combinations refuse the formulation
+ */
+export const MEDICATION_INTERACTION_RULES: readonly MedicationInteractionRule[] = [
+  { id: 'thiazide-diuretic.sodium.warning', kind: 'warning', medication: 'thiazide-diuretic', electrolyte: 'sodium', severity: 'moderate', reason: 'Thiazide diuretics can cause low sodium; have sodium levels checked regularly' },
+  { id: 'thiazide-diuretic.magnesium.multiplier', kind: 'multiplier', medication: 'thiazide-diuretic', electrolyte: 'magnesium', factor: 1.1, severity: 'low', reason: 'Thiazide diuretics: magnesium increased 10% for urinary losses' },
+  { id: 'loop-diuretic.potassium.warning', kind: 'warning', medication: 'loop-diuretic', electrolyte: 'potassium', severity: 'moderate', reason: 'Loop diuretics lower potassium; have potassium levels checked before changing intake' },
+  { id: 'loop-diuretic.magnesium.multiplier', kind: 'multiplier', medication: 'loop-diuretic', electrolyte: 'magnesium', factor: 1.1, severity: 'low', reason: 'Loop diuretics: magnesium increased 10% for urinary losses' },
+  { id: 'potassium-sparing-diuretic.potassium.contraindicated', kind: 'contraindicated', medication: 'potassium-sparing-diuretic', electrolyte: 'potassium', severity: 'high', reason: 'Potassium-sparing diuretics with supplemental potassium risk hyperkalemia' },
+  { id: 'ace-inhibitor.potassium.multiplier', kind: 'multiplier', medication: 'ace-inhibitor', electrolyte: 'potassium', factor: 0.7, severity: 'high', reason: 'ACE inhibitors raise potassium: potassium reduced 30%' },
+  { id: 'ace-inhibitor.potassium.block', kind: 'block', medication: 'ace-inhibitor', electrolyte: 'potassium', holdAtDailyMg: POTASSIUM_REVIEW_DAILY_MG, severity: 'high', reason: `ACE inhibitor with ${POTASSIUM_REVIEW_DAILY_MG} mg/day or more supplemental potassium` },
+  { id: 'arb.potassium.multiplier', kind: 'multiplier', medication: 'arb', electrolyte: 'potassium', factor: 0.7, severity: 'high', reason: 'ARBs raise potassium: potassium reduced 30%' },
+  { id: 'arb.potassium.block', kind: 'block', medication: 'arb', electrolyte: 'potassium', holdAtDailyMg: POTASSIUM_REVIEW_DAILY_MG, severity: 'high', reason: `ARB with ${POTASSIUM_REVIEW_DAILY_MG} mg/day or more supplemental potassium` },
+  { id: 'lithium.sodium.warning', kind: 'warning', medication: 'lithium', electrolyte: 'sodium', severity: 'high', reason: 'Lithium levels change with sodium intake; keep daily sodium consistent' },
+  { id: 'lithium.sodium.block', kind: 'block', medication: 'lithium', electrolyte: 'sodium', holdAtDailyMg: 500, severity: 'high', reason: 'Lithium with 500 mg/day or more supplemental sodium' },
+] as const;
+
+// ================== FEEDBACK REFORMULATION ==================
+
+/**
+ * Feedback rules - matching rules for the same electrolyte are summed, then
+ * bounded by REFORMULATION_LIMITS and the customer's safety limits
+ */
+export const REFORMULATION_RULES: readonly ReformulationRule[] = [
+  { id: 'gi-upset.magnesium.lower-mild', signal: 'giUpset', severities: ['mild'], electrolyte: 'magnesium', percent: -10, reason: 'Mild GI upset: magnesium lowered 10%' },
+  { id: 'gi-upset.magnesium.lower', signal: 'giUpset', severities: ['moderate', 'severe'], electrolyte: 'magnesium', percent: -20, reason: 'GI upset: magnesium lowered 20%' },
+  { id: 'cramps.magnesium.raise', signal: 'cramps', severities: ['moderate', 'severe'], electrolyte: 'magnesium', percent: 15, reason: 'Persistent cramps: magnesium raised 15%' },
+  { id: 'cramps.potassium.raise', signal: 'cramps', severities: ['moderate', 'severe'], electrolyte: 'potassium', percent: 10, reason: 'Persistent cramps: potassium raised 10%' },
+  { id: 'sleep-quality.magnesium.raise', signal: 'sleepQuality', ratings: [1, 2], electrolyte: 'magnesium', percent: 10, reason: 'Poor sleep: magnesium raised 10%' },
+  { id: 'energy.sodium.raise', signal: 'energy', ratings: [1, 2], electrolyte: 'sodium', percent: 10, reason: 'Low energy: sodium raised 10%' },
+  { id: 'taste.potassium.lower', signal: 'taste', ratings: [1], electrolyte: 'potassium', percent: -10, reason: 'Poor taste: potassium lowered 10% to reduce bitterness' },
+] as const;
+
+// Largest net change to one electrolyte in a single reformulation
+export const REFORMULATION_LIMITS = {
+  MAX_ADJUSTMENT_PERCENT: 25,
 } as const;
 
 // ================== LEGACY INTAKE ESTIMATES ==================
@@ -334,8 +547,9 @@ export const LEGACY_INTAKE_ESTIMATES: LegacyIntakeEstimates = {
 export const USE_CASE_DETECTION_ORDER = [
   'bedtime',    // Sleep issues take highest priority
   'menstrual',  // Menstrual symptoms second
-  'sweat',      // Heavy sweat + frequent workouts third
-  'daily',      // Default fallback
+  'sweat',      // Estimated weekly sweat sodium loss third
+  'hangover',   // Hangover symptoms fourth
+  'daily',      // Default fallback (after any explicit usage selection)
 ] as const;
 
 // ================== ELECTROLYTE FORMS ==================
@@ -347,12 +561,227 @@ export const DEFAULT_ELECTROLYTE_FORMS = {
   calcium: 'calcium-citrate',
 } as const;
 
+/**
+ * Compound catalog - elemental fraction is elemental mass / compound molar mass
+ * Formulation amounts are elemental mg; compound mg = elemental mg / elementalFraction
+ */
+export const ELECTROLYTE_FORM_CATALOG: Readonly<Record<ElectrolyteForm, ElectrolyteFormInfo>> = {
+  'sodium-chloride': { form: 'sodium-chloride', electrolyte: 'sodium', compound: 'Sodium chloride', elementalFraction: 0.393 },
+  'sodium-citrate': { form: 'sodium-citrate', electrolyte: 'sodium', compound: 'Trisodium citrate dihydrate', elementalFraction: 0.235 },
+  'sodium-bicarbonate': { form: 'sodium-bicarbonate', electrolyte: 'sodium', compound: 'Sodium bicarbonate', elementalFraction: 0.274 },
+  'potassium-chloride': { form: 'potassium-chloride', electrolyte: 'potassium', compound: 'Potassium chloride', elementalFraction: 0.524 },
+  'potassium-citrate': { form: 'potassium-citrate', electrolyte: 'potassium', compound: 'Tripotassium citrate monohydrate', elementalFraction: 0.362 },
+  'magnesium-glycinate': { form: 'magnesium-glycinate', electrolyte: 'magnesium', compound: 'Magnesium bisglycinate', elementalFraction: 0.141 },
+  'magnesium-citrate': { form: 'magnesium-citrate', electrolyte: 'magnesium', compound: 'Trimagnesium dicitrate', elementalFraction: 0.162 },
+  'magnesium-malate': { form: 'magnesium-malate', electrolyte: 'magnesium', compound: 'Magnesium malate', elementalFraction: 0.155 },
+  'magnesium-threonate': { form: 'magnesium-threonate', electrolyte: 'magnesium', compound: 'Magnesium L-threonate', elementalFraction: 0.083 },
+  'calcium-citrate': { form: 'calcium-citrate', electrolyte: 'calcium', compound: 'Tricalcium dicitrate tetrahydrate', elementalFraction: 0.211 },
+  'calcium-lactate': { form: 'calcium-lactate', electrolyte: 'calcium', compound: 'Calcium lactate pentahydrate', elementalFraction: 0.130 },
+  'calcium-carbonate': { form: 'calcium-carbonate', electrolyte: 'calcium', compound: 'Calcium carbonate', elementalFraction: 0.400 },
+};
+
+/**
+ * Form selection rules - condition rules outrank customer preferences, which outrank
+ * use case and goal rules; the first matching rule of each source applies
+ */
+export const ELECTROLYTE_FORM_RULES: readonly ElectrolyteFormRule[] = [
+  // Use cases
+  { id: 'bedtime.magnesium.glycinate', source: 'use-case', electrolyte: 'magnesium', form: 'magnesium-glycinate', when: { useCases: ['bedtime'] }, reason: 'Bedtime: glycinate is calming and gentle on digestion' },
+  { id: 'menstrual.magnesium.glycinate', source: 'use-case', electrolyte: 'magnesium', form: 'magnesium-glycinate', when: { useCases: ['menstrual'] }, reason: 'Menstrual: glycinate for cramp relief without a laxative effect' },
+  { id: 'sweat.potassium.chloride', source: 'use-case', electrolyte: 'potassium', form: 'potassium-chloride', when: { useCases: ['sweat'] }, reason: 'Sweat: chloride replaces what is lost in sweat' },
+
+  // Goals
+  { id: 'mental-clarity.magnesium.threonate', source: 'goal', electrolyte: 'magnesium', form: 'magnesium-threonate', when: { dailyGoals: ['mental-clarity'] }, reason: 'Mental clarity: threonate raises brain magnesium' },
+  { id: 'energy.magnesium.malate', source: 'goal', electrolyte: 'magnesium', form: 'magnesium-malate', when: { dailyGoals: ['energy', 'recovery', 'muscle-function'] }, reason: 'Energy and recovery: malate supports ATP production' },
+  { id: 'sleep.magnesium.glycinate', source: 'goal', electrolyte: 'magnesium', form: 'magnesium-glycinate', when: { sleepGoals: ['muscle-relaxation', 'reduce-cramping'] }, reason: 'Muscle relaxation: glycinate is calming and gentle on digestion' },
+];
+
+// ================== FLAVORS ==================
+
+/**
+ * Flavor catalog with the magnesium and potassium each flavor masks per serving
+ * at moderate sweetness; above that the mineral bitterness comes through
+ */
+export const FLAVOR_CATALOG: Record<FlavorFamily, FlavorInfo> = {
+  citrus: { family: 'citrus', label: 'Citrus', maskingCapacityMg: { magnesium: 200, potassium: 600 } },
+  berry: { family: 'berry', label: 'Mixed berry', maskingCapacityMg: { magnesium: 175, potassium: 500 } },
+  tropical: { family: 'tropical', label: 'Tropical', maskingCapacityMg: { magnesium: 150, potassium: 550 } },
+  mint: { family: 'mint', label: 'Mint', maskingCapacityMg: { magnesium: 225, potassium: 400 } },
+  cucumber: { family: 'cucumber', label: 'Cucumber', maskingCapacityMg: { magnesium: 100, potassium: 300 } },
+  unflavored: { family: 'unflavored', label: 'Unflavored', maskingCapacityMg: { magnesium: 60, potassium: 200 } },
+};
+
+export const SWEETENERS: Record<SweetenerType, SweetenerInfo> = {
+  'cane-sugar': { sweetener: 'cane-sugar', label: 'Cane sugar', sugarFree: false },
+  stevia: { sweetener: 'stevia', label: 'Stevia', sugarFree: true },
+  'monk-fruit': { sweetener: 'monk-fruit', label: 'Monk fruit', sugarFree: true },
+  allulose: { sweetener: 'allulose', label: 'Allulose', sugarFree: true },
+  none: { sweetener: 'none', label: 'Unsweetened', sugarFree: true },
+};
+
+/**
+ * Sweetness scales each flavor's masking capacity
+ */
+export const SWEETNESS_MASKING_MULTIPLIERS: Record<SweetnessIntensity, number> = {
+  none: 0.75,
+  light: 0.9,
+  moderate: 1.0,
+  bold: 1.2,
+};
+
+export const DEFAULT_FLAVOR_PROFILE: FlavorProfile = {
+  family: 'citrus',
+  sweetener: 'stevia',
+  sweetness: 'moderate',
+  sugarFree: false,
+};
+
+// ================== DOSING SCHEDULE ==================
+
+// Clock times are 24-hour "HH:MM"
+export const WORKOUT_START_TIMES: Readonly<Record<WorkoutTime, string>> = {
+  'early-morning': '06:00',
+  morning: '09:00',
+  midday: '12:00',
+  afternoon: '16:00',
+  evening: '18:30',
+};
+
+// Midpoint of each workout duration answer, in minutes
+export const WORKOUT_DURATION_MINUTES: Readonly<Record<WorkoutDuration, number>> = {
+  '30-60': 45,
+  '60-90': 75,
+  '90-120': 105,
+  '120+': 135,
+};
+
+/**
+ * Slots for servings not tied to a workout, bedtime or drinking, in fill order
+ * so one serving lands in the morning and two are spread morning and afternoon
+ */
+export const DAILY_DOSE_SLOTS: ReadonlyArray<{ timing: DoseTiming; time: string }> = [
+  { timing: 'morning', time: '08:00' },
+  { timing: 'afternoon', time: '15:00' },
+  { timing: 'midday', time: '12:00' },
+  { timing: 'evening', time: '18:00' },
+];
+
+export const DOSING_DEFAULTS = {
+  WAKE_TIME: '07:00',
+  BED_TIME: '22:00',
+  WORKOUT_TIME: 'afternoon',
+  PRE_WORKOUT_LEAD_MINUTES: 30,
+  POST_WORKOUT_DELAY_MINUTES: 15,
+  DURING_WORKOUT_MIN_MINUTES: 90, // Sessions at least this long get a serving during the workout
+  WORKOUT_SLOT_BUFFER_MINUTES: 90, // Daily slots this close to the workout are skipped
+  BEDTIME_LEAD_MINUTES: 45,
+  FALLING_ASLEEP_LEAD_MINUTES: 60, // Used when sleep goals include falling-asleep
+} as const;
+
+export const DOSE_TIMING_LABELS: Readonly<Record<DoseTiming, string>> = {
+  'on-waking': 'On waking',
+  morning: 'Morning',
+  midday: 'Midday',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  'pre-workout': 'Pre-workout',
+  'during-workout': 'During workout',
+  'post-workout': 'Post-workout',
+  'before-drinking': 'Before drinking',
+  'during-drinking': 'Between drinks',
+  bedtime: 'Before bed',
+};
+
+// ================== COMPOUNDING RECIPES ==================
+
+/**
+ * Production scale settings for recipe sheets
+ * Tolerance never drops below one scale increment
+ */
+export const RECIPE_DEFAULTS = {
+  SCALE_PRECISION_GRAMS: 0.01,
+  TOLERANCE_PERCENT: 2,
+} as const;
+
+// ================== PRODUCTION PLANNING ==================
+
+/**
+ * Production planner settings
+ * A formulation is never split across runs, so one larger than a run gets a run of its own
+ */
+export const PRODUCTION_DEFAULTS = {
+  MAX_CONTAINERS_PER_RUN: 240,
+  SUPPLY_DAYS: 30,
+} as const;
+
+// ================== WHAT-IF ANALYSIS ==================
+
+// Each perturbation is a full engine run, so one request is capped
+export const WHAT_IF_MAX_PERTURBATIONS = 10;
+
+// ================== WORKOUT FILE IMPORT ==================
+
+/**
+ * Upload limits for the workout file importer
+ * Sessions shorter than MIN_SESSION_MINUTES (warm-ups, paused recordings) are ignored
+ */
+export const WORKOUT_IMPORT_LIMITS = {
+  MAX_FILES: 60,
+  MAX_FILE_BYTES: 10 * 1024 * 1024,
+  MIN_SESSION_MINUTES: 10,
+} as const;
+
+// Sessions per week at or above each value propose that answer, checked in order
+export const WORKOUT_FREQUENCY_THRESHOLDS: ReadonlyArray<{ minSessionsPerWeek: number; frequency: WorkoutFrequency }> = [
+  { minSessionsPerWeek: 6.5, frequency: 'daily' },
+  { minSessionsPerWeek: 3.5, frequency: '4-6-per-week' },
+  { minSessionsPerWeek: 1.5, frequency: '2-3-per-week' },
+  { minSessionsPerWeek: 0.5, frequency: '1-per-week' },
+  { minSessionsPerWeek: 0, frequency: 'never' },
+];
+
+// Median session minutes at or above each value propose that answer, checked in order
+export const WORKOUT_DURATION_THRESHOLDS: ReadonlyArray<{ minMinutes: number; duration: WorkoutDuration }> = [
+  { minMinutes: 120, duration: '120+' },
+  { minMinutes: 90, duration: '90-120' },
+  { minMinutes: 60, duration: '60-90' },
+  { minMinutes: 0, duration: '30-60' },
+];
+
+/**
+ * Average heart rate as a percent of age-predicted maximum (220 - age),
+ * at or above each value proposes that answer, checked in order
+ */
+export const HEART_RATE_INTENSITY_ZONES: ReadonlyArray<{ minPercentOfMax: number; intensity: WorkoutIntensity }> = [
+  { minPercentOfMax: 85, intensity: 'very-high' },
+  { minPercentOfMax: 76, intensity: 'high' },
+  { minPercentOfMax: 64, intensity: 'moderate' },
+  { minPercentOfMax: 0, intensity: 'low' },
+];
+
+export const MAX_HEART_RATE_ESTIMATE = {
+  BASE: 220,
+  DEFAULT_AGE: 35, // Used when the survey has no age yet
+} as const;
+
+// ================== YOUTH PATHWAY ==================
+
+// Customers younger than this (down to VALIDATION_LIMITS.AGE.min) need guardian consent before ordering
+export const AGE_OF_MAJORITY = 18;
+
+export const GUARDIAN_CONSENT_VERSION = '1.0';
+
 // ================== VALIDATION CONSTANTS ==================
 
 export const VALIDATION_LIMITS = {
   AGE: { min: 13, max: 120 },
   WEIGHT: { min: 80, max: 400 }, // lbs
   DAILY_WATER_INTAKE: { min: 32, max: 200 }, // fl oz
+  TRAINING_TEMPERATURE: { min: -40, max: 130 }, // °F
+  TRAINING_HUMIDITY: { min: 0, max: 100 }, // %
+  ALTITUDE: { min: -1500, max: 18000 }, // feet
+  SWEAT_SODIUM_CONCENTRATION: { min: 10, max: 120 }, // mmol/L, lab sweat test
+  SWEAT_RATE: { min: 0.1, max: 4 }, // L/h, lab sweat test
   SUPPLEMENT_MAX: {
     sodium: 2000,
     potassium: 1000,
@@ -0,0 +1,121 @@
+/**
+ * Personal Potions V2 - Contraindication Interfaces
+ *
+ * Health condition and medication interaction rules (multiplier adjustments,
+ * absolute caps, review holds, absolute contraindications and medication
+ * warnings) and the clinician review hold placed on high-risk formulations
+ * Kept separate from calculation interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts } from './interfaces';
+import type { HealthCondition, Medication } from './enums';
+
+/**
+ * How serious a contraindication is
+ */
+export type ContraindicationSeverity = 'low' | 'moderate' | 'high';
+
+interface ContraindicationRuleBase {
+  id: string; // e.g. "kidney-disease.potassium.block" - used as the trace source
+  condition: HealthCondition;
+  electrolyte: keyof ElectrolyteAmounts;
+  severity: ContraindicationSeverity;
+  reason: string;
+}
+
+/**
+ * Scales optimal daily intake (e.g. hypertension sodium × 0.7)
+ */
+export interface ContraindicationMultiplierRule extends ContraindicationRuleBase {
+  kind: 'multiplier';
+  factor: number;
+}
+
+/**
+ * Absolute ceiling on optimal daily intake (e.g. kidney disease calcium ≤ 1000 mg)
+ */
+export interface ContraindicationCapRule extends ContraindicationRuleBase {
+  kind: 'cap';
+  maxMg: number;
+}
+
+/**
+ * High-risk combination: a daily formulation amount at or above the threshold is
+ * held for clinician review and cannot be ordered until approved
+ */
+export interface ContraindicationBlockRule extends ContraindicationRuleBase {
+  kind: 'block';
+  holdAtDailyMg: number; // formulationPerServing × recommendedServingsPerDay, inclusive
+}
+
+/**
+ * Absolute contraindication: any supplemental amount is unsafe, so the
+ * formulation is refused outright and there is nothing for a clinician to approve
+ */
+export interface ContraindicationAbsoluteRule extends ContraindicationRuleBase {
+  kind: 'contraindicated';
+}
+
+export type ContraindicationRule =
+  | ContraindicationMultiplierRule
+  | ContraindicationCapRule
+  | ContraindicationBlockRule
+  | ContraindicationAbsoluteRule;
+
+export type ContraindicationRuleKind = ContraindicationRule['kind'];
+
+/**
+ * Medication interaction rule: the same multiplier, cap, block and contraindicated kinds as the
+ * health condition rules (triggered by a medication instead of a condition),
+ * plus warnings that leave the amounts unchanged
+ */
+export type MedicationInteractionRule =
+  | (Omit<ContraindicationMultiplierRule, 'condition'> & { medication: Medication })
+  | (Omit<ContraindicationCapRule, 'condition'> & { medication: Medication })
+  | (Omit<ContraindicationBlockRule, 'condition'> & { medication: Medication })
+  | (Omit<ContraindicationAbsoluteRule, 'condition'> & { medication: Medication })
+  | (Omit<ContraindicationRuleBase, 'condition'> & { kind: 'warning'; medication: Medication });
+
+export type MedicationInteractionKind = MedicationInteractionRule['kind'];
+
+/**
+ * A rule that matched the customer's conditions or medications
+ */
+export interface ContraindicationFinding {
+  ruleId: string;
+  kind: ContraindicationRuleKind | MedicationInteractionKind;
+  condition?: HealthCondition; // Set for health condition rules
+  medication?: Medication; // Set for medication interaction rules
+  electrolyte: keyof ElectrolyteAmounts;
+  severity: ContraindicationSeverity;
+  reason: string;
+  dailyAmount?: number; // mg/day that triggered a block rule
+}
+
+/**
+ * Clinician review state of a formulation
+ */
+export type ClinicianReviewStatus =
+  | 'not-required'
+  | 'review-required'
+  | 'approved'
+  | 'rejected';
+
+/**
+ * Contraindication screening attached to every returned formulation
+ */
+export interface ContraindicationReport {
+  findings: ContraindicationFinding[];
+  highestSeverity: ContraindicationSeverity | null;
+  reviewStatus: ClinicianReviewStatus;
+  orderable: boolean; // false while clinician review is required or after rejection
+}
+
+/**
+ * Clinician decision on a held formulation
+ */
+export interface ClinicianReviewDecision {
+  decision: 'approved' | 'rejected';
+  reviewerId: string;
+  notes?: string;
+}
@@ -27,6 +27,11 @@ export interface PublicSchema {
         activity_level: string | null
         sweat_level: string | null
         detected_use_case: string | null
+        requested_use_case: string | null
+        flavor_family: string | null
+        sugar_free: boolean | null
+        guardian_consent: Json | null
+        guardian_contact: Json | null
         intake_formats: Json | null
         status: CustomerSurveyStatus
         completion_percentage: number | null
@@ -48,6 +53,11 @@ export interface PublicSchema {
         activity_level?: string | null
         sweat_level?: string | null
         detected_use_case?: string | null
+        requested_use_case?: string | null
+        flavor_family?: string | null
+        sugar_free?: boolean | null
+        guardian_consent?: Json | null
+        guardian_contact?: Json | null
         intake_formats?: Json | null
         status?: CustomerSurveyStatus
         completion_percentage?: number | null
@@ -69,6 +79,11 @@ export interface PublicSchema {
         activity_level?: string | null
         sweat_level?: string | null
         detected_use_case?: string | null
+        requested_use_case?: string | null
+        flavor_family?: string | null
+        sugar_free?: boolean | null
+        guardian_consent?: Json | null
+        guardian_contact?: Json | null
         intake_formats?: Json | null
         status?: CustomerSurveyStatus
         completion_percentage?: number | null
@@ -88,12 +103,24 @@ export interface PublicSchema {
         use_case: string
         formula_version: string | null
         serving_size: string | null
+        product_format: string
+        servings_per_day: number | null
         sodium_mg: number | null
         potassium_mg: number | null
         magnesium_mg: number | null
         calcium_mg: number | null
         price_cents: number | null
         formula_name: string | null
+        calculation_trace: Json | null
+        kit_id: string | null
+        kit_role: string | null
+        review_status: string
+        contraindications: Json | null
+        recipe: Json | null
+        guardian_consent_required: boolean
+        reviewed_by: string | null
+        reviewed_at: string | null
+        review_notes: string | null
         created_at: string
         calculation_timestamp: string
       }
@@ -104,12 +131,24 @@ export interface PublicSchema {
         use_case: string
         formula_version?: string | null
         serving_size?: string | null
+        product_format?: string
+        servings_per_day?: number | null
         sodium_mg?: number | null
         potassium_mg?: number | null
         magnesium_mg?: number | null
         calcium_mg?: number | null
         price_cents?: number | null
         formula_name?: string | null
+        calculation_trace?: Json | null
+        kit_id?: string | null
+        kit_role?: string | null
+        review_status?: string
+        contraindications?: Json | null
+        recipe?: Json | null
+        guardian_consent_required?: boolean
+        reviewed_by?: string | null
+        reviewed_at?: string | null
+        review_notes?: string | null
         created_at?: string
         calculation_timestamp?: string
       }
@@ -120,12 +159,24 @@ export interface PublicSchema {
         use_case?: string
         formula_version?: string | null
         serving_size?: string | null
+        product_format?: string
+        servings_per_day?: number | null
         sodium_mg?: number | null
         potassium_mg?: number | null
         magnesium_mg?: number | null
         calcium_mg?: number | null
         price_cents?: number | null
         formula_name?: string | null
+        calculation_trace?: Json | null
+        kit_id?: string | null
+        kit_role?: string | null
+        review_status?: string
+        contraindications?: Json | null
+        recipe?: Json | null
+        guardian_consent_required?: boolean
+        reviewed_by?: string | null
+        reviewed_at?: string | null
+        review_notes?: string | null
         created_at?: string
         calculation_timestamp?: string
       }
@@ -162,6 +213,146 @@ export interface PublicSchema {
         created_at?: string
       }
     }
+    formulation_comparisons: {
+      Row: {
+        id: string
+        customer_survey_id: string | null
+        active_engine: string
+        candidate_engine: string
+        active_use_case: string
+        candidate_use_case: string
+        use_case_match: boolean
+        sodium_delta_mg: number
+        potassium_delta_mg: number
+        magnesium_delta_mg: number
+        calcium_delta_mg: number
+        max_abs_percent_delta: number
+        electrolyte_deltas: Json
+        safety_limit_differences: Json
+        created_at: string
+      }
+      Insert: {
+        id?: string
+        customer_survey_id?: string | null
+        active_engine: string
+        candidate_engine: string
+        active_use_case: string
+        candidate_use_case: string
+        use_case_match: boolean
+        sodium_delta_mg: number
+        potassium_delta_mg: number
+        magnesium_delta_mg: number
+        calcium_delta_mg: number
+        max_abs_percent_delta?: number
+        electrolyte_deltas: Json
+        safety_limit_differences?: Json
+        created_at?: string
+      }
+      Update: {
+        id?: string
+        customer_survey_id?: string | null
+        active_engine?: string
+        candidate_engine?: string
+        active_use_case?: string
+        candidate_use_case?: string
+        use_case_match?: boolean
+        sodium_delta_mg?: number
+        potassium_delta_mg?: number
+        magnesium_delta_mg?: number
+        calcium_delta_mg?: number
+        max_abs_percent_delta?: number
+        electrolyte_deltas?: Json
+        safety_limit_differences?: Json
+        created_at?: string
+      }
+    }
+    formulation_feedback: {
+      Row: {
+        id: string
+        formulation_result_id: string
+        user_id: string | null
+        cramps: string
+        gi_upset: string
+        sleep_quality: number
+        taste: number
+        energy: number
+        comments: string | null
+        created_at: string
+      }
+      Insert: {
+        id?: string
+        formulation_result_id: string
+        user_id?: string | null
+        cramps: string
+        gi_upset: string
+        sleep_quality: number
+        taste: number
+        energy: number
+        comments?: string | null
+        created_at?: string
+      }
+      Update: {
+        id?: string
+        formulation_result_id?: string
+        user_id?: string | null
+        cramps?: string
+        gi_upset?: string
+        sleep_quality?: number
+        taste?: number
+        energy?: number
+        comments?: string | null
+        created_at?: string
+      }
+    }
+    formulation_reformulations: {
+      Row: {
+        id: string
+        source_result_id: string
+        feedback_id: string | null
+        use_case: string
+        changed: boolean
+        review_status: string
+        proposal: Json
+        created_at: string
+      }
+      Insert: {
+        id?: string
+        source_result_id: string
+        feedback_id?: string | null
+        use_case: string
+        changed: boolean
+        review_status?: string
+        proposal: Json
+        created_at?: string
+      }
+      Update: {
+        id?: string
+        source_result_id?: string
+        feedback_id?: string | null
+        use_case?: string
+        changed?: boolean
+        review_status?: string
+        proposal?: Json
+        created_at?: string
+      }
+    }
+    clinicians: {
+      Row: {
+        user_id: string
+        granted_by: string | null
+        created_at: string
+      }
+      Insert: {
+        user_id: string
+        granted_by?: string | null
+        created_at?: string
+      }
+      Update: {
+        user_id?: string
+        granted_by?: string | null
+        created_at?: string
+      }
+    }
   }
   Views: {
     [_ in never]: never
@@ -192,4 +383,24 @@ export type FormulationResultUpdate = PublicSchema['Tables']['formulation_result
 // Intake Conversions
 export type IntakeConversion = PublicSchema['Tables']['intake_conversions']['Row']
 export type IntakeConversionInsert = PublicSchema['Tables']['intake_conversions']['Insert']
-export type IntakeConversionUpdate = PublicSchema['Tables']['intake_conversions']['Update'] 
\ No newline at end of file
+export type IntakeConversionUpdate = PublicSchema['Tables']['intake_conversions']['Update']
+
+// Formulation Comparisons (shadow mode)
+export type FormulationComparisonRecord = PublicSchema['Tables']['formulation_comparisons']['Row']
+export type FormulationComparisonInsert = PublicSchema['Tables']['formulation_comparisons']['Insert']
+export type FormulationComparisonUpdate = PublicSchema['Tables']['formulation_comparisons']['Update']
+
+// Formulation Feedback
+export type FormulationFeedbackRecord = PublicSchema['Tables']['formulation_feedback']['Row']
+export type FormulationFeedbackInsert = PublicSchema['Tables']['formulation_feedback']['Insert']
+export type FormulationFeedbackUpdate = PublicSchema['Tables']['formulation_feedback']['Update']
+
+// Formulation Reformulations
+export type FormulationReformulationRecord = PublicSchema['Tables']['formulation_reformulations']['Row']
+export type FormulationReformulationInsert = PublicSchema['Tables']['formulation_reformulations']['Insert']
+export type FormulationReformulationUpdate = PublicSchema['Tables']['formulation_reformulations']['Update']
+
+// Clinicians
+export type ClinicianRecord = PublicSchema['Tables']['clinicians']['Row']
+export type ClinicianInsert = PublicSchema['Tables']['clinicians']['Insert']
+export type ClinicianUpdate = PublicSchema['Tables']['clinicians']['Update']
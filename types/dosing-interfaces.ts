@@ -0,0 +1,32 @@
+/**
+ * Personal Potions V2 - Dosing Schedule Interfaces
+ *
+ * Timed dose events for a formulation's servings per day, built from the use
+ * case, workout frequency and time, sleep goals and hangover timing
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { DoseTiming } from './enums';
+
+/**
+ * One dose in the day
+ */
+export interface DoseEvent {
+  timing: DoseTiming;
+  time?: string; // "15:30", 24-hour clock; omitted for doses timed around drinking
+  servings: number; // Fraction of a serving, e.g. 0.5 for a split pre/post workout serving
+  volumeMl: number;
+  label: string; // "Pre-workout 237 ml"
+}
+
+/**
+ * Daily dosing schedule returned on FormulationResult
+ * Servings across each day's events always add up to servingsPerDay
+ */
+export interface DosingSchedule {
+  servingsPerDay: number;
+  servingVolumeMl: number;
+  workoutDaysPerWeek: number;
+  events: DoseEvent[]; // Workout days when the schedule has workout doses, otherwise every day
+  restDayEvents?: DoseEvent[]; // Set when workout doses apply and workouts are not daily
+}
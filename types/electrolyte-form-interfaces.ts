@@ -0,0 +1,61 @@
+/**
+ * Personal Potions V2 - Electrolyte Form Interfaces
+ *
+ * Catalog of the compounds each electrolyte can be supplied as, the rules that
+ * choose between them, and the selection reported with every formulation
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts } from './interfaces';
+import type { ElectrolyteForm, HealthCondition, UseCase, DailyGoal, SleepGoal } from './enums';
+
+/**
+ * A compound in the form catalog
+ * Formulation amounts are elemental mg; divide by elementalFraction for compound mg
+ */
+export interface ElectrolyteFormInfo {
+  form: ElectrolyteForm;
+  electrolyte: keyof ElectrolyteAmounts;
+  compound: string; // "Trisodium citrate dihydrate"
+  elementalFraction: number; // Elemental mass / compound mass
+}
+
+/**
+ * What a form selection was decided by, highest priority first:
+ * condition rules, then customer preference, use case rules, goal rules, and the default form
+ */
+export type ElectrolyteFormSource = 'condition' | 'preference' | 'use-case' | 'goal' | 'default';
+
+/**
+ * Rule choosing a form when any of its triggers match the customer
+ */
+export interface ElectrolyteFormRule {
+  id: string; // "bedtime.magnesium.glycinate"
+  source: 'condition' | 'use-case' | 'goal';
+  electrolyte: keyof ElectrolyteAmounts;
+  form: ElectrolyteForm;
+  when: {
+    conditions?: HealthCondition[];
+    useCases?: UseCase[];
+    dailyGoals?: DailyGoal[];
+    sleepGoals?: SleepGoal[];
+  };
+  reason: string;
+}
+
+/**
+ * Form chosen for one electrolyte of a formulation
+ */
+export interface ElectrolyteFormSelection {
+  electrolyte: keyof ElectrolyteAmounts;
+  form: ElectrolyteForm;
+  source: ElectrolyteFormSource;
+  ruleId?: string; // Set when a rule decided the form
+  reason: string;
+  elementalFraction: number;
+}
+
+/**
+ * Customer form preferences, one optional form per electrolyte
+ */
+export type ElectrolyteFormPreferences = Partial<Record<keyof ElectrolyteAmounts, ElectrolyteForm>>;
@@ -32,6 +32,14 @@ export type WorkoutIntensity =
   | 'high' 
   | 'very-high';
 
+// Usual workout start, used to time workout doses
+export type WorkoutTime = 
+  | 'early-morning' 
+  | 'morning' 
+  | 'midday' 
+  | 'afternoon' 
+  | 'evening';
+
 export type WorkoutFrequency = 
   | 'never' 
   | '1-per-week' 
@@ -39,6 +47,80 @@ export type WorkoutFrequency =
   | '4-6-per-week' 
   | 'daily';
 
+// Uploaded workout files the training importer can parse
+export type WorkoutFileFormat = 
+  | 'fit' 
+  | 'tcx' 
+  | 'gpx';
+
+export type PregnancyTrimester = 
+  | 'first' 
+  | 'second' 
+  | 'third';
+
+// Pregnancy takes priority when a customer is both pregnant and breastfeeding
+export type MaternalStatus = 
+  | 'pregnant' 
+  | 'lactating';
+
+export type GuardianRelationship = 
+  | 'parent' 
+  | 'legal-guardian';
+
+export type TrainingEnvironment = 
+  | 'indoor' 
+  | 'outdoor' 
+  | 'both';
+
+export type ProductFormatId = 
+  | 'bottle-16oz' 
+  | 'can-12oz' 
+  | 'bottle-1l' 
+  | 'stick-pack';
+
+// Flavor preferences
+export type FlavorFamily = 
+  | 'citrus' 
+  | 'berry' 
+  | 'tropical' 
+  | 'mint' 
+  | 'cucumber' 
+  | 'unflavored';
+
+export type SweetenerType = 
+  | 'cane-sugar' 
+  | 'stevia' 
+  | 'monk-fruit' 
+  | 'allulose' 
+  | 'none';
+
+export type SweetnessIntensity = 
+  | 'none' 
+  | 'light' 
+  | 'moderate' 
+  | 'bold';
+
+// Units of measure customers may answer in; lb, fl oz, °F and ft are canonical
+export type WeightUnit = 
+  | 'lb' 
+  | 'kg';
+
+export type VolumeUnit = 
+  | 'fl-oz' 
+  | 'ml';
+
+export type TemperatureUnit = 
+  | 'F' 
+  | 'C';
+
+export type AltitudeUnit = 
+  | 'ft' 
+  | 'm';
+
+export type UnitSystem = 
+  | 'imperial' 
+  | 'metric';
+
 export type UseCase = 
   | 'daily' 
   | 'sweat' 
@@ -87,6 +169,15 @@ export type HealthCondition =
   | 'diabetes' 
   | 'osteoporosis';
 
+// Medications that interact with sodium or potassium
+export type Medication = 
+  | 'thiazide-diuretic' 
+  | 'loop-diuretic' 
+  | 'potassium-sparing-diuretic' 
+  | 'ace-inhibitor' 
+  | 'arb' 
+  | 'lithium';
+
 export type ExerciseType = 
   | 'cardio' 
   | 'strength-training' 
@@ -100,6 +191,29 @@ export type HangoverTiming =
   | 'during' 
   | 'after';
 
+// Post-consumption feedback: symptom severity and 1 (poor) - 5 (great) ratings
+export type SymptomSeverity = 
+  | 'none' 
+  | 'mild' 
+  | 'moderate' 
+  | 'severe';
+
+export type FeedbackRating = 1 | 2 | 3 | 4 | 5;
+
+// When a dose is taken in the daily dosing schedule
+export type DoseTiming = 
+  | 'on-waking' 
+  | 'morning' 
+  | 'midday' 
+  | 'afternoon' 
+  | 'evening' 
+  | 'pre-workout' 
+  | 'during-workout' 
+  | 'post-workout' 
+  | 'before-drinking' 
+  | 'during-drinking' 
+  | 'bedtime';
+
 export type HangoverSymptom = 
   | 'headache' 
   | 'nausea' 
@@ -118,6 +232,14 @@ export type IntakeLevel =
 
 export type ElectrolyteForm = 
   | 'sodium-chloride' 
+  | 'sodium-citrate' 
+  | 'sodium-bicarbonate' 
+  | 'potassium-chloride' 
   | 'potassium-citrate' 
   | 'magnesium-glycinate' 
-  | 'calcium-citrate'; 
\ No newline at end of file
+  | 'magnesium-citrate' 
+  | 'magnesium-malate' 
+  | 'magnesium-threonate' 
+  | 'calcium-citrate' 
+  | 'calcium-lactate' 
+  | 'calcium-carbonate'; 
\ No newline at end of file
@@ -0,0 +1,71 @@
+/**
+ * Personal Potions V2 - Feedback & Reformulation Interfaces
+ *
+ * Post-consumption feedback collected per formulation, the rules that turn it
+ * into bounded per-serving adjustments, and the reformulation proposal linked
+ * back to the original formulation result
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts } from './interfaces';
+import type { ContraindicationReport } from './contraindication-interfaces';
+import type { FeedbackRating, SymptomSeverity, UseCase } from './enums';
+
+/**
+ * How a formulation worked for the customer
+ */
+export interface FormulationFeedback {
+  cramps: SymptomSeverity;
+  giUpset: SymptomSeverity;
+  sleepQuality: FeedbackRating;
+  taste: FeedbackRating;
+  energy: FeedbackRating;
+  comments?: string;
+}
+
+export type FeedbackSymptom = 'cramps' | 'giUpset';
+export type FeedbackRatingField = 'sleepQuality' | 'taste' | 'energy';
+
+/**
+ * Per-serving adjustment triggered by a feedback answer
+ */
+export type ReformulationRule = {
+  id: string; // "gi-upset.magnesium.lower" - reported on the adjustment
+  electrolyte: keyof ElectrolyteAmounts;
+  percent: number; // -20 lowers the per-serving amount 20%
+  reason: string;
+} & (
+  | { signal: FeedbackSymptom; severities: readonly SymptomSeverity[] }
+  | { signal: FeedbackRatingField; ratings: readonly FeedbackRating[] }
+);
+
+/**
+ * Net change to one electrolyte, after REFORMULATION_LIMITS and safety limits
+ */
+export interface ReformulationAdjustment {
+  electrolyte: keyof ElectrolyteAmounts;
+  ruleIds: string[];
+  requestedPercent: number; // Sum of the matching rules
+  appliedPercent: number; // Actual change from previousMg to proposedMg
+  previousMg: number;
+  proposedMg: number;
+  limitedBy?: string; // Constant or rule that bounded the change, e.g. "SAFETY_LIMITS.sweat.magnesium"
+}
+
+/**
+ * Proposed per-serving amounts for a formulation, linked to the result it adjusts
+ */
+export interface ReformulationProposal {
+  sourceResultId: string; // formulation_results.id of the original formulation
+  feedbackId?: string;
+  useCase: UseCase;
+  formulaVersion: string;
+  servingsPerDay: number; // Stored servings_per_day of the original result
+  previousPerServing: ElectrolyteAmounts;
+  proposedPerServing: ElectrolyteAmounts;
+  adjustments: ReformulationAdjustment[];
+  contraindications: ContraindicationReport; // Screening of the proposed amounts; block rules hold the proposal
+  reasons: string[]; // Matching rule reasons, in rule order
+  changed: boolean;
+  createdAt: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * Personal Potions V2 - Flavor Interfaces
+ *
+ * Customer flavor and sweetener preferences, the flavor catalog, and the
+ * flavor match reporting whether magnesium and potassium bitterness is masked
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { FlavorFamily, SweetenerType, SweetnessIntensity } from './enums';
+
+/**
+ * Flavor answers from the survey; missing fields use DEFAULT_FLAVOR_PROFILE
+ */
+export interface FlavorProfile {
+  family: FlavorFamily;
+  sweetener: SweetenerType;
+  sweetness: SweetnessIntensity;
+  sugarFree: boolean; // Sugar-free requirement, rules out cane sugar
+}
+
+/**
+ * Bitter electrolytes that flavors have to cover
+ */
+export type BitterElectrolyte = 'magnesium' | 'potassium';
+
+/**
+ * A flavor in the catalog
+ */
+export interface FlavorInfo {
+  family: FlavorFamily;
+  label: string;
+  maskingCapacityMg: Record<BitterElectrolyte, number>; // Per serving at moderate sweetness
+}
+
+/**
+ * A sweetener in the catalog
+ */
+export interface SweetenerInfo {
+  sweetener: SweetenerType;
+  label: string;
+  sugarFree: boolean;
+}
+
+/**
+ * Whether the flavor covers one bitter electrolyte at the calculated dose
+ */
+export interface BitternessCheck {
+  electrolyte: BitterElectrolyte;
+  mgPerServing: number;
+  maskableMg: number; // Masking capacity scaled by sweetness
+  masked: boolean;
+}
+
+/**
+ * Flavor matched to a formulation
+ */
+export interface FlavorMatch {
+  profile: FlavorProfile; // Resolved customer preferences
+  masked: boolean; // Every bitter electrolyte is covered
+  bitterness: BitternessCheck[];
+  alternatives: FlavorFamily[]; // Other flavors that mask every dose at the same sweetness
+  note?: string; // Set when the chosen flavor cannot mask the doses
+}
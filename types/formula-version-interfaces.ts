@@ -0,0 +1,131 @@
+/**
+ * Personal Potions V2 - Formula Version Interfaces
+ *
+ * Versioned constants snapshots consumed by the calculation engine
+ * Kept separate from calculation interfaces to follow the 200-300 line file size rule
+ */
+
+import type {
+  ActivityMultiplierMap,
+  SweatAdditions,
+  UseCaseRatios,
+  GoalMultipliers,
+  SleepGoalMultipliers,
+  HangoverTimingMultipliers,
+  HangoverSymptomMultipliers,
+  SafetyLimitMap,
+  ElectrolyteForms,
+} from './interfaces';
+import type {
+  ENGINE_STAGES,
+  POTASSIUM_AGE_MULTIPLIERS,
+  MAGNESIUM_RDA,
+  MAGNESIUM_REFERENCE_WEIGHTS,
+  CALCIUM_RDA,
+  MATERNAL_MAGNESIUM_RDA,
+  MATERNAL_CALCIUM_RDA,
+  MATERNAL_SAFETY_LIMITS,
+  YOUTH_SAFETY_LIMITS,
+  REFORMULATION_LIMITS,
+  SWEAT_MULTIPLIERS,
+  DURATION_MULTIPLIERS,
+  INTENSITY_MULTIPLIERS,
+  EXERCISE_TYPE_MULTIPLIERS,
+  WORKOUT_SESSIONS_PER_WEEK,
+  SWEAT_RATE_BASELINE,
+  PRODUCT_FORMATS,
+  WORKOUT_START_TIMES,
+  WORKOUT_DURATION_MINUTES,
+  DAILY_DOSE_SLOTS,
+  DOSING_DEFAULTS,
+} from './constants';
+import type { ProductFormatId } from './enums';
+import type { EnvironmentBand, EnvironmentFactor } from './calculation-interfaces';
+import type { ContraindicationRule, MedicationInteractionRule } from './contraindication-interfaces';
+import type { ElectrolyteFormRule } from './electrolyte-form-interfaces';
+import type { ReformulationRule } from './feedback-interfaces';
+
+/**
+ * Lifecycle of a registered formula version
+ * Deprecated versions still calculate for customers already on them but are never the default;
+ * retired versions are kept for reference but can no longer be calculated
+ */
+export type FormulaVersionStatus = 'stable' | 'preview' | 'deprecated' | 'retired';
+
+/**
+ * Constants snapshot consumed by the calculation engine
+ * Keys mirror the constant names in constants.ts so trace sources stay identical
+ */
+export interface FormulaConstants {
+  ENGINE_STAGES: typeof ENGINE_STAGES;
+  SERVING_SIZE: string;
+  SODIUM_BASE: number;
+  SODIUM_WEIGHT_MULTIPLIER: number;
+  POTASSIUM_BASE: number;
+  POTASSIUM_AGE_MULTIPLIERS: typeof POTASSIUM_AGE_MULTIPLIERS;
+  MAGNESIUM_RDA: typeof MAGNESIUM_RDA;
+  MAGNESIUM_REFERENCE_WEIGHTS: typeof MAGNESIUM_REFERENCE_WEIGHTS;
+  CALCIUM_RDA: typeof CALCIUM_RDA;
+  MATERNAL_MAGNESIUM_RDA?: typeof MATERNAL_MAGNESIUM_RDA; // Without it, pregnancy and lactation use the regular RDAs
+  MATERNAL_CALCIUM_RDA?: typeof MATERNAL_CALCIUM_RDA;
+  ACTIVITY_MULTIPLIERS: ActivityMultiplierMap;
+  SWEAT_ADDITIONS: SweatAdditions;
+  USE_CASE_RATIOS: UseCaseRatios;
+  GOAL_MULTIPLIERS: GoalMultipliers;
+  SLEEP_GOAL_MULTIPLIERS: SleepGoalMultipliers;
+  HANGOVER_TIMING_MULTIPLIERS: HangoverTimingMultipliers;
+  HANGOVER_SYMPTOM_MULTIPLIERS: HangoverSymptomMultipliers;
+  SAFETY_LIMITS: SafetyLimitMap;
+  MATERNAL_SAFETY_LIMITS: typeof MATERNAL_SAFETY_LIMITS;
+  YOUTH_SAFETY_LIMITS: typeof YOUTH_SAFETY_LIMITS;
+  CONTRAINDICATION_RULES: readonly ContraindicationRule[];
+  MEDICATION_INTERACTION_RULES: readonly MedicationInteractionRule[];
+  REFORMULATION_RULES: readonly ReformulationRule[];
+  REFORMULATION_LIMITS: typeof REFORMULATION_LIMITS;
+  DEFAULT_ELECTROLYTE_FORMS: ElectrolyteForms;
+  ELECTROLYTE_FORM_RULES: readonly ElectrolyteFormRule[];
+
+  // Sweat loss estimate and sweat use case detection
+  SWEAT_MULTIPLIERS: typeof SWEAT_MULTIPLIERS;
+  DURATION_MULTIPLIERS: typeof DURATION_MULTIPLIERS;
+  INTENSITY_MULTIPLIERS: typeof INTENSITY_MULTIPLIERS;
+  EXERCISE_TYPE_MULTIPLIERS: typeof EXERCISE_TYPE_MULTIPLIERS;
+  WORKOUT_SESSIONS_PER_WEEK: typeof WORKOUT_SESSIONS_PER_WEEK;
+  SWEAT_RATE_BASELINE: typeof SWEAT_RATE_BASELINE;
+  SWEAT_SODIUM_CONCENTRATION: number;
+  SWEAT_USE_CASE_WEEKLY_SODIUM_THRESHOLD: number;
+  ENVIRONMENT_ADJUSTMENTS: Readonly<Record<EnvironmentFactor['factor'], readonly EnvironmentBand[]>>;
+
+  // Product formats, serving counts and dosing
+  PRODUCT_FORMATS: typeof PRODUCT_FORMATS;
+  DEFAULT_PRODUCT_FORMAT: ProductFormatId;
+  REFERENCE_SERVING_VOLUME_ML: number;
+  MAX_SERVINGS_PER_DAY: number;
+  WORKOUT_START_TIMES: typeof WORKOUT_START_TIMES;
+  WORKOUT_DURATION_MINUTES: typeof WORKOUT_DURATION_MINUTES;
+  DAILY_DOSE_SLOTS: typeof DAILY_DOSE_SLOTS;
+  DOSING_DEFAULTS: typeof DOSING_DEFAULTS;
+}
+
+/**
+ * Named engine version with its own frozen constants snapshot
+ */
+export interface FormulaVersionDefinition {
+  version: string; // e.g. "1.4"
+  status: FormulaVersionStatus;
+  releasedAt: string; // ISO date
+  description: string;
+  constants: Readonly<FormulaConstants>;
+}
+
+/**
+ * Result of resolving a requested formula version against the registry
+ */
+export interface FormulaVersionResolution {
+  success: boolean;
+  definition?: FormulaVersionDefinition;
+  error?: {
+    code: 'UNKNOWN_FORMULA_VERSION' | 'FORMULA_VERSION_RETIRED';
+    message: string;
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Personal Potions V2 - Guardian Consent Interfaces
+ *
+ * Consent from a parent or legal guardian, attached to the survey of a
+ * customer under AGE_OF_MAJORITY; their formulations stay unorderable until
+ * the guardian the minor named grants consent from their own account
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ConsentGrant } from './auth-interfaces';
+import type { GuardianRelationship } from './enums';
+
+/**
+ * How the guardian granting consent was verified
+ * guardian-account: granted while signed in to the guardian's own account, whose
+ * email matches the guardian the minor named
+ */
+export type GuardianVerificationMethod = 'guardian-account';
+
+/**
+ * Guardian named on a minor's survey, stored on customer_surveys.guardian_contact
+ * Naming a guardian does not grant consent
+ */
+export interface GuardianContact {
+  guardianName: string;
+  guardianEmail: string;
+  relationship: GuardianRelationship;
+  requestedAt: Date;
+}
+
+/**
+ * Guardian consent record stored on customer_surveys.guardian_consent
+ */
+export interface GuardianConsent extends ConsentGrant {
+  consentType: 'guardian-consent';
+  guardianName: string;
+  guardianEmail: string;
+  relationship: GuardianRelationship;
+  guardianUserId: string; // auth.users.id of the guardian account that granted consent
+  verification: GuardianVerificationMethod;
+  verifiedAt: Date;
+}
+
+/**
+ * Whether a survey needs guardian consent and whether it has been captured
+ */
+export interface GuardianConsentStatus {
+  required: boolean;
+  captured: boolean;
+  guardian?: GuardianContact; // Guardian named by the minor, once requested
+  consent?: GuardianConsent;
+}
+
+/**
+ * Why a signed-in user may not grant consent on a survey
+ */
+export type GuardianConsentDenial = 'not-required' | 'not-requested' | 'not-named-guardian' | 'own-survey';
@@ -8,6 +8,22 @@
 // Core types
 export * from './enums';
 export * from './interfaces';
+export * from './calculation-interfaces';
+export * from './formula-version-interfaces';
+export * from './kit-interfaces';
+export * from './safety-interfaces';
+export * from './contraindication-interfaces';
+export * from './unit-interfaces';
+export * from './product-format-interfaces';
+export * from './electrolyte-form-interfaces';
+export * from './flavor-interfaces';
+export * from './recipe-interfaces';
+export * from './production-interfaces';
+export * from './guardian-consent-interfaces';
+export * from './dosing-interfaces';
+export * from './what-if-interfaces';
+export * from './feedback-interfaces';
+export * from './workout-import-interfaces';
 export * from './constants';
 export * from './validators';
 
@@ -23,4 +39,5 @@ export * from './auth-api-contracts';
 
 // Utilities (for performance and code reuse)
 export * from './utils';
+export * from './units';
 export * from './auth-utils'; 
\ No newline at end of file
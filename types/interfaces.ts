@@ -10,6 +10,13 @@ import type {
   SweatLevel,
   WorkoutDuration,
   WorkoutIntensity,
+  WorkoutTime,
+  TrainingEnvironment,
+  PregnancyTrimester,
+  WeightUnit,
+  VolumeUnit,
+  TemperatureUnit,
+  AltitudeUnit,
   WorkoutFrequency,
   UseCase,
   DailyGoal,
@@ -17,13 +24,24 @@ import type {
   SleepIssue,
   MenstrualSymptom,
   HealthCondition,
+  Medication,
   ExerciseType,
   HangoverTiming,
   HangoverSymptom,
   IntakeLevel,
-  ElectrolyteForm
+  ElectrolyteForm,
+  ProductFormatId
 } from './enums';
 
+import type { CalculationTraceEntry, UseCaseCandidate, RatioOptimizationReport, SweatLossEstimate, MeasuredSweatData, EnvironmentAdjustment } from './calculation-interfaces';
+import type { SafetyReport } from './safety-interfaces';
+import type { ContraindicationReport } from './contraindication-interfaces';
+import type { EnteredUnits, DisplayUnits } from './unit-interfaces';
+import type { ProductFormatSelection } from './product-format-interfaces';
+import type { ElectrolyteFormPreferences, ElectrolyteFormSelection } from './electrolyte-form-interfaces';
+import type { FlavorProfile, FlavorMatch } from './flavor-interfaces';
+import type { DosingSchedule } from './dosing-interfaces';
+
 // Re-export IntakeLevel for other modules
 export type { IntakeLevel };
 
@@ -43,13 +61,29 @@ export interface CustomerData {
   'sleep-goals'?: SleepGoal[];
   'sleep-issues'?: SleepIssue[];
   'menstrual-symptoms'?: MenstrualSymptom[];
+  
+  // Pregnancy and breastfeeding (female only) - maternal DRIs and safety limits, no menstrual use case
+  'pregnancy-trimester'?: PregnancyTrimester;
+  lactating?: boolean;
   conditions?: HealthCondition[];
+  medications?: Medication[];
   'exercise-type'?: ExerciseType[];
   
   // Workout-specific fields
   'workout-frequency'?: WorkoutFrequency;
   'workout-duration'?: WorkoutDuration;
   'workout-intensity'?: WorkoutIntensity;
+  'workout-time'?: WorkoutTime; // Default: 'afternoon' when scheduling workout doses
+  
+  // Lab sweat test results - replace the sweat-level heuristics when present
+  'sweat-sodium-concentration'?: number; // mmol/L sodium
+  'sweat-rate'?: number; // L/h
+  
+  // Training environment
+  'training-temperature'?: number; // °F, typical training temperature
+  'training-humidity'?: number; // % relative humidity
+  altitude?: number; // feet above sea level
+  'training-environment'?: TrainingEnvironment;
   
   // Hangover-specific fields
   'hangover-timing'?: HangoverTiming;
@@ -70,8 +104,24 @@ export interface CustomerData {
   // Water intake (fl oz)
   'daily-water-intake'?: number; // Default: 64
   
+  // Units of measure - values are normalized to lb, fl oz, °F and ft by applyCustomerDefaults
+  'weight-unit'?: WeightUnit; // Default: 'lb'
+  'water-unit'?: VolumeUnit; // Default: 'fl-oz'
+  'temperature-unit'?: TemperatureUnit; // Default: 'F'
+  'altitude-unit'?: AltitudeUnit; // Default: 'ft'
+  'entered-units'?: EnteredUnits; // Set by normalization, original entries for display
+  
   // Override use case
   usage?: UseCase;
+  
+  // Container the formulation is produced in
+  'product-format'?: ProductFormatId; // Default: 'bottle-16oz'
+  
+  // Preferred compound per electrolyte (condition rules still take priority)
+  'preferred-forms'?: ElectrolyteFormPreferences;
+  
+  // Taste and sweetener answers (missing fields use DEFAULT_FLAVOR_PROFILE)
+  'flavor-profile'?: Partial<FlavorProfile>;
 }
 
 /**
@@ -105,6 +155,7 @@ export interface CalculationMetadata {
   currentIntake: ElectrolyteAmounts;
   deficits: ElectrolyteAmounts;
   electrolyteForms: ElectrolyteForms;
+  formSelections?: ElectrolyteFormSelection[]; // Why each form in electrolyteForms was chosen
   notes: {
     primary: string;
     additional: string[];
@@ -114,13 +165,17 @@ export interface CalculationMetadata {
   customerAge?: number;
   customerWeight?: number;
   detectedUseCase?: UseCase;
+  useCaseCandidates?: UseCaseCandidate[]; // Every matched detection rule, in priority order
+  sweatLoss?: SweatLossEstimate; // Estimated from workout answers and weight
+  measuredSweat?: MeasuredSweatData; // Set when lab sweat test results replaced the sweat-level heuristics
+  environment?: EnvironmentAdjustment; // Temperature, humidity and altitude contributions
   appliedMultipliers?: Record<string, number>;
   safetyLimitsApplied?: boolean;
-  ratioOptimization?: {
-    calciumMagnesiumRatio: number;
-    targetRatio: number;
-    ratioAdjustment: string;
-  };
+  safetyReport?: SafetyReport; // Set by the safety layer after every calculation
+  contraindications?: ContraindicationReport; // Set by the safety layer after every calculation
+  ratioOptimization?: RatioOptimizationReport;
+  calculationTrace?: CalculationTraceEntry[]; // Returned when options.includeMetadata is true
+  units?: DisplayUnits; // Set when the response is rendered, measured values use these units
 }
 
 /**
@@ -129,6 +184,9 @@ export interface CalculationMetadata {
 export interface FormulationResult {
   formulationPerServing: ElectrolyteAmounts;
   useCase: UseCase;
+  productFormat?: ProductFormatSelection; // Format the per-serving amounts are sized for
+  flavor?: FlavorMatch; // Set by the safety layer when the customer gave flavor answers
+  dosingSchedule?: DosingSchedule; // Set by the safety layer after every calculation
   metadata: CalculationMetadata;
 }
 
@@ -253,17 +311,6 @@ export interface SafetyLimitMap {
   hangover: SafetyLimits;
 }
 
-/**
- * Health condition multipliers
- */
-export interface HealthConditionMultipliers {
-  hypertension: Partial<ElectrolyteAmounts>;
-  'kidney-disease': Partial<ElectrolyteAmounts>;
-  'heart-disease': Partial<ElectrolyteAmounts>;
-  diabetes: Partial<ElectrolyteAmounts>;
-  osteoporosis: Partial<ElectrolyteAmounts>;
-}
-
 /**
  * Legacy multiple choice intake estimates (mg)
  */
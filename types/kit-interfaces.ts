@@ -0,0 +1,50 @@
+/**
+ * Personal Potions V2 - Formulation Kit Interfaces
+ *
+ * Kit mode returns several use case formulations for one survey, each with
+ * its own dosing schedule, checked for safety across the combined daily total
+ * Kept separate from calculation interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts, FormulationResult } from './interfaces';
+import type { DosingSchedule } from './dosing-interfaces';
+import type { UseCase } from './enums';
+
+/**
+ * Role of a formulation within a kit
+ * The primary component is the detected use case and is also returned as data.formulation
+ */
+export type KitRole = 'primary' | 'component';
+
+/**
+ * One formulation in a kit with its dosing schedule
+ */
+export interface KitComponent {
+  role: KitRole;
+  useCase: UseCase;
+  reason: string; // Detection reason that qualified this use case
+  formulation: FormulationResult;
+  schedule: DosingSchedule; // Same schedule buildDosingSchedule gives a standalone formulation
+  dailyTotal: ElectrolyteAmounts; // formulationPerServing × servings per day
+}
+
+/**
+ * Reduction applied when the combined daily total exceeds the kit limit
+ */
+export interface KitSafetyAdjustment {
+  electrolyte: keyof ElectrolyteAmounts;
+  combinedTotal: number; // mg/day before adjustment
+  limit: number; // mg/day
+  scaleFactor: number; // Applied to every component's amount above its daily safety minimum
+}
+
+/**
+ * Complete multi-use-case kit
+ */
+export interface FormulationKit {
+  primaryUseCase: UseCase;
+  components: KitComponent[];
+  combinedDailyTotal: ElectrolyteAmounts; // After any safety adjustment
+  combinedDailyLimits: ElectrolyteAmounts;
+  safetyAdjustments: KitSafetyAdjustment[];
+}
@@ -0,0 +1,35 @@
+/**
+ * Personal Potions V2 - Product Format Interfaces
+ *
+ * Containers a formulation can be produced in. Per-serving amounts and servings
+ * per day are recalculated for the chosen format's serving volume and solute load
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ProductFormatId } from './enums';
+
+/**
+ * A sellable container and what one serving of it can carry
+ */
+export interface ProductFormat {
+  id: ProductFormatId;
+  label: string; // "12 fl oz can"
+  servingSize: string; // Reported as metadata.servingSize, e.g. "12 fl oz (355ml)"
+  volumeMl: number; // Container volume; stick packs use the recommended mixing volume
+  servingsPerContainer: number;
+  maxSoluteLoadMg: number; // Total electrolyte mg one serving can carry
+}
+
+/**
+ * Format a formulation was calculated for, returned on FormulationResult
+ */
+export interface ProductFormatSelection {
+  id: ProductFormatId;
+  label: string;
+  servingVolumeMl: number; // volumeMl / servingsPerContainer
+  servingsPerContainer: number;
+  maxSoluteLoadMg: number;
+  servingsPerDay: number; // Servings of this format per day after volume and solute load scaling
+  baseServingsPerDay?: number; // Reference bottle servings per day whose daily limits the format's servings share
+  note?: string; // Set when servings were added to stay within the solute load
+}
@@ -0,0 +1,90 @@
+/**
+ * Personal Potions V2 - Production Planning Interfaces
+ *
+ * Daily production batches built from saved formulations: each batch is split
+ * into machine-sized runs per product format, with raw compound totals for
+ * every run, batch and the whole plan
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts } from './interfaces';
+import type { ElectrolyteForm, ProductFormatId } from './enums';
+import type { RecipeSheet } from './recipe-interfaces';
+
+/**
+ * A saved, orderable formulation to manufacture
+ */
+export interface ProductionOrder {
+  formulationId: string;
+  createdAt: string; // ISO timestamp - decides the production batch
+  servingsPerDay: number;
+  recipe: RecipeSheet;
+}
+
+/**
+ * Total grams of one raw compound to weigh
+ */
+export interface CompoundRequirement {
+  electrolyte: keyof ElectrolyteAmounts;
+  form: ElectrolyteForm;
+  compound: string;
+  grams: number;
+}
+
+/**
+ * Where one formulation is made
+ */
+export interface ProductionAssignment {
+  formulationId: string;
+  batchId: string; // Production date, "2024-03-08"
+  runId: string; // "2024-03-08-R2"
+  position: number; // 1-based fill order within the run
+  productFormat: ProductFormatId;
+  containers: number;
+}
+
+/**
+ * One machine run: a single product format, up to maxContainersPerRun containers
+ */
+export interface ProductionRun {
+  runId: string;
+  runNumber: number; // 1-based within the batch
+  productFormat: ProductFormatId;
+  containers: number;
+  assignments: ProductionAssignment[];
+  compounds: CompoundRequirement[];
+}
+
+/**
+ * All runs for one production day
+ */
+export interface ProductionBatch {
+  batchId: string;
+  productionDate: string; // YYYY-MM-DD (UTC)
+  containers: number;
+  runs: ProductionRun[];
+  compounds: CompoundRequirement[];
+}
+
+/**
+ * Planner settings, defaulting to PRODUCTION_DEFAULTS
+ */
+export interface ProductionPlanOptions {
+  maxContainersPerRun?: number;
+  supplyDays?: number; // Days of servings each formulation is made for
+}
+
+/**
+ * Production plan document for a date range
+ */
+export interface ProductionPlan {
+  from: string; // ISO timestamp
+  to: string; // ISO timestamp
+  maxContainersPerRun: number;
+  supplyDays: number;
+  totalFormulations: number;
+  totalContainers: number;
+  batches: ProductionBatch[];
+  compounds: CompoundRequirement[];
+  generatedAt: string; // ISO timestamp
+}
@@ -0,0 +1,60 @@
+/**
+ * Personal Potions V2 - Compounding Recipe Interfaces
+ *
+ * Production recipe sheet: grams of each raw compound per serving and per
+ * container, rounded to scale precision with a tolerance band for weighing
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts } from './interfaces';
+import type { ElectrolyteForm, ProductFormatId, UseCase } from './enums';
+
+/**
+ * Acceptable weighed range for one compound
+ */
+export interface RecipeToleranceBand {
+  minGrams: number;
+  maxGrams: number;
+}
+
+/**
+ * One raw compound to weigh
+ */
+export interface RecipeIngredient {
+  electrolyte: keyof ElectrolyteAmounts;
+  form: ElectrolyteForm;
+  compound: string;
+  elementalFraction: number;
+  elementalMgPerServing: number; // formulationPerServing amount
+  gramsPerServing: number; // Compound grams, rounded to scale precision
+  gramsPerContainer: number;
+  tolerancePerServing: RecipeToleranceBand;
+  tolerancePerContainer: RecipeToleranceBand;
+}
+
+/**
+ * Recipe sheet generated from a FormulationResult and its electrolyteForms
+ */
+export interface RecipeSheet {
+  useCase: UseCase;
+  formulaVersion: string;
+  productFormat: ProductFormatId;
+  servingSize: string;
+  servingsPerContainer: number;
+  scalePrecisionGrams: number;
+  tolerancePercent: number;
+  ingredients: RecipeIngredient[];
+  totalGramsPerServing: number;
+  totalGramsPerContainer: number;
+  generatedAt: string; // ISO timestamp
+}
+
+/**
+ * Scale settings for a recipe sheet, defaulting to RECIPE_DEFAULTS
+ */
+export interface RecipeSheetOptions {
+  scalePrecisionGrams?: number;
+  tolerancePercent?: number;
+}
+
+export type RecipeSheetFormat = 'json' | 'csv';
@@ -0,0 +1,76 @@
+/**
+ * Personal Potions V2 - Safety Enforcement Interfaces
+ *
+ * Structured report produced by the safety layer that runs after every
+ * CalculationEngine.calculate and clamps per-serving amounts to SAFETY_LIMITS
+ * Kept separate from calculation interfaces to follow the 200-300 line file size rule
+ */
+
+import type { ElectrolyteAmounts, FormulationResult } from './interfaces';
+import type { UseCase } from './enums';
+
+/**
+ * Which side of a SAFETY_LIMITS range was hit
+ */
+export type SafetyLimitBound = 'min' | 'max';
+
+/**
+ * One electrolyte clamped by the safety layer
+ */
+export interface SafetyClamp {
+  electrolyte: keyof ElectrolyteAmounts;
+  useCase: UseCase;
+  originalValue: number; // mg per serving returned by the engine
+  clampedValue: number; // mg per serving after enforcement
+  limitHit: SafetyLimitBound;
+  limit: number; // mg, the bound that was applied
+}
+
+/**
+ * Restricted electrolyte lowered below its serving limits by a health condition or medication rule
+ * The restriction wins over the use case minimum instead of refusing the formulation
+ */
+export interface SafetyRestriction {
+  electrolyte: keyof ElectrolyteAmounts;
+  useCase: UseCase;
+  originalValue: number; // mg per serving returned by the engine
+  restrictedValue: number; // mg per serving after the restriction, 0 when the diet already covers the need
+  ruleId: string;
+  note: string;
+}
+
+/**
+ * Hard limit still violated after clamping (non-numeric amount or unusable limit range)
+ */
+export interface SafetyViolation {
+  electrolyte: keyof ElectrolyteAmounts;
+  useCase: UseCase;
+  value: number;
+  limits: { min: number; max: number };
+  reason: string;
+}
+
+/**
+ * Safety enforcement report attached to every returned formulation
+ */
+export interface SafetyReport {
+  useCase: UseCase;
+  passed: boolean; // false when any hard limit is violated - the formulation is refused
+  clamps: SafetyClamp[];
+  restrictions: SafetyRestriction[];
+  violations: SafetyViolation[];
+}
+
+/**
+ * Result of enforcing safety limits on a formulation
+ */
+export interface SafetyEnforcementResult {
+  success: boolean;
+  formulation?: FormulationResult; // Only present when every hard limit is met
+  report: SafetyReport;
+  error?: {
+    code: 'SAFETY_LIMIT_VIOLATION';
+    message: string;
+    details: string[];
+  };
+}
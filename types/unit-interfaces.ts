@@ -0,0 +1,45 @@
+/**
+ * Personal Potions V2 - Measurement Unit Interfaces
+ *
+ * Original unit entries kept after measurements are normalized to lb, fl oz,
+ * °F and ft, and the unit labels of a response rendered in a unit system
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { WeightUnit, VolumeUnit, TemperatureUnit, AltitudeUnit, UnitSystem } from './enums';
+
+/**
+ * CustomerData fields that carry a unit of measure
+ */
+export type MeasuredField = 'weight' | 'daily-water-intake' | 'training-temperature' | 'altitude';
+
+export type MeasurementUnit = WeightUnit | VolumeUnit | TemperatureUnit | AltitudeUnit;
+
+/**
+ * A measurement exactly as the customer entered it
+ */
+export interface EnteredMeasurement<U extends MeasurementUnit = MeasurementUnit> {
+  value: number;
+  unit: U;
+}
+
+/**
+ * Original entries for measured fields submitted with an explicit unit
+ */
+export interface EnteredUnits {
+  weight?: EnteredMeasurement<WeightUnit>;
+  'daily-water-intake'?: EnteredMeasurement<VolumeUnit>;
+  'training-temperature'?: EnteredMeasurement<TemperatureUnit>;
+  altitude?: EnteredMeasurement<AltitudeUnit>;
+}
+
+/**
+ * Units of the measured values in a rendered formulation
+ */
+export interface DisplayUnits {
+  system: UnitSystem;
+  weight: WeightUnit;
+  volume: VolumeUnit;
+  temperature: TemperatureUnit;
+  altitude: AltitudeUnit;
+}
@@ -0,0 +1,179 @@
+/**
+ * Personal Potions V2 Measurement Units
+ *
+ * The engine, VALIDATION_LIMITS and database constraints work in lb, fl oz, °F
+ * and ft. Metric answers are converted at the boundary (applyCustomerDefaults),
+ * the original entries are kept in 'entered-units', and formulation metadata
+ * can be rendered back in either unit system.
+ */
+
+import type { CustomerData, FormulationResult } from './interfaces';
+import type { UnitSystem } from './enums';
+import type {
+  MeasuredField,
+  MeasurementUnit,
+  EnteredMeasurement,
+  EnteredUnits,
+  DisplayUnits,
+} from './unit-interfaces';
+
+export const LBS_PER_KG = 2.20462;
+export const ML_PER_FL_OZ = 29.5735;
+export const FEET_PER_METER = 3.28084;
+
+/**
+ * Unit field and accepted units for every measured CustomerData field (imperial is canonical)
+ */
+export const MEASURED_FIELDS = Object.freeze({
+  weight: { unitField: 'weight-unit', imperial: 'lb', metric: 'kg' },
+  'daily-water-intake': { unitField: 'water-unit', imperial: 'fl-oz', metric: 'ml' },
+  'training-temperature': { unitField: 'temperature-unit', imperial: 'F', metric: 'C' },
+  altitude: { unitField: 'altitude-unit', imperial: 'ft', metric: 'm' },
+} as const satisfies Record<MeasuredField, { unitField: keyof CustomerData; imperial: MeasurementUnit; metric: MeasurementUnit }>);
+
+export const DISPLAY_UNITS: Readonly<Record<UnitSystem, DisplayUnits>> = Object.freeze({
+  imperial: { system: 'imperial', weight: 'lb', volume: 'fl-oz', temperature: 'F', altitude: 'ft' },
+  metric: { system: 'metric', weight: 'kg', volume: 'ml', temperature: 'C', altitude: 'm' },
+});
+
+export const UNIT_LABELS: Readonly<Record<MeasurementUnit, string>> = Object.freeze({
+  lb: 'lbs',
+  kg: 'kg',
+  'fl-oz': 'fl oz',
+  ml: 'ml',
+  F: '°F',
+  C: '°C',
+  ft: 'ft',
+  m: 'm',
+});
+
+const MEASURED_FIELD_NAMES = Object.keys(MEASURED_FIELDS) as MeasuredField[];
+
+function round(value: number, decimals: number): number {
+  return Number(value.toFixed(decimals));
+}
+
+// Rounded to the precision each field is answered in
+const METRIC_CONVERSIONS: Readonly<Record<MeasuredField, { toImperial: (value: number) => number; toMetric: (value: number) => number }>> = Object.freeze({
+  weight: {
+    toImperial: (kg: number) => round(kg * LBS_PER_KG, 2),
+    toMetric: (lbs: number) => round(lbs / LBS_PER_KG, 1),
+  },
+  'daily-water-intake': {
+    toImperial: (ml: number) => round(ml / ML_PER_FL_OZ, 1),
+    toMetric: (flOz: number) => Math.round(flOz * ML_PER_FL_OZ),
+  },
+  'training-temperature': {
+    toImperial: (celsius: number) => round(celsius * 9 / 5 + 32, 1),
+    toMetric: (fahrenheit: number) => round((fahrenheit - 32) * 5 / 9, 1),
+  },
+  altitude: {
+    toImperial: (meters: number) => Math.round(meters * FEET_PER_METER),
+    toMetric: (feet: number) => Math.round(feet / FEET_PER_METER),
+  },
+});
+
+/**
+ * Whether a unit is accepted for a measured field
+ */
+export function isUnitFor(field: MeasuredField, unit: unknown): unit is MeasurementUnit {
+  return unit === MEASURED_FIELDS[field].imperial || unit === MEASURED_FIELDS[field].metric;
+}
+
+/**
+ * Convert a value in the given unit to the canonical (imperial) unit
+ */
+export function toCanonicalUnit(field: MeasuredField, value: number, unit: MeasurementUnit): number {
+  return unit === MEASURED_FIELDS[field].metric ? METRIC_CONVERSIONS[field].toImperial(value) : value;
+}
+
+/**
+ * Convert a canonical (imperial) value to the given unit
+ */
+export function fromCanonicalUnit(field: MeasuredField, value: number, unit: MeasurementUnit): number {
+  return unit === MEASURED_FIELDS[field].metric ? METRIC_CONVERSIONS[field].toMetric(value) : value;
+}
+
+/**
+ * Converts measured fields submitted with a unit to lb, fl oz, °F and ft
+ * Unit fields are removed and the original entries recorded in 'entered-units',
+ * so already-normalized data passes through unchanged
+ */
+export function normalizeCustomerUnits(data: Partial<CustomerData>): Partial<CustomerData> {
+  const normalized: Partial<CustomerData> = { ...data };
+  const enteredUnits: EnteredUnits = { ...data['entered-units'] };
+
+  MEASURED_FIELD_NAMES.forEach(field => {
+    const { unitField } = MEASURED_FIELDS[field];
+    const unit = data[unitField];
+    const value = data[field];
+    delete normalized[unitField];
+
+    if (!isUnitFor(field, unit) || typeof value !== 'number') return;
+
+    (enteredUnits as Record<MeasuredField, EnteredMeasurement>)[field] = { value, unit };
+    normalized[field] = toCanonicalUnit(field, value, unit);
+  });
+
+  if (Object.keys(enteredUnits).length > 0) {
+    normalized['entered-units'] = enteredUnits;
+  }
+  return normalized;
+}
+
+/**
+ * Unit a measured field was entered in, canonical when entered without one
+ */
+export function getEnteredUnit(customer: Partial<CustomerData>, field: MeasuredField): MeasurementUnit {
+  return customer['entered-units']?.[field]?.unit ?? MEASURED_FIELDS[field].imperial;
+}
+
+/**
+ * Requested unit system, otherwise metric when any measurement was entered in metric
+ */
+export function resolveUnitSystem(requested: UnitSystem | undefined, customer: Partial<CustomerData>): UnitSystem {
+  if (requested) {
+    return requested;
+  }
+
+  const enteredMetric = MEASURED_FIELD_NAMES.some(field => getEnteredUnit(customer, field) === MEASURED_FIELDS[field].metric);
+  return enteredMetric ? 'metric' : 'imperial';
+}
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return value === 'imperial' || value === 'metric';
+}
+
+/**
+ * Renders the measured metadata values (customer weight, environment temperature and altitude)
+ * in a unit system; stored formulations stay canonical
+ */
+export function renderFormulationUnits(formulation: FormulationResult, system: UnitSystem): FormulationResult {
+  const units = DISPLAY_UNITS[system];
+  const { metadata } = formulation;
+
+  return {
+    ...formulation,
+    metadata: {
+      ...metadata,
+      ...(metadata.customerWeight !== undefined && {
+        customerWeight: fromCanonicalUnit('weight', metadata.customerWeight, units.weight),
+      }),
+      ...(metadata.environment && {
+        environment: {
+          ...metadata.environment,
+          factors: metadata.environment.factors.map(factor => {
+            if (factor.factor === 'temperature') {
+              return { ...factor, value: fromCanonicalUnit('training-temperature', factor.value, units.temperature) };
+            }
+            if (factor.factor === 'altitude') {
+              return { ...factor, value: fromCanonicalUnit('altitude', factor.value, units.altitude) };
+            }
+            return factor;
+          }),
+        },
+      }),
+      units,
+    },
+  };
+}
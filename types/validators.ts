@@ -16,6 +16,13 @@ import type {
 import {
   VALIDATION_LIMITS,
   SAFETY_LIMITS,
+  PRODUCT_FORMATS,
+  WORKOUT_START_TIMES,
+  ELECTROLYTE_FORM_CATALOG,
+  MEDICATIONS,
+  FLAVOR_CATALOG,
+  SWEETENERS,
+  SWEETNESS_MASKING_MULTIPLIERS,
   FORMULA_VERSION,
   USE_CASE_DETECTION_ORDER,
   LEGACY_INTAKE_ESTIMATES
@@ -29,10 +36,63 @@ import {
   extractElectrolyteFromField
 } from './utils';
 
+import {
+  MEASURED_FIELDS,
+  UNIT_LABELS,
+  isUnitFor,
+  fromCanonicalUnit,
+  getEnteredUnit,
+  normalizeCustomerUnits
+} from './units';
+
 import type { IntakeLevel } from './enums';
+import type { MeasuredField } from './unit-interfaces';
 
 // ================== CUSTOMER DATA VALIDATION ==================
 
+/**
+ * Flavor answers must come from the catalogs and agree with each other
+ */
+function validateFlavorProfile(profile: CustomerData['flavor-profile']): string[] {
+  if (profile === undefined) return [];
+  if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+    return ['flavor-profile must be an object'];
+  }
+
+  const errors: string[] = [];
+  const { family, sweetener, sweetness, sugarFree } = profile;
+
+  if (family !== undefined && !Object.keys(FLAVOR_CATALOG).includes(family)) {
+    errors.push(`flavor-profile.family must be one of ${Object.keys(FLAVOR_CATALOG).join(', ')}`);
+  }
+  if (sweetener !== undefined && !Object.keys(SWEETENERS).includes(sweetener)) {
+    errors.push(`flavor-profile.sweetener must be one of ${Object.keys(SWEETENERS).join(', ')}`);
+  }
+  if (sweetness !== undefined && !Object.keys(SWEETNESS_MASKING_MULTIPLIERS).includes(sweetness)) {
+    errors.push(`flavor-profile.sweetness must be one of ${Object.keys(SWEETNESS_MASKING_MULTIPLIERS).join(', ')}`);
+  }
+  if (sugarFree !== undefined && typeof sugarFree !== 'boolean') {
+    errors.push('flavor-profile.sugarFree must be true or false');
+  }
+  if (sugarFree === true && sweetener !== undefined && SWEETENERS[sweetener]?.sugarFree === false) {
+    errors.push(`flavor-profile.sweetener ${sweetener} does not meet the sugar-free requirement`);
+  }
+
+  return errors;
+}
+
+/**
+ * Canonical limits expressed in the unit the customer entered the field in
+ */
+function limitsInEnteredUnit(customer: CustomerData, field: MeasuredField, limits: { min: number; max: number }) {
+  const unit = getEnteredUnit(customer, field);
+  return {
+    min: fromCanonicalUnit(field, limits.min, unit),
+    max: fromCanonicalUnit(field, limits.max, unit),
+    label: UNIT_LABELS[unit],
+  };
+}
+
 /**
  * Validates customer input data against V1 framework requirements
  */
@@ -50,7 +110,8 @@ export function validateCustomerData(customer: CustomerData): ValidationResult {
   }
 
   if (!customer.weight || customer.weight < VALIDATION_LIMITS.WEIGHT.min || customer.weight > VALIDATION_LIMITS.WEIGHT.max) {
-    errors.push(`Weight must be between ${VALIDATION_LIMITS.WEIGHT.min} and ${VALIDATION_LIMITS.WEIGHT.max} lbs`);
+    const weightLimits = limitsInEnteredUnit(customer, 'weight', VALIDATION_LIMITS.WEIGHT);
+    errors.push(`Weight must be between ${weightLimits.min} and ${weightLimits.max} ${weightLimits.label}`);
   }
 
   // Supplement validation
@@ -70,6 +131,84 @@ export function validateCustomerData(customer: CustomerData): ValidationResult {
     }
   });
 
+  // Training environment validation (all optional), limits reported in the entered unit
+  const temperatureLimits = limitsInEnteredUnit(customer, 'training-temperature', VALIDATION_LIMITS.TRAINING_TEMPERATURE);
+  const altitudeLimits = limitsInEnteredUnit(customer, 'altitude', VALIDATION_LIMITS.ALTITUDE);
+  const environmentRanges = [
+    { name: 'training-temperature', value: customer['training-temperature'], limits: VALIDATION_LIMITS.TRAINING_TEMPERATURE, shown: temperatureLimits, unit: temperatureLimits.label },
+    { name: 'training-humidity', value: customer['training-humidity'], limits: VALIDATION_LIMITS.TRAINING_HUMIDITY, shown: VALIDATION_LIMITS.TRAINING_HUMIDITY, unit: '%' },
+    { name: 'altitude', value: customer.altitude, limits: VALIDATION_LIMITS.ALTITUDE, shown: altitudeLimits, unit: ` ${altitudeLimits.label}` },
+  ];
+
+  environmentRanges.forEach(({ name, value, limits, shown, unit }) => {
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < limits.min || value > limits.max) {
+      errors.push(`${name} must be between ${shown.min}${unit} and ${shown.max}${unit}`);
+    }
+  });
+
+  // Lab sweat test validation (optional), physiological ranges
+  const sweatTestRanges = [
+    { name: 'sweat-sodium-concentration', value: customer['sweat-sodium-concentration'], limits: VALIDATION_LIMITS.SWEAT_SODIUM_CONCENTRATION, unit: ' mmol/L' },
+    { name: 'sweat-rate', value: customer['sweat-rate'], limits: VALIDATION_LIMITS.SWEAT_RATE, unit: ' L/h' },
+  ];
+
+  sweatTestRanges.forEach(({ name, value, limits, unit }) => {
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < limits.min || value > limits.max) {
+      errors.push(`${name} must be between ${limits.min}${unit} and ${limits.max}${unit}`);
+    }
+  });
+
+  const trainingEnvironment = customer['training-environment'];
+  if (trainingEnvironment !== undefined && !['indoor', 'outdoor', 'both'].includes(trainingEnvironment)) {
+    errors.push('training-environment must be "indoor", "outdoor" or "both"');
+  }
+
+  const workoutTime = customer['workout-time'];
+  if (workoutTime !== undefined && !Object.keys(WORKOUT_START_TIMES).includes(workoutTime)) {
+    errors.push(`workout-time must be one of ${Object.keys(WORKOUT_START_TIMES).join(', ')}`);
+  }
+
+  const productFormat = customer['product-format'];
+  if (productFormat !== undefined && !Object.keys(PRODUCT_FORMATS).includes(productFormat)) {
+    errors.push(`product-format must be one of ${Object.keys(PRODUCT_FORMATS).join(', ')}`);
+  }
+
+  // Preferred forms must be catalog compounds of the electrolyte they are listed under
+  Object.entries(customer['preferred-forms'] || {}).forEach(([electrolyte, form]) => {
+    const info = Object.prototype.hasOwnProperty.call(ELECTROLYTE_FORM_CATALOG, form)
+      ? ELECTROLYTE_FORM_CATALOG[form]
+      : undefined;
+    if (!info || info.electrolyte !== electrolyte) {
+      errors.push(`preferred-forms.${electrolyte} must be a ${electrolyte} form from the electrolyte form catalog`);
+    }
+  });
+
+  // Pregnancy and lactation answers are only accepted from female customers
+  const trimester = customer['pregnancy-trimester'];
+  if (trimester !== undefined && !['first', 'second', 'third'].includes(trimester)) {
+    errors.push('pregnancy-trimester must be "first", "second" or "third"');
+  }
+  if (customer.lactating !== undefined && typeof customer.lactating !== 'boolean') {
+    errors.push('lactating must be true or false');
+  }
+  if (customer['biological-sex'] !== 'female') {
+    if (trimester !== undefined) {
+      errors.push('pregnancy-trimester is only accepted when biological-sex is "female"');
+    }
+    if (customer.lactating === true) {
+      errors.push('lactating is only accepted when biological-sex is "female"');
+    }
+  }
+
+  const medications = customer.medications;
+  if (medications !== undefined && (!Array.isArray(medications) || medications.some(medication => !MEDICATIONS.includes(medication)))) {
+    errors.push(`medications must only contain ${MEDICATIONS.join(', ')}`);
+  }
+
+  errors.push(...validateFlavorProfile(customer['flavor-profile']));
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -77,10 +216,33 @@ export function validateCustomerData(customer: CustomerData): ValidationResult {
   };
 }
 
+/**
+ * Validates the optional unit fields - run on raw input, before applyCustomerDefaults normalizes them away
+ */
+export function validateMeasurementUnits(customer: Partial<CustomerData>): ValidationResult {
+  const errors: string[] = [];
+
+  (Object.keys(MEASURED_FIELDS) as MeasuredField[]).forEach(field => {
+    const { unitField, imperial, metric } = MEASURED_FIELDS[field];
+    const unit = customer[unitField];
+    if (unit !== undefined && !isUnitFor(field, unit)) {
+      errors.push(`${unitField} must be "${imperial}" or "${metric}"`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: [],
+  };
+}
+
 /**
  * Applies default values to customer data as per V1 framework
+ * Measurements entered with a unit are normalized to lb, fl oz, °F and ft first
  */
-export function applyCustomerDefaults(customer: Partial<CustomerData>): CustomerData {
+export function applyCustomerDefaults(input: Partial<CustomerData>): CustomerData {
+  const customer = normalizeCustomerUnits(input);
   return {
     age: customer.age || 30,
     'biological-sex': customer['biological-sex'] || 'male',
@@ -91,11 +253,17 @@ export function applyCustomerDefaults(customer: Partial<CustomerData>): Customer
     'sleep-goals': customer['sleep-goals'] || [],
     'sleep-issues': customer['sleep-issues'] || [],
     'menstrual-symptoms': customer['menstrual-symptoms'] || [],
+    'pregnancy-trimester': customer['pregnancy-trimester'],
+    lactating: customer.lactating,
     conditions: customer.conditions || [],
+    medications: customer.medications,
     'exercise-type': customer['exercise-type'] || [],
     'workout-frequency': customer['workout-frequency'],
     'workout-duration': customer['workout-duration'],
     'workout-intensity': customer['workout-intensity'],
+    'workout-time': customer['workout-time'],
+    'sweat-sodium-concentration': customer['sweat-sodium-concentration'],
+    'sweat-rate': customer['sweat-rate'],
     'hangover-timing': customer['hangover-timing'],
     'hangover-symptoms': customer['hangover-symptoms'] || [],
     'sodium-intake': customer['sodium-intake'] || '7',
@@ -107,7 +275,15 @@ export function applyCustomerDefaults(customer: Partial<CustomerData>): Customer
     'magnesium-supplement': customer['magnesium-supplement'] || 0,
     'calcium-supplement': customer['calcium-supplement'] || 0,
     'daily-water-intake': customer['daily-water-intake'] || 64,
+    'training-temperature': customer['training-temperature'],
+    'training-humidity': customer['training-humidity'],
+    altitude: customer.altitude,
+    'training-environment': customer['training-environment'],
+    'entered-units': customer['entered-units'],
     usage: customer.usage,
+    'product-format': customer['product-format'],
+    'preferred-forms': customer['preferred-forms'],
+    'flavor-profile': customer['flavor-profile'],
   };
 }
 
@@ -0,0 +1,45 @@
+/**
+ * Personal Potions V2 - What-If Interfaces
+ *
+ * Sensitivity analysis: a base survey recalculated with field perturbations,
+ * each compared with the baseline formulation. Nothing is persisted.
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { CustomerData, ElectrolyteAmounts } from './interfaces';
+import type { FormulationComparison } from './calculation-interfaces';
+import type { UseCase } from './enums';
+
+/**
+ * Survey fields to change for one scenario, applied over the base survey
+ */
+export interface WhatIfPerturbation {
+  label?: string; // Defaults to the changed fields, e.g. "workout-frequency=4-6-per-week"
+  changes: Partial<CustomerData>;
+}
+
+/**
+ * Formulation summary shared by the baseline and each scenario
+ */
+export interface WhatIfOutcome {
+  useCase: UseCase;
+  formulationPerServing: ElectrolyteAmounts;
+  servingsPerDay: number;
+}
+
+/**
+ * One perturbation's result; errors replace the outcome when the changed
+ * survey fails validation or is refused by the safety layer
+ */
+export interface WhatIfScenario {
+  label: string;
+  changes: Partial<CustomerData>;
+  outcome?: WhatIfOutcome;
+  comparison?: FormulationComparison; // Baseline as "active", the scenario as "candidate"
+  errors?: string[];
+}
+
+export interface WhatIfAnalysis {
+  baseline: WhatIfOutcome;
+  scenarios: WhatIfScenario[];
+}
@@ -0,0 +1,66 @@
+/**
+ * Personal Potions V2 - Workout Import Interfaces
+ *
+ * Workouts parsed from uploaded FIT, TCX and GPX files and the training
+ * answers proposed from them. Proposals only replace survey answers once the
+ * customer confirms them.
+ * Kept separate from core interfaces to follow the 200-300 line file size rule
+ */
+
+import type { CustomerData } from './interfaces';
+import type { WorkoutFileFormat } from './enums';
+
+/**
+ * One workout session read from an uploaded file
+ */
+export interface ParsedWorkout {
+  fileName: string;
+  format: WorkoutFileFormat;
+  startTime: string; // ISO timestamp
+  durationMinutes: number;
+  averageHeartRate?: number; // bpm, when the file has heart rate data
+}
+
+export interface WorkoutFileError {
+  fileName: string;
+  message: string;
+}
+
+// Survey answers the importer can propose
+export type WorkoutImportField = 'workout-frequency' | 'workout-duration' | 'workout-intensity';
+
+export type WorkoutImportAnswers = Partial<Pick<CustomerData, WorkoutImportField>>;
+
+/**
+ * Proposed answer next to the customer's current one, for confirmation
+ */
+export interface WorkoutAnswerChange {
+  field: WorkoutImportField;
+  current?: string;
+  proposed: string;
+}
+
+/**
+ * Training pattern across the imported workouts
+ */
+export interface WorkoutImportSummary {
+  workoutCount: number;
+  weeksCovered: number;
+  sessionsPerWeek: number;
+  typicalDurationMinutes: number; // Median session length
+  averageHeartRate?: number;
+  heartRatePercentOfMax?: number; // Average heart rate / age-predicted maximum, 0-100
+}
+
+/**
+ * Training answers derived from uploaded workout files
+ * workout-intensity is only proposed when at least one workout has heart rate data
+ */
+export interface WorkoutImportProposal {
+  summary: WorkoutImportSummary;
+  proposed: WorkoutImportAnswers;
+  changes: WorkoutAnswerChange[]; // Proposed answers that differ from the current ones
+  workouts: ParsedWorkout[];
+  errors: WorkoutFileError[]; // Files that could not be parsed
+  requiresConfirmation: true;
+}